@@ -0,0 +1,15 @@
+-- Align database enum types with the TypeScript enums in src/types
+-- (SupportedChain, NodeType, SubscriptionStatus)
+
+-- Chains served by the chain adapter registry
+ALTER TYPE supported_chain ADD VALUE IF NOT EXISTS 'polygon';
+ALTER TYPE supported_chain ADD VALUE IF NOT EXISTS 'avalanche';
+ALTER TYPE supported_chain ADD VALUE IF NOT EXISTS 'bsc';
+
+-- Node types accepted by agent validation
+ALTER TYPE node_type ADD VALUE IF NOT EXISTS 'light_client';
+ALTER TYPE node_type ADD VALUE IF NOT EXISTS 'archive';
+
+-- Subscription statuses use the American spelling in the application
+ALTER TYPE subscription_status RENAME VALUE 'cancelled' TO 'canceled';
+ALTER TYPE subscription_status ADD VALUE IF NOT EXISTS 'trialing';
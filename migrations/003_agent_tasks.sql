@@ -0,0 +1,33 @@
+-- Persistent history of AI agent tasks
+
+CREATE TYPE task_type AS ENUM ('monitor', 'analyze', 'repair', 'optimize', 'alert');
+CREATE TYPE task_status AS ENUM ('pending', 'running', 'completed', 'failed');
+CREATE TYPE task_priority AS ENUM ('low', 'medium', 'high', 'critical');
+
+CREATE TABLE agent_tasks (
+    id VARCHAR(64) PRIMARY KEY,
+    agent_id UUID NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+    type task_type NOT NULL,
+    description TEXT NOT NULL,
+    parameters JSONB DEFAULT '{}',
+    priority task_priority NOT NULL DEFAULT 'medium',
+    status task_status NOT NULL DEFAULT 'pending',
+    result JSONB,
+    error TEXT,
+    tool_calls JSONB DEFAULT '[]',
+    messages JSONB DEFAULT '[]',
+    duration_ms INTEGER,
+    prompt_tokens INTEGER DEFAULT 0,
+    completion_tokens INTEGER DEFAULT 0,
+    total_tokens INTEGER DEFAULT 0,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    completed_at TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_agent_tasks_agent_created ON agent_tasks(agent_id, created_at DESC);
+CREATE INDEX idx_agent_tasks_status ON agent_tasks(status);
+CREATE INDEX idx_agent_tasks_type ON agent_tasks(type);
+
+CREATE TRIGGER update_agent_tasks_updated_at BEFORE UPDATE ON agent_tasks
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
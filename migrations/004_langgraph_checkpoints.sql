@@ -0,0 +1,32 @@
+-- Persistent LangGraph checkpoints so agent threads survive restarts and are shared between replicas
+
+CREATE TABLE langgraph_checkpoints (
+    thread_id VARCHAR(255) NOT NULL,
+    checkpoint_ns VARCHAR(255) NOT NULL DEFAULT '',
+    checkpoint_id VARCHAR(64) NOT NULL,
+    parent_checkpoint_id VARCHAR(64),
+    checkpoint_type VARCHAR(32) NOT NULL,
+    checkpoint BYTEA NOT NULL,
+    metadata_type VARCHAR(32) NOT NULL,
+    metadata BYTEA NOT NULL,
+    -- Plain JSON copy of the metadata for list filters
+    metadata_json JSONB DEFAULT '{}',
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (thread_id, checkpoint_ns, checkpoint_id)
+);
+
+CREATE TABLE langgraph_checkpoint_writes (
+    thread_id VARCHAR(255) NOT NULL,
+    checkpoint_ns VARCHAR(255) NOT NULL DEFAULT '',
+    checkpoint_id VARCHAR(64) NOT NULL,
+    task_id VARCHAR(64) NOT NULL,
+    idx INTEGER NOT NULL,
+    channel VARCHAR(255) NOT NULL,
+    value_type VARCHAR(32),
+    value BYTEA,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (thread_id, checkpoint_ns, checkpoint_id, task_id, idx)
+);
+
+CREATE INDEX idx_langgraph_checkpoints_created_at ON langgraph_checkpoints(created_at);
+CREATE INDEX idx_langgraph_checkpoints_metadata ON langgraph_checkpoints USING GIN (metadata_json);
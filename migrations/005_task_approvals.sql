@@ -0,0 +1,21 @@
+-- Human approval for dangerous agent tool calls
+
+ALTER TYPE task_status ADD VALUE IF NOT EXISTS 'awaiting_approval';
+
+CREATE TYPE approval_status AS ENUM ('pending', 'approved', 'rejected');
+
+CREATE TABLE task_approvals (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    task_id VARCHAR(64) NOT NULL REFERENCES agent_tasks(id) ON DELETE CASCADE,
+    agent_id UUID NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+    tool_calls JSONB NOT NULL DEFAULT '[]',
+    status approval_status NOT NULL DEFAULT 'pending',
+    reason TEXT,
+    decided_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    requested_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    decided_at TIMESTAMP
+);
+
+-- A task waits on at most one approval at a time
+CREATE UNIQUE INDEX idx_task_approvals_pending ON task_approvals(task_id) WHERE status = 'pending';
+CREATE INDEX idx_task_approvals_agent_status ON task_approvals(agent_id, status);
@@ -0,0 +1,26 @@
+-- Billing webhook events and subscription lifecycle
+
+-- One row per provider event; the primary key makes redelivered events no-ops
+CREATE TABLE billing_events (
+    id VARCHAR(255) PRIMARY KEY,
+    type VARCHAR(100) NOT NULL,
+    user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+    stripe_subscription_id VARCHAR(255),
+    amount_cents INTEGER,
+    currency VARCHAR(10),
+    payload JSONB NOT NULL,
+    event_created_at TIMESTAMP NOT NULL,
+    processed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_billing_events_user_id ON billing_events(user_id, event_created_at DESC);
+
+-- Time of the newest provider event applied, so out-of-order deliveries don't roll state back
+ALTER TABLE subscriptions ADD COLUMN billing_updated_at TIMESTAMP;
+
+CREATE UNIQUE INDEX idx_subscriptions_stripe_subscription_id
+    ON subscriptions(stripe_subscription_id) WHERE stripe_subscription_id IS NOT NULL;
+CREATE INDEX idx_subscriptions_stripe_customer_id ON subscriptions(stripe_customer_id);
+
+-- Set when an agent was stopped because its owner's account went past due
+ALTER TABLE agents ADD COLUMN billing_paused_at TIMESTAMP;
@@ -0,0 +1,8 @@
+-- API key authentication: lookup by hash, display prefix, revocation and per-key rate limits
+
+ALTER TABLE api_keys ADD COLUMN key_prefix VARCHAR(16);
+ALTER TABLE api_keys ADD COLUMN rate_limit_per_minute INTEGER;
+ALTER TABLE api_keys ADD COLUMN revoked_at TIMESTAMP;
+ALTER TABLE api_keys ADD COLUMN rotated_at TIMESTAMP;
+
+CREATE UNIQUE INDEX idx_api_keys_key_hash ON api_keys(key_hash);
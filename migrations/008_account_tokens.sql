@@ -0,0 +1,9 @@
+-- Email verification and password reset tokens are stored as SHA-256 hashes
+
+ALTER TABLE users ADD COLUMN verification_expires TIMESTAMP;
+
+-- Outstanding plaintext tokens from before hashing can no longer be matched
+UPDATE users SET verification_token = NULL, reset_password_token = NULL, reset_password_expires = NULL;
+
+CREATE INDEX idx_users_verification_token ON users(verification_token) WHERE verification_token IS NOT NULL;
+CREATE INDEX idx_users_reset_password_token ON users(reset_password_token) WHERE reset_password_token IS NOT NULL;
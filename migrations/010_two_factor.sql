@@ -0,0 +1,22 @@
+-- TOTP two-factor authentication
+
+-- Secrets are AES-256-GCM encrypted by the application
+ALTER TABLE users ADD COLUMN totp_secret TEXT;
+ALTER TABLE users ADD COLUMN totp_pending_secret TEXT;
+ALTER TABLE users ADD COLUMN totp_last_step BIGINT;
+ALTER TABLE users ADD COLUMN two_factor_enabled BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE users ADD COLUMN two_factor_enabled_at TIMESTAMP;
+ALTER TABLE users ADD COLUMN require_2fa_for_node_control BOOLEAN NOT NULL DEFAULT FALSE;
+
+CREATE TABLE two_factor_recovery_codes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    code_hash VARCHAR(64) NOT NULL,
+    used_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_two_factor_recovery_codes_user_id ON two_factor_recovery_codes(user_id);
+
+-- Last time the session's holder passed a 2FA check
+ALTER TABLE auth_sessions ADD COLUMN two_factor_verified_at TIMESTAMP;
@@ -0,0 +1,61 @@
+-- Organizations: shared agent fleets with role-based membership
+
+CREATE TABLE organizations (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(255) NOT NULL,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE organization_members (
+    organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    role VARCHAR(20) NOT NULL CHECK (role IN ('owner', 'admin', 'operator', 'viewer')),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (organization_id, user_id)
+);
+
+CREATE INDEX idx_organization_members_user_id ON organization_members(user_id);
+
+-- NULL keeps the agent personal to user_id; user_id stays the creator either way
+ALTER TABLE agents ADD COLUMN organization_id UUID REFERENCES organizations(id) ON DELETE RESTRICT;
+
+CREATE INDEX idx_agents_organization_id ON agents(organization_id);
+
+CREATE TRIGGER update_organizations_updated_at BEFORE UPDATE ON organizations
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_organization_members_updated_at BEFORE UPDATE ON organization_members
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- agent_stats gains the ownership columns the agent list filters on
+DROP VIEW agent_stats;
+
+CREATE VIEW agent_stats AS
+SELECT
+    a.id,
+    a.user_id,
+    a.organization_id,
+    a.name,
+    a.chain,
+    a.node_type,
+    a.status,
+    COALESCE(latest_metrics.uptime, 0) as current_uptime,
+    COALESCE(latest_metrics.response_time, 0) as current_response_time,
+    COALESCE(latest_metrics.sync_status, false) as current_sync_status,
+    COUNT(alerts.id) FILTER (WHERE alerts.resolved = false) as active_alerts,
+    a.created_at,
+    a.updated_at
+FROM agents a
+LEFT JOIN LATERAL (
+    SELECT uptime, response_time, sync_status
+    FROM agent_metrics am
+    WHERE am.agent_id = a.id
+    ORDER BY am.recorded_at DESC
+    LIMIT 1
+) latest_metrics ON true
+LEFT JOIN alerts ON alerts.agent_id = a.id AND alerts.resolved = false
+GROUP BY a.id, a.user_id, a.organization_id, a.name, a.chain, a.node_type, a.status, latest_metrics.uptime,
+         latest_metrics.response_time, latest_metrics.sync_status, a.created_at, a.updated_at;
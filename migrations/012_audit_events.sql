@@ -0,0 +1,37 @@
+-- Append-only audit log of user, API key and agent actions
+
+-- No foreign keys: events outlive the users, agents and organizations they mention
+CREATE TABLE audit_events (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    occurred_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    actor_type VARCHAR(20) NOT NULL CHECK (actor_type IN ('user', 'api_key', 'agent', 'system')),
+    actor_id UUID,
+    user_id UUID,
+    organization_id UUID,
+    action VARCHAR(100) NOT NULL,
+    target_type VARCHAR(50) NOT NULL,
+    target_id VARCHAR(255),
+    agent_id UUID,
+    changes JSONB,
+    metadata JSONB,
+    ip_address VARCHAR(64),
+    user_agent TEXT
+);
+
+CREATE INDEX idx_audit_events_user_id ON audit_events(user_id, occurred_at DESC);
+CREATE INDEX idx_audit_events_organization_id ON audit_events(organization_id, occurred_at DESC);
+CREATE INDEX idx_audit_events_agent_id ON audit_events(agent_id, occurred_at DESC);
+CREATE INDEX idx_audit_events_action ON audit_events(action);
+
+CREATE OR REPLACE FUNCTION prevent_audit_event_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'audit_events is append-only';
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER audit_events_append_only BEFORE UPDATE OR DELETE ON audit_events
+    FOR EACH ROW EXECUTE FUNCTION prevent_audit_event_changes();
+
+CREATE TRIGGER audit_events_no_truncate BEFORE TRUNCATE ON audit_events
+    FOR EACH STATEMENT EXECUTE FUNCTION prevent_audit_event_changes();
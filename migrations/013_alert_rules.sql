@@ -0,0 +1,8 @@
+-- Alerts raised by the rule engine
+
+-- Identifies the rule behind an alert so it can be resolved automatically
+ALTER TABLE alerts ADD COLUMN rule_key VARCHAR(255);
+
+-- A rule has at most one open alert per agent
+CREATE UNIQUE INDEX idx_alerts_open_rule ON alerts(agent_id, rule_key)
+    WHERE resolved = false AND rule_key IS NOT NULL;
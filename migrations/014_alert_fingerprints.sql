@@ -0,0 +1,41 @@
+-- Alert deduplication by fingerprint, notification cooldown and incident grouping
+
+-- Alerts of the same type for many agents of one user, notified together
+CREATE TABLE alert_incidents (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    type VARCHAR(100) NOT NULL,
+    severity alert_severity NOT NULL,
+    alert_count INTEGER NOT NULL DEFAULT 1,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    last_alert_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    notified_at TIMESTAMP
+);
+
+-- One incident per user and type collects alerts until it is notified
+CREATE UNIQUE INDEX idx_alert_incidents_collecting ON alert_incidents(user_id, type) WHERE notified_at IS NULL;
+CREATE INDEX idx_alert_incidents_created_at ON alert_incidents(created_at) WHERE notified_at IS NULL;
+
+-- The same problem on the same agent; rule alerts are told apart by their rule
+ALTER TABLE alerts
+    ADD COLUMN fingerprint VARCHAR(32) GENERATED ALWAYS AS (md5(agent_id::text || ':' || type || ':' || COALESCE(rule_key, ''))) STORED,
+    ADD COLUMN occurrence_count INTEGER NOT NULL DEFAULT 1,
+    ADD COLUMN last_seen TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    ADD COLUMN last_notified_at TIMESTAMP,
+    ADD COLUMN incident_id UUID REFERENCES alert_incidents(id) ON DELETE SET NULL;
+
+UPDATE alerts SET last_seen = created_at;
+
+-- Keep only the newest open alert per fingerprint
+UPDATE alerts SET resolved = true, resolved_at = CURRENT_TIMESTAMP
+WHERE resolved = false AND id NOT IN (
+    SELECT DISTINCT ON (fingerprint) id FROM alerts
+    WHERE resolved = false
+    ORDER BY fingerprint, created_at DESC
+);
+
+-- Replaced by the fingerprint, which includes the rule
+DROP INDEX idx_alerts_open_rule;
+
+CREATE UNIQUE INDEX idx_alerts_open_fingerprint ON alerts(fingerprint) WHERE resolved = false;
+CREATE INDEX idx_alerts_incident_id ON alerts(incident_id);
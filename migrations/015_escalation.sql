@@ -0,0 +1,59 @@
+-- Alert acknowledgement, escalation policies and on-call schedules
+
+-- Rotation through participants, one shift each, starting at rotation_start
+CREATE TABLE oncall_schedules (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    participants UUID[] NOT NULL,
+    rotation_start TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    shift_hours INTEGER NOT NULL DEFAULT 168 CHECK (shift_hours > 0),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Someone else covers the schedule for a period
+CREATE TABLE oncall_overrides (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    schedule_id UUID NOT NULL REFERENCES oncall_schedules(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    starts_at TIMESTAMP NOT NULL,
+    ends_at TIMESTAMP NOT NULL CHECK (ends_at > starts_at),
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Tiers notified in turn until someone acknowledges
+CREATE TABLE escalation_policies (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    tiers JSONB NOT NULL DEFAULT '[]',
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+ALTER TABLE agents ADD COLUMN escalation_policy_id UUID REFERENCES escalation_policies(id) ON DELETE SET NULL;
+
+-- Acknowledging stops escalation without resolving the alert
+ALTER TABLE alerts
+    ADD COLUMN acknowledged_at TIMESTAMP,
+    ADD COLUMN acknowledged_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    ADD COLUMN escalation_policy_id UUID REFERENCES escalation_policies(id) ON DELETE SET NULL,
+    ADD COLUMN escalation_tier INTEGER,
+    ADD COLUMN next_escalation_at TIMESTAMP;
+
+CREATE INDEX idx_oncall_schedules_user_id ON oncall_schedules(user_id);
+CREATE INDEX idx_oncall_schedules_organization_id ON oncall_schedules(organization_id);
+CREATE INDEX idx_oncall_overrides_schedule_id ON oncall_overrides(schedule_id, ends_at);
+CREATE INDEX idx_escalation_policies_user_id ON escalation_policies(user_id);
+CREATE INDEX idx_escalation_policies_organization_id ON escalation_policies(organization_id);
+CREATE INDEX idx_alerts_next_escalation_at ON alerts(next_escalation_at) WHERE next_escalation_at IS NOT NULL;
+
+CREATE TRIGGER update_oncall_schedules_updated_at BEFORE UPDATE ON oncall_schedules
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_escalation_policies_updated_at BEFORE UPDATE ON escalation_policies
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,169 @@
+-- Per-minute, hourly and daily rollups of agent_metrics, kept longer than raw samples
+
+CREATE TABLE agent_metrics_1m (
+    agent_id UUID NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+    bucket TIMESTAMP NOT NULL,
+    samples INTEGER NOT NULL,
+    uptime_min DOUBLE PRECISION,
+    uptime_avg DOUBLE PRECISION,
+    uptime_max DOUBLE PRECISION,
+    uptime_p95 DOUBLE PRECISION,
+    response_time_min DOUBLE PRECISION,
+    response_time_avg DOUBLE PRECISION,
+    response_time_max DOUBLE PRECISION,
+    response_time_p95 DOUBLE PRECISION,
+    cpu_usage_min DOUBLE PRECISION,
+    cpu_usage_avg DOUBLE PRECISION,
+    cpu_usage_max DOUBLE PRECISION,
+    cpu_usage_p95 DOUBLE PRECISION,
+    memory_usage_min DOUBLE PRECISION,
+    memory_usage_avg DOUBLE PRECISION,
+    memory_usage_max DOUBLE PRECISION,
+    memory_usage_p95 DOUBLE PRECISION,
+    disk_usage_min DOUBLE PRECISION,
+    disk_usage_avg DOUBLE PRECISION,
+    disk_usage_max DOUBLE PRECISION,
+    disk_usage_p95 DOUBLE PRECISION,
+    network_latency_min DOUBLE PRECISION,
+    network_latency_avg DOUBLE PRECISION,
+    network_latency_max DOUBLE PRECISION,
+    network_latency_p95 DOUBLE PRECISION,
+    peer_count_min DOUBLE PRECISION,
+    peer_count_avg DOUBLE PRECISION,
+    peer_count_max DOUBLE PRECISION,
+    peer_count_p95 DOUBLE PRECISION,
+    block_height_min DOUBLE PRECISION,
+    block_height_avg DOUBLE PRECISION,
+    block_height_max DOUBLE PRECISION,
+    block_height_p95 DOUBLE PRECISION,
+    sync_status_avg DOUBLE PRECISION, -- share of samples in sync
+    PRIMARY KEY (agent_id, bucket)
+);
+
+CREATE TABLE agent_metrics_1h (
+    agent_id UUID NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+    bucket TIMESTAMP NOT NULL,
+    samples INTEGER NOT NULL,
+    uptime_min DOUBLE PRECISION,
+    uptime_avg DOUBLE PRECISION,
+    uptime_max DOUBLE PRECISION,
+    uptime_p95 DOUBLE PRECISION,
+    response_time_min DOUBLE PRECISION,
+    response_time_avg DOUBLE PRECISION,
+    response_time_max DOUBLE PRECISION,
+    response_time_p95 DOUBLE PRECISION,
+    cpu_usage_min DOUBLE PRECISION,
+    cpu_usage_avg DOUBLE PRECISION,
+    cpu_usage_max DOUBLE PRECISION,
+    cpu_usage_p95 DOUBLE PRECISION,
+    memory_usage_min DOUBLE PRECISION,
+    memory_usage_avg DOUBLE PRECISION,
+    memory_usage_max DOUBLE PRECISION,
+    memory_usage_p95 DOUBLE PRECISION,
+    disk_usage_min DOUBLE PRECISION,
+    disk_usage_avg DOUBLE PRECISION,
+    disk_usage_max DOUBLE PRECISION,
+    disk_usage_p95 DOUBLE PRECISION,
+    network_latency_min DOUBLE PRECISION,
+    network_latency_avg DOUBLE PRECISION,
+    network_latency_max DOUBLE PRECISION,
+    network_latency_p95 DOUBLE PRECISION,
+    peer_count_min DOUBLE PRECISION,
+    peer_count_avg DOUBLE PRECISION,
+    peer_count_max DOUBLE PRECISION,
+    peer_count_p95 DOUBLE PRECISION,
+    block_height_min DOUBLE PRECISION,
+    block_height_avg DOUBLE PRECISION,
+    block_height_max DOUBLE PRECISION,
+    block_height_p95 DOUBLE PRECISION,
+    sync_status_avg DOUBLE PRECISION, -- share of samples in sync
+    PRIMARY KEY (agent_id, bucket)
+);
+
+CREATE TABLE agent_metrics_1d (
+    agent_id UUID NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+    bucket TIMESTAMP NOT NULL,
+    samples INTEGER NOT NULL,
+    uptime_min DOUBLE PRECISION,
+    uptime_avg DOUBLE PRECISION,
+    uptime_max DOUBLE PRECISION,
+    uptime_p95 DOUBLE PRECISION,
+    response_time_min DOUBLE PRECISION,
+    response_time_avg DOUBLE PRECISION,
+    response_time_max DOUBLE PRECISION,
+    response_time_p95 DOUBLE PRECISION,
+    cpu_usage_min DOUBLE PRECISION,
+    cpu_usage_avg DOUBLE PRECISION,
+    cpu_usage_max DOUBLE PRECISION,
+    cpu_usage_p95 DOUBLE PRECISION,
+    memory_usage_min DOUBLE PRECISION,
+    memory_usage_avg DOUBLE PRECISION,
+    memory_usage_max DOUBLE PRECISION,
+    memory_usage_p95 DOUBLE PRECISION,
+    disk_usage_min DOUBLE PRECISION,
+    disk_usage_avg DOUBLE PRECISION,
+    disk_usage_max DOUBLE PRECISION,
+    disk_usage_p95 DOUBLE PRECISION,
+    network_latency_min DOUBLE PRECISION,
+    network_latency_avg DOUBLE PRECISION,
+    network_latency_max DOUBLE PRECISION,
+    network_latency_p95 DOUBLE PRECISION,
+    peer_count_min DOUBLE PRECISION,
+    peer_count_avg DOUBLE PRECISION,
+    peer_count_max DOUBLE PRECISION,
+    peer_count_p95 DOUBLE PRECISION,
+    block_height_min DOUBLE PRECISION,
+    block_height_avg DOUBLE PRECISION,
+    block_height_max DOUBLE PRECISION,
+    block_height_p95 DOUBLE PRECISION,
+    sync_status_avg DOUBLE PRECISION, -- share of samples in sync
+    PRIMARY KEY (agent_id, bucket)
+);
+
+CREATE INDEX idx_agent_metrics_1m_bucket ON agent_metrics_1m(bucket);
+CREATE INDEX idx_agent_metrics_1h_bucket ON agent_metrics_1h(bucket);
+CREATE INDEX idx_agent_metrics_1d_bucket ON agent_metrics_1d(bucket);
+
+-- Seed the rollups from the raw samples kept so far
+
+INSERT INTO agent_metrics_1m
+SELECT agent_id, date_trunc('minute', recorded_at), COUNT(*),
+       MIN(uptime), AVG(uptime), MAX(uptime), percentile_cont(0.95) WITHIN GROUP (ORDER BY uptime),
+       MIN(response_time), AVG(response_time), MAX(response_time), percentile_cont(0.95) WITHIN GROUP (ORDER BY response_time),
+       MIN(cpu_usage), AVG(cpu_usage), MAX(cpu_usage), percentile_cont(0.95) WITHIN GROUP (ORDER BY cpu_usage),
+       MIN(memory_usage), AVG(memory_usage), MAX(memory_usage), percentile_cont(0.95) WITHIN GROUP (ORDER BY memory_usage),
+       MIN(disk_usage), AVG(disk_usage), MAX(disk_usage), percentile_cont(0.95) WITHIN GROUP (ORDER BY disk_usage),
+       MIN(network_latency), AVG(network_latency), MAX(network_latency), percentile_cont(0.95) WITHIN GROUP (ORDER BY network_latency),
+       MIN(peer_count), AVG(peer_count), MAX(peer_count), percentile_cont(0.95) WITHIN GROUP (ORDER BY peer_count),
+       MIN(block_height), AVG(block_height), MAX(block_height), percentile_cont(0.95) WITHIN GROUP (ORDER BY block_height),
+       AVG(sync_status::int)
+FROM agent_metrics
+GROUP BY agent_id, date_trunc('minute', recorded_at);
+
+INSERT INTO agent_metrics_1h
+SELECT agent_id, date_trunc('hour', recorded_at), COUNT(*),
+       MIN(uptime), AVG(uptime), MAX(uptime), percentile_cont(0.95) WITHIN GROUP (ORDER BY uptime),
+       MIN(response_time), AVG(response_time), MAX(response_time), percentile_cont(0.95) WITHIN GROUP (ORDER BY response_time),
+       MIN(cpu_usage), AVG(cpu_usage), MAX(cpu_usage), percentile_cont(0.95) WITHIN GROUP (ORDER BY cpu_usage),
+       MIN(memory_usage), AVG(memory_usage), MAX(memory_usage), percentile_cont(0.95) WITHIN GROUP (ORDER BY memory_usage),
+       MIN(disk_usage), AVG(disk_usage), MAX(disk_usage), percentile_cont(0.95) WITHIN GROUP (ORDER BY disk_usage),
+       MIN(network_latency), AVG(network_latency), MAX(network_latency), percentile_cont(0.95) WITHIN GROUP (ORDER BY network_latency),
+       MIN(peer_count), AVG(peer_count), MAX(peer_count), percentile_cont(0.95) WITHIN GROUP (ORDER BY peer_count),
+       MIN(block_height), AVG(block_height), MAX(block_height), percentile_cont(0.95) WITHIN GROUP (ORDER BY block_height),
+       AVG(sync_status::int)
+FROM agent_metrics
+GROUP BY agent_id, date_trunc('hour', recorded_at);
+
+INSERT INTO agent_metrics_1d
+SELECT agent_id, date_trunc('day', recorded_at), COUNT(*),
+       MIN(uptime), AVG(uptime), MAX(uptime), percentile_cont(0.95) WITHIN GROUP (ORDER BY uptime),
+       MIN(response_time), AVG(response_time), MAX(response_time), percentile_cont(0.95) WITHIN GROUP (ORDER BY response_time),
+       MIN(cpu_usage), AVG(cpu_usage), MAX(cpu_usage), percentile_cont(0.95) WITHIN GROUP (ORDER BY cpu_usage),
+       MIN(memory_usage), AVG(memory_usage), MAX(memory_usage), percentile_cont(0.95) WITHIN GROUP (ORDER BY memory_usage),
+       MIN(disk_usage), AVG(disk_usage), MAX(disk_usage), percentile_cont(0.95) WITHIN GROUP (ORDER BY disk_usage),
+       MIN(network_latency), AVG(network_latency), MAX(network_latency), percentile_cont(0.95) WITHIN GROUP (ORDER BY network_latency),
+       MIN(peer_count), AVG(peer_count), MAX(peer_count), percentile_cont(0.95) WITHIN GROUP (ORDER BY peer_count),
+       MIN(block_height), AVG(block_height), MAX(block_height), percentile_cont(0.95) WITHIN GROUP (ORDER BY block_height),
+       AVG(sync_status::int)
+FROM agent_metrics
+GROUP BY agent_id, date_trunc('day', recorded_at);
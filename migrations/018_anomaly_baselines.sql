@@ -0,0 +1,16 @@
+-- Learned per-agent baselines for statistical anomaly detection: an EWMA of
+-- each metric plus a 24-slot hour-of-day (UTC) profile stored as JSONB
+CREATE TABLE agent_metric_baselines (
+    agent_id UUID NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+    metric VARCHAR(32) NOT NULL,
+    mean DOUBLE PRECISION NOT NULL DEFAULT 0,
+    variance DOUBLE PRECISION NOT NULL DEFAULT 0,
+    samples INTEGER NOT NULL DEFAULT 0,
+    hourly JSONB NOT NULL DEFAULT '[]',
+    anomalous_streak INTEGER NOT NULL DEFAULT 0,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (agent_id, metric)
+);
+
+CREATE TRIGGER update_agent_metric_baselines_updated_at BEFORE UPDATE ON agent_metric_baselines
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,42 @@
+-- Service level objectives over agent metrics, with hourly good/total
+-- sample counts kept for windows longer than raw retention
+
+-- Blocks behind the network head; NULL when the node does not report it
+ALTER TABLE agent_metrics ADD COLUMN sync_lag INTEGER;
+
+CREATE TABLE slos (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    description TEXT,
+    type VARCHAR(20) NOT NULL CHECK (type IN ('availability', 'latency', 'sync_lag')),
+    threshold DOUBLE PRECISION, -- latency in ms or sync lag in blocks a good sample stays under
+    objective DOUBLE PRECISION NOT NULL CHECK (objective > 0 AND objective < 100), -- percent of good samples
+    window_days INTEGER NOT NULL DEFAULT 30 CHECK (window_days BETWEEN 1 AND 90),
+    burn_alerts BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Agents an SLO covers; several agents make a group measured together
+CREATE TABLE slo_agents (
+    slo_id UUID NOT NULL REFERENCES slos(id) ON DELETE CASCADE,
+    agent_id UUID NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+    PRIMARY KEY (slo_id, agent_id)
+);
+
+CREATE TABLE slo_hourly (
+    slo_id UUID NOT NULL REFERENCES slos(id) ON DELETE CASCADE,
+    bucket TIMESTAMP NOT NULL,
+    good DOUBLE PRECISION NOT NULL,
+    total INTEGER NOT NULL,
+    PRIMARY KEY (slo_id, bucket)
+);
+
+CREATE INDEX idx_slos_user_id ON slos(user_id);
+CREATE INDEX idx_slos_organization_id ON slos(organization_id);
+CREATE INDEX idx_slo_agents_agent_id ON slo_agents(agent_id);
+
+CREATE TRIGGER update_slos_updated_at BEFORE UPDATE ON slos
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,11 @@
+-- Host CPU, memory and disk usage cannot be observed over RPC. Store NULL
+-- until a sidecar reports them instead of a made-up 0.
+ALTER TABLE agent_metrics
+    ALTER COLUMN cpu_usage DROP DEFAULT,
+    ALTER COLUMN memory_usage DROP DEFAULT,
+    ALTER COLUMN disk_usage DROP DEFAULT;
+
+-- Samples stored before any sidecar pushed for the agent only held the default
+UPDATE agent_metrics am
+SET cpu_usage = NULL, memory_usage = NULL, disk_usage = NULL
+WHERE NOT EXISTS (SELECT 1 FROM agent_ingestion_tokens t WHERE t.agent_id = am.agent_id);
@@ -0,0 +1,7 @@
+-- Chains are identified by the adapters registered in src/chains/adapters,
+-- so the database stores the identifier as text instead of keeping an enum
+-- that every new chain would have to extend
+ALTER TABLE agents ALTER COLUMN chain TYPE VARCHAR(32) USING chain::text;
+ALTER TABLE transactions ALTER COLUMN chain TYPE VARCHAR(32) USING chain::text;
+
+DROP TYPE supported_chain;
@@ -0,0 +1,3 @@
+-- Each queue attempt of a task runs on its own LangGraph thread; the
+-- latest attempt is the one whose checkpoints the task history shows
+ALTER TABLE agent_tasks ADD COLUMN attempt INTEGER NOT NULL DEFAULT 1;
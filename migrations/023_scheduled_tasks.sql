@@ -0,0 +1,7 @@
+-- Monitor tasks the scheduler queues are not counted against the plan's
+-- monthly task limit; the limit covers tasks users and alerts request
+ALTER TABLE agent_tasks ADD COLUMN scheduled BOOLEAN NOT NULL DEFAULT false;
+
+UPDATE agent_tasks
+SET scheduled = true
+WHERE type = 'monitor' AND description = 'Perform comprehensive health check and collect metrics';
@@ -0,0 +1,7 @@
+-- Where an SLO's hourly counts begin. Creating an SLO or changing its
+-- threshold or agents recounts them from the raw samples still kept, so
+-- the window may not be fully covered yet.
+ALTER TABLE slos ADD COLUMN history_start TIMESTAMP;
+
+UPDATE slos s
+SET history_start = COALESCE((SELECT MIN(h.bucket) FROM slo_hourly h WHERE h.slo_id = s.id), s.created_at);
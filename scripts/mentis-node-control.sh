@@ -0,0 +1,34 @@
+#!/bin/sh
+# Restricted systemctl wrapper used by the systemd node-control driver.
+#
+# Install as /usr/local/bin/mentis-node-control and allow the backend user to
+# run the underlying systemctl calls without a password, e.g. in sudoers:
+#   mentis ALL=(root) NOPASSWD: /usr/bin/systemctl restart geth.service, \
+#                               /usr/bin/systemctl start geth.service, \
+#                               /usr/bin/systemctl stop geth.service
+#
+# Usage: mentis-node-control <restart|start|stop|status> <unit>
+set -eu
+
+if [ "$#" -ne 2 ]; then
+  echo "usage: $0 <restart|start|stop|status> <unit>" >&2
+  exit 64
+fi
+
+action="$1"
+unit="$2"
+
+case "$action" in
+  restart|start|stop|status) ;;
+  *) echo "unsupported action: $action" >&2; exit 64 ;;
+esac
+
+case "$unit" in
+  ''|-*|*[!A-Za-z0-9@._-]*) echo "invalid unit name: $unit" >&2; exit 64 ;;
+esac
+
+if [ "$action" = "status" ]; then
+  exec systemctl status --no-pager "$unit"
+fi
+
+exec sudo -n systemctl "$action" "$unit"
@@ -0,0 +1,108 @@
+/**
+ * Apply pending SQL migrations from migrations/ in filename order.
+ * Each file runs in one transaction with its row in schema_migrations.
+ */
+const fs = require('fs');
+const path = require('path');
+const { Client } = require('pg');
+
+const MIGRATIONS_DIR = path.join(__dirname, '..', 'migrations');
+
+// Held while migrating so replicas starting together apply each file once
+const MIGRATION_LOCK_ID = 4839201;
+
+/**
+ * Tables a migration creates
+ */
+function createdTables(sql) {
+  return Array.from(sql.matchAll(/CREATE TABLE (?:IF NOT EXISTS )?(\w+)/gi), (match) => match[1]);
+}
+
+/**
+ * Databases created before migrations were tracked had every file present at
+ * the time run by Postgres initdb, in order. They hold a prefix of the
+ * migrations: everything up to the last file whose tables all exist.
+ */
+async function detectLegacyMigrations(client, files) {
+  let applied = 0;
+
+  for (const [index, file] of files.entries()) {
+    const tables = createdTables(fs.readFileSync(path.join(MIGRATIONS_DIR, file), 'utf8'));
+    if (tables.length === 0) {
+      continue;
+    }
+
+    const existing = await client.query(
+      'SELECT COUNT(*)::int AS count FROM unnest($1::text[]) AS name WHERE to_regclass(name) IS NOT NULL',
+      [tables]
+    );
+    if (existing.rows[0].count < tables.length) {
+      break;
+    }
+    applied = index + 1;
+  }
+
+  return files.slice(0, applied);
+}
+
+async function migrate() {
+  const client = new Client({ connectionString: process.env.DATABASE_URL });
+  await client.connect();
+
+  try {
+    await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_ID]);
+
+    const files = fs.readdirSync(MIGRATIONS_DIR).filter((file) => file.endsWith('.sql')).sort();
+
+    const tracked = await client.query(`SELECT to_regclass('schema_migrations') AS name`);
+    if (!tracked.rows[0].name) {
+      const legacy = await detectLegacyMigrations(client, files);
+
+      await client.query('BEGIN');
+      await client.query(
+        `CREATE TABLE schema_migrations (
+           filename VARCHAR(255) PRIMARY KEY,
+           applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+         )`
+      );
+      for (const file of legacy) {
+        await client.query('INSERT INTO schema_migrations (filename) VALUES ($1)', [file]);
+      }
+      await client.query('COMMIT');
+
+      if (legacy.length > 0) {
+        console.log(`Recorded ${legacy.length} migrations already present in the database`);
+      }
+    }
+
+    const applied = new Set(
+      (await client.query('SELECT filename FROM schema_migrations')).rows.map((row) => row.filename)
+    );
+
+    for (const file of files) {
+      if (applied.has(file)) {
+        continue;
+      }
+
+      console.log(`Applying ${file}`);
+      try {
+        await client.query('BEGIN');
+        await client.query(fs.readFileSync(path.join(MIGRATIONS_DIR, file), 'utf8'));
+        await client.query('INSERT INTO schema_migrations (filename) VALUES ($1)', [file]);
+        await client.query('COMMIT');
+      } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+      }
+    }
+
+    console.log('Migration completed successfully');
+  } finally {
+    await client.end();
+  }
+}
+
+migrate().catch((err) => {
+  console.error('Migration failed:', err);
+  process.exit(1);
+});
@@ -0,0 +1,106 @@
+/**
+ * Sign a fixture billing event with BILLING_WEBHOOK_SECRET and POST it to
+ * the webhook endpoint, for exercising the subscription lifecycle locally.
+ *
+ * Usage:
+ *   node scripts/send-billing-event.js <type> --user <userId> [--subscription <id>] [--plan core] [--event <id>]
+ *
+ * Types: checkout.session.completed, invoice.paid, invoice.payment_failed,
+ *        customer.subscription.updated, customer.subscription.deleted
+ *
+ * Sending the same --event id twice checks idempotency.
+ */
+require('dotenv').config();
+const crypto = require('crypto');
+const axios = require('axios');
+
+function parseArgs(argv) {
+  const [type, ...rest] = argv;
+  const options = { type };
+  for (let i = 0; i < rest.length; i += 2) {
+    options[rest[i].replace(/^--/, '')] = rest[i + 1];
+  }
+  return options;
+}
+
+function buildObject(options, now) {
+  const subscription = options.subscription || 'sub_fixture';
+  const period = { start: now, end: now + 30 * 24 * 3600 };
+
+  switch (options.type) {
+    case 'checkout.session.completed':
+      return {
+        object: 'checkout.session',
+        client_reference_id: options.user,
+        customer: options.customer || 'cus_fixture',
+        subscription,
+        metadata: { plan: options.plan || 'core' },
+      };
+    case 'invoice.paid':
+      return {
+        object: 'invoice',
+        subscription,
+        amount_paid: parseInt(options.amount || '1900'),
+        currency: 'usd',
+        lines: { data: [{ period }] },
+      };
+    case 'invoice.payment_failed':
+      return {
+        object: 'invoice',
+        subscription,
+        amount_due: parseInt(options.amount || '1900'),
+        currency: 'usd',
+      };
+    case 'customer.subscription.updated':
+      return {
+        object: 'subscription',
+        id: subscription,
+        status: options.status || 'active',
+        current_period_start: period.start,
+        current_period_end: period.end,
+        cancel_at_period_end: options.cancel === 'true',
+        metadata: { plan: options.plan || 'core' },
+      };
+    case 'customer.subscription.deleted':
+      return { object: 'subscription', id: subscription, status: 'canceled' };
+    default:
+      throw new Error(`Unknown event type: ${options.type}`);
+  }
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const secret = process.env.BILLING_WEBHOOK_SECRET;
+  const url = process.env.BILLING_WEBHOOK_URL || `http://localhost:${process.env.PORT || 3000}/api/billing/webhook`;
+
+  if (!options.type || !secret) {
+    console.error('usage: BILLING_WEBHOOK_SECRET=... node scripts/send-billing-event.js <type> --user <userId> [...]');
+    process.exit(64);
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const event = {
+    id: options.event || `evt_${crypto.randomBytes(12).toString('hex')}`,
+    type: options.type,
+    created: now,
+    data: { object: buildObject(options, now) },
+  };
+
+  const payload = JSON.stringify(event);
+  const signature = crypto.createHmac('sha256', secret).update(`${now}.${payload}`).digest('hex');
+
+  const response = await axios.post(url, payload, {
+    headers: {
+      'Content-Type': 'application/json',
+      'Stripe-Signature': `t=${now},v1=${signature}`,
+    },
+    validateStatus: () => true,
+  });
+
+  console.log(response.status, JSON.stringify(response.data));
+}
+
+main().catch((error) => {
+  console.error(error.message);
+  process.exit(1);
+});
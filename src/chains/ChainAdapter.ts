@@ -0,0 +1,31 @@
+import { SupportedChain, ChainConfig } from '../types';
+import { CollectionResult } from '../collectors';
+
+export type ExplorerLinkType = 'block' | 'tx' | 'address';
+
+export interface HealthCheckResult {
+  status: 'healthy' | 'unhealthy' | 'error';
+  latestBlock?: number;
+  responseTime?: number;
+  error?: string;
+}
+
+export interface FinalityInfo {
+  latestBlock: number;
+  finalizedBlock: number;
+  blocksBehindFinality: number;
+}
+
+/**
+ * Everything the backend needs to know about a chain. Services resolve the
+ * adapter for an agent's chain instead of branching on SupportedChain.
+ */
+export interface ChainAdapter {
+  readonly chain: SupportedChain;
+  readonly config: ChainConfig;
+
+  checkHealth(endpointUrl: string): Promise<HealthCheckResult>;
+  collectMetrics(endpointUrl: string): Promise<CollectionResult>;
+  getFinality(endpointUrl: string): Promise<FinalityInfo>;
+  getExplorerLink(type: ExplorerLinkType, value: string | number): string | undefined;
+}
@@ -0,0 +1,59 @@
+import { SupportedChain, ChainConfig } from '../types';
+import { CosmosCollector, CollectionResult } from '../collectors';
+import { httpGetJson } from '../utils/rpc';
+import { ChainAdapter, ExplorerLinkType, FinalityInfo, HealthCheckResult } from './ChainAdapter';
+
+export class CosmosChainAdapter implements ChainAdapter {
+  readonly chain: SupportedChain = 'cosmos';
+  readonly config: ChainConfig;
+  private collector: CosmosCollector;
+
+  constructor(config: ChainConfig) {
+    this.config = config;
+    this.collector = new CosmosCollector();
+  }
+
+  async checkHealth(endpointUrl: string): Promise<HealthCheckResult> {
+    try {
+      const { syncInfo, latency } = await this.getSyncInfo(endpointUrl);
+      return {
+        status: syncInfo.catching_up ? 'unhealthy' : 'healthy',
+        latestBlock: parseInt(syncInfo.latest_block_height),
+        responseTime: latency,
+      };
+    } catch (error) {
+      return {
+        status: 'error',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  async collectMetrics(endpointUrl: string): Promise<CollectionResult> {
+    return this.collector.collect(endpointUrl);
+  }
+
+  async getFinality(endpointUrl: string): Promise<FinalityInfo> {
+    // Tendermint consensus has single-block finality
+    const { syncInfo } = await this.getSyncInfo(endpointUrl);
+    const latestBlock = parseInt(syncInfo.latest_block_height);
+
+    return {
+      latestBlock,
+      finalizedBlock: latestBlock,
+      blocksBehindFinality: 0,
+    };
+  }
+
+  getExplorerLink(type: ExplorerLinkType, value: string | number): string | undefined {
+    if (!this.config.explorerUrl) {
+      return undefined;
+    }
+    return `${this.config.explorerUrl}/${type}/${value}`;
+  }
+
+  private async getSyncInfo(endpointUrl: string): Promise<{ syncInfo: any; latency: number }> {
+    const { result, latency } = await httpGetJson<any>(`${endpointUrl.replace(/\/+$/, '')}/status`);
+    return { syncInfo: (result.result ?? result).sync_info, latency };
+  }
+}
@@ -0,0 +1,66 @@
+import { SupportedChain, ChainConfig } from '../types';
+import { EvmCollector, CollectionResult } from '../collectors';
+import { jsonRpcRequest } from '../utils/rpc';
+import { ChainAdapter, ExplorerLinkType, FinalityInfo, HealthCheckResult } from './ChainAdapter';
+
+/**
+ * Adapter shared by all EVM chains; each chain only supplies its ChainConfig
+ */
+export class EvmChainAdapter implements ChainAdapter {
+  readonly chain: SupportedChain;
+  readonly config: ChainConfig;
+  private collector: EvmCollector;
+
+  constructor(chain: SupportedChain, config: ChainConfig) {
+    this.chain = chain;
+    this.config = config;
+    this.collector = new EvmCollector();
+  }
+
+  async checkHealth(endpointUrl: string): Promise<HealthCheckResult> {
+    try {
+      const { result, latency } = await jsonRpcRequest<string>(endpointUrl, 'eth_blockNumber');
+      return {
+        status: 'healthy',
+        latestBlock: parseInt(result, 16),
+        responseTime: latency,
+      };
+    } catch (error) {
+      return {
+        status: 'error',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  async collectMetrics(endpointUrl: string): Promise<CollectionResult> {
+    return this.collector.collect(endpointUrl);
+  }
+
+  async getFinality(endpointUrl: string): Promise<FinalityInfo> {
+    const { result } = await jsonRpcRequest<string>(endpointUrl, 'eth_blockNumber');
+    const latestBlock = parseInt(result, 16);
+
+    let finalizedBlock: number;
+    try {
+      const finalized = await jsonRpcRequest<any>(endpointUrl, 'eth_getBlockByNumber', ['finalized', false]);
+      finalizedBlock = parseInt(finalized.result.number, 16);
+    } catch (error) {
+      // Nodes without the "finalized" tag fall back to the configured confirmation depth
+      finalizedBlock = Math.max(latestBlock - this.config.finalityBlocks, 0);
+    }
+
+    return {
+      latestBlock,
+      finalizedBlock,
+      blocksBehindFinality: latestBlock - finalizedBlock,
+    };
+  }
+
+  getExplorerLink(type: ExplorerLinkType, value: string | number): string | undefined {
+    if (!this.config.explorerUrl) {
+      return undefined;
+    }
+    return `${this.config.explorerUrl}/${type}/${value}`;
+  }
+}
@@ -0,0 +1,56 @@
+import { SupportedChain, ChainConfig } from '../types';
+import { SolanaCollector, CollectionResult } from '../collectors';
+import { jsonRpcRequest } from '../utils/rpc';
+import { ChainAdapter, ExplorerLinkType, FinalityInfo, HealthCheckResult } from './ChainAdapter';
+
+export class SolanaChainAdapter implements ChainAdapter {
+  readonly chain: SupportedChain = 'solana';
+  readonly config: ChainConfig;
+  private collector: SolanaCollector;
+
+  constructor(config: ChainConfig) {
+    this.config = config;
+    this.collector = new SolanaCollector();
+  }
+
+  async checkHealth(endpointUrl: string): Promise<HealthCheckResult> {
+    try {
+      const { result, latency } = await jsonRpcRequest<string>(endpointUrl, 'getHealth');
+      const { result: slot } = await jsonRpcRequest<number>(endpointUrl, 'getSlot');
+      return {
+        status: result === 'ok' ? 'healthy' : 'unhealthy',
+        latestBlock: slot,
+        responseTime: latency,
+      };
+    } catch (error) {
+      return {
+        status: 'error',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  async collectMetrics(endpointUrl: string): Promise<CollectionResult> {
+    return this.collector.collect(endpointUrl);
+  }
+
+  async getFinality(endpointUrl: string): Promise<FinalityInfo> {
+    const [latest, finalized] = await Promise.all([
+      jsonRpcRequest<number>(endpointUrl, 'getSlot', [{ commitment: 'processed' }]),
+      jsonRpcRequest<number>(endpointUrl, 'getSlot', [{ commitment: 'finalized' }]),
+    ]);
+
+    return {
+      latestBlock: latest.result,
+      finalizedBlock: finalized.result,
+      blocksBehindFinality: latest.result - finalized.result,
+    };
+  }
+
+  getExplorerLink(type: ExplorerLinkType, value: string | number): string | undefined {
+    if (!this.config.explorerUrl) {
+      return undefined;
+    }
+    return `${this.config.explorerUrl}/${type}/${value}`;
+  }
+}
@@ -0,0 +1,11 @@
+import { EvmChainAdapter } from '../EvmChainAdapter';
+
+export const avalancheAdapter = new EvmChainAdapter('avalanche', {
+  name: 'Avalanche C-Chain',
+  chainId: 43114,
+  rpcUrl: process.env.AVALANCHE_RPC_URL || 'https://api.avax.network/ext/bc/C/rpc',
+  explorerUrl: 'https://snowtrace.io',
+  nativeCurrency: { name: 'Avalanche', symbol: 'AVAX', decimals: 18 },
+  blockTime: 2,
+  finalityBlocks: 1,
+});
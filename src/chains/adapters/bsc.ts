@@ -0,0 +1,11 @@
+import { EvmChainAdapter } from '../EvmChainAdapter';
+
+export const bscAdapter = new EvmChainAdapter('bsc', {
+  name: 'BNB Smart Chain',
+  chainId: 56,
+  rpcUrl: process.env.BSC_RPC_URL || 'https://bsc-dataseed.bnbchain.org',
+  explorerUrl: 'https://bscscan.com',
+  nativeCurrency: { name: 'BNB', symbol: 'BNB', decimals: 18 },
+  blockTime: 3,
+  finalityBlocks: 15,
+});
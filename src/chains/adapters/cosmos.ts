@@ -0,0 +1,11 @@
+import { CosmosChainAdapter } from '../CosmosChainAdapter';
+
+export const cosmosAdapter = new CosmosChainAdapter({
+  name: 'Cosmos Hub',
+  chainId: 0, // Cosmos chain IDs are strings (cosmoshub-4)
+  rpcUrl: process.env.COSMOS_RPC_URL || 'https://cosmos-rpc.publicnode.com',
+  explorerUrl: 'https://www.mintscan.io/cosmos',
+  nativeCurrency: { name: 'Atom', symbol: 'ATOM', decimals: 6 },
+  blockTime: 6,
+  finalityBlocks: 1,
+});
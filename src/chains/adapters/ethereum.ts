@@ -0,0 +1,11 @@
+import { EvmChainAdapter } from '../EvmChainAdapter';
+
+export const ethereumAdapter = new EvmChainAdapter('ethereum', {
+  name: 'Ethereum',
+  chainId: 1,
+  rpcUrl: process.env.ETHEREUM_RPC_URL || 'https://ethereum-rpc.publicnode.com',
+  explorerUrl: 'https://etherscan.io',
+  nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+  blockTime: 12,
+  finalityBlocks: 64,
+});
@@ -0,0 +1,11 @@
+import { EvmChainAdapter } from '../EvmChainAdapter';
+
+export const polygonAdapter = new EvmChainAdapter('polygon', {
+  name: 'Polygon',
+  chainId: 137,
+  rpcUrl: process.env.POLYGON_RPC_URL || 'https://polygon-rpc.com',
+  explorerUrl: 'https://polygonscan.com',
+  nativeCurrency: { name: 'POL', symbol: 'POL', decimals: 18 },
+  blockTime: 2,
+  finalityBlocks: 256,
+});
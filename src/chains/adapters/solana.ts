@@ -0,0 +1,11 @@
+import { SolanaChainAdapter } from '../SolanaChainAdapter';
+
+export const solanaAdapter = new SolanaChainAdapter({
+  name: 'Solana',
+  chainId: 0, // Solana has no numeric chain ID
+  rpcUrl: process.env.SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com',
+  explorerUrl: 'https://explorer.solana.com',
+  nativeCurrency: { name: 'Solana', symbol: 'SOL', decimals: 9 },
+  blockTime: 0.4,
+  finalityBlocks: 32,
+});
@@ -0,0 +1,57 @@
+import fs from 'fs';
+import path from 'path';
+import { SupportedChain } from '../types';
+import { ChainAdapter } from './ChainAdapter';
+
+export * from './ChainAdapter';
+export { EvmChainAdapter } from './EvmChainAdapter';
+
+const adapters = new Map<SupportedChain, ChainAdapter>();
+
+/**
+ * Register or replace the adapter for a chain
+ */
+export function registerChainAdapter(adapter: ChainAdapter): void {
+  adapters.set(adapter.chain, adapter);
+}
+
+/**
+ * Get the adapter for a chain
+ */
+export function getChainAdapter(chain: SupportedChain): ChainAdapter {
+  const adapter = adapters.get(chain);
+  if (!adapter) {
+    throw new Error(`Unsupported chain: ${chain}`);
+  }
+  return adapter;
+}
+
+/**
+ * Chains that have a registered adapter
+ */
+export function getSupportedChains(): SupportedChain[] {
+  return Array.from(adapters.keys());
+}
+
+function isChainAdapter(value: any): value is ChainAdapter {
+  return typeof value?.chain === 'string' && typeof value.checkHealth === 'function';
+}
+
+/**
+ * Register every adapter exported from src/chains/adapters, so adding a
+ * chain takes one file there
+ */
+function loadAdapters(): void {
+  const dir = path.join(__dirname, 'adapters');
+
+  fs.readdirSync(dir)
+    .filter(file => /\.(ts|js)$/.test(file) && !file.endsWith('.d.ts'))
+    .sort()
+    .forEach(file => {
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      const exported = require(path.join(dir, file));
+      Object.values(exported).filter(isChainAdapter).forEach(registerChainAdapter);
+    });
+}
+
+loadAdapters();
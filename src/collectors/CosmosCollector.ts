@@ -0,0 +1,29 @@
+import { httpGetJson } from '../utils/rpc';
+import { BaseCollector, CollectionResult } from './MetricsCollector';
+
+/**
+ * Collector for Cosmos SDK chains via the Tendermint/CometBFT RPC
+ */
+export class CosmosCollector extends BaseCollector {
+  async collect(endpointUrl: string): Promise<CollectionResult> {
+    const errors: string[] = [];
+    const baseUrl = endpointUrl.replace(/\/+$/, '');
+
+    const [status, netInfo] = await Promise.all([
+      this.probe('status', () => httpGetJson<any>(`${baseUrl}/status`, this.timeoutMs), errors),
+      this.probe('net_info', () => httpGetJson<any>(`${baseUrl}/net_info`, this.timeoutMs), errors),
+    ]);
+
+    // Responses are JSON-RPC envelopes; some proxies strip the envelope
+    const statusResult = status ? (status.result.result ?? status.result) : undefined;
+    const netInfoResult = netInfo ? (netInfo.result.result ?? netInfo.result) : undefined;
+
+    const metrics = this.buildMetrics(status, [status, netInfo], {
+      blockHeight: statusResult ? parseInt(statusResult.sync_info.latest_block_height) : undefined,
+      peerCount: netInfoResult ? parseInt(netInfoResult.n_peers) : undefined,
+      syncStatus: statusResult ? statusResult.sync_info.catching_up === false : undefined,
+    });
+
+    return { metrics, errors };
+  }
+}
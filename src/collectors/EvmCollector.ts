@@ -0,0 +1,27 @@
+import { jsonRpcRequest } from '../utils/rpc';
+import { BaseCollector, CollectionResult } from './MetricsCollector';
+
+/**
+ * Collector for Ethereum and other EVM JSON-RPC nodes
+ */
+export class EvmCollector extends BaseCollector {
+  async collect(endpointUrl: string): Promise<CollectionResult> {
+    const errors: string[] = [];
+
+    const [blockNumber, peerCount, syncing] = await Promise.all([
+      this.probe('eth_blockNumber', () => jsonRpcRequest<string>(endpointUrl, 'eth_blockNumber', [], this.timeoutMs), errors),
+      this.probe('net_peerCount', () => jsonRpcRequest<string>(endpointUrl, 'net_peerCount', [], this.timeoutMs), errors),
+      this.probe('eth_syncing', () => jsonRpcRequest<any>(endpointUrl, 'eth_syncing', [], this.timeoutMs), errors),
+    ]);
+
+    const metrics = this.buildMetrics(blockNumber, [blockNumber, peerCount, syncing], {
+      blockHeight: blockNumber ? parseInt(blockNumber.result, 16) : undefined,
+      peerCount: peerCount ? parseInt(peerCount.result, 16) : undefined,
+      // eth_syncing returns false when the node is fully synced, otherwise a progress object
+      syncStatus: syncing ? syncing.result === false : undefined,
+      syncLag: syncing && syncing.result ? parseInt(syncing.result.highestBlock, 16) - parseInt(syncing.result.currentBlock, 16) : undefined,
+    });
+
+    return { metrics, errors };
+  }
+}
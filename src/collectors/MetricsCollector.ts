@@ -0,0 +1,84 @@
+import { CreateAgentMetricsData } from '../models/Agent';
+import { DEFAULT_RPC_TIMEOUT_MS, TimedResult } from '../utils/rpc';
+
+// Host resource usage, which only a sidecar on the node can report
+type ResourceField = 'cpu_usage' | 'memory_usage' | 'disk_usage';
+
+export type CollectedMetrics = Omit<CreateAgentMetricsData, 'agent_id' | ResourceField>
+  & Partial<Pick<CreateAgentMetricsData, ResourceField>>;
+
+export interface CollectionResult {
+  metrics: CollectedMetrics;
+  errors: string[];
+}
+
+export interface MetricsCollector {
+  collect(endpointUrl: string): Promise<CollectionResult>;
+}
+
+export interface ProbeSample {
+  blockHeight?: number;
+  peerCount?: number;
+  syncStatus?: boolean;
+  syncLag?: number; // blocks behind the network head, when the node reports it
+}
+
+/**
+ * Shared plumbing for chain collectors: runs probes, records failures and
+ * turns the probe results into an agent_metrics row.
+ *
+ * CPU, memory and disk usage cannot be observed over RPC and are left out;
+ * stored samples repeat the last values pushed by the agent's sidecar. The
+ * same goes for sync lag when the node is catching up without reporting it.
+ */
+export abstract class BaseCollector implements MetricsCollector {
+  protected timeoutMs: number;
+
+  constructor(timeoutMs: number = DEFAULT_RPC_TIMEOUT_MS) {
+    this.timeoutMs = timeoutMs;
+  }
+
+  abstract collect(endpointUrl: string): Promise<CollectionResult>;
+
+  /**
+   * Run a single probe, returning null and recording the error if it fails
+   */
+  protected async probe<T>(
+    name: string,
+    call: () => Promise<TimedResult<T>>,
+    errors: string[]
+  ): Promise<TimedResult<T> | null> {
+    try {
+      return await call();
+    } catch (error) {
+      errors.push(`${name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return null;
+    }
+  }
+
+  /**
+   * Build the metrics row. The primary probe provides response_time, the
+   * fastest successful probe provides network_latency, and uptime is 100 when
+   * any probe reached the node and 0 otherwise.
+   */
+  protected buildMetrics(
+    primary: TimedResult<any> | null,
+    probes: (TimedResult<any> | null)[],
+    sample: ProbeSample
+  ): CollectedMetrics {
+    const latencies = probes
+      .filter((probe): probe is TimedResult<any> => probe !== null)
+      .map(probe => probe.latency);
+    const reachable = latencies.length > 0;
+
+    return {
+      uptime: reachable ? 100 : 0,
+      response_time: Math.round(primary?.latency ?? 0),
+      network_latency: reachable ? Math.round(Math.min(...latencies)) : 0,
+      peer_count: sample.peerCount ?? 0,
+      block_height: sample.blockHeight ?? 0,
+      sync_status: reachable && (sample.syncStatus ?? false),
+      sync_lag: sample.syncLag ?? (reachable && sample.syncStatus ? 0 : undefined),
+    };
+  }
+}
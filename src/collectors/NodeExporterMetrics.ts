@@ -0,0 +1,63 @@
+import { ParsedSample } from '../utils/prometheus';
+import { CollectedMetrics } from './MetricsCollector';
+
+// Cumulative CPU seconds over all cores, kept between pushes to derive usage
+export interface CpuTotals {
+  idle: number;
+  total: number;
+}
+
+export interface NodeExporterReading {
+  metrics: Partial<CollectedMetrics>;
+  cpu?: CpuTotals;
+}
+
+const IDLE_CPU_MODES = ['idle', 'iowait'];
+
+function percent(value: number): number {
+  return Math.round(Math.min(100, Math.max(0, value)) * 100) / 100;
+}
+
+function find(samples: ParsedSample[], name: string, labels: Record<string, string> = {}): number | undefined {
+  const sample = samples.find(candidate =>
+    candidate.name === name && Object.entries(labels).every(([label, value]) => candidate.labels[label] === value)
+  );
+  return sample && Number.isFinite(sample.value) ? sample.value : undefined;
+}
+
+/**
+ * Host resource usage from a node_exporter scrape. CPU usage is the busy
+ * share since the previous push's counters, so an agent's first push (or
+ * one after a counter reset) reports none.
+ */
+export function readNodeExporter(samples: ParsedSample[], previousCpu: CpuTotals | null, mountpoint: string = '/'): NodeExporterReading {
+  const metrics: Partial<CollectedMetrics> = {};
+
+  const memoryTotal = find(samples, 'node_memory_MemTotal_bytes');
+  const memoryAvailable = find(samples, 'node_memory_MemAvailable_bytes');
+  if (memoryTotal && memoryAvailable !== undefined) {
+    metrics.memory_usage = percent(100 * (1 - memoryAvailable / memoryTotal));
+  }
+
+  const diskSize = find(samples, 'node_filesystem_size_bytes', { mountpoint });
+  const diskAvailable = find(samples, 'node_filesystem_avail_bytes', { mountpoint });
+  if (diskSize && diskAvailable !== undefined) {
+    metrics.disk_usage = percent(100 * (1 - diskAvailable / diskSize));
+  }
+
+  const cpuSamples = samples.filter(sample => sample.name === 'node_cpu_seconds_total' && Number.isFinite(sample.value));
+  if (cpuSamples.length === 0) {
+    return { metrics };
+  }
+
+  const cpu: CpuTotals = {
+    idle: cpuSamples.filter(sample => IDLE_CPU_MODES.includes(sample.labels.mode)).reduce((sum, sample) => sum + sample.value, 0),
+    total: cpuSamples.reduce((sum, sample) => sum + sample.value, 0),
+  };
+
+  if (previousCpu && cpu.total > previousCpu.total && cpu.idle >= previousCpu.idle) {
+    metrics.cpu_usage = percent(100 * (1 - (cpu.idle - previousCpu.idle) / (cpu.total - previousCpu.total)));
+  }
+
+  return { metrics, cpu };
+}
@@ -0,0 +1,39 @@
+import { jsonRpcRequest, RpcError } from '../utils/rpc';
+import { BaseCollector, CollectionResult } from './MetricsCollector';
+
+/**
+ * Collector for Solana JSON-RPC nodes
+ */
+export class SolanaCollector extends BaseCollector {
+  async collect(endpointUrl: string): Promise<CollectionResult> {
+    const errors: string[] = [];
+    let behind = false;
+    let slotsBehind: number | undefined;
+
+    const [slot, health, clusterNodes] = await Promise.all([
+      this.probe('getSlot', () => jsonRpcRequest<number>(endpointUrl, 'getSlot', [], this.timeoutMs), errors),
+      this.probe('getHealth', async () => {
+        try {
+          return await jsonRpcRequest<string>(endpointUrl, 'getHealth', [], this.timeoutMs);
+        } catch (error) {
+          // An unhealthy node still answers; -32005 means it is behind the cluster
+          if (error instanceof RpcError && error.code === -32005) {
+            behind = true;
+            slotsBehind = error.data?.numSlotsBehind ?? undefined;
+          }
+          throw error;
+        }
+      }, errors),
+      this.probe('getClusterNodes', () => jsonRpcRequest<any[]>(endpointUrl, 'getClusterNodes', [], this.timeoutMs), errors),
+    ]);
+
+    const metrics = this.buildMetrics(slot, [slot, health, clusterNodes], {
+      blockHeight: slot?.result,
+      peerCount: clusterNodes ? clusterNodes.result.length : undefined,
+      syncStatus: health ? health.result === 'ok' : behind ? false : undefined,
+      syncLag: slotsBehind,
+    });
+
+    return { metrics, errors };
+  }
+}
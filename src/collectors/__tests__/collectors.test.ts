@@ -0,0 +1,262 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { EvmCollector } from '../EvmCollector';
+import { SolanaCollector } from '../SolanaCollector';
+import { CosmosCollector } from '../CosmosCollector';
+import { readNodeExporter } from '../NodeExporterMetrics';
+import { parseExposition } from '../../utils/prometheus';
+
+type Handler = (body: any, path: string) => { status?: number; body: any } | null;
+
+/**
+ * Local stand-in for a node's RPC endpoint. The handler answers JSON-RPC
+ * calls by method and GET requests by path; returning null drops the
+ * connection so the probe fails.
+ */
+async function startNode(handler: Handler): Promise<{ url: string; close: () => Promise<void> }> {
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      const reply = handler(raw ? JSON.parse(raw) : null, req.url || '/');
+      if (!reply) {
+        req.socket.destroy();
+        return;
+      }
+      res.writeHead(reply.status ?? 200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(reply.body));
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    close: () => new Promise<void>(resolve => server.close(() => resolve())),
+  };
+}
+
+const rpcResult = (body: any, result: any) => ({ body: { jsonrpc: '2.0', id: body.id, result } });
+const rpcError = (body: any, code: number, message: string, data?: any) => ({
+  body: { jsonrpc: '2.0', id: body.id, error: { code, message, data } },
+});
+
+describe('EvmCollector', () => {
+  it('reads block height, peers and sync state from a synced node', async () => {
+    const node = await startNode(body => rpcResult(body, {
+      eth_blockNumber: '0x10',
+      net_peerCount: '0x19',
+      eth_syncing: false,
+    }[body.method as string]));
+
+    try {
+      const { metrics, errors } = await new EvmCollector(1000).collect(node.url);
+
+      expect(errors).toEqual([]);
+      expect(metrics).toMatchObject({
+        uptime: 100,
+        block_height: 16,
+        peer_count: 25,
+        sync_status: true,
+        sync_lag: 0,
+      });
+      expect(metrics.response_time).toBeGreaterThanOrEqual(0);
+    } finally {
+      await node.close();
+    }
+  });
+
+  it('reports the lag of a syncing node', async () => {
+    const node = await startNode(body => rpcResult(body, {
+      eth_blockNumber: '0x64',
+      net_peerCount: '0x3',
+      eth_syncing: { currentBlock: '0x64', highestBlock: '0x96' },
+    }[body.method as string]));
+
+    try {
+      const { metrics } = await new EvmCollector(1000).collect(node.url);
+
+      expect(metrics.sync_status).toBe(false);
+      expect(metrics.sync_lag).toBe(50);
+    } finally {
+      await node.close();
+    }
+  });
+
+  it('leaves host usage out, since RPC cannot observe it', async () => {
+    const node = await startNode(body => rpcResult(body, body.method === 'eth_syncing' ? false : '0x1'));
+
+    try {
+      const { metrics } = await new EvmCollector(1000).collect(node.url);
+
+      expect(metrics.cpu_usage).toBeUndefined();
+      expect(metrics.memory_usage).toBeUndefined();
+      expect(metrics.disk_usage).toBeUndefined();
+    } finally {
+      await node.close();
+    }
+  });
+
+  it('records failed probes and keeps the ones that answered', async () => {
+    const node = await startNode(body => {
+      if (body.method === 'net_peerCount') {
+        return rpcError(body, -32601, 'Method not found');
+      }
+      return rpcResult(body, body.method === 'eth_syncing' ? false : '0xa');
+    });
+
+    try {
+      const { metrics, errors } = await new EvmCollector(1000).collect(node.url);
+
+      expect(errors).toEqual(['net_peerCount: Method not found']);
+      expect(metrics.uptime).toBe(100);
+      expect(metrics.block_height).toBe(10);
+      expect(metrics.peer_count).toBe(0);
+    } finally {
+      await node.close();
+    }
+  });
+
+  it('reports an unreachable node as down', async () => {
+    const node = await startNode(() => null);
+
+    try {
+      const { metrics, errors } = await new EvmCollector(1000).collect(node.url);
+
+      expect(errors).toHaveLength(3);
+      expect(metrics).toMatchObject({ uptime: 0, network_latency: 0, sync_status: false });
+      expect(metrics.sync_lag).toBeUndefined();
+    } finally {
+      await node.close();
+    }
+  });
+});
+
+describe('SolanaCollector', () => {
+  it('reads slot, cluster size and health', async () => {
+    const node = await startNode(body => rpcResult(body, {
+      getSlot: 1234,
+      getHealth: 'ok',
+      getClusterNodes: [{ pubkey: 'a' }, { pubkey: 'b' }, { pubkey: 'c' }],
+    }[body.method as string]));
+
+    try {
+      const { metrics, errors } = await new SolanaCollector(1000).collect(node.url);
+
+      expect(errors).toEqual([]);
+      expect(metrics).toMatchObject({ uptime: 100, block_height: 1234, peer_count: 3, sync_status: true, sync_lag: 0 });
+    } finally {
+      await node.close();
+    }
+  });
+
+  it('treats a node behind the cluster as reachable but out of sync', async () => {
+    const node = await startNode(body => {
+      if (body.method === 'getHealth') {
+        return rpcError(body, -32005, 'Node is behind by 42 slots', { numSlotsBehind: 42 });
+      }
+      return rpcResult(body, body.method === 'getSlot' ? 500 : []);
+    });
+
+    try {
+      const { metrics } = await new SolanaCollector(1000).collect(node.url);
+
+      expect(metrics).toMatchObject({ uptime: 100, block_height: 500, sync_status: false, sync_lag: 42 });
+    } finally {
+      await node.close();
+    }
+  });
+});
+
+describe('CosmosCollector', () => {
+  it('reads height, catch-up state and peers from the Tendermint RPC', async () => {
+    const node = await startNode((_, path) => {
+      if (path === '/status') {
+        return { body: { jsonrpc: '2.0', id: -1, result: { sync_info: { latest_block_height: '987', catching_up: false } } } };
+      }
+      if (path === '/net_info') {
+        return { body: { jsonrpc: '2.0', id: -1, result: { n_peers: '12' } } };
+      }
+      return { status: 404, body: {} };
+    });
+
+    try {
+      const { metrics, errors } = await new CosmosCollector(1000).collect(`${node.url}/`);
+
+      expect(errors).toEqual([]);
+      expect(metrics).toMatchObject({ uptime: 100, block_height: 987, peer_count: 12, sync_status: true });
+    } finally {
+      await node.close();
+    }
+  });
+
+  it('accepts responses without the JSON-RPC envelope', async () => {
+    const node = await startNode((_, path) => ({
+      body: path === '/status'
+        ? { sync_info: { latest_block_height: '5', catching_up: true } }
+        : { n_peers: '2' },
+    }));
+
+    try {
+      const { metrics } = await new CosmosCollector(1000).collect(node.url);
+
+      expect(metrics).toMatchObject({ block_height: 5, peer_count: 2, sync_status: false });
+    } finally {
+      await node.close();
+    }
+  });
+});
+
+describe('readNodeExporter', () => {
+  // A two-core scrape with the given seconds per mode on each core
+  const scrape = (cpu: Record<string, number>, extra: string[] = []) => parseExposition([
+    ...['0', '1'].flatMap(core => Object.entries(cpu).map(([mode, seconds]) =>
+      `node_cpu_seconds_total{cpu="${core}",mode="${mode}"} ${seconds}`
+    )),
+    ...extra,
+  ].join('\n'));
+
+  it('reads memory and disk usage of the requested mountpoint', () => {
+    const { metrics } = readNodeExporter(scrape({}, [
+      'node_memory_MemTotal_bytes 8e9',
+      'node_memory_MemAvailable_bytes 2e9',
+      'node_filesystem_size_bytes{mountpoint="/"} 100',
+      'node_filesystem_avail_bytes{mountpoint="/"} 90',
+      'node_filesystem_size_bytes{mountpoint="/data"} 1000',
+      'node_filesystem_avail_bytes{mountpoint="/data"} 333',
+    ]), null, '/data');
+
+    expect(metrics).toEqual({ memory_usage: 75, disk_usage: 66.7 });
+  });
+
+  it('reports no CPU usage on the first push but returns the counters to keep', () => {
+    const reading = readNodeExporter(scrape({ idle: 100, iowait: 10, user: 40, system: 50 }), null);
+
+    expect(reading.metrics.cpu_usage).toBeUndefined();
+    expect(reading.cpu).toEqual({ idle: 220, total: 400 });
+  });
+
+  it('derives CPU usage from the counters since the previous push', () => {
+    const first = readNodeExporter(scrape({ idle: 100, iowait: 10, user: 40, system: 50 }), null);
+    const second = readNodeExporter(scrape({ idle: 120, iowait: 15, user: 100, system: 65 }), first.cpu!);
+
+    // 50 of 200 CPU seconds since the last push were idle
+    expect(second.metrics.cpu_usage).toBe(75);
+    expect(second.cpu).toEqual({ idle: 270, total: 600 });
+  });
+
+  it.each([
+    ['the counters reset', { idle: 1, user: 1 }],
+    ['no time passed', { idle: 100, user: 100 }],
+  ])('reports no CPU usage when %s', (_case, cpu) => {
+    const reading = readNodeExporter(scrape(cpu), { idle: 200, total: 400 });
+
+    expect(reading.metrics.cpu_usage).toBeUndefined();
+    expect(reading.cpu).toBeDefined();
+  });
+
+  it('reports nothing without usable samples', () => {
+    expect(readNodeExporter(parseExposition('node_load1 0.5\nnode_memory_MemTotal_bytes 0'), null)).toEqual({ metrics: {} });
+  });
+});
@@ -0,0 +1,5 @@
+export * from './MetricsCollector';
+export { EvmCollector } from './EvmCollector';
+export { SolanaCollector } from './SolanaCollector';
+export { CosmosCollector } from './CosmosCollector';
+export { readNodeExporter, CpuTotals, NodeExporterReading } from './NodeExporterMetrics';
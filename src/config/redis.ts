@@ -74,6 +74,11 @@ class RedisManager {
     return await this.client.exists(key);
   }
 
+  public async setNX(key: string, value: string, ttlMs: number): Promise<boolean> {
+    const result = await this.client.set(key, value, { NX: true, PX: ttlMs });
+    return result === 'OK';
+  }
+
   // Hash operations
   public async hSet(key: string, field: string, value: string): Promise<number> {
     return await this.client.hSet(key, field, value);
@@ -87,6 +92,10 @@ class RedisManager {
     return await this.client.hGetAll(key);
   }
 
+  public async hDel(key: string, field: string): Promise<number> {
+    return await this.client.hDel(key, field);
+  }
+
   // List operations
   public async lPush(key: string, ...values: string[]): Promise<number> {
     return await this.client.lPush(key, values);
@@ -96,6 +105,31 @@ class RedisManager {
     return await this.client.rPop(key);
   }
 
+  public async lLen(key: string): Promise<number> {
+    return await this.client.lLen(key);
+  }
+
+  public async lRange(key: string, start: number, stop: number): Promise<string[]> {
+    return await this.client.lRange(key, start, stop);
+  }
+
+  // Sorted set operations
+  public async zAdd(key: string, score: number, member: string): Promise<number> {
+    return await this.client.zAdd(key, { score, value: member });
+  }
+
+  public async zRem(key: string, member: string): Promise<number> {
+    return await this.client.zRem(key, member);
+  }
+
+  public async zCard(key: string): Promise<number> {
+    return await this.client.zCard(key);
+  }
+
+  public async zRangeByScore(key: string, min: number, max: number): Promise<string[]> {
+    return await this.client.zRangeByScore(key, min, max);
+  }
+
   // Set operations
   public async sAdd(key: string, ...members: string[]): Promise<number> {
     return await this.client.sAdd(key, members);
@@ -116,6 +150,11 @@ class RedisManager {
     await subscriber.subscribe(channel, callback);
   }
 
+  // Scripting
+  public async eval(script: string, keys: string[], args: string[]): Promise<unknown> {
+    return await this.client.eval(script, { keys, arguments: args });
+  }
+
   // Utility methods
   public async flushAll(): Promise<string> {
     return await this.client.flushAll();
@@ -0,0 +1,53 @@
+import axios from 'axios';
+import { CommandOutput, DockerControlConfig, NodeControlAction, NodeControlContext, NodeControlDriver, NodeControlError } from './NodeControlDriver';
+import { assertAllowedTarget, getDockerSocketPath } from './policy';
+const DOCKER_API_VERSION = 'v1.41';
+
+/**
+ * Controls a node container through the Docker Engine API on the operator's
+ * socket (NODE_CONTROL_DOCKER_SOCKET). Only containers granted to the
+ * agent's tenant in NODE_CONTROL_TARGETS can be controlled.
+ */
+export class DockerDriver implements NodeControlDriver {
+  readonly type = 'docker' as const;
+
+  constructor(private config: DockerControlConfig) {}
+
+  async execute(action: NodeControlAction, context: NodeControlContext, timeoutMs: number): Promise<CommandOutput> {
+    assertAllowedTarget('containers', this.config.container, context);
+
+    const container = encodeURIComponent(this.config.container);
+    const request = action === 'status'
+      ? { method: 'GET', url: `/containers/${container}/json` }
+      : { method: 'POST', url: `/containers/${container}/${action}` };
+
+    try {
+      const response = await axios.request({
+        ...request,
+        baseURL: `http://localhost/${DOCKER_API_VERSION}`,
+        socketPath: getDockerSocketPath(),
+        params: action === 'restart' || action === 'stop' ? { t: this.config.stopTimeoutSeconds ?? 10 } : undefined,
+        timeout: timeoutMs,
+        validateStatus: () => true,
+      });
+
+      // 304 means the container was already in the requested state
+      const succeeded = response.status < 300 || response.status === 304;
+
+      if (!succeeded) {
+        return { exitCode: 1, stdout: '', stderr: response.data?.message || `Docker API returned ${response.status}` };
+      }
+
+      const stdout = action === 'status'
+        ? JSON.stringify(response.data?.State ?? {})
+        : `Container ${this.config.container} ${action} returned ${response.status}`;
+
+      return { exitCode: 0, stdout, stderr: '' };
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.code === 'ECONNABORTED') {
+        throw new NodeControlError(`Docker ${action} timed out after ${timeoutMs}ms`);
+      }
+      throw new NodeControlError(error instanceof Error ? error.message : 'Docker request failed');
+    }
+  }
+}
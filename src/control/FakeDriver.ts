@@ -0,0 +1,28 @@
+import { CommandOutput, FakeControlConfig, NodeControlAction, NodeControlContext, NodeControlDriver, NodeControlError } from './NodeControlDriver';
+
+/**
+ * Local driver for development and tests. Returns the configured output
+ * after an optional delay and never touches a real node.
+ */
+export class FakeDriver implements NodeControlDriver {
+  readonly type = 'fake' as const;
+
+  constructor(private config: FakeControlConfig) {}
+
+  async execute(action: NodeControlAction, _context: NodeControlContext, timeoutMs: number): Promise<CommandOutput> {
+    const delayMs = this.config.delayMs || 0;
+
+    if (delayMs > timeoutMs) {
+      await new Promise(resolve => setTimeout(resolve, timeoutMs));
+      throw new NodeControlError(`Fake ${action} timed out after ${timeoutMs}ms`);
+    }
+
+    await new Promise(resolve => setTimeout(resolve, delayMs));
+
+    return {
+      exitCode: this.config.exitCode ?? 0,
+      stdout: this.config.stdout ?? `fake ${action} ok`,
+      stderr: this.config.stderr ?? '',
+    };
+  }
+}
@@ -0,0 +1,62 @@
+import axios from 'axios';
+import {
+  CommandOutput,
+  HttpControlConfig,
+  NodeControlAction,
+  NodeControlContext,
+  NodeControlDriver,
+  NodeControlError,
+} from './NodeControlDriver';
+import { assertPublicUrl } from './policy';
+
+/**
+ * Posts the action to an operator-provided control webhook. Any 2xx response
+ * counts as success and the response body is captured as output, so the URL
+ * must resolve to a public address and redirects are not followed.
+ */
+export class HttpDriver implements NodeControlDriver {
+  readonly type = 'http' as const;
+
+  constructor(private config: HttpControlConfig) {}
+
+  async execute(action: NodeControlAction, context: NodeControlContext, timeoutMs: number): Promise<CommandOutput> {
+    await assertPublicUrl(this.config.url);
+
+    try {
+      const response = await axios.post(
+        this.config.url,
+        {
+          action,
+          agentId: context.agentId,
+          chain: context.chain,
+          endpointUrl: context.endpointUrl,
+          requestedAt: new Date().toISOString(),
+        },
+        {
+          headers: {
+            'Content-Type': 'application/json',
+            ...(this.config.token ? { Authorization: `Bearer ${this.config.token}` } : {}),
+            ...this.config.headers,
+          },
+          timeout: timeoutMs,
+          maxRedirects: 0,
+          validateStatus: () => true,
+        }
+      );
+
+      const body = typeof response.data === 'string' ? response.data : JSON.stringify(response.data ?? '');
+      const succeeded = response.status >= 200 && response.status < 300;
+
+      return {
+        exitCode: succeeded ? 0 : 1,
+        stdout: succeeded ? body : '',
+        stderr: succeeded ? '' : `Webhook returned ${response.status}: ${body}`,
+      };
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.code === 'ECONNABORTED') {
+        throw new NodeControlError(`Control webhook timed out after ${timeoutMs}ms`);
+      }
+      throw new NodeControlError(error instanceof Error ? error.message : 'Control webhook request failed');
+    }
+  }
+}
@@ -0,0 +1,90 @@
+import { SupportedChain } from '../types';
+
+export type NodeControlAction = 'restart' | 'start' | 'stop' | 'status';
+
+export type NodeControlDriverType = 'ssh' | 'docker' | 'systemd' | 'http' | 'fake';
+
+export interface SshControlConfig {
+  driver: 'ssh';
+  // must be granted to the agent's tenant in NODE_CONTROL_TARGETS
+  host: string;
+  port?: number;
+  username: string;
+  // systemd unit on the remote host the fixed action commands run against
+  service: string;
+}
+
+export interface DockerControlConfig {
+  driver: 'docker';
+  // must be granted to the agent's tenant in NODE_CONTROL_TARGETS
+  container: string;
+  stopTimeoutSeconds?: number;
+}
+
+export interface SystemdControlConfig {
+  driver: 'systemd';
+  // must be granted to the agent's tenant in NODE_CONTROL_TARGETS
+  unit: string;
+}
+
+export interface HttpControlConfig {
+  driver: 'http';
+  // public http(s) URL; private and loopback addresses are rejected
+  url: string;
+  token?: string;
+  headers?: Record<string, string>;
+}
+
+export interface FakeControlConfig {
+  driver: 'fake';
+  exitCode?: number;
+  stdout?: string;
+  stderr?: string;
+  delayMs?: number;
+}
+
+export type NodeControlConfig = (
+  | SshControlConfig
+  | DockerControlConfig
+  | SystemdControlConfig
+  | HttpControlConfig
+  | FakeControlConfig
+) & {
+  timeoutMs?: number;
+};
+
+// The node an action is run against, and the tenant running it
+export interface NodeControlContext {
+  agentId: string;
+  userId: string;
+  organizationId?: string | null;
+  chain: SupportedChain;
+  endpointUrl: string;
+}
+
+export interface CommandOutput {
+  exitCode: number | null;
+  stdout: string;
+  stderr: string;
+}
+
+export class NodeControlError extends Error {
+  public output?: Partial<CommandOutput>;
+
+  constructor(message: string, output?: Partial<CommandOutput>) {
+    super(message);
+    this.name = 'NodeControlError';
+    this.output = output;
+  }
+}
+
+/**
+ * Runs lifecycle actions against the machine or container hosting a node.
+ * A non-zero exit code is returned, not thrown; drivers throw
+ * NodeControlError when the action could not be run or timed out.
+ */
+export interface NodeControlDriver {
+  readonly type: NodeControlDriverType;
+
+  execute(action: NodeControlAction, context: NodeControlContext, timeoutMs: number): Promise<CommandOutput>;
+}
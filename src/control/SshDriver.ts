@@ -0,0 +1,46 @@
+import { CommandOutput, NodeControlAction, NodeControlContext, NodeControlDriver, SshControlConfig } from './NodeControlDriver';
+import { runCommand } from './runCommand';
+import { assertAllowedTarget, getSshKeyPath } from './policy';
+
+// Fixed remote commands; agent configs only choose the unit
+const COMMAND_TEMPLATES: Record<NodeControlAction, (service: string) => string> = {
+  status: service => `systemctl status --no-pager -- ${service}`,
+  start: service => `sudo -n systemctl start -- ${service}`,
+  stop: service => `sudo -n systemctl stop -- ${service}`,
+  restart: service => `sudo -n systemctl restart -- ${service}`,
+};
+
+/**
+ * Runs systemctl on the node host over the system ssh client. Only key-based
+ * authentication is supported (BatchMode) with the operator's key
+ * (NODE_CONTROL_SSH_KEY_PATH), host keys must already be known to the
+ * backend user, and only hosts granted to the agent's tenant are reached.
+ */
+export class SshDriver implements NodeControlDriver {
+  readonly type = 'ssh' as const;
+
+  constructor(private config: SshControlConfig) {}
+
+  async execute(action: NodeControlAction, context: NodeControlContext, timeoutMs: number): Promise<CommandOutput> {
+    assertAllowedTarget('sshHosts', this.config.host, context);
+
+    return runCommand('ssh', this.buildArgs(action, timeoutMs), timeoutMs);
+  }
+
+  buildArgs(action: NodeControlAction, timeoutMs: number): string[] {
+    const args = [
+      '-o', 'BatchMode=yes',
+      '-o', `ConnectTimeout=${Math.max(1, Math.ceil(timeoutMs / 1000))}`,
+      '-p', String(this.config.port || 22),
+    ];
+
+    const keyPath = getSshKeyPath();
+    if (keyPath) {
+      args.push('-i', keyPath);
+    }
+
+    args.push('--', `${this.config.username}@${this.config.host}`, COMMAND_TEMPLATES[action](this.config.service));
+
+    return args;
+  }
+}
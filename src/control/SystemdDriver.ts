@@ -0,0 +1,22 @@
+import { CommandOutput, NodeControlAction, NodeControlContext, NodeControlDriver, SystemdControlConfig } from './NodeControlDriver';
+import { runCommand } from './runCommand';
+import { assertAllowedTarget, getSystemdHelperPath } from './policy';
+
+/**
+ * Controls a systemd unit on the backend host through a local helper
+ * (see scripts/mentis-node-control.sh) so the backend itself never needs
+ * root. The helper is called as `<helper> <action> <unit>`. Since this acts
+ * on the API host, only units granted to the agent's tenant in
+ * NODE_CONTROL_TARGETS can be controlled.
+ */
+export class SystemdDriver implements NodeControlDriver {
+  readonly type = 'systemd' as const;
+
+  constructor(private config: SystemdControlConfig) {}
+
+  async execute(action: NodeControlAction, context: NodeControlContext, timeoutMs: number): Promise<CommandOutput> {
+    assertAllowedTarget('units', this.config.unit, context);
+
+    return runCommand(getSystemdHelperPath(), [action, this.config.unit], timeoutMs);
+  }
+}
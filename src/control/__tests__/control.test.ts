@@ -0,0 +1,156 @@
+import { SshDriver } from '../SshDriver';
+import { DockerDriver } from '../DockerDriver';
+import { SystemdDriver } from '../SystemdDriver';
+import { HttpDriver } from '../HttpDriver';
+import { FakeDriver } from '../FakeDriver';
+import { NodeControlError } from '../NodeControlDriver';
+import { assertAllowedTarget, assertPublicUrl, hasGrantedTargets, isPrivateAddress, isPublicUrl } from '../policy';
+
+const grant = (grants: Record<string, any>) => {
+  process.env.NODE_CONTROL_TARGETS = JSON.stringify(grants);
+};
+
+const context = { agentId: 'agent-1', userId: 'user-1', organizationId: 'org-1', chain: 'ethereum', endpointUrl: 'http://node.example.com:8545' };
+
+const ENV_KEYS = ['NODE_CONTROL_TARGETS', 'NODE_CONTROL_SSH_KEY_PATH'];
+const savedEnv = Object.fromEntries(ENV_KEYS.map(key => [key, process.env[key]]));
+
+afterEach(() => {
+  for (const key of ENV_KEYS) {
+    if (savedEnv[key] === undefined) {
+      delete process.env[key];
+    } else {
+      process.env[key] = savedEnv[key];
+    }
+  }
+});
+
+describe('node control policy', () => {
+  it.each([
+    '127.0.0.1', '10.1.2.3', '172.20.0.5', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0',
+    '::1', '::', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1',
+  ])('treats %s as private', address => {
+    expect(isPrivateAddress(address)).toBe(true);
+  });
+
+  it.each(['8.8.8.8', '172.32.0.1', '2606:4700::1111'])('treats %s as public', address => {
+    expect(isPrivateAddress(address)).toBe(false);
+  });
+
+  it('rejects local and non-http webhook URLs', () => {
+    expect(isPublicUrl('https://hooks.example.com/restart')).toBe(true);
+    expect(isPublicUrl('http://localhost:8080/')).toBe(false);
+    expect(isPublicUrl('http://127.0.0.1/')).toBe(false);
+    expect(isPublicUrl('http://[::1]/')).toBe(false);
+    expect(isPublicUrl('http://169.254.169.254/latest/meta-data')).toBe(false);
+    expect(isPublicUrl('http://metadata/')).toBe(false);
+    expect(isPublicUrl('file:///etc/passwd')).toBe(false);
+  });
+
+  it('rejects hostnames that resolve to a private address', async () => {
+    await expect(assertPublicUrl('http://localhost.localhost/')).rejects.toThrow(NodeControlError);
+    await expect(assertPublicUrl('http://10.0.0.1/')).rejects.toThrow('public http(s) URL');
+  });
+
+  it('only allows the targets the operator granted the tenant', () => {
+    grant({
+      'org-1': { sshHosts: ['Validator-1.internal'], containers: ['geth', 'lighthouse'], units: ['geth.service'] },
+      'user-2': { containers: ['erigon'] },
+    });
+    const org = { userId: 'user-1', organizationId: 'org-1' };
+
+    expect(() => assertAllowedTarget('sshHosts', 'validator-1.internal', org)).not.toThrow();
+    expect(() => assertAllowedTarget('sshHosts', '127.0.0.1', org)).toThrow('not enabled');
+    expect(() => assertAllowedTarget('containers', 'lighthouse', org)).not.toThrow();
+    expect(() => assertAllowedTarget('containers', 'postgres', org)).toThrow('not enabled');
+    expect(() => assertAllowedTarget('units', 'geth.service', org)).not.toThrow();
+    expect(() => assertAllowedTarget('units', 'sshd.service', org)).toThrow('not enabled');
+  });
+
+  it('keeps one tenant\'s targets away from the others', () => {
+    grant({ 'org-1': { containers: ['geth'] }, 'user-2': { containers: ['erigon'] } });
+
+    expect(() => assertAllowedTarget('containers', 'erigon', { userId: 'user-2' })).not.toThrow();
+    expect(() => assertAllowedTarget('containers', 'geth', { userId: 'user-2' })).toThrow('not enabled');
+    // Organization agents use the organization's grant, not their creator's
+    expect(() => assertAllowedTarget('containers', 'erigon', { userId: 'user-2', organizationId: 'org-1' })).toThrow('not enabled');
+  });
+
+  it('reports which kinds of targets are granted at all', () => {
+    grant({ 'org-1': { sshHosts: ['node.example.com'], units: [] } });
+
+    expect(hasGrantedTargets('sshHosts')).toBe(true);
+    expect(hasGrantedTargets('units')).toBe(false);
+    expect(hasGrantedTargets('containers')).toBe(false);
+  });
+});
+
+describe('SshDriver', () => {
+  const driver = new SshDriver({ driver: 'ssh', host: 'node.example.com', username: 'ops', service: 'geth' });
+
+  it('refuses hosts the operator has not granted the tenant', async () => {
+    grant({ 'org-2': { sshHosts: ['node.example.com'] } });
+
+    await expect(driver.execute('restart', context, 1000)).rejects.toThrow('SSH host node.example.com is not enabled');
+  });
+
+  it('runs the fixed systemctl template for the configured service', () => {
+    const args = driver.buildArgs('restart', 30000);
+
+    expect(args.slice(-3)).toEqual(['--', 'ops@node.example.com', 'sudo -n systemctl restart -- geth']);
+    expect(args).toContain('BatchMode=yes');
+    expect(args).toContain('ConnectTimeout=30');
+  });
+
+  it('uses the operator key rather than one from the agent config', () => {
+    expect(driver.buildArgs('status', 1000)).not.toContain('-i');
+
+    process.env.NODE_CONTROL_SSH_KEY_PATH = '/run/secrets/node_control_key';
+    const args = driver.buildArgs('status', 1000);
+
+    expect(args[args.indexOf('-i') + 1]).toBe('/run/secrets/node_control_key');
+    expect(args[args.length - 1]).toBe('systemctl status --no-pager -- geth');
+  });
+});
+
+describe('DockerDriver and SystemdDriver', () => {
+  it('refuse containers the operator has not granted the tenant', async () => {
+    grant({ 'org-1': { containers: ['geth'] } });
+    const driver = new DockerDriver({ driver: 'docker', container: 'postgres' });
+
+    await expect(driver.execute('stop', context, 1000)).rejects.toThrow('Container postgres is not enabled');
+  });
+
+  it('refuse units the operator has not granted the tenant', async () => {
+    grant({ 'org-1': { units: ['geth.service'] } });
+    const driver = new SystemdDriver({ driver: 'systemd', unit: 'mentis-api.service' });
+
+    await expect(driver.execute('stop', context, 1000)).rejects.toThrow('Unit mentis-api.service is not enabled');
+  });
+});
+
+describe('HttpDriver', () => {
+  it('does not post to a loopback webhook', async () => {
+    const driver = new HttpDriver({ driver: 'http', url: 'http://127.0.0.1:9000/restart' });
+
+    await expect(driver.execute('restart', context, 1000)).rejects.toThrow(NodeControlError);
+  });
+});
+
+describe('FakeDriver', () => {
+  it('returns the configured output', async () => {
+    const driver = new FakeDriver({ driver: 'fake', exitCode: 3, stderr: 'unit failed' });
+
+    await expect(driver.execute('restart', context, 1000)).resolves.toEqual({
+      exitCode: 3,
+      stdout: 'fake restart ok',
+      stderr: 'unit failed',
+    });
+  });
+
+  it('times out when the delay exceeds the timeout', async () => {
+    const driver = new FakeDriver({ driver: 'fake', delayMs: 500 });
+
+    await expect(driver.execute('stop', context, 20)).rejects.toThrow('Fake stop timed out after 20ms');
+  });
+});
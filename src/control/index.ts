@@ -0,0 +1,56 @@
+import { NodeControlConfig, NodeControlDriver, NodeControlDriverType } from './NodeControlDriver';
+import { SshDriver } from './SshDriver';
+import { DockerDriver } from './DockerDriver';
+import { SystemdDriver } from './SystemdDriver';
+import { HttpDriver } from './HttpDriver';
+import { FakeDriver } from './FakeDriver';
+import { hasGrantedTargets } from './policy';
+
+export * from './NodeControlDriver';
+export { getControlTarget, isPublicUrl, isTargetAllowed, NodeControlOwner } from './policy';
+
+export type NodeControlDriverFactory = (config: any) => NodeControlDriver;
+
+const factories = new Map<NodeControlDriverType, NodeControlDriverFactory>();
+
+/**
+ * Register or replace the factory for a driver type
+ */
+export function registerNodeControlDriver(type: NodeControlDriverType, factory: NodeControlDriverFactory): void {
+  factories.set(type, factory);
+}
+
+/**
+ * Build the driver described by an agent's node control config
+ */
+export function createNodeControlDriver(config: NodeControlConfig): NodeControlDriver {
+  const factory = factories.get(config.driver);
+  if (!factory) {
+    throw new Error(`Unsupported node control driver: ${config.driver}`);
+  }
+  return factory(config);
+}
+
+/**
+ * Driver types that have a registered factory
+ */
+export function getNodeControlDrivers(): NodeControlDriverType[] {
+  return Array.from(factories.keys());
+}
+
+registerNodeControlDriver('ssh', config => new SshDriver(config));
+registerNodeControlDriver('http', config => new HttpDriver(config));
+
+// docker and systemd reach into the backend host, so they are only offered
+// once the operator grants some tenant containers or units to control
+if (hasGrantedTargets('containers')) {
+  registerNodeControlDriver('docker', config => new DockerDriver(config));
+}
+if (hasGrantedTargets('units')) {
+  registerNodeControlDriver('systemd', config => new SystemdDriver(config));
+}
+
+// The fake driver never touches a real node, so keep it out of production
+if (process.env.NODE_ENV !== 'production') {
+  registerNodeControlDriver('fake', config => new FakeDriver(config));
+}
@@ -0,0 +1,193 @@
+import dns from 'dns/promises';
+import net from 'net';
+import { NodeControlError } from './NodeControlDriver';
+
+/**
+ * Operator-side limits on node control. Agent configs are written by
+ * tenants, so everything that reaches into the backend host (key files,
+ * the Docker socket, local units) comes from the environment instead, and
+ * each tenant can only reach the ssh hosts, containers and units the
+ * operator granted it.
+ */
+
+// Targets the operator granted one tenant
+export interface NodeControlGrant {
+  sshHosts?: string[];
+  containers?: string[];
+  units?: string[];
+}
+
+export type NodeControlTargetKind = keyof NodeControlGrant;
+
+// The tenant an agent belongs to: its organization, else its owner
+export interface NodeControlOwner {
+  userId: string;
+  organizationId?: string | null;
+}
+
+const TARGET_LABELS: Record<NodeControlTargetKind, string> = {
+  sshHosts: 'SSH host',
+  containers: 'Container',
+  units: 'Unit',
+};
+
+/**
+ * Grants from NODE_CONTROL_TARGETS, a JSON object keyed by organization or
+ * user id, e.g. `{"<orgId>": {"sshHosts": ["validator-1.internal"], "units": ["geth.service"]}}`
+ */
+export function getNodeControlGrants(): Record<string, NodeControlGrant> {
+  const raw = process.env.NODE_CONTROL_TARGETS;
+  if (!raw) {
+    return {};
+  }
+
+  try {
+    const grants = JSON.parse(raw);
+    return grants && typeof grants === 'object' && !Array.isArray(grants) ? grants : {};
+  } catch {
+    throw new NodeControlError('NODE_CONTROL_TARGETS is not valid JSON');
+  }
+}
+
+/**
+ * Whether any tenant was granted targets of this kind
+ */
+export function hasGrantedTargets(kind: NodeControlTargetKind): boolean {
+  return Object.values(getNodeControlGrants()).some(grant => (grant[kind]?.length ?? 0) > 0);
+}
+
+/**
+ * Whether the operator granted the tenant this target. SSH hosts compare
+ * case-insensitively.
+ */
+export function isTargetAllowed(kind: NodeControlTargetKind, target: string, owner: NodeControlOwner): boolean {
+  const tenant = owner.organizationId || owner.userId;
+  const allowed = getNodeControlGrants()[tenant]?.[kind] ?? [];
+
+  return kind === 'sshHosts'
+    ? allowed.some(host => host.toLowerCase() === target.toLowerCase())
+    : allowed.includes(target);
+}
+
+/**
+ * Reject a target the operator did not grant the tenant
+ */
+export function assertAllowedTarget(kind: NodeControlTargetKind, target: string, owner: NodeControlOwner): void {
+  if (!isTargetAllowed(kind, target, owner)) {
+    throw new NodeControlError(`${TARGET_LABELS[kind]} ${target} is not enabled for node control on this account`);
+  }
+}
+
+/**
+ * The ssh host, container or unit a node control config points at, if any
+ */
+export function getControlTarget(config: { driver: string; host?: string; container?: string; unit?: string }): [NodeControlTargetKind, string] | null {
+  switch (config.driver) {
+    case 'ssh':
+      return config.host ? ['sshHosts', config.host] : null;
+    case 'docker':
+      return config.container ? ['containers', config.container] : null;
+    case 'systemd':
+      return config.unit ? ['units', config.unit] : null;
+    default:
+      return null;
+  }
+}
+
+export function getDockerSocketPath(): string {
+  return process.env.NODE_CONTROL_DOCKER_SOCKET || '/var/run/docker.sock';
+}
+
+export function getSystemdHelperPath(): string {
+  return process.env.NODE_CONTROL_SYSTEMD_HELPER || '/usr/local/bin/mentis-node-control';
+}
+
+// Key the ssh driver authenticates with; unset uses the backend user's ssh config
+export function getSshKeyPath(): string | undefined {
+  return process.env.NODE_CONTROL_SSH_KEY_PATH || undefined;
+}
+
+const PRIVATE_IPV4_RANGES: [string, number][] = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.168.0.0', 16],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+];
+
+function ipv4ToNumber(address: string): number {
+  return address.split('.').reduce((value, octet) => value * 256 + parseInt(octet), 0);
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local or otherwise not
+ * a public internet address
+ */
+export function isPrivateAddress(address: string): boolean {
+  if (net.isIPv4(address)) {
+    const value = ipv4ToNumber(address);
+    return PRIVATE_IPV4_RANGES.some(([base, bits]) => {
+      const size = 2 ** (32 - bits);
+      const start = ipv4ToNumber(base);
+      return value >= start && value < start + size;
+    });
+  }
+
+  const normalized = address.toLowerCase();
+
+  // IPv4-mapped addresses are judged by their IPv4 part
+  const mapped = normalized.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) {
+    return isPrivateAddress(mapped[1]);
+  }
+
+  return normalized === '::'
+    || normalized === '::1'
+    || /^f[cd]/.test(normalized) // unique local
+    || /^fe[89ab]/.test(normalized) // link-local
+    || /^ff/.test(normalized); // multicast
+}
+
+/**
+ * Whether a URL is plain HTTP(S) to a host that is not a private address or
+ * a local name. Hostnames are checked again after DNS resolution.
+ */
+export function isPublicUrl(value: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return false;
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return false;
+  }
+
+  const host = url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (net.isIP(host)) {
+    return !isPrivateAddress(host);
+  }
+
+  return host !== 'localhost' && !host.endsWith('.localhost') && !host.endsWith('.local') && !host.endsWith('.internal') && host.includes('.');
+}
+
+/**
+ * Resolve the URL's host and reject it if any address is private
+ */
+export async function assertPublicUrl(value: string): Promise<void> {
+  if (!isPublicUrl(value)) {
+    throw new NodeControlError('Control webhook must be a public http(s) URL');
+  }
+
+  const host = new URL(value).hostname.replace(/^\[|\]$/g, '');
+  const addresses = net.isIP(host) ? [{ address: host }] : await dns.lookup(host, { all: true });
+
+  if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+    throw new NodeControlError(`Control webhook host ${host} resolves to a private address`);
+  }
+}
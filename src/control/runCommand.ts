@@ -0,0 +1,28 @@
+import { execFile } from 'child_process';
+import { CommandOutput, NodeControlError } from './NodeControlDriver';
+
+const MAX_OUTPUT_BYTES = 1024 * 1024;
+
+/**
+ * Run a local executable without a shell and capture its output
+ */
+export function runCommand(file: string, args: string[], timeoutMs: number): Promise<CommandOutput> {
+  return new Promise((resolve, reject) => {
+    execFile(file, args, { timeout: timeoutMs, maxBuffer: MAX_OUTPUT_BYTES }, (error, stdout, stderr) => {
+      const output = { stdout: stdout.toString(), stderr: stderr.toString() };
+
+      if (error?.killed) {
+        reject(new NodeControlError(`${file} timed out after ${timeoutMs}ms`, output));
+        return;
+      }
+
+      // A string code (e.g. ENOENT) means the command never ran
+      if (error && typeof error.code !== 'number') {
+        reject(new NodeControlError(error.message, output));
+        return;
+      }
+
+      resolve({ exitCode: error ? (error.code as number) : 0, ...output });
+    });
+  });
+}
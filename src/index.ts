@@ -5,19 +5,44 @@ import cors from 'cors';
 import helmet from 'helmet';
 import dotenv from 'dotenv';
 import { database } from './config/database';
-import { redis } from './config/redis';
+import { connectRedis } from './config/redis';
 import { logger } from './utils/logger';
 import { errorHandler } from './middleware/errorHandler';
 import { rateLimiter } from './middleware/rateLimiter';
+import { getChainAdapter, getSupportedChains } from './chains';
 
 // Import routes
 import authRoutes from './routes/auth';
 import agentRoutes from './routes/agents';
+import dashboardRoutes from './routes/dashboard';
+import subscriptionRoutes from './routes/subscriptions';
+import billingRoutes from './routes/billing';
+import apiKeyRoutes from './routes/apiKeys';
+import organizationRoutes from './routes/organizations';
+import auditRoutes from './routes/audit';
+import oncallRoutes from './routes/oncall';
+import metricsRoutes from './routes/metrics';
+import sloRoutes from './routes/slos';
 
 // Import services
 import { AgentService } from './services/AgentService';
 import { MonitoringService } from './services/MonitoringService';
 import { NotificationService } from './services/NotificationService';
+import { TaskQueueService } from './services/TaskQueueService';
+import { DashboardService } from './services/DashboardService';
+import { SubscriptionService } from './services/SubscriptionService';
+import { BillingService } from './services/BillingService';
+import { ApiKeyService } from './services/ApiKeyService';
+import { AccountService } from './services/AccountService';
+import { SessionService } from './services/SessionService';
+import { TwoFactorService } from './services/TwoFactorService';
+import { OrganizationService } from './services/OrganizationService';
+import { AuditService } from './services/AuditService';
+import { OnCallService } from './services/OnCallService';
+import { EscalationService } from './services/EscalationService';
+import { PrometheusService } from './services/PrometheusService';
+import { MetricsIngestionService } from './services/MetricsIngestionService';
+import { SloService } from './services/SloService';
 
 // Load environment variables
 dotenv.config();
@@ -36,6 +61,13 @@ const PORT = process.env.PORT || 3000;
 // Middleware
 app.use(helmet());
 app.use(cors());
+
+// Billing webhooks verify signatures over the raw body
+app.use('/api/billing', billingRoutes);
+
+// Prometheus scrapes are token-protected and exempt from the per-IP rate limit
+app.use('/metrics', metricsRoutes);
+
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true }));
 app.use(rateLimiter);
@@ -53,6 +85,13 @@ app.get('/health', (req, res) => {
 // API Routes
 app.use('/api/auth', authRoutes);
 app.use('/api/agents', agentRoutes);
+app.use('/api/dashboard', dashboardRoutes);
+app.use('/api/subscriptions', subscriptionRoutes);
+app.use('/api/api-keys', apiKeyRoutes);
+app.use('/api/organizations', organizationRoutes);
+app.use('/api/audit', auditRoutes);
+app.use('/api/oncall', oncallRoutes);
+app.use('/api/slos', sloRoutes);
 
 // WebSocket connection handling
 io.on('connection', (socket) => {
@@ -79,14 +118,44 @@ io.on('connection', (socket) => {
 app.use(errorHandler);
 
 // Initialize services
-const agentService = new AgentService();
-const monitoringService = new MonitoringService(io);
+const taskQueue = new TaskQueueService();
+const agentService = new AgentService(taskQueue);
+const monitoringService = new MonitoringService(io, agentService, taskQueue);
 const notificationService = new NotificationService();
+const dashboardService = new DashboardService(agentService, monitoringService);
+const subscriptionService = new SubscriptionService();
+const billingService = new BillingService();
+const apiKeyService = new ApiKeyService();
+const sessionService = new SessionService();
+const accountService = new AccountService(notificationService, sessionService);
+const twoFactorService = new TwoFactorService();
+const organizationService = new OrganizationService();
+const auditService = new AuditService();
+const onCallService = new OnCallService();
+const escalationService = new EscalationService();
+const prometheusService = new PrometheusService(taskQueue);
+const metricsIngestionService = new MetricsIngestionService();
+const sloService = new SloService();
 
 // Make services available to routes
 app.locals.agentService = agentService;
 app.locals.monitoringService = monitoringService;
 app.locals.notificationService = notificationService;
+app.locals.taskQueue = taskQueue;
+app.locals.dashboardService = dashboardService;
+app.locals.subscriptionService = subscriptionService;
+app.locals.billingService = billingService;
+app.locals.apiKeyService = apiKeyService;
+app.locals.accountService = accountService;
+app.locals.sessionService = sessionService;
+app.locals.twoFactorService = twoFactorService;
+app.locals.organizationService = organizationService;
+app.locals.auditService = auditService;
+app.locals.onCallService = onCallService;
+app.locals.escalationService = escalationService;
+app.locals.prometheusService = prometheusService;
+app.locals.metricsIngestionService = metricsIngestionService;
+app.locals.sloService = sloService;
 
 async function startServer() {
   try {
@@ -94,10 +163,16 @@ async function startServer() {
     await database.query('SELECT 1');
     logger.info('Database connection established');
 
-    // Test Redis connection
-    await redis.ping();
+    // Connect to Redis (task queue, caching)
+    await connectRedis();
     logger.info('Redis connection established');
 
+    // Rebuild AI agents from the database
+    await agentService.rehydrateAgents();
+
+    // Start task queue workers
+    taskQueue.startWorkers((job) => agentService.processQueuedTask(job));
+
     // Start monitoring service
     await monitoringService.startMonitoring();
 
@@ -106,7 +181,7 @@ async function startServer() {
       logger.info(`🚀 Mentis Protocol Backend started on port ${PORT}`);
       logger.info(`🤖 AI agents powered by LangChain v0.3`);
       logger.info(`📊 Real-time monitoring and alerts enabled`);
-      logger.info(`🔗 Multi-chain support: Ethereum, Solana, Cosmos`);
+      logger.info(`🔗 Multi-chain support: ${getSupportedChains().map(chain => getChainAdapter(chain).config.name).join(', ')}`);
       logger.info(`📊 Environment: ${process.env.NODE_ENV || 'development'}`);
       logger.info(`🔗 Health check: http://localhost:${PORT}/health`);
     });
@@ -117,16 +192,18 @@ async function startServer() {
 }
 
 // Graceful shutdown
-process.on('SIGTERM', () => {
+process.on('SIGTERM', async () => {
   logger.info('SIGTERM received, shutting down gracefully');
+  await taskQueue.stopWorkers();
   server.close(() => {
     logger.info('Process terminated');
     process.exit(0);
   });
 });
 
-process.on('SIGINT', () => {
+process.on('SIGINT', async () => {
   logger.info('SIGINT received, shutting down gracefully');
+  await taskQueue.stopWorkers();
   server.close(() => {
     logger.info('Process terminated');
     process.exit(0);
@@ -0,0 +1,92 @@
+import { Request, Response } from 'express';
+import { requireFreshTwoFactor, AgentRequest } from '../auth';
+
+jest.mock('../../config/database', () => ({ database: { query: jest.fn() } }));
+jest.mock('../../config/redis', () => ({ redis: {} }));
+jest.mock('../../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const twoFactorService = {
+  requiresFreshAssertionForNodeControl: jest.fn(),
+  hasFreshAssertion: jest.fn(),
+};
+
+function mockRequest(tools: string[], sessionId?: string): Request {
+  return {
+    app: { locals: { twoFactorService } },
+    user: { id: 'user-1', email: 'ops@example.com' },
+    sessionId,
+    agent: { config: { tools } },
+    body: {},
+  } as unknown as Request;
+}
+
+function mockResponse() {
+  const res = { status: jest.fn(), json: jest.fn() };
+  res.status.mockReturnValue(res);
+  return res;
+}
+
+describe('requireFreshTwoFactor', () => {
+  const controlsNodes = (req: AgentRequest) => req.agent.config.tools?.includes('restart_node') === true;
+  const middleware = requireFreshTwoFactor(controlsNodes, 'start an agent that can restart nodes');
+
+  it('passes requests the check does not apply to without a lookup', async () => {
+    const next = jest.fn();
+
+    await middleware(mockRequest(['health_check']), mockResponse() as unknown as Response, next);
+
+    expect(next).toHaveBeenCalledWith();
+    expect(twoFactorService.requiresFreshAssertionForNodeControl).not.toHaveBeenCalled();
+  });
+
+  it('passes users who do not require 2FA for node control', async () => {
+    twoFactorService.requiresFreshAssertionForNodeControl.mockResolvedValue(false);
+    const next = jest.fn();
+
+    await middleware(mockRequest(['restart_node']), mockResponse() as unknown as Response, next);
+
+    expect(next).toHaveBeenCalledWith();
+  });
+
+  it('passes sessions with a fresh 2FA check', async () => {
+    twoFactorService.requiresFreshAssertionForNodeControl.mockResolvedValue(true);
+    twoFactorService.hasFreshAssertion.mockResolvedValue(true);
+    const next = jest.fn();
+
+    await middleware(mockRequest(['restart_node'], 'session-1'), mockResponse() as unknown as Response, next);
+
+    expect(twoFactorService.hasFreshAssertion).toHaveBeenCalledWith('session-1');
+    expect(next).toHaveBeenCalledWith();
+  });
+
+  it('rejects sessions without a fresh 2FA check', async () => {
+    twoFactorService.requiresFreshAssertionForNodeControl.mockResolvedValue(true);
+    twoFactorService.hasFreshAssertion.mockResolvedValue(false);
+    const next = jest.fn();
+    const res = mockResponse();
+
+    await middleware(mockRequest(['restart_node'], 'session-1'), res as unknown as Response, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(res.json).toHaveBeenCalledWith({
+      success: false,
+      error: {
+        message: 'Verify two-factor authentication to start an agent that can restart nodes',
+        code: 'TWO_FACTOR_REQUIRED',
+      },
+    });
+  });
+
+  it('hands lookup failures to the error handler', async () => {
+    const failure = new Error('database unavailable');
+    twoFactorService.requiresFreshAssertionForNodeControl.mockRejectedValue(failure);
+    const next = jest.fn();
+
+    await middleware(mockRequest(['restart_node']), mockResponse() as unknown as Response, next);
+
+    expect(next).toHaveBeenCalledWith(failure);
+  });
+});
@@ -2,6 +2,16 @@ import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { database } from '../config/database';
 import { logger } from '../utils/logger';
+import { ApiKeyService, requiredScope } from '../services/ApiKeyService';
+import { OrganizationService, hasRole } from '../services/OrganizationService';
+import { AgentService } from '../services/AgentService';
+import { MetricsIngestionService } from '../services/MetricsIngestionService';
+import { TwoFactorService } from '../services/TwoFactorService';
+import { AgentWithMetrics } from '../models/Agent';
+import { OrganizationRole } from '../models/Organization';
+
+const apiKeyService = new ApiKeyService();
+const organizationService = new OrganizationService();
 
 export interface AuthenticatedRequest extends Request {
   user: {
@@ -9,11 +19,97 @@ export interface AuthenticatedRequest extends Request {
     email: string;
     first_name?: string;
     last_name?: string;
+    is_verified?: boolean;
+  };
+  // Set when the request authenticated with a session access token
+  sessionId?: string;
+  // Set when the request authenticated with X-API-Key
+  apiKey?: {
+    id: string;
+    scopes: string[];
   };
 }
 
+// Set by authorizeAgent
+export interface AgentRequest extends AuthenticatedRequest {
+  agent: AgentWithMetrics;
+  agentRole: OrganizationRole;
+}
+
+// Set by authorizeOrganization
+export interface OrganizationRequest extends AuthenticatedRequest {
+  organizationRole: OrganizationRole;
+}
+
+/**
+ * Authenticate with an API key: active and unexpired, holding the scope the
+ * route needs, and within its per-minute rate limit
+ */
+const authenticateApiKey = async (req: Request, res: Response, next: NextFunction, secret: string): Promise<void | Response> => {
+  const apiKey = await apiKeyService.authenticate(secret);
+
+  if (!apiKey) {
+    return res.status(401).json({
+      success: false,
+      error: { message: 'Invalid or expired API key' },
+    });
+  }
+
+  const scope = requiredScope(req.baseUrl, req.method);
+  if (!scope) {
+    return res.status(403).json({
+      success: false,
+      error: { message: 'API keys cannot access this resource' },
+    });
+  }
+
+  if (!apiKey.permissions.includes(scope)) {
+    return res.status(403).json({
+      success: false,
+      error: { message: `API key lacks the ${scope} scope` },
+    });
+  }
+
+  const rateLimit = await apiKeyService.consumeRateLimit(apiKey);
+  res.set({
+    'X-RateLimit-Limit': String(rateLimit.limit),
+    'X-RateLimit-Remaining': String(rateLimit.remaining),
+    'X-RateLimit-Reset': String(rateLimit.resetSeconds),
+  });
+
+  if (!rateLimit.allowed) {
+    logger.warn('API key rate limit exceeded', { keyId: apiKey.id, url: req.url });
+    return res.status(429).json({
+      success: false,
+      error: { message: 'API key rate limit exceeded, please try again later.' },
+    });
+  }
+
+  const result = await database.query(
+    'SELECT id, email, first_name, last_name, is_verified FROM users WHERE id = $1',
+    [apiKey.user_id]
+  );
+
+  if (result.rows.length === 0) {
+    return res.status(401).json({
+      success: false,
+      error: { message: 'Invalid or expired API key' },
+    });
+  }
+
+  (req as AuthenticatedRequest).user = result.rows[0];
+  (req as AuthenticatedRequest).apiKey = { id: apiKey.id, scopes: apiKey.permissions };
+
+  next();
+};
+
 export const authMiddleware = async (req: Request, res: Response, next: NextFunction): Promise<void | Response> => {
   try {
+    const apiKeyHeader = req.get('X-API-Key');
+    if (apiKeyHeader) {
+      return await authenticateApiKey(req, res, next, apiKeyHeader);
+    }
+
     const authHeader = req.headers.authorization;
     
     if (!authHeader || !authHeader.startsWith('Bearer ')) {
@@ -36,13 +132,16 @@ export const authMiddleware = async (req: Request, res: Response, next: NextFunc
     // Verify JWT token
     const decoded = jwt.verify(token, process.env.JWT_SECRET) as any;
     
-    // Get user from database
+    // Get user from database; the token's session must still be live
     const result = await database.query(
-      'SELECT id, email, first_name, last_name FROM users WHERE id = $1',
-      [decoded.userId]
+      `SELECT u.id, u.email, u.first_name, u.last_name, u.is_verified
+       FROM users u
+       JOIN auth_sessions s ON s.user_id = u.id
+       WHERE u.id = $1 AND s.id = $2 AND s.revoked_at IS NULL`,
+      [decoded.userId, decoded.sid]
     );
 
-    if (result.rows.length === 0) {
+    if (!decoded.sid || result.rows.length === 0) {
       return res.status(401).json({
         success: false,
         error: { message: 'Invalid token' },
@@ -51,6 +150,7 @@ export const authMiddleware = async (req: Request, res: Response, next: NextFunc
 
     // Attach user to request
     (req as AuthenticatedRequest).user = result.rows[0];
+    (req as AuthenticatedRequest).sessionId = decoded.sid;
     
     next();
   } catch (error) {
@@ -93,12 +193,16 @@ export const optionalAuthMiddleware = async (req: AuthenticatedRequest, res: Res
     const decoded = jwt.verify(token, process.env.JWT_SECRET) as any;
     
     const result = await database.query(
-      'SELECT id, email, first_name, last_name FROM users WHERE id = $1',
-      [decoded.userId]
+      `SELECT u.id, u.email, u.first_name, u.last_name, u.is_verified
+       FROM users u
+       JOIN auth_sessions s ON s.user_id = u.id
+       WHERE u.id = $1 AND s.id = $2 AND s.revoked_at IS NULL`,
+      [decoded.userId, decoded.sid]
     );
 
-    if (result.rows.length > 0) {
+    if (decoded.sid && result.rows.length > 0) {
       req.user = result.rows[0];
+      req.sessionId = decoded.sid;
     }
     
     next();
@@ -107,3 +211,153 @@ export const optionalAuthMiddleware = async (req: AuthenticatedRequest, res: Res
     next();
   }
 };
+
+/**
+ * Block the route until the user has verified their email, when
+ * REQUIRE_EMAIL_VERIFICATION is enabled. Use after authMiddleware.
+ */
+export const requireVerifiedEmail = (req: Request, res: Response, next: NextFunction): void | Response => {
+  if (process.env.REQUIRE_EMAIL_VERIFICATION === 'true' && !(req as AuthenticatedRequest).user.is_verified) {
+    return res.status(403).json({
+      success: false,
+      error: {
+        message: 'Verify your email address to continue',
+        code: 'EMAIL_NOT_VERIFIED',
+      },
+    });
+  }
+
+  next();
+};
+
+/**
+ * Require a recent 2FA check on this session when `applies` says the request
+ * acts with or hands out node control and the user opted into the
+ * requirement. `action` completes the error message. Use after authMiddleware,
+ * and after authorizeAgent when `applies` reads the agent.
+ */
+export const requireFreshTwoFactor = (applies: (req: AgentRequest) => boolean, action: string) => {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void | Response> => {
+    try {
+      if (!applies(req as AgentRequest)) {
+        return next();
+      }
+
+      const twoFactorService = req.app.locals.twoFactorService as TwoFactorService;
+      const { user, sessionId } = req as AuthenticatedRequest;
+
+      if (await twoFactorService.requiresFreshAssertionForNodeControl(user.id)
+        && !(await twoFactorService.hasFreshAssertion(sessionId))) {
+        return res.status(403).json({
+          success: false,
+          error: {
+            message: `Verify two-factor authentication to ${action}`,
+            code: 'TWO_FACTOR_REQUIRED',
+          },
+        });
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
+
+/**
+ * Authenticate a metrics push for the `:id` agent with its ingestion token,
+ * sent as `Authorization: Bearer <token>`
+ */
+export const authenticateIngestionToken = async (req: Request, res: Response, next: NextFunction): Promise<void | Response> => {
+  try {
+    const metricsIngestionService = req.app.locals.metricsIngestionService as MetricsIngestionService;
+    const authHeader = req.headers.authorization;
+
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return res.status(401).json({
+        success: false,
+        error: { message: 'Ingestion token required' },
+      });
+    }
+
+    if (!(await metricsIngestionService.authenticate(req.params.id, authHeader.substring(7)))) {
+      return res.status(401).json({
+        success: false,
+        error: { message: 'Invalid ingestion token' },
+      });
+    }
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Load the `:id` agent and require the user to hold at least `minimum` on
+ * it: through organization membership, or as creator of a personal agent.
+ * Use after authMiddleware.
+ */
+export const authorizeAgent = (minimum: OrganizationRole) => {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void | Response> => {
+    try {
+      const agentService = req.app.locals.agentService as AgentService;
+      const userId = (req as AuthenticatedRequest).user.id;
+
+      const agent = await agentService.getAgentById(req.params.id);
+      if (!agent) {
+        return res.status(404).json({
+          success: false,
+          error: { message: 'Agent not found' },
+        });
+      }
+
+      const role = await organizationService.getAgentRole(agent, userId);
+      if (!hasRole(role, minimum)) {
+        return res.status(403).json({
+          success: false,
+          error: { message: role ? `Requires the ${minimum} role` : 'Access denied' },
+        });
+      }
+
+      (req as AgentRequest).agent = agent;
+      (req as AgentRequest).agentRole = role!;
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
+
+/**
+ * Require the user to hold at least `minimum` in the `:orgId` organization.
+ * Non-members get a 404. Use after authMiddleware.
+ */
+export const authorizeOrganization = (minimum: OrganizationRole) => {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void | Response> => {
+    try {
+      const role = await organizationService.getRole(req.params.orgId, (req as AuthenticatedRequest).user.id);
+
+      if (!role) {
+        return res.status(404).json({
+          success: false,
+          error: { message: 'Organization not found' },
+        });
+      }
+
+      if (!hasRole(role, minimum)) {
+        return res.status(403).json({
+          success: false,
+          error: { message: `Requires the ${minimum} role` },
+        });
+      }
+
+      (req as OrganizationRequest).organizationRole = role;
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
@@ -1,5 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import { logger } from '../utils/logger';
+import { MentisError } from '../types';
 
 export interface AppError extends Error {
   statusCode?: number;
@@ -60,7 +61,7 @@ export const errorHandler = (
   }
 
   // Don't leak error details in production
-  if (process.env.NODE_ENV === 'production' && !error.isOperational) {
+  if (process.env.NODE_ENV === 'production' && !error.isOperational && !(error instanceof MentisError)) {
     message = 'Something went wrong';
   }
 
@@ -68,6 +69,7 @@ export const errorHandler = (
     success: false,
     error: {
       message,
+      ...(error instanceof MentisError && { code: error.code, details: error.details }),
       ...(process.env.NODE_ENV === 'development' && { stack: error.stack }),
     },
   });
@@ -1,12 +1,101 @@
 import { Request, Response, NextFunction } from 'express';
 import Joi from 'joi';
-import { SupportedChain, NodeType } from '../types';
+import { NodeType, TaskType, TaskStatus, TaskPriority, AlertSeverity, ALERT_RULE_METRICS } from '../types';
+import { getSupportedChains } from '../chains';
+import { getNodeControlDrivers, isPublicUrl } from '../control';
+import { API_KEY_SCOPES } from '../models/ApiKey';
+import { ORGANIZATION_ROLES } from '../models/Organization';
+
+// Per-agent node control driver; required fields depend on the driver.
+// Host paths and commands are operator settings, not part of this config,
+// and AgentService checks hosts, containers and units against the tenant's grants.
+const nodeControlSchema = Joi.object({
+  driver: Joi.string().valid(...getNodeControlDrivers()).required(),
+  timeoutMs: Joi.number().integer().min(1000).max(600000).optional(),
+  // ssh
+  host: Joi.string().hostname().when('driver', { is: 'ssh', then: Joi.required() }),
+  port: Joi.number().integer().min(1).max(65535).optional(),
+  username: Joi.string().pattern(/^[a-z_][a-z0-9_.-]*$/i).when('driver', { is: 'ssh', then: Joi.required() }),
+  service: Joi.string().pattern(/^[A-Za-z0-9@._-]+$/).when('driver', { is: 'ssh', then: Joi.required() }),
+  // docker
+  container: Joi.string().when('driver', { is: 'docker', then: Joi.required() }),
+  stopTimeoutSeconds: Joi.number().integer().min(0).max(300).optional(),
+  // systemd
+  unit: Joi.string().pattern(/^[A-Za-z0-9@._-]+$/).when('driver', { is: 'systemd', then: Joi.required() }),
+  // http
+  url: Joi.string().uri({ scheme: ['http', 'https'] }).custom((value, helpers) => {
+    return isPublicUrl(value) ? value : helpers.message({ custom: 'url must not point at a private or loopback address' });
+  }).when('driver', { is: 'http', then: Joi.required() }),
+  token: Joi.string().optional(),
+  headers: Joi.object().pattern(Joi.string(), Joi.string()).optional(),
+  // fake
+  exitCode: Joi.number().integer().optional(),
+  stdout: Joi.string().allow('').optional(),
+  stderr: Joi.string().allow('').optional(),
+  delayMs: Joi.number().integer().min(0).optional(),
+});
+
+// Per-agent approval policy for dangerous tools
+const approvalPolicySchema = Joi.object({
+  requiredTools: Joi.array().items(Joi.string()).optional(),
+  autoApprovePriorities: Joi.array().items(Joi.string().valid(...Object.values(TaskPriority))).optional(),
+});
+
+// Static thresholds; each one becomes an alert rule for its metric
+const alertThresholdsSchema = Joi.object({
+  uptime: Joi.number().min(0).max(100).optional(),
+  responseTime: Joi.number().min(0).optional(),
+  errorRate: Joi.number().min(0).max(100).optional(),
+  cpuUsage: Joi.number().min(0).max(100).optional(),
+  memoryUsage: Joi.number().min(0).max(100).optional(),
+  diskUsage: Joi.number().min(0).max(100).optional(),
+});
+
+// Custom alert rule; which fields apply depends on the type
+const alertRuleSchema = Joi.object({
+  name: Joi.string().pattern(/^[A-Za-z0-9_-]+$/).max(100).required(),
+  type: Joi.string().valid('threshold', 'rate_of_change', 'absence').required(),
+  metric: Joi.any().when('type', {
+    switch: [
+      { is: 'threshold', then: Joi.string().valid(...ALERT_RULE_METRICS).required() },
+      { is: 'rate_of_change', then: Joi.string().valid(...ALERT_RULE_METRICS.filter(metric => metric !== 'error_rate')).required() },
+    ],
+    otherwise: Joi.forbidden(),
+  }),
+  operator: Joi.any().when('type', {
+    is: 'absence',
+    then: Joi.forbidden(),
+    otherwise: Joi.string().valid('>', '>=', '<', '<=').required(),
+  }),
+  value: Joi.any().when('type', { is: 'absence', then: Joi.forbidden(), otherwise: Joi.number().required() }),
+  forMinutes: Joi.any().when('type', {
+    is: 'threshold',
+    then: Joi.number().integer().min(0).max(1440).optional(),
+    otherwise: Joi.forbidden(),
+  }),
+  windowMinutes: Joi.any().when('type', {
+    is: 'threshold',
+    then: Joi.forbidden(),
+    otherwise: Joi.number().integer().min(1).max(1440).default(5),
+  }),
+  severity: Joi.string().valid(...Object.values(AlertSeverity)).default(AlertSeverity.MEDIUM),
+});
+
+const alertRulesSchema = Joi.array().items(alertRuleSchema).max(50).unique('name');
+
+// Statistical anomaly detection on response time, peer count and block progress
+const anomalyDetectionSchema = Joi.object({
+  enabled: Joi.boolean().optional(),
+  zScoreThreshold: Joi.number().min(1).max(10).optional(),
+});
 
 // Agent creation validation schema
 const agentCreationSchema = Joi.object({
+  organization_id: Joi.string().uuid().optional(),
+  escalation_policy_id: Joi.string().uuid().optional(),
   name: Joi.string().min(1).max(255).required(),
   description: Joi.string().max(1000).optional(),
-  chain: Joi.string().valid(...Object.values(SupportedChain)).required(),
+  chain: Joi.string().valid(...getSupportedChains()).required(),
   node_type: Joi.string().valid(...Object.values(NodeType)).required(),
   endpoint_url: Joi.string().uri().required(),
   config: Joi.object({
@@ -16,11 +105,20 @@ const agentCreationSchema = Joi.object({
     tools: Joi.array().items(Joi.string()).default(['health_check', 'collect_metrics', 'create_alert']),
     maxIterations: Joi.number().integer().min(1).max(50).default(10),
     temperature: Joi.number().min(0).max(2).default(0.1),
+    monitoringInterval: Joi.number().integer().min(30).max(86400).optional(), // seconds
+    nodeControl: nodeControlSchema.optional(),
+    approval: approvalPolicySchema.optional(),
+    alertThresholds: alertThresholdsSchema.optional(),
+    alertRules: alertRulesSchema.optional(),
+    alertCooldownMinutes: Joi.number().integer().min(0).max(1440).optional(),
+    anomalyDetection: anomalyDetectionSchema.optional(),
   }).optional(),
 });
 
 // Agent update validation schema
 const agentUpdateSchema = Joi.object({
+  organization_id: Joi.string().uuid().optional(),
+  escalation_policy_id: Joi.string().uuid().allow(null).optional(),
   name: Joi.string().min(1).max(255).optional(),
   description: Joi.string().max(1000).optional(),
   endpoint_url: Joi.string().uri().optional(),
@@ -31,6 +129,13 @@ const agentUpdateSchema = Joi.object({
     tools: Joi.array().items(Joi.string()).optional(),
     maxIterations: Joi.number().integer().min(1).max(50).optional(),
     temperature: Joi.number().min(0).max(2).optional(),
+    monitoringInterval: Joi.number().integer().min(30).max(86400).optional(), // seconds
+    nodeControl: nodeControlSchema.allow(null).optional(),
+    approval: approvalPolicySchema.allow(null).optional(),
+    alertThresholds: alertThresholdsSchema.allow(null).optional(),
+    alertRules: alertRulesSchema.allow(null).optional(),
+    alertCooldownMinutes: Joi.number().integer().min(0).max(1440).allow(null).optional(),
+    anomalyDetection: anomalyDetectionSchema.allow(null).optional(),
   }).optional(),
   status: Joi.string().valid('active', 'inactive', 'error', 'maintenance').optional(),
 });
@@ -49,11 +154,85 @@ const userLoginSchema = Joi.object({
   password: Joi.string().required(),
 });
 
+// Email verification validation schema
+const emailVerificationSchema = Joi.object({
+  token: Joi.string().max(255).required(),
+});
+
+// Password reset request validation schema
+const passwordResetRequestSchema = Joi.object({
+  email: Joi.string().email().required(),
+});
+
+// Password reset validation schema
+const passwordResetSchema = Joi.object({
+  token: Joi.string().max(255).required(),
+  password: Joi.string().min(8).required(),
+});
+
+// Token refresh validation schema
+const tokenRefreshSchema = Joi.object({
+  refreshToken: Joi.string().max(255).required(),
+});
+
+// Two-factor validation schemas. `code` is a 6-digit TOTP code or a recovery code.
+const twoFactorCodeSchema = Joi.object({
+  code: Joi.string().trim().max(20).required(),
+});
+
+const twoFactorLoginSchema = Joi.object({
+  challengeToken: Joi.string().max(1024).required(),
+  code: Joi.string().trim().max(20).required(),
+});
+
+const twoFactorDisableSchema = Joi.object({
+  password: Joi.string().required(),
+  code: Joi.string().trim().max(20).required(),
+});
+
+const twoFactorSettingsSchema = Joi.object({
+  requireForNodeControl: Joi.boolean().required(),
+  // TOTP or recovery code; required to turn the requirement off
+  code: Joi.string().trim().max(20).when('requireForNodeControl', { is: false, then: Joi.required(), otherwise: Joi.optional() }),
+});
+
 // Subscription update validation schema
 const subscriptionUpdateSchema = Joi.object({
   plan: Joi.string().valid('starter', 'core', 'enterprise').required(),
 });
 
+// Subscription cancellation validation schema
+const subscriptionCancelSchema = Joi.object({
+  immediate: Joi.boolean().default(false),
+});
+
+// API key creation validation schema
+const apiKeyCreationSchema = Joi.object({
+  name: Joi.string().min(1).max(255).required(),
+  scopes: Joi.array().items(Joi.string().valid(...API_KEY_SCOPES)).min(1).unique().required(),
+  expires_at: Joi.date().iso().greater('now').optional(),
+  rate_limit_per_minute: Joi.number().integer().min(1).max(10000).optional(),
+});
+
+// Organization validation schemas
+const organizationSchema = Joi.object({
+  name: Joi.string().trim().min(1).max(255).required(),
+});
+
+const organizationMemberSchema = Joi.object({
+  email: Joi.string().email().required(),
+  role: Joi.string().valid(...ORGANIZATION_ROLES).required(),
+});
+
+const organizationMemberRoleSchema = Joi.object({
+  role: Joi.string().valid(...ORGANIZATION_ROLES).required(),
+});
+
+// Approval decision validation schema
+const approvalDecisionSchema = Joi.object({
+  reason: Joi.string().max(1000).optional(),
+});
+
 // Notification settings validation schema
 const notificationSettingsSchema = Joi.object({
   email_enabled: Joi.boolean().optional(),
@@ -67,6 +246,94 @@ const notificationSettingsSchema = Joi.object({
   }).optional(),
 });
 
+// On-call schedule and escalation policy schemas
+const oncallScheduleSchema = Joi.object({
+  organization_id: Joi.string().uuid().optional(),
+  name: Joi.string().min(1).max(255).required(),
+  participants: Joi.array().items(Joi.string().uuid()).min(1).max(50).required(),
+  rotation_start: Joi.date().iso().optional(),
+  shift_hours: Joi.number().integer().min(1).max(8760).optional(),
+});
+
+const oncallScheduleUpdateSchema = Joi.object({
+  name: Joi.string().min(1).max(255).optional(),
+  participants: Joi.array().items(Joi.string().uuid()).min(1).max(50).optional(),
+  rotation_start: Joi.date().iso().optional(),
+  shift_hours: Joi.number().integer().min(1).max(8760).optional(),
+}).min(1);
+
+const oncallOverrideSchema = Joi.object({
+  user_id: Joi.string().uuid().required(),
+  starts_at: Joi.date().iso().required(),
+  ends_at: Joi.date().iso().greater(Joi.ref('starts_at')).required(),
+});
+
+const escalationTiersSchema = Joi.array().items(Joi.object({
+  targets: Joi.array().items(Joi.object({
+    type: Joi.string().valid('user', 'schedule').required(),
+    id: Joi.string().uuid().required(),
+  })).min(1).max(20).required(),
+  escalateAfterMinutes: Joi.number().integer().min(1).max(1440).required(),
+})).min(1).max(10);
+
+const escalationPolicySchema = Joi.object({
+  organization_id: Joi.string().uuid().optional(),
+  name: Joi.string().min(1).max(255).required(),
+  tiers: escalationTiersSchema.required(),
+});
+
+const escalationPolicyUpdateSchema = Joi.object({
+  name: Joi.string().min(1).max(255).optional(),
+  tiers: escalationTiersSchema.optional(),
+}).min(1);
+
+// Sample pushed by a node sidecar; fields left out repeat the agent's previous sample
+const metricsSampleSchema = Joi.object({
+  recorded_at: Joi.date().iso().optional(),
+  uptime: Joi.number().min(0).max(100).optional(),
+  response_time: Joi.number().integer().min(0).max(2147483647).optional(),
+  cpu_usage: Joi.number().min(0).max(100).optional(),
+  memory_usage: Joi.number().min(0).max(100).optional(),
+  disk_usage: Joi.number().min(0).max(100).optional(),
+  network_latency: Joi.number().integer().min(0).max(2147483647).optional(),
+  peer_count: Joi.number().integer().min(0).max(2147483647).optional(),
+  block_height: Joi.number().integer().min(0).max(Number.MAX_SAFE_INTEGER).optional(),
+  sync_status: Joi.boolean().optional(),
+  sync_lag: Joi.number().integer().min(0).max(2147483647).optional(), // blocks behind the network head
+}).or('uptime', 'response_time', 'cpu_usage', 'memory_usage', 'disk_usage', 'network_latency', 'peer_count', 'block_height', 'sync_status', 'sync_lag');
+
+const metricsIngestionSchema = Joi.object({
+  sent_at: Joi.date().iso().optional(), // sidecar clock at send time, to correct skew
+  samples: Joi.array().items(metricsSampleSchema).min(1).max(500).required(),
+});
+
+// SLO over one or more agents; latency and sync_lag need a threshold
+const sloSchema = Joi.object({
+  organization_id: Joi.string().uuid().optional(),
+  name: Joi.string().min(1).max(255).required(),
+  description: Joi.string().max(1000).optional(),
+  type: Joi.string().valid('availability', 'latency', 'sync_lag').required(),
+  threshold: Joi.number().min(0).when('type', {
+    is: 'availability',
+    then: Joi.forbidden(),
+    otherwise: Joi.required(),
+  }),
+  objective: Joi.number().greater(0).less(100).required(),
+  window_days: Joi.number().integer().min(1).max(90).optional(),
+  burn_alerts: Joi.boolean().optional(),
+  agent_ids: Joi.array().items(Joi.string().uuid()).min(1).max(100).unique().required(),
+});
+
+const sloUpdateSchema = Joi.object({
+  name: Joi.string().min(1).max(255).optional(),
+  description: Joi.string().max(1000).optional(),
+  threshold: Joi.number().min(0).optional(),
+  objective: Joi.number().greater(0).less(100).optional(),
+  window_days: Joi.number().integer().min(1).max(90).optional(),
+  burn_alerts: Joi.boolean().optional(),
+  agent_ids: Joi.array().items(Joi.string().uuid()).min(1).max(100).unique().optional(),
+}).min(1);
+
 /**
  * Generic validation middleware factory
  */
@@ -154,15 +421,41 @@ export const validateAgentCreation = createValidationMiddleware(agentCreationSch
 export const validateAgentUpdate = createValidationMiddleware(agentUpdateSchema);
 export const validateUserRegistration = createValidationMiddleware(userRegistrationSchema);
 export const validateUserLogin = createValidationMiddleware(userLoginSchema);
+export const validateEmailVerification = createValidationMiddleware(emailVerificationSchema);
+export const validatePasswordResetRequest = createValidationMiddleware(passwordResetRequestSchema);
+export const validatePasswordReset = createValidationMiddleware(passwordResetSchema);
+export const validateTokenRefresh = createValidationMiddleware(tokenRefreshSchema);
+export const validateTwoFactorCode = createValidationMiddleware(twoFactorCodeSchema);
+export const validateTwoFactorLogin = createValidationMiddleware(twoFactorLoginSchema);
+export const validateTwoFactorDisable = createValidationMiddleware(twoFactorDisableSchema);
+export const validateTwoFactorSettings = createValidationMiddleware(twoFactorSettingsSchema);
 export const validateSubscriptionUpdate = createValidationMiddleware(subscriptionUpdateSchema);
+export const validateSubscriptionCancel = createValidationMiddleware(subscriptionCancelSchema);
 export const validateNotificationSettings = createValidationMiddleware(notificationSettingsSchema);
+export const validateApprovalDecision = createValidationMiddleware(approvalDecisionSchema);
+export const validateApiKeyCreation = createValidationMiddleware(apiKeyCreationSchema);
+export const validateOrganization = createValidationMiddleware(organizationSchema);
+export const validateOrganizationMember = createValidationMiddleware(organizationMemberSchema);
+export const validateOrganizationMemberRole = createValidationMiddleware(organizationMemberRoleSchema);
+export const validateOnCallSchedule = createValidationMiddleware(oncallScheduleSchema);
+export const validateOnCallScheduleUpdate = createValidationMiddleware(oncallScheduleUpdateSchema);
+export const validateOnCallOverride = createValidationMiddleware(oncallOverrideSchema);
+export const validateEscalationPolicy = createValidationMiddleware(escalationPolicySchema);
+export const validateEscalationPolicyUpdate = createValidationMiddleware(escalationPolicyUpdateSchema);
+export const validateMetricsIngestion = createValidationMiddleware(metricsIngestionSchema);
+export const validateSlo = createValidationMiddleware(sloSchema);
+export const validateSloUpdate = createValidationMiddleware(sloUpdateSchema);
 
 // Query parameter validation schemas
 const metricsQuerySchema = Joi.object({
-  hours: Joi.number().integer().min(1).max(168).default(24), // Max 7 days
+  hours: Joi.number().integer().min(1).max(43800).default(24), // Max 5 years, served from daily rollups
   timeRange: Joi.string().valid('5m', '15m', '1h', '6h', '24h', '7d').default('1h'),
 });
 
+const metricsIngestionQuerySchema = Joi.object({
+  mountpoint: Joi.string().max(255).default('/'), // filesystem reported as disk usage
+});
+
 const alertsQuerySchema = Joi.object({
   resolved: Joi.boolean().default(false),
   severity: Joi.string().valid('low', 'medium', 'high', 'critical').optional(),
@@ -170,13 +463,77 @@ const alertsQuerySchema = Joi.object({
   offset: Joi.number().integer().min(0).default(0),
 });
 
+const taskHistoryQuerySchema = Joi.object({
+  type: Joi.string().valid(...Object.values(TaskType)).optional(),
+  status: Joi.string().valid(...Object.values(TaskStatus)).optional(),
+  from: Joi.date().iso().optional(),
+  to: Joi.date().iso().min(Joi.ref('from')).optional(),
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(100).default(20),
+});
+
+const agentListQuerySchema = Joi.object({
+  organizationId: Joi.string().uuid().optional(),
+});
+
+const oncallListQuerySchema = Joi.object({
+  organizationId: Joi.string().uuid().optional(),
+});
+
+const sloListQuerySchema = Joi.object({
+  organizationId: Joi.string().uuid().optional(),
+});
+
+const auditFilterFields = {
+  actorType: Joi.string().valid('user', 'api_key', 'agent', 'system').optional(),
+  actorId: Joi.string().uuid().optional(),
+  action: Joi.string().max(100).optional(),
+  targetType: Joi.string().max(50).optional(),
+  targetId: Joi.string().max(255).optional(),
+  agentId: Joi.string().uuid().optional(),
+  organizationId: Joi.string().uuid().optional(),
+  from: Joi.date().iso().optional(),
+  to: Joi.date().iso().min(Joi.ref('from')).optional(),
+};
+
+const auditQuerySchema = Joi.object({
+  ...auditFilterFields,
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(200).default(50),
+});
+
+const auditExportQuerySchema = Joi.object({
+  ...auditFilterFields,
+  format: Joi.string().valid('csv', 'json').default('csv'),
+});
+
+const dashboardQuerySchema = Joi.object({
+  hours: Joi.number().integer().min(1).max(720).default(24), // Max 30 days
+  days: Joi.number().integer().min(1).max(365).default(30),
+});
+
 export const validateMetricsQuery = validateQueryParams(metricsQuerySchema);
+export const validateMetricsIngestionQuery = validateQueryParams(metricsIngestionQuerySchema);
 export const validateAlertsQuery = validateQueryParams(alertsQuerySchema);
+export const validateTaskHistoryQuery = validateQueryParams(taskHistoryQuerySchema);
+export const validateDashboardQuery = validateQueryParams(dashboardQuerySchema);
+export const validateAgentListQuery = validateQueryParams(agentListQuerySchema);
+export const validateAuditQuery = validateQueryParams(auditQuerySchema);
+export const validateAuditExportQuery = validateQueryParams(auditExportQuerySchema);
+export const validateOnCallListQuery = validateQueryParams(oncallListQuerySchema);
+export const validateSloListQuery = validateQueryParams(sloListQuerySchema);
 
 // Parameter validation
 export const validateAgentId = validateUUIDParam('id');
 export const validateAlertId = validateUUIDParam('alertId');
 export const validateUserId = validateUUIDParam('userId');
+export const validateApiKeyId = validateUUIDParam('keyId');
+export const validateSessionId = validateUUIDParam('sessionId');
+export const validateOrganizationId = validateUUIDParam('orgId');
+export const validateScheduleId = validateUUIDParam('scheduleId');
+export const validateOverrideId = validateUUIDParam('overrideId');
+export const validatePolicyId = validateUUIDParam('policyId');
+export const validateSloId = validateUUIDParam('sloId');
 
 /**
  * Custom validation for agent task execution
@@ -3,6 +3,7 @@ import { SupportedChain, NodeType, AgentStatus } from '../types';
 export interface Agent {
   id: string;
   user_id: string;
+  organization_id?: string | null;
   name: string;
   description?: string;
   chain: SupportedChain;
@@ -10,6 +11,7 @@ export interface Agent {
   status: AgentStatus;
   endpoint_url: string;
   config: Record<string, any>;
+  escalation_policy_id?: string | null;
   last_health_check?: Date;
   created_at: Date;
   updated_at: Date;
@@ -17,19 +19,23 @@ export interface Agent {
 
 export interface CreateAgentData {
   user_id: string;
+  organization_id?: string;
   name: string;
   description?: string;
   chain: SupportedChain;
   node_type: NodeType;
   endpoint_url: string;
   config?: Record<string, any>;
+  escalation_policy_id?: string;
 }
 
 export interface UpdateAgentData {
+  organization_id?: string;
   name?: string;
   description?: string;
   endpoint_url?: string;
   config?: Record<string, any>;
+  escalation_policy_id?: string | null;
   status?: AgentStatus;
   last_health_check?: Date;
 }
@@ -46,16 +52,20 @@ export interface AgentMetrics {
   agent_id: string;
   uptime: number;
   response_time: number;
-  cpu_usage: number;
-  memory_usage: number;
-  disk_usage: number;
+  cpu_usage: number | null; // host usage is NULL until a sidecar reports it
+  memory_usage: number | null;
+  disk_usage: number | null;
   network_latency: number;
   peer_count: number;
   block_height: number;
   sync_status: boolean;
+  sync_lag: number | null;
   recorded_at: Date;
 }
 
+// Raw samples, or per-minute, hourly and daily rollups of them
+export type MetricsResolution = 'raw' | '1m' | '1h' | '1d';
+
 export interface CreateAgentMetricsData {
   agent_id: string;
   uptime: number;
@@ -67,5 +77,26 @@ export interface CreateAgentMetricsData {
   peer_count: number;
   block_height: number;
   sync_status: boolean;
+  sync_lag?: number; // blocks behind the network head
+}
+
+
+// Token a node sidecar pushes metrics with; the secret itself is never stored
+export interface AgentIngestionToken {
+  agent_id: string;
+  token_prefix: string;
+  created_by?: string;
+  created_at: Date;
+  last_used_at?: Date;
 }
 
+export interface AgentIngestionTokenWithSecret {
+  token: AgentIngestionToken;
+  secret: string;
+}
+
+export interface IngestionResult {
+  accepted: number;
+  rejected: { index: number; reason: string }[];
+  clock_offset_ms: number; // added to sidecar timestamps to correct its clock
+}
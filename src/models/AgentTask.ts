@@ -0,0 +1,93 @@
+import { TaskType, TaskStatus, TaskPriority } from '../types';
+
+export interface ToolCallRecord {
+  id?: string;
+  name: string;
+  args: Record<string, any>;
+  output?: string;
+}
+
+export interface TaskMessageRecord {
+  role: string;
+  content: any;
+  tool_calls?: ToolCallRecord[];
+  tool_call_id?: string;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface AgentTaskRecord {
+  id: string;
+  agent_id: string;
+  type: TaskType;
+  description: string;
+  parameters: Record<string, any>;
+  priority: TaskPriority;
+  status: TaskStatus;
+  result?: any;
+  error?: string;
+  tool_calls: ToolCallRecord[];
+  messages: TaskMessageRecord[];
+  duration_ms?: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  attempt: number; // queue attempt the checkpoints belong to
+  scheduled: boolean; // queued by the monitoring scheduler
+  created_at: Date;
+  completed_at?: Date;
+  updated_at: Date;
+}
+
+export interface TaskHistoryFilters {
+  type?: TaskType;
+  status?: TaskStatus;
+  from?: Date;
+  to?: Date;
+  page: number;
+  limit: number;
+}
+
+export interface TaskCheckpoint {
+  checkpointId: string;
+  parentCheckpointId?: string;
+  step: number;
+  source: string;
+  createdAt?: string;
+  // Nodes that were about to run when the checkpoint was taken
+  next: string[];
+  messageCount: number;
+  // Messages added since the parent checkpoint
+  newMessages: TaskMessageRecord[];
+}
+
+export interface TaskCheckpointState extends TaskCheckpoint {
+  messages: TaskMessageRecord[];
+  metadata: Record<string, any>;
+}
+
+export type ApprovalStatus = 'pending' | 'approved' | 'rejected';
+
+export interface TaskApprovalRecord {
+  id: string;
+  task_id: string;
+  agent_id: string;
+  tool_calls: ToolCallRecord[];
+  status: ApprovalStatus;
+  reason?: string;
+  decided_by?: string;
+  requested_at: Date;
+  decided_at?: Date;
+}
+
+// Value a paused thread is resumed with
+export interface ApprovalDecision {
+  approvalId: string;
+  approved: boolean;
+  reason?: string;
+  decidedBy?: string;
+}
@@ -0,0 +1,50 @@
+// Scopes are `<resource>:<read|write>`, where resource is the /api/<resource> mount
+export const API_KEY_SCOPES = [
+  'agents:read',
+  'agents:write',
+  'dashboard:read',
+  'subscriptions:read',
+  'audit:read',
+  'oncall:read',
+  'oncall:write',
+  'slos:read',
+  'slos:write',
+] as const;
+
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+// Stored row without key_hash
+export interface ApiKey {
+  id: string;
+  user_id: string;
+  name: string;
+  key_prefix: string;
+  permissions: ApiKeyScope[];
+  rate_limit_per_minute?: number;
+  last_used?: Date;
+  expires_at?: Date;
+  is_active: boolean;
+  revoked_at?: Date;
+  rotated_at?: Date;
+  created_at: Date;
+}
+
+export interface CreateApiKeyData {
+  name: string;
+  scopes: ApiKeyScope[];
+  expires_at?: Date;
+  rate_limit_per_minute?: number;
+}
+
+// Returned once, when a key is created or rotated
+export interface ApiKeyWithSecret {
+  apiKey: ApiKey;
+  secret: string;
+}
+
+export interface ApiKeyRateLimit {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetSeconds: number;
+}
@@ -0,0 +1,56 @@
+export type AuditActorType = 'user' | 'api_key' | 'agent' | 'system';
+
+// Who performed an action and from where
+export interface AuditActor {
+  actorType: AuditActorType;
+  actorId?: string;
+  // Acting user, or the owner of the acting agent
+  userId?: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface AuditEventData {
+  action: string; // `<resource>.<verb>`, e.g. agent.start
+  targetType: string;
+  targetId?: string;
+  agentId?: string;
+  organizationId?: string | null;
+  before?: Record<string, any>;
+  after?: Record<string, any>;
+  metadata?: Record<string, any>;
+}
+
+// Changed fields only
+export type AuditChanges = Record<string, { before?: any; after?: any }>;
+
+export interface AuditEvent {
+  id: string;
+  occurred_at: Date;
+  actor_type: AuditActorType;
+  actor_id?: string;
+  user_id?: string;
+  organization_id?: string;
+  action: string;
+  target_type: string;
+  target_id?: string;
+  agent_id?: string;
+  changes?: AuditChanges;
+  metadata?: Record<string, any>;
+  ip_address?: string;
+  user_agent?: string;
+}
+
+export interface AuditFilters {
+  actorType?: AuditActorType;
+  actorId?: string;
+  action?: string;
+  targetType?: string;
+  targetId?: string;
+  agentId?: string;
+  organizationId?: string;
+  from?: Date;
+  to?: Date;
+  page: number;
+  limit: number;
+}
@@ -0,0 +1,19 @@
+// Webhook event in the Stripe event format
+export interface BillingEvent {
+  id: string;
+  type: string;
+  created: number; // unix seconds
+  data: {
+    object: any;
+  };
+}
+
+export type BillingEventResult = 'processed' | 'ignored' | 'duplicate';
+
+export interface BillingHistoryEntry {
+  id: string;
+  type: string;
+  amountCents: number | null;
+  currency: string | null;
+  createdAt: Date;
+}
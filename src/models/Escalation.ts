@@ -0,0 +1,70 @@
+// Personal (organization_id null, owned by user_id) or shared with an organization
+export interface OwnedResource {
+  user_id: string;
+  organization_id?: string | null;
+}
+
+export interface OnCallSchedule extends OwnedResource {
+  id: string;
+  name: string;
+  participants: string[]; // user ids in rotation order
+  rotation_start: Date;
+  shift_hours: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface OnCallOverride {
+  id: string;
+  schedule_id: string;
+  user_id: string;
+  starts_at: Date;
+  ends_at: Date;
+  created_by?: string;
+  created_at: Date;
+}
+
+export interface CreateOnCallScheduleData {
+  user_id: string;
+  organization_id?: string | null;
+  name: string;
+  participants: string[];
+  rotation_start?: Date;
+  shift_hours?: number;
+}
+
+export interface UpdateOnCallScheduleData {
+  name?: string;
+  participants?: string[];
+  rotation_start?: Date;
+  shift_hours?: number;
+}
+
+export type EscalationTarget =
+  | { type: 'user'; id: string }
+  | { type: 'schedule'; id: string }; // whoever is on call when the tier is notified
+
+export interface EscalationTier {
+  targets: EscalationTarget[];
+  escalateAfterMinutes: number; // wait for an acknowledgement before the next tier
+}
+
+export interface EscalationPolicy extends OwnedResource {
+  id: string;
+  name: string;
+  tiers: EscalationTier[];
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CreateEscalationPolicyData {
+  user_id: string;
+  organization_id?: string | null;
+  name: string;
+  tiers: EscalationTier[];
+}
+
+export interface UpdateEscalationPolicyData {
+  name?: string;
+  tiers?: EscalationTier[];
+}
@@ -0,0 +1,28 @@
+// Lowest to highest; each role can do everything the ones before it can
+export const ORGANIZATION_ROLES = ['viewer', 'operator', 'admin', 'owner'] as const;
+
+export type OrganizationRole = typeof ORGANIZATION_ROLES[number];
+
+export interface Organization {
+  id: string;
+  name: string;
+  created_by?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// An organization as seen by one of its members
+export interface OrganizationWithRole extends Organization {
+  role: OrganizationRole;
+  member_count: number;
+  agent_count: number;
+}
+
+export interface OrganizationMember {
+  user_id: string;
+  email: string;
+  first_name?: string;
+  last_name?: string;
+  role: OrganizationRole;
+  created_at: Date;
+}
@@ -0,0 +1,23 @@
+export interface AuthSession {
+  id: string;
+  user_id: string;
+  user_agent?: string;
+  ip_address?: string;
+  created_at: Date;
+  last_used_at: Date;
+  expires_at: Date;
+  revoked_at?: Date;
+  revoke_reason?: string;
+}
+
+export interface SessionMetadata {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export interface SessionTokens {
+  sessionId: string;
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: string; // access token lifetime, e.g. '15m'
+}
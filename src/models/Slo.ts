@@ -0,0 +1,60 @@
+import { OwnedResource } from './Escalation';
+
+// availability: share of uptime; latency: response time under the threshold;
+// sync_lag: blocks behind the network head under the threshold
+export type SloType = 'availability' | 'latency' | 'sync_lag';
+
+export type BurnWindow = '5m' | '30m' | '1h' | '6h';
+
+export interface Slo extends OwnedResource {
+  id: string;
+  name: string;
+  description?: string;
+  type: SloType;
+  threshold?: number; // ms for latency, blocks for sync_lag
+  objective: number; // percent of good samples, e.g. 99.9
+  window_days: number;
+  burn_alerts: boolean;
+  agent_ids: string[];
+  history_start?: Date; // first hour counted since the SLO was created or its threshold or agents changed
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface SloStatus {
+  attainment: number | null; // percent of good samples over the window, null without samples
+  error_budget_remaining: number | null; // percent of the budget left; negative once overspent
+  samples: number;
+  burn_rates: Record<BurnWindow, number | null>; // 1 spends the budget exactly over the window
+  fast_burn: boolean;
+  slow_burn: boolean;
+  breaching: boolean;
+  history_start: Date | null; // set while the counted history starts inside the window
+}
+
+export interface SloWithStatus extends Slo {
+  status: SloStatus;
+}
+
+export interface CreateSloData {
+  user_id: string;
+  organization_id?: string | null;
+  name: string;
+  description?: string;
+  type: SloType;
+  threshold?: number;
+  objective: number;
+  window_days?: number;
+  burn_alerts?: boolean;
+  agent_ids: string[];
+}
+
+export interface UpdateSloData {
+  name?: string;
+  description?: string;
+  threshold?: number;
+  objective?: number;
+  window_days?: number;
+  burn_alerts?: boolean;
+  agent_ids?: string[];
+}
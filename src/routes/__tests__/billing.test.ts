@@ -0,0 +1,165 @@
+import crypto from 'crypto';
+import http from 'http';
+import express from 'express';
+import axios from 'axios';
+import { AddressInfo } from 'net';
+import billingRoutes from '../billing';
+import { BillingService } from '../../services/BillingService';
+import { errorHandler } from '../../middleware/errorHandler';
+import { database } from '../../config/database';
+import { redis } from '../../config/redis';
+
+jest.mock('../../config/database', () => ({ database: { transaction: jest.fn(), query: jest.fn() } }));
+jest.mock('../../config/redis', () => ({ redis: { set: jest.fn() } }));
+jest.mock('../../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const SECRET = 'whsec_test';
+
+/**
+ * Stand-in for the billing tables: remembers recorded event ids and
+ * which provider subscription belongs to which user
+ */
+function mockBillingTables() {
+  const eventIds = new Set<string>();
+  const subscriptions = new Map<string, string>([['sub_123', 'user-1']]);
+  const statements: { sql: string; params: any[] }[] = [];
+
+  const client = {
+    query: jest.fn(async (sql: string, params: any[] = []) => {
+      statements.push({ sql, params });
+
+      if (sql.includes('INSERT INTO billing_events')) {
+        if (eventIds.has(params[0])) {
+          return { rows: [] };
+        }
+        eventIds.add(params[0]);
+        return { rows: [{ id: params[0] }] };
+      }
+      if (sql.includes('UPDATE subscriptions') && sql.includes('WHERE stripe_subscription_id')) {
+        const userId = subscriptions.get(params[0]);
+        return { rows: userId ? [{ user_id: userId }] : [] };
+      }
+      if (sql.includes('UPDATE subscriptions')) {
+        subscriptions.set(params[2], params[0]);
+        return { rows: [{ user_id: params[0] }] };
+      }
+      if (sql.includes('UPDATE agents')) {
+        return { rows: [{ id: 'agent-1' }] };
+      }
+      return { rows: [] };
+    }),
+  };
+
+  (database.transaction as jest.Mock).mockImplementation(callback => callback(client));
+
+  return { statements };
+}
+
+/**
+ * Sign a fixture event the way scripts/send-billing-event.js does
+ */
+function signedEvent(type: string, object: any, options: { id?: string; secret?: string; timestamp?: number } = {}) {
+  const timestamp = options.timestamp ?? Math.floor(Date.now() / 1000);
+  const payload = JSON.stringify({
+    id: options.id || `evt_${crypto.randomBytes(8).toString('hex')}`,
+    type,
+    created: timestamp,
+    data: { object },
+  });
+  const signature = crypto.createHmac('sha256', options.secret || SECRET).update(`${timestamp}.${payload}`).digest('hex');
+
+  return { payload, signature: `t=${timestamp},v1=${signature}` };
+}
+
+describe('POST /api/billing/webhook', () => {
+  let server: http.Server;
+  let url: string;
+
+  beforeAll(async () => {
+    process.env.BILLING_WEBHOOK_SECRET = SECRET;
+
+    const app = express();
+    app.use('/api/billing', billingRoutes);
+    app.use(errorHandler);
+    app.locals.billingService = new BillingService();
+
+    server = app.listen(0, '127.0.0.1');
+    await new Promise(resolve => server.once('listening', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/billing/webhook`;
+  });
+
+  afterAll(async () => {
+    delete process.env.BILLING_WEBHOOK_SECRET;
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const post = (event: { payload: string; signature?: string }) => axios.post(url, event.payload, {
+    headers: {
+      'Content-Type': 'application/json',
+      ...(event.signature ? { 'Stripe-Signature': event.signature } : {}),
+    },
+    validateStatus: () => true,
+  });
+
+  it('applies a completed checkout to the user\'s subscription', async () => {
+    const { statements } = mockBillingTables();
+
+    const response = await post(signedEvent('checkout.session.completed', {
+      client_reference_id: 'user-2',
+      customer: 'cus_1',
+      subscription: 'sub_456',
+      metadata: { plan: 'core' },
+    }));
+
+    expect(response.status).toBe(200);
+    expect(response.data.data.result).toBe('processed');
+
+    const update = statements.find(({ sql }) => sql.includes('UPDATE subscriptions'));
+    expect(update?.params.slice(0, 4)).toEqual(['user-2', 'cus_1', 'sub_456', 'core']);
+  });
+
+  it('pauses agents on a failed payment and resumes them once paid', async () => {
+    mockBillingTables();
+
+    const failed = await post(signedEvent('invoice.payment_failed', { subscription: 'sub_123', amount_due: 1900 }));
+    expect(failed.data.data.result).toBe('processed');
+    expect(redis.set).toHaveBeenLastCalledWith('agent:agent-1:status', 'inactive', 3600);
+
+    const paid = await post(signedEvent('invoice.paid', { subscription: 'sub_123', amount_paid: 1900 }));
+    expect(paid.data.data.result).toBe('processed');
+    expect(redis.set).toHaveBeenLastCalledWith('agent:agent-1:status', 'active', 3600);
+  });
+
+  it('acknowledges a redelivered event without applying it again', async () => {
+    const { statements } = mockBillingTables();
+    const event = signedEvent('customer.subscription.deleted', { id: 'sub_123', status: 'canceled' }, { id: 'evt_once' });
+
+    expect((await post(event)).data.data.result).toBe('processed');
+    expect((await post(event)).data.data.result).toBe('duplicate');
+    expect(statements.filter(({ sql }) => sql.includes('UPDATE subscriptions'))).toHaveLength(1);
+  });
+
+  it('ignores events for unknown subscriptions and unhandled types', async () => {
+    mockBillingTables();
+
+    expect((await post(signedEvent('invoice.paid', { subscription: 'sub_unknown' }))).data.data.result).toBe('ignored');
+    expect((await post(signedEvent('customer.created', { id: 'cus_1' }))).data.data.result).toBe('ignored');
+  });
+
+  it.each([
+    ['a missing signature', (event: { payload: string; signature: string }) => ({ payload: event.payload })],
+    ['a signature made with another secret', () => signedEvent('invoice.paid', { subscription: 'sub_123' }, { secret: 'whsec_other' })],
+    ['a stale timestamp', () => signedEvent('invoice.paid', { subscription: 'sub_123' }, { timestamp: Math.floor(Date.now() / 1000) - 600 })],
+    ['a modified payload', (event: { payload: string; signature: string }) => ({ ...event, payload: event.payload.replace('sub_123', 'sub_999') })],
+  ])('rejects %s without touching the database', async (_, tamper) => {
+    mockBillingTables();
+
+    const response = await post(tamper(signedEvent('invoice.paid', { subscription: 'sub_123' })));
+
+    expect(response.status).toBe(400);
+    expect(response.data.error.code).toBe('INVALID_SIGNATURE');
+    expect(database.transaction).not.toHaveBeenCalled();
+  });
+});
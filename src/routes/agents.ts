@@ -1,20 +1,129 @@
-import { Router, Response, Request } from 'express';
+import express, { Router, Response, Request, NextFunction } from 'express';
 import { AgentService } from '../services/AgentService';
 import { MonitoringService } from '../services/MonitoringService';
+import { OrganizationService, hasRole } from '../services/OrganizationService';
+import { AuditService, auditActor } from '../services/AuditService';
+import { EscalationService } from '../services/EscalationService';
+import { MetricsIngestionService } from '../services/MetricsIngestionService';
 import { asyncHandler } from '../middleware/errorHandler';
-import { authMiddleware, AuthenticatedRequest } from '../middleware/auth';
-import { validateAgentCreation, validateAgentUpdate } from '../middleware/validation';
+import {
+  authMiddleware,
+  requireVerifiedEmail,
+  authorizeAgent,
+  authenticateIngestionToken,
+  requireFreshTwoFactor,
+  AuthenticatedRequest,
+  AgentRequest,
+} from '../middleware/auth';
+import {
+  validateAgentCreation,
+  validateAgentUpdate,
+  validateAgentTaskExecution,
+  validateTaskHistoryQuery,
+  validateApprovalDecision,
+  validateAgentListQuery,
+  validateAgentId,
+  validateAlertId,
+  validateMetricsQuery,
+  validateMetricsIngestion,
+  validateMetricsIngestionQuery,
+} from '../middleware/validation';
+import { TaskHistoryFilters } from '../models/AgentTask';
+import { Agent } from '../models/Agent';
+import { buildPagination } from '../utils/pagination';
 import { logger } from '../utils/logger';
 
 const router = Router();
 
+/**
+ * Whether the user may add agents to an organization (admin or above)
+ */
+const canManageOrganizationAgents = async (req: Request, organizationId: string): Promise<boolean> => {
+  const organizationService = req.app.locals.organizationService as OrganizationService;
+  const role = await organizationService.getRole(organizationId, (req as AuthenticatedRequest).user.id);
+  return hasRole(role, 'admin');
+};
+
+/**
+ * Whether an agent in the given scope may use the escalation policy
+ */
+const canUseEscalationPolicy = async (req: Request, policyId: string, agent: { user_id: string; organization_id?: string | null }): Promise<boolean> => {
+  const escalationService = req.app.locals.escalationService as EscalationService;
+  const policy = await escalationService.getPolicy(policyId);
+  return policy !== null && escalationService.isPolicyUsableBy(policy, agent);
+};
+
+const canRestartNodes = (tools?: string[]): boolean => tools?.includes('restart_node') === true;
+
+/**
+ * The request's agent can restart nodes
+ */
+const controlsNodes = (req: AgentRequest): boolean => canRestartNodes(req.agent.config.tools);
+
+/**
+ * A new agent that can restart nodes; agents start active, so this grants node control
+ */
+const createsNodeControl = (req: AgentRequest): boolean => canRestartNodes(req.body.config?.tools);
+
+/**
+ * An update that activates an agent able to restart nodes, or gives it that tool
+ */
+const grantsNodeControl = (req: AgentRequest): boolean => {
+  const tools = req.body.config ? req.body.config.tools : req.agent.config.tools;
+  return canRestartNodes(tools) && (req.body.status === 'active' || !controlsNodes(req));
+};
+
+/**
+ * node_exporter scrapes arrive as text; JSON batches are validated against the sample schema
+ */
+const parseExposition = express.text({ type: ['text/plain', 'application/openmetrics-text'], limit: '5mb' });
+
+const validatePushedMetrics = (req: Request, res: Response, next: NextFunction): void | Response => {
+  if (typeof req.body === 'string') {
+    return next();
+  }
+  return validateMetricsIngestion(req, res, next);
+};
+
+/**
+ * Fields of an agent recorded in audit diffs
+ */
+const auditSnapshot = (agent: Agent) => ({
+  name: agent.name,
+  description: agent.description,
+  endpoint_url: agent.endpoint_url,
+  organization_id: agent.organization_id,
+  escalation_policy_id: agent.escalation_policy_id,
+  config: agent.config,
+});
+
+/**
+ * Record an action on the request's agent
+ */
+const auditAgentAction = (req: Request, action: string, data: { targetType?: string; targetId?: string; metadata?: Record<string, any> } = {}) => {
+  const auditService = req.app.locals.auditService as AuditService;
+  const agent = (req as AgentRequest).agent;
+
+  return auditService.record(auditActor(req), {
+    action,
+    targetType: data.targetType || 'agent',
+    targetId: data.targetId || agent.id,
+    agentId: agent.id,
+    organizationId: agent.organization_id,
+    metadata: data.metadata,
+  });
+};
+
 /**
  * GET /api/agents
- * Get all agents for the authenticated user
+ * Get the user's personal agents and those of their organizations
  */
-router.get('/', authMiddleware, asyncHandler(async (req: Request, res: Response) => {
+router.get('/', authMiddleware, validateAgentListQuery, asyncHandler(async (req: Request, res: Response) => {
   const agentService = req.app.locals.agentService as AgentService;
-  const agents = await agentService.getAgentsByUserId((req as AuthenticatedRequest).user.id);
+  const agents = await agentService.getAgentsByUserId(
+    (req as AuthenticatedRequest).user.id,
+    req.query.organizationId as string | undefined
+  );
   
   res.json({
     success: true,
@@ -26,16 +135,40 @@ router.get('/', authMiddleware, asyncHandler(async (req: Request, res: Response)
  * POST /api/agents
  * Create a new AI agent
  */
-router.post('/', authMiddleware, validateAgentCreation, asyncHandler(async (req: Request, res: Response) => {
+router.post('/', authMiddleware, requireVerifiedEmail, validateAgentCreation, requireFreshTwoFactor(createsNodeControl, 'create an agent that can restart nodes'), asyncHandler(async (req: Request, res: Response) => {
   const agentService = req.app.locals.agentService as AgentService;
+
+  if (req.body.organization_id && !(await canManageOrganizationAgents(req, req.body.organization_id))) {
+    return res.status(403).json({
+      success: false,
+      error: { message: 'Creating agents in an organization requires the admin role' },
+    });
+  }
   
   const agentData = {
     ...req.body,
     user_id: (req as AuthenticatedRequest).user.id,
   };
 
+  if (agentData.escalation_policy_id && !(await canUseEscalationPolicy(req, agentData.escalation_policy_id, agentData))) {
+    return res.status(400).json({
+      success: false,
+      error: { message: 'Escalation policy not found for this agent' },
+    });
+  }
+
   const agent = await agentService.createAgent(agentData);
   
+  const auditService = req.app.locals.auditService as AuditService;
+  await auditService.record(auditActor(req), {
+    action: 'agent.create',
+    targetType: 'agent',
+    targetId: agent.id,
+    agentId: agent.id,
+    organizationId: agent.organization_id,
+    after: auditSnapshot(agent),
+  });
+
   logger.info('Agent created via API', { agentId: agent.id, userId: (req as AuthenticatedRequest).user.id });
   
   res.status(201).json({
@@ -49,27 +182,12 @@ router.post('/', authMiddleware, validateAgentCreation, asyncHandler(async (req:
  * GET /api/agents/:id
  * Get agent details with AI status
  */
-router.get('/:id', authMiddleware, asyncHandler(async (req: Request, res: Response) => {
+router.get('/:id', authMiddleware, validateAgentId, authorizeAgent('viewer'), asyncHandler(async (req: Request, res: Response) => {
   const agentService = req.app.locals.agentService as AgentService;
   const agentId = req.params.id;
   
   const agentStatus = await agentService.getAgentStatus(agentId);
   
-  if (!agentStatus) {
-    return res.status(404).json({
-      success: false,
-      error: { message: 'Agent not found' },
-    });
-  }
-
-  // Check if user owns this agent
-  if (agentStatus.user_id !== (req as AuthenticatedRequest).user.id) {
-    return res.status(403).json({
-      success: false,
-      error: { message: 'Access denied' },
-    });
-  }
-  
   res.json({
     success: true,
     data: agentStatus,
@@ -80,28 +198,48 @@ router.get('/:id', authMiddleware, asyncHandler(async (req: Request, res: Respon
  * PUT /api/agents/:id
  * Update agent configuration
  */
-router.put('/:id', authMiddleware, validateAgentUpdate, asyncHandler(async (req: Request, res: Response) => {
+router.put('/:id', authMiddleware, validateAgentId, authorizeAgent('admin'), validateAgentUpdate, requireFreshTwoFactor(grantsNodeControl, 'let an agent restart nodes'), asyncHandler(async (req: Request, res: Response) => {
   const agentService = req.app.locals.agentService as AgentService;
   const agentId = req.params.id;
-  
-  // Check if agent exists and user owns it
-  const existingAgent = await agentService.getAgentById(agentId);
-  if (!existingAgent) {
-    return res.status(404).json({
-      success: false,
-      error: { message: 'Agent not found' },
-    });
-  }
 
-  if (existingAgent.user_id !== (req as AuthenticatedRequest).user.id) {
+  // Moving an agent needs admin on the organization it moves to as well
+  if (req.body.organization_id && !(await canManageOrganizationAgents(req, req.body.organization_id))) {
     return res.status(403).json({
       success: false,
-      error: { message: 'Access denied' },
+      error: { message: 'Moving agents into an organization requires the admin role' },
     });
   }
+
+  // The policy must belong to the agent's scope after the update
+  const agent = (req as AgentRequest).agent;
+  const scope = { user_id: agent.user_id, organization_id: req.body.organization_id ?? agent.organization_id };
+  const policyId = req.body.escalation_policy_id !== undefined ? req.body.escalation_policy_id : agent.escalation_policy_id;
+
+  if (policyId && !(await canUseEscalationPolicy(req, policyId, scope))) {
+    if (req.body.escalation_policy_id) {
+      return res.status(400).json({
+        success: false,
+        error: { message: 'Escalation policy not found for this agent' },
+      });
+    }
+
+    // Moving to another organization drops a policy it cannot use
+    req.body.escalation_policy_id = null;
+  }
   
   const updatedAgent = await agentService.updateAgent(agentId, req.body);
   
+  const auditService = req.app.locals.auditService as AuditService;
+  await auditService.record(auditActor(req), {
+    action: 'agent.update',
+    targetType: 'agent',
+    targetId: agentId,
+    agentId,
+    organizationId: updatedAgent.organization_id,
+    before: auditSnapshot((req as AgentRequest).agent),
+    after: auditSnapshot(updatedAgent),
+  });
+
   logger.info('Agent updated via API', { agentId, userId: (req as AuthenticatedRequest).user.id });
   
   res.json({
@@ -115,28 +253,22 @@ router.put('/:id', authMiddleware, validateAgentUpdate, asyncHandler(async (req:
  * DELETE /api/agents/:id
  * Delete an agent
  */
-router.delete('/:id', authMiddleware, asyncHandler(async (req: Request, res: Response) => {
+router.delete('/:id', authMiddleware, validateAgentId, authorizeAgent('admin'), asyncHandler(async (req: Request, res: Response) => {
   const agentService = req.app.locals.agentService as AgentService;
   const agentId = req.params.id;
   
-  // Check if agent exists and user owns it
-  const existingAgent = await agentService.getAgentById(agentId);
-  if (!existingAgent) {
-    return res.status(404).json({
-      success: false,
-      error: { message: 'Agent not found' },
-    });
-  }
-
-  if (existingAgent.user_id !== (req as AuthenticatedRequest).user.id) {
-    return res.status(403).json({
-      success: false,
-      error: { message: 'Access denied' },
-    });
-  }
-  
   await agentService.deleteAgent(agentId);
   
+  const auditService = req.app.locals.auditService as AuditService;
+  await auditService.record(auditActor(req), {
+    action: 'agent.delete',
+    targetType: 'agent',
+    targetId: agentId,
+    agentId,
+    organizationId: (req as AgentRequest).agent.organization_id,
+    before: auditSnapshot((req as AgentRequest).agent),
+  });
+
   logger.info('Agent deleted via API', { agentId, userId: (req as AuthenticatedRequest).user.id });
   
   res.json({
@@ -149,30 +281,16 @@ router.delete('/:id', authMiddleware, asyncHandler(async (req: Request, res: Res
  * POST /api/agents/:id/start
  * Start agent monitoring
  */
-router.post('/:id/start', authMiddleware, asyncHandler(async (req: Request, res: Response) => {
+router.post('/:id/start', authMiddleware, validateAgentId, authorizeAgent('operator'), requireFreshTwoFactor(controlsNodes, 'start an agent that can restart nodes'), asyncHandler(async (req: Request, res: Response) => {
   const agentService = req.app.locals.agentService as AgentService;
   const monitoringService = req.app.locals.monitoringService as MonitoringService;
   const agentId = req.params.id;
   
-  // Check if agent exists and user owns it
-  const existingAgent = await agentService.getAgentById(agentId);
-  if (!existingAgent) {
-    return res.status(404).json({
-      success: false,
-      error: { message: 'Agent not found' },
-    });
-  }
-
-  if (existingAgent.user_id !== (req as AuthenticatedRequest).user.id) {
-    return res.status(403).json({
-      success: false,
-      error: { message: 'Access denied' },
-    });
-  }
-  
   await agentService.startAgent(agentId);
   await monitoringService.startAgentMonitoring(agentId);
   
+  await auditAgentAction(req, 'agent.start');
+
   logger.info('Agent started via API', { agentId, userId: (req as AuthenticatedRequest).user.id });
   
   res.json({
@@ -185,30 +303,16 @@ router.post('/:id/start', authMiddleware, asyncHandler(async (req: Request, res:
  * POST /api/agents/:id/stop
  * Stop agent monitoring
  */
-router.post('/:id/stop', authMiddleware, asyncHandler(async (req: Request, res: Response) => {
+router.post('/:id/stop', authMiddleware, validateAgentId, authorizeAgent('operator'), asyncHandler(async (req: Request, res: Response) => {
   const agentService = req.app.locals.agentService as AgentService;
   const monitoringService = req.app.locals.monitoringService as MonitoringService;
   const agentId = req.params.id;
   
-  // Check if agent exists and user owns it
-  const existingAgent = await agentService.getAgentById(agentId);
-  if (!existingAgent) {
-    return res.status(404).json({
-      success: false,
-      error: { message: 'Agent not found' },
-    });
-  }
-
-  if (existingAgent.user_id !== (req as AuthenticatedRequest).user.id) {
-    return res.status(403).json({
-      success: false,
-      error: { message: 'Access denied' },
-    });
-  }
-  
   await agentService.stopAgent(agentId);
   await monitoringService.stopAgentMonitoring(agentId);
   
+  await auditAgentAction(req, 'agent.stop');
+
   logger.info('Agent stopped via API', { agentId, userId: (req as AuthenticatedRequest).user.id });
   
   res.json({
@@ -219,104 +323,300 @@ router.post('/:id/stop', authMiddleware, asyncHandler(async (req: Request, res:
 
 /**
  * POST /api/agents/:id/execute
- * Execute a specific task with the agent
+ * Queue a specific task for the agent
  */
-router.post('/:id/execute', asyncHandler(async (req: Request, res: Response) => {
+router.post('/:id/execute', authMiddleware, validateAgentId, authorizeAgent('operator'), validateAgentTaskExecution, requireFreshTwoFactor(controlsNodes, 'run tasks on an agent that can restart nodes'), asyncHandler(async (req: Request, res: Response) => {
   const agentService = req.app.locals.agentService as AgentService;
   const agentId = req.params.id;
-  const { taskType, description, parameters } = req.body;
+  const { taskType, description, parameters, priority } = req.body;
   
-  // Check if agent exists and user owns it
-  const existingAgent = await agentService.getAgentById(agentId);
-  if (!existingAgent) {
+  const task = await agentService.executeAgentTask(agentId, taskType, description, parameters || {}, priority);
+  
+  await auditAgentAction(req, 'agent.execute', {
+    targetType: 'task',
+    targetId: task?.id,
+    metadata: { taskType, description, priority },
+  });
+
+  logger.info('Agent task queued via API', { agentId, taskType, taskId: task?.id, userId: (req as AuthenticatedRequest).user.id });
+  
+  res.status(202).json({
+    success: true,
+    data: task,
+    message: 'Task queued successfully',
+  });
+}));
+
+/**
+ * GET /api/agents/:id/tasks
+ * Get agent task history
+ */
+router.get('/:id/tasks', authMiddleware, validateAgentId, authorizeAgent('viewer'), validateTaskHistoryQuery, asyncHandler(async (req: Request, res: Response) => {
+  const agentService = req.app.locals.agentService as AgentService;
+  const agentId = req.params.id;
+  const filters = req.query as unknown as TaskHistoryFilters;
+  
+  const { tasks, total } = await agentService.getAgentTasks(agentId, filters);
+  
+  res.json({
+    success: true,
+    data: tasks,
+    pagination: buildPagination(filters.page, filters.limit, total),
+  });
+}));
+
+/**
+ * GET /api/agents/:id/tasks/:taskId
+ * Get a single task with its tool calls and message transcript
+ */
+router.get('/:id/tasks/:taskId', authMiddleware, validateAgentId, authorizeAgent('viewer'), asyncHandler(async (req: Request, res: Response) => {
+  const agentService = req.app.locals.agentService as AgentService;
+  const agentId = req.params.id;
+  const taskId = req.params.taskId;
+  
+  const task = await agentService.getAgentTask(agentId, taskId);
+  if (!task) {
     return res.status(404).json({
       success: false,
-      error: { message: 'Agent not found' },
+      error: { message: 'Task not found' },
     });
   }
+  
+  const approvals = await agentService.getTaskApprovals(taskId);
+  
+  res.json({
+    success: true,
+    data: { ...task, approvals },
+  });
+}));
 
-  if (existingAgent.user_id !== (req as AuthenticatedRequest).user.id) {
-    return res.status(403).json({
+/**
+ * GET /api/agents/:id/tasks/:taskId/checkpoints
+ * Replay the checkpoints recorded while a task ran, oldest first
+ */
+router.get('/:id/tasks/:taskId/checkpoints', authMiddleware, validateAgentId, authorizeAgent('viewer'), asyncHandler(async (req: Request, res: Response) => {
+  const agentService = req.app.locals.agentService as AgentService;
+  const agentId = req.params.id;
+  const taskId = req.params.taskId;
+  
+  const task = await agentService.getAgentTask(agentId, taskId);
+  if (!task) {
+    return res.status(404).json({
       success: false,
-      error: { message: 'Access denied' },
+      error: { message: 'Task not found' },
     });
   }
+  
+  const checkpoints = await agentService.getTaskCheckpoints(agentId, taskId);
+  
+  res.json({
+    success: true,
+    data: checkpoints,
+  });
+}));
 
-  if (!taskType || !description) {
-    return res.status(400).json({
+/**
+ * GET /api/agents/:id/tasks/:taskId/checkpoints/:checkpointId
+ * Get the full agent state at a single checkpoint
+ */
+router.get('/:id/tasks/:taskId/checkpoints/:checkpointId', authMiddleware, validateAgentId, authorizeAgent('viewer'), asyncHandler(async (req: Request, res: Response) => {
+  const agentService = req.app.locals.agentService as AgentService;
+  const agentId = req.params.id;
+  const taskId = req.params.taskId;
+  
+  const checkpoint = await agentService.getTaskCheckpoint(agentId, taskId, req.params.checkpointId);
+  if (!checkpoint) {
+    return res.status(404).json({
       success: false,
-      error: { message: 'taskType and description are required' },
+      error: { message: 'Checkpoint not found' },
     });
   }
   
-  const task = await agentService.executeAgentTask(agentId, taskType, description, parameters || {});
-  
-  logger.info('Agent task executed via API', { agentId, taskType, userId: (req as AuthenticatedRequest).user.id });
-  
   res.json({
     success: true,
-    data: task,
-    message: 'Task executed successfully',
+    data: checkpoint,
   });
 }));
 
 /**
- * GET /api/agents/:id/metrics
- * Get agent metrics history
+ * POST /api/agents/:id/tasks/:taskId/approve
+ * Approve the tool calls a paused task is waiting on and resume it
  */
-router.get('/:id/metrics', asyncHandler(async (req: Request, res: Response) => {
+router.post('/:id/tasks/:taskId/approve', authMiddleware, validateAgentId, authorizeAgent('operator'), validateApprovalDecision, requireFreshTwoFactor(controlsNodes, 'approve tasks on an agent that can restart nodes'), asyncHandler(async (req: Request, res: Response) => {
   const agentService = req.app.locals.agentService as AgentService;
   const agentId = req.params.id;
-  const hours = parseInt(req.query.hours as string) || 24;
+  const taskId = req.params.taskId;
+  const userId = (req as AuthenticatedRequest).user.id;
   
-  // Check if agent exists and user owns it
-  const existingAgent = await agentService.getAgentById(agentId);
-  if (!existingAgent) {
-    return res.status(404).json({
+  const approval = await agentService.decideTaskApproval(agentId, taskId, userId, true, req.body.reason);
+  if (!approval) {
+    return res.status(409).json({
       success: false,
-      error: { message: 'Agent not found' },
+      error: { message: 'Task is not awaiting approval' },
     });
   }
 
-  if (existingAgent.user_id !== (req as AuthenticatedRequest).user.id) {
-    return res.status(403).json({
+  await auditAgentAction(req, 'task.approve', {
+    targetType: 'task',
+    targetId: taskId,
+    metadata: req.body.reason ? { reason: req.body.reason } : undefined,
+  });
+  
+  res.status(202).json({
+    success: true,
+    data: approval,
+    message: 'Task approved and queued to resume',
+  });
+}));
+
+/**
+ * POST /api/agents/:id/tasks/:taskId/reject
+ * Reject the tool calls a paused task is waiting on; the agent continues without them
+ */
+router.post('/:id/tasks/:taskId/reject', authMiddleware, validateAgentId, authorizeAgent('operator'), validateApprovalDecision, asyncHandler(async (req: Request, res: Response) => {
+  const agentService = req.app.locals.agentService as AgentService;
+  const agentId = req.params.id;
+  const taskId = req.params.taskId;
+  const userId = (req as AuthenticatedRequest).user.id;
+  
+  const approval = await agentService.decideTaskApproval(agentId, taskId, userId, false, req.body.reason);
+  if (!approval) {
+    return res.status(409).json({
       success: false,
-      error: { message: 'Access denied' },
+      error: { message: 'Task is not awaiting approval' },
     });
   }
+
+  await auditAgentAction(req, 'task.reject', {
+    targetType: 'task',
+    targetId: taskId,
+    metadata: req.body.reason ? { reason: req.body.reason } : undefined,
+  });
+  
+  res.status(202).json({
+    success: true,
+    data: approval,
+    message: 'Task rejected and queued to resume',
+  });
+}));
+
+/**
+ * GET /api/agents/:id/metrics
+ * Get agent metrics history
+ */
+router.get('/:id/metrics', authMiddleware, validateAgentId, authorizeAgent('viewer'), validateMetricsQuery, asyncHandler(async (req: Request, res: Response) => {
+  const agentService = req.app.locals.agentService as AgentService;
+  const agentId = req.params.id;
+  const hours = req.query.hours as unknown as number;
   
-  const metrics = await agentService.getAgentMetrics(agentId, hours);
+  const { resolution, metrics } = await agentService.getAgentMetrics(agentId, hours);
   
   res.json({
     success: true,
     data: metrics,
+    resolution,
   });
 }));
 
 /**
- * GET /api/agents/:id/alerts
- * Get agent alerts
+ * POST /api/agents/:id/metrics
+ * Push metrics from a sidecar on the node, authenticated with the agent's
+ * ingestion token: a JSON batch, or a node_exporter scrape as text/plain
  */
-router.get('/:id/alerts', asyncHandler(async (req: Request, res: Response) => {
-  const agentService = req.app.locals.agentService as AgentService;
+router.post('/:id/metrics', validateAgentId, authenticateIngestionToken, parseExposition, validateMetricsIngestionQuery, validatePushedMetrics, asyncHandler(async (req: Request, res: Response) => {
+  const metricsIngestionService = req.app.locals.metricsIngestionService as MetricsIngestionService;
   const agentId = req.params.id;
-  const resolved = req.query.resolved === 'true';
-  
-  // Check if agent exists and user owns it
-  const existingAgent = await agentService.getAgentById(agentId);
-  if (!existingAgent) {
+
+  const result = typeof req.body === 'string'
+    ? await metricsIngestionService.ingestNodeExporter(agentId, req.body, req.query.mountpoint as string)
+    : await metricsIngestionService.ingestBatch(agentId, req.body);
+
+  res.json({
+    success: true,
+    data: result,
+    message: `${result.accepted} sample(s) accepted, ${result.rejected.length} rejected`,
+  });
+}));
+
+/**
+ * GET /api/agents/:id/ingestion-token
+ * Get the agent's metrics ingestion token, without its secret
+ */
+router.get('/:id/ingestion-token', authMiddleware, validateAgentId, authorizeAgent('admin'), asyncHandler(async (req: Request, res: Response) => {
+  const metricsIngestionService = req.app.locals.metricsIngestionService as MetricsIngestionService;
+
+  const token = await metricsIngestionService.getToken(req.params.id);
+  if (!token) {
     return res.status(404).json({
       success: false,
-      error: { message: 'Agent not found' },
+      error: { message: 'Ingestion token not found' },
     });
   }
 
-  if (existingAgent.user_id !== (req as AuthenticatedRequest).user.id) {
-    return res.status(403).json({
+  res.json({
+    success: true,
+    data: token,
+  });
+}));
+
+/**
+ * POST /api/agents/:id/ingestion-token
+ * Create the agent's metrics ingestion token, replacing the current one
+ */
+router.post('/:id/ingestion-token', authMiddleware, validateAgentId, authorizeAgent('admin'), asyncHandler(async (req: Request, res: Response) => {
+  const metricsIngestionService = req.app.locals.metricsIngestionService as MetricsIngestionService;
+  const agentId = req.params.id;
+  const userId = (req as AuthenticatedRequest).user.id;
+
+  const created = await metricsIngestionService.createToken(agentId, userId);
+
+  await auditAgentAction(req, 'agent.ingestion_token.create', {
+    metadata: { tokenPrefix: created.token.token_prefix },
+  });
+
+  logger.info('Ingestion token created via API', { agentId, userId });
+
+  res.status(201).json({
+    success: true,
+    data: created,
+    message: 'Ingestion token created. Store the secret now; it will not be shown again',
+  });
+}));
+
+/**
+ * DELETE /api/agents/:id/ingestion-token
+ * Revoke the agent's metrics ingestion token
+ */
+router.delete('/:id/ingestion-token', authMiddleware, validateAgentId, authorizeAgent('admin'), asyncHandler(async (req: Request, res: Response) => {
+  const metricsIngestionService = req.app.locals.metricsIngestionService as MetricsIngestionService;
+  const agentId = req.params.id;
+
+  const revoked = await metricsIngestionService.revokeToken(agentId);
+  if (!revoked) {
+    return res.status(404).json({
       success: false,
-      error: { message: 'Access denied' },
+      error: { message: 'Ingestion token not found' },
     });
   }
+
+  await auditAgentAction(req, 'agent.ingestion_token.revoke');
+
+  logger.info('Ingestion token revoked via API', { agentId, userId: (req as AuthenticatedRequest).user.id });
+
+  res.json({
+    success: true,
+    message: 'Ingestion token revoked successfully',
+  });
+}));
+
+/**
+ * GET /api/agents/:id/alerts
+ * Get agent alerts
+ */
+router.get('/:id/alerts', authMiddleware, validateAgentId, authorizeAgent('viewer'), asyncHandler(async (req: Request, res: Response) => {
+  const agentService = req.app.locals.agentService as AgentService;
+  const agentId = req.params.id;
+  const resolved = req.query.resolved === 'true';
   
   const alerts = await agentService.getAgentAlerts(agentId, resolved);
   
@@ -330,29 +630,21 @@ router.get('/:id/alerts', asyncHandler(async (req: Request, res: Response) => {
  * PUT /api/agents/:id/alerts/:alertId/resolve
  * Resolve an alert
  */
-router.put('/:id/alerts/:alertId/resolve', asyncHandler(async (req: Request, res: Response) => {
+router.put('/:id/alerts/:alertId/resolve', authMiddleware, validateAgentId, validateAlertId, authorizeAgent('operator'), asyncHandler(async (req: Request, res: Response) => {
   const agentService = req.app.locals.agentService as AgentService;
   const agentId = req.params.id;
   const alertId = req.params.alertId;
   
-  // Check if agent exists and user owns it
-  const existingAgent = await agentService.getAgentById(agentId);
-  if (!existingAgent) {
+  const resolved = await agentService.resolveAlert(agentId, alertId, (req as AuthenticatedRequest).user.id);
+  if (!resolved) {
     return res.status(404).json({
       success: false,
-      error: { message: 'Agent not found' },
-    });
-  }
-
-  if (existingAgent.user_id !== (req as AuthenticatedRequest).user.id) {
-    return res.status(403).json({
-      success: false,
-      error: { message: 'Access denied' },
+      error: { message: 'Alert not found' },
     });
   }
   
-  await agentService.resolveAlert(alertId, (req as AuthenticatedRequest).user.id);
-  
+  await auditAgentAction(req, 'alert.resolve', { targetType: 'alert', targetId: alertId });
+
   logger.info('Alert resolved via API', { agentId, alertId, userId: (req as AuthenticatedRequest).user.id });
   
   res.json({
@@ -361,4 +653,40 @@ router.put('/:id/alerts/:alertId/resolve', asyncHandler(async (req: Request, res
   });
 }));
 
+/**
+ * PUT /api/agents/:id/alerts/:alertId/acknowledge
+ * Acknowledge an alert: it stays open but stops escalating
+ */
+router.put('/:id/alerts/:alertId/acknowledge', authMiddleware, validateAgentId, validateAlertId, authorizeAgent('operator'), asyncHandler(async (req: Request, res: Response) => {
+  const agentService = req.app.locals.agentService as AgentService;
+  const monitoringService = req.app.locals.monitoringService as MonitoringService;
+  const agent = (req as AgentRequest).agent;
+  const alertId = req.params.alertId;
+  const userId = (req as AuthenticatedRequest).user.id;
+
+  const acknowledged = await agentService.acknowledgeAlert(agent.id, alertId, userId);
+  if (!acknowledged) {
+    return res.status(404).json({
+      success: false,
+      error: { message: 'Open, unacknowledged alert not found' },
+    });
+  }
+
+  await auditAgentAction(req, 'alert.acknowledge', { targetType: 'alert', targetId: alertId });
+
+  monitoringService.broadcastAlertEvent(agent, 'alert_acknowledged', {
+    id: alertId,
+    agentId: agent.id,
+    acknowledgedBy: userId,
+    timestamp: new Date(),
+  });
+
+  logger.info('Alert acknowledged via API', { agentId: agent.id, alertId, userId });
+
+  res.json({
+    success: true,
+    message: 'Alert acknowledged successfully',
+  });
+}));
+
 export default router;
@@ -0,0 +1,118 @@
+import { Router, Response, Request } from 'express';
+import { ApiKeyService } from '../services/ApiKeyService';
+import { AuditService, auditActor } from '../services/AuditService';
+import { asyncHandler } from '../middleware/errorHandler';
+import { authMiddleware, AuthenticatedRequest } from '../middleware/auth';
+import { validateApiKeyCreation, validateApiKeyId } from '../middleware/validation';
+import { logger } from '../utils/logger';
+
+const router = Router();
+
+/**
+ * GET /api/api-keys
+ * List the user's API keys (secrets are never returned)
+ */
+router.get('/', authMiddleware, asyncHandler(async (req: Request, res: Response) => {
+  const apiKeyService = req.app.locals.apiKeyService as ApiKeyService;
+
+  const keys = await apiKeyService.listKeys((req as AuthenticatedRequest).user.id);
+
+  res.json({
+    success: true,
+    data: keys,
+  });
+}));
+
+/**
+ * POST /api/api-keys
+ * Create an API key; the secret is only shown in this response
+ */
+router.post('/', authMiddleware, validateApiKeyCreation, asyncHandler(async (req: Request, res: Response) => {
+  const apiKeyService = req.app.locals.apiKeyService as ApiKeyService;
+  const userId = (req as AuthenticatedRequest).user.id;
+
+  const created = await apiKeyService.createKey(userId, req.body);
+
+  const auditService = req.app.locals.auditService as AuditService;
+  await auditService.record(auditActor(req), {
+    action: 'api_key.create',
+    targetType: 'api_key',
+    targetId: created.apiKey.id,
+    after: { name: created.apiKey.name, scopes: created.apiKey.permissions, expires_at: created.apiKey.expires_at },
+  });
+
+  logger.info('API key created via API', { keyId: created.apiKey.id, userId });
+
+  res.status(201).json({
+    success: true,
+    data: created,
+    message: 'API key created. Store the secret now; it will not be shown again',
+  });
+}));
+
+/**
+ * POST /api/api-keys/:keyId/rotate
+ * Issue a new secret for a key; the old secret stops working immediately
+ */
+router.post('/:keyId/rotate', authMiddleware, validateApiKeyId, asyncHandler(async (req: Request, res: Response) => {
+  const apiKeyService = req.app.locals.apiKeyService as ApiKeyService;
+  const userId = (req as AuthenticatedRequest).user.id;
+
+  const rotated = await apiKeyService.rotateKey(userId, req.params.keyId);
+
+  if (!rotated) {
+    return res.status(404).json({
+      success: false,
+      error: { message: 'API key not found' },
+    });
+  }
+
+  const auditService = req.app.locals.auditService as AuditService;
+  await auditService.record(auditActor(req), {
+    action: 'api_key.rotate',
+    targetType: 'api_key',
+    targetId: req.params.keyId,
+  });
+
+  logger.info('API key rotated via API', { keyId: req.params.keyId, userId });
+
+  res.json({
+    success: true,
+    data: rotated,
+    message: 'API key rotated. Store the new secret now; it will not be shown again',
+  });
+}));
+
+/**
+ * DELETE /api/api-keys/:keyId
+ * Revoke an API key
+ */
+router.delete('/:keyId', authMiddleware, validateApiKeyId, asyncHandler(async (req: Request, res: Response) => {
+  const apiKeyService = req.app.locals.apiKeyService as ApiKeyService;
+  const userId = (req as AuthenticatedRequest).user.id;
+
+  const revoked = await apiKeyService.revokeKey(userId, req.params.keyId);
+
+  if (!revoked) {
+    return res.status(404).json({
+      success: false,
+      error: { message: 'API key not found' },
+    });
+  }
+
+  const auditService = req.app.locals.auditService as AuditService;
+  await auditService.record(auditActor(req), {
+    action: 'api_key.revoke',
+    targetType: 'api_key',
+    targetId: req.params.keyId,
+  });
+
+  logger.info('API key revoked via API', { keyId: req.params.keyId, userId });
+
+  res.json({
+    success: true,
+    message: 'API key revoked successfully',
+  });
+}));
+
+export default router;
@@ -0,0 +1,46 @@
+import { Router, Response, Request } from 'express';
+import { AuditService } from '../services/AuditService';
+import { asyncHandler } from '../middleware/errorHandler';
+import { authMiddleware, AuthenticatedRequest } from '../middleware/auth';
+import { validateAuditQuery, validateAuditExportQuery } from '../middleware/validation';
+import { AuditFilters } from '../models/Audit';
+import { buildPagination } from '../utils/pagination';
+
+const router = Router();
+
+/**
+ * GET /api/audit
+ * Audit events for the user and the organizations they administer, newest first
+ */
+router.get('/', authMiddleware, validateAuditQuery, asyncHandler(async (req: Request, res: Response) => {
+  const auditService = req.app.locals.auditService as AuditService;
+  const filters = req.query as unknown as AuditFilters;
+
+  const { events, total } = await auditService.listEvents((req as AuthenticatedRequest).user.id, filters);
+
+  res.json({
+    success: true,
+    data: events,
+    pagination: buildPagination(filters.page, filters.limit, total),
+  });
+}));
+
+/**
+ * GET /api/audit/export
+ * Download matching audit events as CSV (default) or JSON
+ */
+router.get('/export', authMiddleware, validateAuditExportQuery, asyncHandler(async (req: Request, res: Response) => {
+  const auditService = req.app.locals.auditService as AuditService;
+  const { format, ...filters } = req.query as unknown as AuditFilters & { format: 'csv' | 'json' };
+
+  const body = await auditService.exportEvents((req as AuthenticatedRequest).user.id, filters, format);
+  const filename = `audit-events-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+  res.set({
+    'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json; charset=utf-8',
+    'Content-Disposition': `attachment; filename="${filename}"`,
+  });
+  res.send(body);
+}));
+
+export default router;
@@ -1,14 +1,49 @@
 import { Router, Response, Request } from 'express';
 import bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
 import { database } from '../config/database';
 import { asyncHandler } from '../middleware/errorHandler';
-import { validateUserRegistration, validateUserLogin } from '../middleware/validation';
+import {
+  validateUserRegistration,
+  validateUserLogin,
+  validateEmailVerification,
+  validatePasswordResetRequest,
+  validatePasswordReset,
+  validateTokenRefresh,
+  validateSessionId,
+  validateTwoFactorCode,
+  validateTwoFactorLogin,
+  validateTwoFactorDisable,
+  validateTwoFactorSettings,
+} from '../middleware/validation';
 import { authMiddleware, AuthenticatedRequest } from '../middleware/auth';
+import { authRateLimiter } from '../middleware/rateLimiter';
+import { AccountService } from '../services/AccountService';
+import { SessionService } from '../services/SessionService';
+import { TwoFactorService } from '../services/TwoFactorService';
+import { AuditService } from '../services/AuditService';
+import { SessionMetadata } from '../models/Session';
 import { logger } from '../utils/logger';
 
 const router = Router();
 
+const sessionMetadata = (req: Request): SessionMetadata => ({
+  userAgent: req.get('User-Agent'),
+  ipAddress: req.ip,
+});
+
+/**
+ * Record an account event. Takes the user id explicitly so it also works
+ * before authMiddleware has run, e.g. on login.
+ */
+const auditAccountAction = (req: Request, userId: string, action: string, metadata?: Record<string, any>) => {
+  const auditService = req.app.locals.auditService as AuditService;
+
+  return auditService.record(
+    { actorType: 'user', actorId: userId, userId, ipAddress: req.ip, userAgent: req.get('User-Agent') },
+    { action, targetType: 'user', targetId: userId, metadata }
+  );
+};
+
 /**
  * POST /api/auth/register
  * Register a new user
@@ -57,17 +92,13 @@ router.post('/register', validateUserRegistration, asyncHandler(async (req: Requ
     [user.id]
   );
 
-  // Generate JWT token
-  const jwtSecret = process.env.JWT_SECRET;
-  if (!jwtSecret) {
-    throw new Error('JWT_SECRET not configured');
-  }
-  
-  const token = jwt.sign(
-    { userId: user.id, email: user.email },
-    jwtSecret,
-    { expiresIn: process.env.JWT_EXPIRES_IN || '7d' } as jwt.SignOptions
-  );
+  // Email a verification link; registration succeeds even if sending fails
+  const accountService = req.app.locals.accountService as AccountService;
+  accountService.sendVerification(user.id).catch(() => undefined);
+
+  // Start a session: short-lived access token plus rotating refresh token
+  const sessionService = req.app.locals.sessionService as SessionService;
+  const session = await sessionService.createSession(user, sessionMetadata(req));
 
   logger.info('User registered successfully', { userId: user.id, email: user.email });
 
@@ -79,9 +110,12 @@ router.post('/register', validateUserRegistration, asyncHandler(async (req: Requ
         email: user.email,
         first_name: user.first_name,
         last_name: user.last_name,
+        is_verified: false,
         created_at: user.created_at,
       },
-      token,
+      token: session.accessToken,
+      refreshToken: session.refreshToken,
+      expiresIn: session.expiresIn,
     },
     message: 'User registered successfully',
   });
@@ -96,7 +130,7 @@ router.post('/login', validateUserLogin, asyncHandler(async (req: Request, res:
 
   // Get user with password hash
   const result = await database.query(
-    'SELECT id, email, password_hash, first_name, last_name FROM users WHERE email = $1',
+    'SELECT id, email, password_hash, first_name, last_name, is_verified, two_factor_enabled FROM users WHERE email = $1',
     [email]
   );
 
@@ -118,25 +152,91 @@ router.post('/login', validateUserLogin, asyncHandler(async (req: Request, res:
     });
   }
 
+  // With 2FA enabled the password only earns a challenge for POST /login/2fa
+  if (user.two_factor_enabled) {
+    const twoFactorService = req.app.locals.twoFactorService as TwoFactorService;
+
+    return res.json({
+      success: true,
+      data: {
+        twoFactorRequired: true,
+        challengeToken: twoFactorService.issueLoginChallenge(user.id),
+      },
+      message: 'Two-factor authentication code required',
+    });
+  }
+
   // Update last login
   await database.query(
     'UPDATE users SET last_login = CURRENT_TIMESTAMP WHERE id = $1',
     [user.id]
   );
 
-  // Generate JWT token
-  const jwtSecret = process.env.JWT_SECRET;
-  if (!jwtSecret) {
-    throw new Error('JWT_SECRET not configured');
+  // Start a session: short-lived access token plus rotating refresh token
+  const sessionService = req.app.locals.sessionService as SessionService;
+  const session = await sessionService.createSession(user, sessionMetadata(req));
+
+  await auditAccountAction(req, user.id, 'user.login', { sessionId: session.sessionId });
+
+  logger.info('User logged in successfully', { userId: user.id, email: user.email });
+
+  res.json({
+    success: true,
+    data: {
+      user: {
+        id: user.id,
+        email: user.email,
+        first_name: user.first_name,
+        last_name: user.last_name,
+        is_verified: user.is_verified,
+      },
+      token: session.accessToken,
+      refreshToken: session.refreshToken,
+      expiresIn: session.expiresIn,
+    },
+    message: 'Login successful',
+  });
+}));
+
+/**
+ * POST /api/auth/login/2fa
+ * Second login step: exchange the challenge token and a TOTP or recovery code for a session
+ */
+router.post('/login/2fa', authRateLimiter, validateTwoFactorLogin, asyncHandler(async (req: Request, res: Response) => {
+  const twoFactorService = req.app.locals.twoFactorService as TwoFactorService;
+  const { challengeToken, code } = req.body;
+
+  const userId = twoFactorService.verifyLoginChallenge(challengeToken);
+  if (!userId) {
+    return res.status(401).json({
+      success: false,
+      error: { message: 'Invalid or expired login challenge' },
+    });
   }
-  
-  const token = jwt.sign(
-    { userId: user.id, email: user.email },
-    jwtSecret,
-    { expiresIn: process.env.JWT_EXPIRES_IN || '7d' } as jwt.SignOptions
+
+  if (!(await twoFactorService.verify(userId, code))) {
+    return res.status(401).json({
+      success: false,
+      error: { message: 'Invalid two-factor authentication code' },
+    });
+  }
+
+  const result = await database.query(
+    `UPDATE users SET last_login = CURRENT_TIMESTAMP WHERE id = $1
+     RETURNING id, email, first_name, last_name, is_verified`,
+    [userId]
   );
 
-  logger.info('User logged in successfully', { userId: user.id, email: user.email });
+  const user = result.rows[0];
+
+  // The code just checked counts as a fresh assertion for this session
+  const sessionService = req.app.locals.sessionService as SessionService;
+  const session = await sessionService.createSession(user, sessionMetadata(req));
+  await twoFactorService.markSessionVerified(session.sessionId);
+
+  await auditAccountAction(req, user.id, 'user.login', { sessionId: session.sessionId, twoFactor: true });
+
+  logger.info('User logged in successfully', { userId: user.id, email: user.email, twoFactor: true });
 
   res.json({
     success: true,
@@ -146,8 +246,11 @@ router.post('/login', validateUserLogin, asyncHandler(async (req: Request, res:
         email: user.email,
         first_name: user.first_name,
         last_name: user.last_name,
+        is_verified: user.is_verified,
       },
-      token,
+      token: session.accessToken,
+      refreshToken: session.refreshToken,
+      expiresIn: session.expiresIn,
     },
     message: 'Login successful',
   });
@@ -269,6 +372,16 @@ router.post('/change-password', authMiddleware, asyncHandler(async (req: Request
     [newPasswordHash, (req as AuthenticatedRequest).user.id]
   );
 
+  // Sign out every other session
+  const sessionService = req.app.locals.sessionService as SessionService;
+  await sessionService.revokeAllSessions(
+    (req as AuthenticatedRequest).user.id,
+    'password_changed',
+    (req as AuthenticatedRequest).sessionId
+  );
+
+  await auditAccountAction(req, (req as AuthenticatedRequest).user.id, 'user.password_change');
+
   logger.info('User password changed', { userId: (req as AuthenticatedRequest).user.id });
 
   res.json({
@@ -277,4 +390,371 @@ router.post('/change-password', authMiddleware, asyncHandler(async (req: Request
   });
 }));
 
+/**
+ * POST /api/auth/verify-email
+ * Confirm an email address with the emailed token
+ */
+router.post('/verify-email', validateEmailVerification, asyncHandler(async (req: Request, res: Response) => {
+  const accountService = req.app.locals.accountService as AccountService;
+
+  const userId = await accountService.verifyEmail(req.body.token);
+
+  if (!userId) {
+    return res.status(400).json({
+      success: false,
+      error: { message: 'Invalid or expired verification token' },
+    });
+  }
+
+  res.json({
+    success: true,
+    message: 'Email verified successfully',
+  });
+}));
+
+/**
+ * POST /api/auth/resend-verification
+ * Email a new verification link
+ */
+router.post('/resend-verification', authRateLimiter, authMiddleware, asyncHandler(async (req: Request, res: Response) => {
+  const accountService = req.app.locals.accountService as AccountService;
+  const user = (req as AuthenticatedRequest).user;
+
+  if (user.is_verified) {
+    return res.status(409).json({
+      success: false,
+      error: { message: 'Email is already verified' },
+    });
+  }
+
+  await accountService.sendVerification(user.id);
+
+  res.json({
+    success: true,
+    message: 'Verification email sent',
+  });
+}));
+
+/**
+ * POST /api/auth/forgot-password
+ * Email a password reset link. The response does not reveal whether the email is registered.
+ */
+router.post('/forgot-password', authRateLimiter, validatePasswordResetRequest, asyncHandler(async (req: Request, res: Response) => {
+  const accountService = req.app.locals.accountService as AccountService;
+
+  await accountService.requestPasswordReset(req.body.email).catch(() => undefined);
+
+  res.json({
+    success: true,
+    message: 'If an account exists for this email, a password reset link has been sent',
+  });
+}));
+
+/**
+ * POST /api/auth/reset-password
+ * Set a new password with the emailed token
+ */
+router.post('/reset-password', authRateLimiter, validatePasswordReset, asyncHandler(async (req: Request, res: Response) => {
+  const accountService = req.app.locals.accountService as AccountService;
+
+  const userId = await accountService.resetPassword(req.body.token, req.body.password);
+
+  if (!userId) {
+    return res.status(400).json({
+      success: false,
+      error: { message: 'Invalid or expired reset token' },
+    });
+  }
+
+  await auditAccountAction(req, userId, 'user.password_reset');
+
+  res.json({
+    success: true,
+    message: 'Password reset successfully',
+  });
+}));
+
+/**
+ * POST /api/auth/refresh
+ * Exchange a refresh token for new tokens. Each refresh token works once;
+ * reusing one revokes its session.
+ */
+router.post('/refresh', validateTokenRefresh, asyncHandler(async (req: Request, res: Response) => {
+  const sessionService = req.app.locals.sessionService as SessionService;
+
+  const session = await sessionService.refresh(req.body.refreshToken, sessionMetadata(req));
+
+  if (!session) {
+    return res.status(401).json({
+      success: false,
+      error: { message: 'Invalid or expired refresh token' },
+    });
+  }
+
+  res.json({
+    success: true,
+    data: {
+      token: session.accessToken,
+      refreshToken: session.refreshToken,
+      expiresIn: session.expiresIn,
+    },
+  });
+}));
+
+/**
+ * POST /api/auth/logout
+ * End the current session
+ */
+router.post('/logout', authMiddleware, asyncHandler(async (req: Request, res: Response) => {
+  const sessionService = req.app.locals.sessionService as SessionService;
+  const { user, sessionId } = req as AuthenticatedRequest;
+
+  if (sessionId) {
+    await sessionService.revokeSession(user.id, sessionId, 'logout');
+  }
+
+  await auditAccountAction(req, user.id, 'user.logout', { sessionId });
+
+  res.json({
+    success: true,
+    message: 'Logged out successfully',
+  });
+}));
+
+/**
+ * GET /api/auth/sessions
+ * Active sessions for the user
+ */
+router.get('/sessions', authMiddleware, asyncHandler(async (req: Request, res: Response) => {
+  const sessionService = req.app.locals.sessionService as SessionService;
+  const { user, sessionId } = req as AuthenticatedRequest;
+
+  const sessions = await sessionService.listSessions(user.id);
+
+  res.json({
+    success: true,
+    data: sessions.map(session => ({ ...session, current: session.id === sessionId })),
+  });
+}));
+
+/**
+ * DELETE /api/auth/sessions/:sessionId
+ * Revoke one of the user's sessions
+ */
+router.delete('/sessions/:sessionId', authMiddleware, validateSessionId, asyncHandler(async (req: Request, res: Response) => {
+  const sessionService = req.app.locals.sessionService as SessionService;
+  const userId = (req as AuthenticatedRequest).user.id;
+
+  const revoked = await sessionService.revokeSession(userId, req.params.sessionId, 'revoked');
+
+  if (!revoked) {
+    return res.status(404).json({
+      success: false,
+      error: { message: 'Session not found' },
+    });
+  }
+
+  await auditAccountAction(req, userId, 'session.revoke', { sessionId: req.params.sessionId });
+
+  res.json({
+    success: true,
+    message: 'Session revoked successfully',
+  });
+}));
+
+/**
+ * GET /api/auth/2fa
+ * Two-factor status for the user
+ */
+router.get('/2fa', authMiddleware, asyncHandler(async (req: Request, res: Response) => {
+  const twoFactorService = req.app.locals.twoFactorService as TwoFactorService;
+
+  const status = await twoFactorService.getStatus((req as AuthenticatedRequest).user.id);
+
+  res.json({
+    success: true,
+    data: status,
+  });
+}));
+
+/**
+ * POST /api/auth/2fa/setup
+ * Generate a TOTP secret to scan into an authenticator app
+ */
+router.post('/2fa/setup', authMiddleware, asyncHandler(async (req: Request, res: Response) => {
+  const twoFactorService = req.app.locals.twoFactorService as TwoFactorService;
+
+  const enrollment = await twoFactorService.beginEnrollment((req as AuthenticatedRequest).user.id);
+
+  if (!enrollment) {
+    return res.status(409).json({
+      success: false,
+      error: { message: 'Two-factor authentication is already enabled' },
+    });
+  }
+
+  res.json({
+    success: true,
+    data: enrollment,
+    message: 'Scan the secret and confirm a code to enable two-factor authentication',
+  });
+}));
+
+/**
+ * POST /api/auth/2fa/enable
+ * Confirm setup with a code from the authenticator app. Recovery codes are returned only here.
+ */
+router.post('/2fa/enable', authMiddleware, validateTwoFactorCode, asyncHandler(async (req: Request, res: Response) => {
+  const twoFactorService = req.app.locals.twoFactorService as TwoFactorService;
+  const { user, sessionId } = req as AuthenticatedRequest;
+
+  const recoveryCodes = await twoFactorService.enable(user.id, req.body.code);
+
+  if (!recoveryCodes) {
+    return res.status(400).json({
+      success: false,
+      error: { message: 'Invalid code or no pending two-factor setup' },
+    });
+  }
+
+  if (sessionId) {
+    await twoFactorService.markSessionVerified(sessionId);
+  }
+
+  await auditAccountAction(req, user.id, 'user.2fa_enable');
+
+  res.json({
+    success: true,
+    data: { recoveryCodes },
+    message: 'Two-factor authentication enabled',
+  });
+}));
+
+/**
+ * POST /api/auth/2fa/verify
+ * Assert 2FA for the current session, e.g. before starting a node-controlling agent
+ */
+router.post('/2fa/verify', authRateLimiter, authMiddleware, validateTwoFactorCode, asyncHandler(async (req: Request, res: Response) => {
+  const twoFactorService = req.app.locals.twoFactorService as TwoFactorService;
+  const { user, sessionId } = req as AuthenticatedRequest;
+
+  if (!sessionId) {
+    return res.status(400).json({
+      success: false,
+      error: { message: 'Two-factor verification requires a login session' },
+    });
+  }
+
+  if (!(await twoFactorService.verify(user.id, req.body.code))) {
+    return res.status(401).json({
+      success: false,
+      error: { message: 'Invalid two-factor authentication code' },
+    });
+  }
+
+  await twoFactorService.markSessionVerified(sessionId);
+
+  res.json({
+    success: true,
+    message: 'Two-factor authentication verified',
+  });
+}));
+
+/**
+ * POST /api/auth/2fa/recovery-codes
+ * Replace the recovery codes
+ */
+router.post('/2fa/recovery-codes', authMiddleware, validateTwoFactorCode, asyncHandler(async (req: Request, res: Response) => {
+  const twoFactorService = req.app.locals.twoFactorService as TwoFactorService;
+
+  const recoveryCodes = await twoFactorService.regenerateRecoveryCodes((req as AuthenticatedRequest).user.id, req.body.code);
+
+  if (!recoveryCodes) {
+    return res.status(401).json({
+      success: false,
+      error: { message: 'Invalid two-factor authentication code' },
+    });
+  }
+
+  await auditAccountAction(req, (req as AuthenticatedRequest).user.id, 'user.2fa_recovery_codes');
+
+  res.json({
+    success: true,
+    data: { recoveryCodes },
+    message: 'Recovery codes regenerated',
+  });
+}));
+
+/**
+ * PUT /api/auth/2fa/settings
+ * Require a fresh 2FA assertion before starting agents that can restart nodes.
+ * Turning the requirement off needs a current code.
+ */
+router.put('/2fa/settings', authRateLimiter, authMiddleware, validateTwoFactorSettings, asyncHandler(async (req: Request, res: Response) => {
+  const twoFactorService = req.app.locals.twoFactorService as TwoFactorService;
+  const userId = (req as AuthenticatedRequest).user.id;
+
+  if (!req.body.requireForNodeControl && !(await twoFactorService.verify(userId, req.body.code))) {
+    return res.status(401).json({
+      success: false,
+      error: { message: 'Invalid two-factor authentication code' },
+    });
+  }
+
+  const updated = await twoFactorService.setNodeControlRequirement(userId, req.body.requireForNodeControl);
+
+  if (!updated) {
+    return res.status(409).json({
+      success: false,
+      error: { message: 'Enable two-factor authentication first' },
+    });
+  }
+
+  await auditAccountAction(req, userId, 'user.2fa_settings', {
+    requireForNodeControl: req.body.requireForNodeControl,
+  });
+
+  res.json({
+    success: true,
+    data: { requireForNodeControl: req.body.requireForNodeControl },
+    message: 'Two-factor settings updated',
+  });
+}));
+
+/**
+ * POST /api/auth/2fa/disable
+ * Turn off 2FA. Requires the password and a current code.
+ */
+router.post('/2fa/disable', authRateLimiter, authMiddleware, validateTwoFactorDisable, asyncHandler(async (req: Request, res: Response) => {
+  const twoFactorService = req.app.locals.twoFactorService as TwoFactorService;
+  const userId = (req as AuthenticatedRequest).user.id;
+
+  const result = await database.query(
+    'SELECT password_hash FROM users WHERE id = $1',
+    [userId]
+  );
+
+  const isValidPassword = await bcrypt.compare(req.body.password, result.rows[0].password_hash);
+  if (!isValidPassword) {
+    return res.status(401).json({
+      success: false,
+      error: { message: 'Password is incorrect' },
+    });
+  }
+
+  if (!(await twoFactorService.disable(userId, req.body.code))) {
+    return res.status(401).json({
+      success: false,
+      error: { message: 'Invalid two-factor authentication code' },
+    });
+  }
+
+  await auditAccountAction(req, userId, 'user.2fa_disable');
+
+  res.json({
+    success: true,
+    message: 'Two-factor authentication disabled',
+  });
+}));
+
 export default router;
@@ -0,0 +1,38 @@
+import express, { Router, Response, Request } from 'express';
+import { BillingService } from '../services/BillingService';
+import { asyncHandler } from '../middleware/errorHandler';
+
+const router = Router();
+
+/**
+ * POST /api/billing/webhook
+ * Signed billing provider events. Mounted before the JSON body parser
+ * because the signature covers the raw body.
+ */
+router.post('/webhook', express.raw({ type: 'application/json', limit: '1mb' }), asyncHandler(async (req: Request, res: Response) => {
+  const billingService = req.app.locals.billingService as BillingService;
+
+  if (!billingService.isConfigured()) {
+    return res.status(503).json({
+      success: false,
+      error: { message: 'Billing webhooks are not configured' },
+    });
+  }
+
+  if (!Buffer.isBuffer(req.body)) {
+    return res.status(400).json({
+      success: false,
+      error: { message: 'Expected an application/json body' },
+    });
+  }
+
+  const event = billingService.constructEvent(req.body, req.get('Stripe-Signature'));
+  const result = await billingService.handleEvent(event);
+
+  res.json({
+    success: true,
+    data: { eventId: event.id, result },
+  });
+}));
+
+export default router;
@@ -0,0 +1,103 @@
+import { Router, Response, Request } from 'express';
+import { DashboardService } from '../services/DashboardService';
+import { asyncHandler } from '../middleware/errorHandler';
+import { authMiddleware, AuthenticatedRequest } from '../middleware/auth';
+import { validateDashboardQuery } from '../middleware/validation';
+
+const router = Router();
+
+/**
+ * GET /api/dashboard/overview
+ * Fleet overview: agent counts, uptime percentiles, open alerts and per-chain breakdown
+ */
+router.get('/overview', authMiddleware, validateDashboardQuery, asyncHandler(async (req: Request, res: Response) => {
+  const dashboardService = req.app.locals.dashboardService as DashboardService;
+  const hours = req.query.hours as unknown as number;
+  
+  const overview = await dashboardService.getOverview((req as AuthenticatedRequest).user.id, hours);
+  
+  res.json({
+    success: true,
+    data: overview,
+  });
+}));
+
+/**
+ * GET /api/dashboard/performance
+ * Hourly uptime and response time per chain, plus a per-agent summary
+ */
+router.get('/performance', authMiddleware, validateDashboardQuery, asyncHandler(async (req: Request, res: Response) => {
+  const dashboardService = req.app.locals.dashboardService as DashboardService;
+  const hours = req.query.hours as unknown as number;
+  
+  const performance = await dashboardService.getPerformance((req as AuthenticatedRequest).user.id, hours);
+  
+  res.json({
+    success: true,
+    data: performance,
+  });
+}));
+
+/**
+ * GET /api/dashboard/alerts
+ * Alert counts by severity, type, chain and day
+ */
+router.get('/alerts', authMiddleware, validateDashboardQuery, asyncHandler(async (req: Request, res: Response) => {
+  const dashboardService = req.app.locals.dashboardService as DashboardService;
+  const days = req.query.days as unknown as number;
+  
+  const summary = await dashboardService.getAlertSummary((req as AuthenticatedRequest).user.id, days);
+  
+  res.json({
+    success: true,
+    data: summary,
+  });
+}));
+
+/**
+ * GET /api/dashboard/revenue
+ * Transaction value and fees per chain and day
+ */
+router.get('/revenue', authMiddleware, validateDashboardQuery, asyncHandler(async (req: Request, res: Response) => {
+  const dashboardService = req.app.locals.dashboardService as DashboardService;
+  const days = req.query.days as unknown as number;
+  
+  const revenue = await dashboardService.getRevenue((req as AuthenticatedRequest).user.id, days);
+  
+  res.json({
+    success: true,
+    data: revenue,
+  });
+}));
+
+/**
+ * GET /api/dashboard/slos
+ * SLO attainment, error budgets and burn rates across the user's agents
+ */
+router.get('/slos', authMiddleware, asyncHandler(async (req: Request, res: Response) => {
+  const dashboardService = req.app.locals.dashboardService as DashboardService;
+
+  const slos = await dashboardService.getSlos((req as AuthenticatedRequest).user.id);
+
+  res.json({
+    success: true,
+    data: slos,
+  });
+}));
+
+/**
+ * GET /api/dashboard/health
+ * Health status of the user's agents
+ */
+router.get('/health', authMiddleware, asyncHandler(async (req: Request, res: Response) => {
+  const dashboardService = req.app.locals.dashboardService as DashboardService;
+  
+  const health = await dashboardService.getHealth((req as AuthenticatedRequest).user.id);
+  
+  res.json({
+    success: true,
+    data: health,
+  });
+}));
+
+export default router;
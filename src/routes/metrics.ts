@@ -0,0 +1,34 @@
+import { Router, Response, Request } from 'express';
+import { PrometheusService } from '../services/PrometheusService';
+import { asyncHandler } from '../middleware/errorHandler';
+
+const router = Router();
+
+/**
+ * GET /metrics
+ * Prometheus scrape endpoint, authenticated with `Authorization: Bearer <METRICS_TOKEN>`
+ */
+router.get('/', asyncHandler(async (req: Request, res: Response) => {
+  const prometheusService = req.app.locals.prometheusService as PrometheusService;
+
+  if (!prometheusService.isConfigured()) {
+    return res.status(503).json({
+      success: false,
+      error: { message: 'Metrics endpoint is not configured' },
+    });
+  }
+
+  if (!prometheusService.verifyAuthorization(req.get('Authorization'))) {
+    return res.status(401).json({
+      success: false,
+      error: { message: 'Invalid metrics token' },
+    });
+  }
+
+  const body = await prometheusService.collect();
+
+  res.set('Content-Type', 'text/plain; version=0.0.4; charset=utf-8');
+  res.send(body);
+}));
+
+export default router;
@@ -0,0 +1,376 @@
+import { Router, Response, Request, NextFunction } from 'express';
+import { OnCallService } from '../services/OnCallService';
+import { EscalationService } from '../services/EscalationService';
+import { OrganizationService, hasRole } from '../services/OrganizationService';
+import { AuditService, auditActor } from '../services/AuditService';
+import { asyncHandler } from '../middleware/errorHandler';
+import { authMiddleware, AuthenticatedRequest } from '../middleware/auth';
+import {
+  validateOnCallSchedule,
+  validateOnCallScheduleUpdate,
+  validateOnCallOverride,
+  validateEscalationPolicy,
+  validateEscalationPolicyUpdate,
+  validateOnCallListQuery,
+  validateScheduleId,
+  validateOverrideId,
+  validatePolicyId,
+} from '../middleware/validation';
+import { OrganizationRole } from '../models/Organization';
+import { OwnedResource, OnCallSchedule, EscalationPolicy } from '../models/Escalation';
+import { logger } from '../utils/logger';
+
+const router = Router();
+
+// Set by authorizeSchedule and authorizePolicy
+interface ScheduleRequest extends AuthenticatedRequest {
+  schedule: OnCallSchedule;
+}
+
+interface PolicyRequest extends AuthenticatedRequest {
+  policy: EscalationPolicy;
+}
+
+/**
+ * Load a schedule or policy and require `minimum` on it: the owner role for
+ * personal ones, the organization role for shared ones. No access is a 404.
+ */
+const authorizeResource = <T extends OwnedResource>(
+  minimum: OrganizationRole,
+  label: string,
+  load: (req: Request) => Promise<T | null>,
+  attach: (req: Request, resource: T) => void
+) => {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void | Response> => {
+    try {
+      const organizationService = req.app.locals.organizationService as OrganizationService;
+      const resource = await load(req);
+      const role = resource ? await organizationService.getAgentRole(resource, (req as AuthenticatedRequest).user.id) : null;
+
+      if (!resource || !role) {
+        return res.status(404).json({
+          success: false,
+          error: { message: `${label} not found` },
+        });
+      }
+
+      if (!hasRole(role, minimum)) {
+        return res.status(403).json({
+          success: false,
+          error: { message: `Requires the ${minimum} role` },
+        });
+      }
+
+      attach(req, resource);
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
+
+const authorizeSchedule = (minimum: OrganizationRole) => authorizeResource(
+  minimum,
+  'Schedule',
+  req => (req.app.locals.onCallService as OnCallService).getSchedule(req.params.scheduleId),
+  (req, schedule) => { (req as ScheduleRequest).schedule = schedule; }
+);
+
+const authorizePolicy = (minimum: OrganizationRole) => authorizeResource(
+  minimum,
+  'Escalation policy',
+  req => (req.app.locals.escalationService as EscalationService).getPolicy(req.params.policyId),
+  (req, policy) => { (req as PolicyRequest).policy = policy; }
+);
+
+/**
+ * Whether the user may create a schedule or policy in an organization (admin or above)
+ */
+const canManageOrganizationOnCall = async (req: Request, organizationId: string): Promise<boolean> => {
+  const organizationService = req.app.locals.organizationService as OrganizationService;
+  const role = await organizationService.getRole(organizationId, (req as AuthenticatedRequest).user.id);
+  return hasRole(role, 'admin');
+};
+
+/**
+ * Record an on-call change
+ */
+const auditOnCallAction = (req: Request, action: string, resource: OwnedResource & { id: string }, data: { targetType: string; before?: any; after?: any; metadata?: Record<string, any> }) => {
+  const auditService = req.app.locals.auditService as AuditService;
+
+  return auditService.record(auditActor(req), {
+    action,
+    targetType: data.targetType,
+    targetId: resource.id,
+    organizationId: resource.organization_id,
+    before: data.before,
+    after: data.after,
+    metadata: data.metadata,
+  });
+};
+
+/**
+ * GET /api/oncall/schedules
+ * Schedules of the user and of their organizations
+ */
+router.get('/schedules', authMiddleware, validateOnCallListQuery, asyncHandler(async (req: Request, res: Response) => {
+  const onCallService = req.app.locals.onCallService as OnCallService;
+
+  const schedules = await onCallService.listSchedules(
+    (req as AuthenticatedRequest).user.id,
+    req.query.organizationId as string | undefined
+  );
+
+  res.json({
+    success: true,
+    data: schedules,
+  });
+}));
+
+/**
+ * POST /api/oncall/schedules
+ * Create a personal or organization schedule
+ */
+router.post('/schedules', authMiddleware, validateOnCallSchedule, asyncHandler(async (req: Request, res: Response) => {
+  const onCallService = req.app.locals.onCallService as OnCallService;
+
+  if (req.body.organization_id && !(await canManageOrganizationOnCall(req, req.body.organization_id))) {
+    return res.status(403).json({
+      success: false,
+      error: { message: 'Creating schedules in an organization requires the admin role' },
+    });
+  }
+
+  const schedule = await onCallService.createSchedule({
+    ...req.body,
+    user_id: (req as AuthenticatedRequest).user.id,
+  });
+
+  await auditOnCallAction(req, 'oncall.schedule_create', schedule, { targetType: 'oncall_schedule', after: req.body });
+
+  res.status(201).json({
+    success: true,
+    data: schedule,
+    message: 'Schedule created successfully',
+  });
+}));
+
+/**
+ * GET /api/oncall/schedules/:scheduleId
+ * Schedule details with its current and upcoming overrides
+ */
+router.get('/schedules/:scheduleId', authMiddleware, validateScheduleId, authorizeSchedule('viewer'), asyncHandler(async (req: Request, res: Response) => {
+  const onCallService = req.app.locals.onCallService as OnCallService;
+  const schedule = (req as ScheduleRequest).schedule;
+
+  const overrides = await onCallService.listOverrides(schedule.id);
+
+  res.json({
+    success: true,
+    data: { ...schedule, overrides },
+  });
+}));
+
+/**
+ * PUT /api/oncall/schedules/:scheduleId
+ * Change a schedule's name, participants or rotation
+ */
+router.put('/schedules/:scheduleId', authMiddleware, validateScheduleId, authorizeSchedule('admin'), validateOnCallScheduleUpdate, asyncHandler(async (req: Request, res: Response) => {
+  const onCallService = req.app.locals.onCallService as OnCallService;
+  const schedule = (req as ScheduleRequest).schedule;
+
+  const updated = await onCallService.updateSchedule(schedule, req.body);
+
+  await auditOnCallAction(req, 'oncall.schedule_update', schedule, {
+    targetType: 'oncall_schedule',
+    before: { name: schedule.name, participants: schedule.participants, rotation_start: schedule.rotation_start, shift_hours: schedule.shift_hours },
+    after: req.body,
+  });
+
+  res.json({
+    success: true,
+    data: updated,
+    message: 'Schedule updated successfully',
+  });
+}));
+
+/**
+ * DELETE /api/oncall/schedules/:scheduleId
+ * Delete a schedule that no escalation policy uses
+ */
+router.delete('/schedules/:scheduleId', authMiddleware, validateScheduleId, authorizeSchedule('admin'), asyncHandler(async (req: Request, res: Response) => {
+  const onCallService = req.app.locals.onCallService as OnCallService;
+  const schedule = (req as ScheduleRequest).schedule;
+
+  await onCallService.deleteSchedule(schedule.id);
+
+  await auditOnCallAction(req, 'oncall.schedule_delete', schedule, { targetType: 'oncall_schedule', before: { name: schedule.name } });
+
+  res.json({
+    success: true,
+    message: 'Schedule deleted successfully',
+  });
+}));
+
+/**
+ * GET /api/oncall/schedules/:scheduleId/current
+ * Who is on call now
+ */
+router.get('/schedules/:scheduleId/current', authMiddleware, validateScheduleId, authorizeSchedule('viewer'), asyncHandler(async (req: Request, res: Response) => {
+  const onCallService = req.app.locals.onCallService as OnCallService;
+
+  const userId = await onCallService.getOnCallUser((req as ScheduleRequest).schedule.id);
+
+  res.json({
+    success: true,
+    data: { userId, at: new Date() },
+  });
+}));
+
+/**
+ * POST /api/oncall/schedules/:scheduleId/overrides
+ * Put someone else on call for a period
+ */
+router.post('/schedules/:scheduleId/overrides', authMiddleware, validateScheduleId, authorizeSchedule('admin'), validateOnCallOverride, asyncHandler(async (req: Request, res: Response) => {
+  const onCallService = req.app.locals.onCallService as OnCallService;
+  const schedule = (req as ScheduleRequest).schedule;
+
+  const override = await onCallService.addOverride(schedule, req.body, (req as AuthenticatedRequest).user.id);
+
+  await auditOnCallAction(req, 'oncall.override_add', schedule, { targetType: 'oncall_schedule', after: req.body });
+
+  logger.info('On-call override added via API', { scheduleId: schedule.id, overrideId: override.id });
+
+  res.status(201).json({
+    success: true,
+    data: override,
+    message: 'Override added successfully',
+  });
+}));
+
+/**
+ * DELETE /api/oncall/schedules/:scheduleId/overrides/:overrideId
+ * Remove an override
+ */
+router.delete('/schedules/:scheduleId/overrides/:overrideId', authMiddleware, validateScheduleId, validateOverrideId, authorizeSchedule('admin'), asyncHandler(async (req: Request, res: Response) => {
+  const onCallService = req.app.locals.onCallService as OnCallService;
+  const schedule = (req as ScheduleRequest).schedule;
+
+  const deleted = await onCallService.deleteOverride(schedule.id, req.params.overrideId);
+  if (!deleted) {
+    return res.status(404).json({
+      success: false,
+      error: { message: 'Override not found' },
+    });
+  }
+
+  await auditOnCallAction(req, 'oncall.override_remove', schedule, {
+    targetType: 'oncall_schedule',
+    metadata: { overrideId: req.params.overrideId },
+  });
+
+  res.json({
+    success: true,
+    message: 'Override removed successfully',
+  });
+}));
+
+/**
+ * GET /api/oncall/policies
+ * Escalation policies of the user and of their organizations
+ */
+router.get('/policies', authMiddleware, validateOnCallListQuery, asyncHandler(async (req: Request, res: Response) => {
+  const escalationService = req.app.locals.escalationService as EscalationService;
+
+  const policies = await escalationService.listPolicies(
+    (req as AuthenticatedRequest).user.id,
+    req.query.organizationId as string | undefined
+  );
+
+  res.json({
+    success: true,
+    data: policies,
+  });
+}));
+
+/**
+ * POST /api/oncall/policies
+ * Create a personal or organization escalation policy
+ */
+router.post('/policies', authMiddleware, validateEscalationPolicy, asyncHandler(async (req: Request, res: Response) => {
+  const escalationService = req.app.locals.escalationService as EscalationService;
+
+  if (req.body.organization_id && !(await canManageOrganizationOnCall(req, req.body.organization_id))) {
+    return res.status(403).json({
+      success: false,
+      error: { message: 'Creating escalation policies in an organization requires the admin role' },
+    });
+  }
+
+  const policy = await escalationService.createPolicy({
+    ...req.body,
+    user_id: (req as AuthenticatedRequest).user.id,
+  });
+
+  await auditOnCallAction(req, 'oncall.policy_create', policy, { targetType: 'escalation_policy', after: req.body });
+
+  res.status(201).json({
+    success: true,
+    data: policy,
+    message: 'Escalation policy created successfully',
+  });
+}));
+
+/**
+ * GET /api/oncall/policies/:policyId
+ * Escalation policy details
+ */
+router.get('/policies/:policyId', authMiddleware, validatePolicyId, authorizePolicy('viewer'), asyncHandler(async (req: Request, res: Response) => {
+  res.json({
+    success: true,
+    data: (req as PolicyRequest).policy,
+  });
+}));
+
+/**
+ * PUT /api/oncall/policies/:policyId
+ * Rename a policy or replace its tiers
+ */
+router.put('/policies/:policyId', authMiddleware, validatePolicyId, authorizePolicy('admin'), validateEscalationPolicyUpdate, asyncHandler(async (req: Request, res: Response) => {
+  const escalationService = req.app.locals.escalationService as EscalationService;
+  const policy = (req as PolicyRequest).policy;
+
+  const updated = await escalationService.updatePolicy(policy, req.body);
+
+  await auditOnCallAction(req, 'oncall.policy_update', policy, {
+    targetType: 'escalation_policy',
+    before: { name: policy.name, tiers: policy.tiers },
+    after: req.body,
+  });
+
+  res.json({
+    success: true,
+    data: updated,
+    message: 'Escalation policy updated successfully',
+  });
+}));
+
+/**
+ * DELETE /api/oncall/policies/:policyId
+ * Delete a policy; its agents go back to plain notifications
+ */
+router.delete('/policies/:policyId', authMiddleware, validatePolicyId, authorizePolicy('admin'), asyncHandler(async (req: Request, res: Response) => {
+  const escalationService = req.app.locals.escalationService as EscalationService;
+  const policy = (req as PolicyRequest).policy;
+
+  await escalationService.deletePolicy(policy.id);
+
+  await auditOnCallAction(req, 'oncall.policy_delete', policy, { targetType: 'escalation_policy', before: { name: policy.name, tiers: policy.tiers } });
+
+  res.json({
+    success: true,
+    message: 'Escalation policy deleted successfully',
+  });
+}));
+
+export default router;
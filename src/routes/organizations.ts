@@ -0,0 +1,295 @@
+import { Router, Response, Request } from 'express';
+import { OrganizationService, hasRole } from '../services/OrganizationService';
+import { AuditService, auditActor } from '../services/AuditService';
+import { asyncHandler } from '../middleware/errorHandler';
+import {
+  authMiddleware,
+  authorizeOrganization,
+  AuthenticatedRequest,
+  OrganizationRequest,
+} from '../middleware/auth';
+import {
+  validateOrganization,
+  validateOrganizationMember,
+  validateOrganizationMemberRole,
+  validateOrganizationId,
+  validateUserId,
+} from '../middleware/validation';
+import { logger } from '../utils/logger';
+
+const router = Router();
+
+/**
+ * Record an action on the `:orgId` organization or one of its members
+ */
+const auditOrganizationAction = (req: Request, action: string, data: { targetType?: string; targetId?: string; before?: any; after?: any } = {}) => {
+  const auditService = req.app.locals.auditService as AuditService;
+
+  return auditService.record(auditActor(req), {
+    action,
+    targetType: data.targetType || 'organization',
+    targetId: data.targetId || req.params.orgId,
+    organizationId: req.params.orgId,
+    before: data.before,
+    after: data.after,
+  });
+};
+
+/**
+ * GET /api/organizations
+ * Organizations the user belongs to
+ */
+router.get('/', authMiddleware, asyncHandler(async (req: Request, res: Response) => {
+  const organizationService = req.app.locals.organizationService as OrganizationService;
+
+  const organizations = await organizationService.listOrganizations((req as AuthenticatedRequest).user.id);
+
+  res.json({
+    success: true,
+    data: organizations,
+  });
+}));
+
+/**
+ * POST /api/organizations
+ * Create an organization owned by the user
+ */
+router.post('/', authMiddleware, validateOrganization, asyncHandler(async (req: Request, res: Response) => {
+  const organizationService = req.app.locals.organizationService as OrganizationService;
+  const userId = (req as AuthenticatedRequest).user.id;
+
+  const organization = await organizationService.createOrganization(userId, req.body.name);
+
+  const auditService = req.app.locals.auditService as AuditService;
+  await auditService.record(auditActor(req), {
+    action: 'organization.create',
+    targetType: 'organization',
+    targetId: organization.id,
+    organizationId: organization.id,
+    after: { name: organization.name },
+  });
+
+  logger.info('Organization created via API', { organizationId: organization.id, userId });
+
+  res.status(201).json({
+    success: true,
+    data: organization,
+    message: 'Organization created successfully',
+  });
+}));
+
+/**
+ * GET /api/organizations/:orgId
+ * Organization details with the user's role
+ */
+router.get('/:orgId', authMiddleware, validateOrganizationId, authorizeOrganization('viewer'), asyncHandler(async (req: Request, res: Response) => {
+  const organizationService = req.app.locals.organizationService as OrganizationService;
+
+  const organization = await organizationService.getOrganization(req.params.orgId, (req as AuthenticatedRequest).user.id);
+
+  res.json({
+    success: true,
+    data: organization,
+  });
+}));
+
+/**
+ * PUT /api/organizations/:orgId
+ * Rename an organization
+ */
+router.put('/:orgId', authMiddleware, validateOrganizationId, authorizeOrganization('admin'), validateOrganization, asyncHandler(async (req: Request, res: Response) => {
+  const organizationService = req.app.locals.organizationService as OrganizationService;
+
+  const organization = await organizationService.getOrganization(req.params.orgId, (req as AuthenticatedRequest).user.id);
+  await organizationService.renameOrganization(req.params.orgId, req.body.name);
+
+  await auditOrganizationAction(req, 'organization.rename', {
+    before: { name: organization?.name },
+    after: { name: req.body.name },
+  });
+
+  res.json({
+    success: true,
+    message: 'Organization updated successfully',
+  });
+}));
+
+/**
+ * DELETE /api/organizations/:orgId
+ * Delete an organization that has no agents left
+ */
+router.delete('/:orgId', authMiddleware, validateOrganizationId, authorizeOrganization('owner'), asyncHandler(async (req: Request, res: Response) => {
+  const organizationService = req.app.locals.organizationService as OrganizationService;
+
+  await organizationService.deleteOrganization(req.params.orgId);
+
+  await auditOrganizationAction(req, 'organization.delete');
+
+  logger.info('Organization deleted via API', { organizationId: req.params.orgId, userId: (req as AuthenticatedRequest).user.id });
+
+  res.json({
+    success: true,
+    message: 'Organization deleted successfully',
+  });
+}));
+
+/**
+ * GET /api/organizations/:orgId/members
+ * Members and their roles
+ */
+router.get('/:orgId/members', authMiddleware, validateOrganizationId, authorizeOrganization('viewer'), asyncHandler(async (req: Request, res: Response) => {
+  const organizationService = req.app.locals.organizationService as OrganizationService;
+
+  const members = await organizationService.listMembers(req.params.orgId);
+
+  res.json({
+    success: true,
+    data: members,
+  });
+}));
+
+/**
+ * POST /api/organizations/:orgId/members
+ * Add a registered user. Only owners can add owners.
+ */
+router.post('/:orgId/members', authMiddleware, validateOrganizationId, authorizeOrganization('admin'), validateOrganizationMember, asyncHandler(async (req: Request, res: Response) => {
+  const organizationService = req.app.locals.organizationService as OrganizationService;
+  const { email, role } = req.body;
+
+  if (role === 'owner' && !hasRole((req as OrganizationRequest).organizationRole, 'owner')) {
+    return res.status(403).json({
+      success: false,
+      error: { message: 'Requires the owner role' },
+    });
+  }
+
+  const member = await organizationService.addMember(req.params.orgId, email, role);
+
+  if (!member) {
+    return res.status(404).json({
+      success: false,
+      error: { message: 'No user is registered with this email' },
+    });
+  }
+
+  await auditOrganizationAction(req, 'organization.member_add', {
+    targetType: 'user',
+    targetId: member.user_id,
+    after: { role },
+  });
+
+  logger.info('Organization member added via API', {
+    organizationId: req.params.orgId,
+    memberId: member.user_id,
+    role,
+    userId: (req as AuthenticatedRequest).user.id,
+  });
+
+  res.status(201).json({
+    success: true,
+    data: member,
+    message: 'Member added successfully',
+  });
+}));
+
+/**
+ * PUT /api/organizations/:orgId/members/:userId
+ * Change a member's role. Only owners can grant or take away the owner role.
+ */
+router.put('/:orgId/members/:userId', authMiddleware, validateOrganizationId, validateUserId, authorizeOrganization('admin'), validateOrganizationMemberRole, asyncHandler(async (req: Request, res: Response) => {
+  const organizationService = req.app.locals.organizationService as OrganizationService;
+  const { orgId, userId } = req.params;
+  const { role } = req.body;
+
+  const current = await organizationService.getRole(orgId, userId);
+  if (!current) {
+    return res.status(404).json({
+      success: false,
+      error: { message: 'Member not found' },
+    });
+  }
+
+  if ((role === 'owner' || current === 'owner') && !hasRole((req as OrganizationRequest).organizationRole, 'owner')) {
+    return res.status(403).json({
+      success: false,
+      error: { message: 'Requires the owner role' },
+    });
+  }
+
+  const member = await organizationService.updateMemberRole(orgId, userId, role);
+
+  await auditOrganizationAction(req, 'organization.member_role_change', {
+    targetType: 'user',
+    targetId: userId,
+    before: { role: current },
+    after: { role },
+  });
+
+  logger.info('Organization member role changed via API', {
+    organizationId: orgId,
+    memberId: userId,
+    role,
+    userId: (req as AuthenticatedRequest).user.id,
+  });
+
+  res.json({
+    success: true,
+    data: member,
+    message: 'Member role updated successfully',
+  });
+}));
+
+/**
+ * DELETE /api/organizations/:orgId/members/:userId
+ * Remove a member. Any member can remove themselves; removing others requires admin, and owner for owners.
+ */
+router.delete('/:orgId/members/:userId', authMiddleware, validateOrganizationId, validateUserId, authorizeOrganization('viewer'), asyncHandler(async (req: Request, res: Response) => {
+  const organizationService = req.app.locals.organizationService as OrganizationService;
+  const { orgId, userId } = req.params;
+  const actorRole = (req as OrganizationRequest).organizationRole;
+
+  if (userId !== (req as AuthenticatedRequest).user.id) {
+    const current = await organizationService.getRole(orgId, userId);
+    if (!current) {
+      return res.status(404).json({
+        success: false,
+        error: { message: 'Member not found' },
+      });
+    }
+
+    const required = current === 'owner' ? 'owner' : 'admin';
+    if (!hasRole(actorRole, required)) {
+      return res.status(403).json({
+        success: false,
+        error: { message: `Requires the ${required} role` },
+      });
+    }
+  }
+
+  const removed = await organizationService.removeMember(orgId, userId);
+
+  if (!removed) {
+    return res.status(404).json({
+      success: false,
+      error: { message: 'Member not found' },
+    });
+  }
+
+  await auditOrganizationAction(req, 'organization.member_remove', {
+    targetType: 'user',
+    targetId: userId,
+  });
+
+  logger.info('Organization member removed via API', {
+    organizationId: orgId,
+    memberId: userId,
+    userId: (req as AuthenticatedRequest).user.id,
+  });
+
+  res.json({
+    success: true,
+    message: 'Member removed successfully',
+  });
+}));
+
+export default router;
@@ -0,0 +1,185 @@
+import { Router, Response, Request, NextFunction } from 'express';
+import { SloService } from '../services/SloService';
+import { OrganizationService, hasRole } from '../services/OrganizationService';
+import { AuditService, auditActor } from '../services/AuditService';
+import { asyncHandler } from '../middleware/errorHandler';
+import { authMiddleware, AuthenticatedRequest } from '../middleware/auth';
+import { validateSlo, validateSloUpdate, validateSloListQuery, validateSloId } from '../middleware/validation';
+import { OrganizationRole } from '../models/Organization';
+import { Slo } from '../models/Slo';
+
+const router = Router();
+
+// Set by authorizeSlo
+interface SloRequest extends AuthenticatedRequest {
+  slo: Slo;
+}
+
+/**
+ * Load the `:sloId` SLO and require `minimum` on it: the owner role for
+ * personal SLOs, the organization role for shared ones. No access is a 404.
+ */
+const authorizeSlo = (minimum: OrganizationRole) => {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void | Response> => {
+    try {
+      const sloService = req.app.locals.sloService as SloService;
+      const organizationService = req.app.locals.organizationService as OrganizationService;
+
+      const slo = await sloService.getSlo(req.params.sloId);
+      const role = slo ? await organizationService.getAgentRole(slo, (req as AuthenticatedRequest).user.id) : null;
+
+      if (!slo || !role) {
+        return res.status(404).json({
+          success: false,
+          error: { message: 'SLO not found' },
+        });
+      }
+
+      if (!hasRole(role, minimum)) {
+        return res.status(403).json({
+          success: false,
+          error: { message: `Requires the ${minimum} role` },
+        });
+      }
+
+      (req as SloRequest).slo = slo;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
+
+/**
+ * Fields of an SLO recorded in audit diffs
+ */
+const auditSnapshot = (slo: Slo) => ({
+  name: slo.name,
+  type: slo.type,
+  threshold: slo.threshold,
+  objective: slo.objective,
+  window_days: slo.window_days,
+  burn_alerts: slo.burn_alerts,
+  agent_ids: slo.agent_ids,
+});
+
+/**
+ * Record an SLO change
+ */
+const auditSloAction = (req: Request, action: string, slo: Slo, data: { before?: any; after?: any } = {}) => {
+  const auditService = req.app.locals.auditService as AuditService;
+
+  return auditService.record(auditActor(req), {
+    action,
+    targetType: 'slo',
+    targetId: slo.id,
+    organizationId: slo.organization_id,
+    before: data.before,
+    after: data.after,
+  });
+};
+
+/**
+ * GET /api/slos
+ * SLOs of the user and of their organizations, with attainment, error budget and burn rates
+ */
+router.get('/', authMiddleware, validateSloListQuery, asyncHandler(async (req: Request, res: Response) => {
+  const sloService = req.app.locals.sloService as SloService;
+
+  const slos = await sloService.listSlos(
+    (req as AuthenticatedRequest).user.id,
+    req.query.organizationId as string | undefined
+  );
+
+  res.json({
+    success: true,
+    data: slos,
+  });
+}));
+
+/**
+ * POST /api/slos
+ * Create a personal or organization SLO over one or more agents
+ */
+router.post('/', authMiddleware, validateSlo, asyncHandler(async (req: Request, res: Response) => {
+  const sloService = req.app.locals.sloService as SloService;
+  const organizationService = req.app.locals.organizationService as OrganizationService;
+
+  if (req.body.organization_id) {
+    const role = await organizationService.getRole(req.body.organization_id, (req as AuthenticatedRequest).user.id);
+    if (!hasRole(role, 'admin')) {
+      return res.status(403).json({
+        success: false,
+        error: { message: 'Creating SLOs in an organization requires the admin role' },
+      });
+    }
+  }
+
+  const slo = await sloService.createSlo({
+    ...req.body,
+    user_id: (req as AuthenticatedRequest).user.id,
+  });
+
+  await auditSloAction(req, 'slo.create', slo, { after: auditSnapshot(slo) });
+
+  res.status(201).json({
+    success: true,
+    data: await sloService.getSloWithStatus(slo),
+    message: 'SLO created successfully',
+  });
+}));
+
+/**
+ * GET /api/slos/:sloId
+ * SLO details with attainment, error budget and burn rates
+ */
+router.get('/:sloId', authMiddleware, validateSloId, authorizeSlo('viewer'), asyncHandler(async (req: Request, res: Response) => {
+  const sloService = req.app.locals.sloService as SloService;
+
+  res.json({
+    success: true,
+    data: await sloService.getSloWithStatus((req as SloRequest).slo),
+  });
+}));
+
+/**
+ * PUT /api/slos/:sloId
+ * Change an SLO's target, window, threshold or agents
+ */
+router.put('/:sloId', authMiddleware, validateSloId, authorizeSlo('admin'), validateSloUpdate, asyncHandler(async (req: Request, res: Response) => {
+  const sloService = req.app.locals.sloService as SloService;
+  const slo = (req as SloRequest).slo;
+
+  const updated = await sloService.updateSlo(slo, req.body);
+
+  await auditSloAction(req, 'slo.update', slo, {
+    before: auditSnapshot(slo),
+    after: auditSnapshot(updated),
+  });
+
+  res.json({
+    success: true,
+    data: await sloService.getSloWithStatus(updated),
+    message: 'SLO updated successfully',
+  });
+}));
+
+/**
+ * DELETE /api/slos/:sloId
+ * Delete an SLO; its open burn alerts resolve on the next evaluation
+ */
+router.delete('/:sloId', authMiddleware, validateSloId, authorizeSlo('admin'), asyncHandler(async (req: Request, res: Response) => {
+  const sloService = req.app.locals.sloService as SloService;
+  const slo = (req as SloRequest).slo;
+
+  await sloService.deleteSlo(slo.id);
+
+  await auditSloAction(req, 'slo.delete', slo, { before: auditSnapshot(slo) });
+
+  res.json({
+    success: true,
+    message: 'SLO deleted successfully',
+  });
+}));
+
+export default router;
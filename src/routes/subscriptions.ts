@@ -0,0 +1,174 @@
+import { Router, Response, Request } from 'express';
+import { SubscriptionService } from '../services/SubscriptionService';
+import { AuditService, auditActor } from '../services/AuditService';
+import { BillingService } from '../services/BillingService';
+import { asyncHandler } from '../middleware/errorHandler';
+import { authMiddleware, AuthenticatedRequest } from '../middleware/auth';
+import { validateSubscriptionUpdate, validateSubscriptionCancel } from '../middleware/validation';
+import { getSupportedChains } from '../chains';
+import { SupportedChain } from '../types';
+import { logger } from '../utils/logger';
+
+const router = Router();
+
+/**
+ * GET /api/subscriptions/plans
+ * Available plans with their limits
+ */
+router.get('/plans', asyncHandler(async (req: Request, res: Response) => {
+  const subscriptionService = req.app.locals.subscriptionService as SubscriptionService;
+
+  res.json({
+    success: true,
+    data: subscriptionService.getPlans(),
+  });
+}));
+
+/**
+ * GET /api/subscriptions
+ * Current user subscription
+ */
+router.get('/', authMiddleware, asyncHandler(async (req: Request, res: Response) => {
+  const subscriptionService = req.app.locals.subscriptionService as SubscriptionService;
+
+  const subscription = await subscriptionService.getSubscription((req as AuthenticatedRequest).user.id);
+
+  if (!subscription) {
+    return res.status(404).json({
+      success: false,
+      error: { message: 'Subscription not found' },
+    });
+  }
+
+  res.json({
+    success: true,
+    data: subscription,
+  });
+}));
+
+/**
+ * PUT /api/subscriptions
+ * Move to a plan that costs no more than the current one; upgrades go through
+ * checkout. Rejected when current usage exceeds the new plan's limits
+ */
+router.put('/', authMiddleware, validateSubscriptionUpdate, asyncHandler(async (req: Request, res: Response) => {
+  const subscriptionService = req.app.locals.subscriptionService as SubscriptionService;
+  const userId = (req as AuthenticatedRequest).user.id;
+
+  const subscription = await subscriptionService.changePlan(userId, req.body.plan);
+
+  const auditService = req.app.locals.auditService as AuditService;
+  await auditService.record(auditActor(req), {
+    action: 'subscription.change_plan',
+    targetType: 'subscription',
+    targetId: subscription.id,
+    metadata: { plan: req.body.plan },
+  });
+
+  logger.info('Subscription updated via API', { userId, plan: req.body.plan });
+
+  res.json({
+    success: true,
+    data: subscription,
+    message: 'Subscription updated successfully',
+  });
+}));
+
+/**
+ * DELETE /api/subscriptions
+ * Cancel at the end of the current period, or immediately with { immediate: true }
+ */
+router.delete('/', authMiddleware, validateSubscriptionCancel, asyncHandler(async (req: Request, res: Response) => {
+  const subscriptionService = req.app.locals.subscriptionService as SubscriptionService;
+  const userId = (req as AuthenticatedRequest).user.id;
+
+  const subscription = await subscriptionService.cancelSubscription(userId, req.body.immediate);
+
+  const auditService = req.app.locals.auditService as AuditService;
+  await auditService.record(auditActor(req), {
+    action: 'subscription.cancel',
+    targetType: 'subscription',
+    targetId: subscription.id,
+    metadata: { immediate: req.body.immediate },
+  });
+
+  logger.info('Subscription canceled via API', { userId, immediate: req.body.immediate });
+
+  res.json({
+    success: true,
+    data: subscription,
+    message: req.body.immediate
+      ? 'Subscription canceled'
+      : 'Subscription will be canceled at the end of the current period',
+  });
+}));
+
+/**
+ * GET /api/subscriptions/usage
+ * Plan limits and current usage
+ */
+router.get('/usage', authMiddleware, asyncHandler(async (req: Request, res: Response) => {
+  const subscriptionService = req.app.locals.subscriptionService as SubscriptionService;
+
+  const usage = await subscriptionService.getUsage((req as AuthenticatedRequest).user.id);
+
+  res.json({
+    success: true,
+    data: usage,
+  });
+}));
+
+/**
+ * GET /api/subscriptions/billing-history
+ * Paid and failed invoices
+ */
+router.get('/billing-history', authMiddleware, asyncHandler(async (req: Request, res: Response) => {
+  const billingService = req.app.locals.billingService as BillingService;
+
+  const history = await billingService.getBillingHistory((req as AuthenticatedRequest).user.id);
+
+  res.json({
+    success: true,
+    data: history,
+  });
+}));
+
+/**
+ * GET /api/subscriptions/can-create-agent
+ * Check the agent limit
+ */
+router.get('/can-create-agent', authMiddleware, asyncHandler(async (req: Request, res: Response) => {
+  const subscriptionService = req.app.locals.subscriptionService as SubscriptionService;
+
+  const check = await subscriptionService.canCreateAgent((req as AuthenticatedRequest).user.id);
+
+  res.json({
+    success: true,
+    data: check,
+  });
+}));
+
+/**
+ * GET /api/subscriptions/can-use-chain/:chain
+ * Check chain access
+ */
+router.get('/can-use-chain/:chain', authMiddleware, asyncHandler(async (req: Request, res: Response) => {
+  const subscriptionService = req.app.locals.subscriptionService as SubscriptionService;
+  const chain = req.params.chain as SupportedChain;
+
+  if (!getSupportedChains().includes(chain)) {
+    return res.status(400).json({
+      success: false,
+      error: { message: `Unsupported chain: ${chain}` },
+    });
+  }
+
+  const check = await subscriptionService.canUseChain((req as AuthenticatedRequest).user.id, chain);
+
+  res.json({
+    success: true,
+    data: check,
+  });
+}));
+
+export default router;
@@ -1,19 +1,40 @@
+import crypto from 'crypto';
 import { ChatOpenAI } from '@langchain/openai';
 import { ChatAnthropic } from '@langchain/anthropic';
-import { StateGraph, MessagesAnnotation } from '@langchain/langgraph';
+import { StateGraph, MessagesAnnotation, Command, interrupt, LangGraphRunnableConfig } from '@langchain/langgraph';
 import { ToolNode } from '@langchain/langgraph/prebuilt';
-import { HumanMessage, AIMessage, SystemMessage } from '@langchain/core/messages';
+import { HumanMessage, AIMessage, SystemMessage, BaseMessage, ToolMessage } from '@langchain/core/messages';
 import { DynamicTool } from '@langchain/core/tools';
-import { MemorySaver } from '@langchain/langgraph';
 import { logger } from '../utils/logger';
+import { llmCallDurationSeconds } from '../utils/prometheus';
 import { database } from '../config/database';
 import { redis } from '../config/redis';
+import { getChainAdapter } from '../chains';
+import { NodeControlConfig } from '../control';
 import { Agent, AgentMetrics } from '../models/Agent';
-import { SupportedChain, NodeType, AgentStatus } from '../types';
+import {
+  AgentTaskRecord,
+  ApprovalDecision,
+  TaskCheckpoint,
+  TaskCheckpointState,
+  TaskMessageRecord,
+  ToolCallRecord,
+  TokenUsage,
+} from '../models/AgentTask';
+import { TaskService } from './TaskService';
+import { NodeControlService } from './NodeControlService';
+import { ApprovalService } from './ApprovalService';
+import { NotificationService } from './NotificationService';
+import { PostgresCheckpointSaver } from './PostgresCheckpointSaver';
+import { AuditService } from './AuditService';
+import { MetricsService } from './MetricsService';
+import { AlertService } from './AlertService';
+import { SupportedChain, NodeType, AgentStatus, TaskPriority } from '../types';
 
 export interface AIAgentConfig {
   agentId: string;
   userId: string;
+  organizationId?: string | null;
   name: string;
   chain: SupportedChain;
   nodeType: NodeType;
@@ -24,6 +45,15 @@ export interface AIAgentConfig {
   tools: string[];
   maxIterations: number;
   temperature: number;
+  nodeControl?: NodeControlConfig;
+  approval?: ApprovalPolicy;
+}
+
+export interface ApprovalPolicy {
+  // Tools whose calls pause the task until approved
+  requiredTools?: string[];
+  // Task priorities whose gated calls run without waiting
+  autoApprovePriorities?: TaskPriority[];
 }
 
 export interface AgentTask {
@@ -33,19 +63,104 @@ export interface AgentTask {
   description: string;
   parameters: Record<string, any>;
   priority: 'low' | 'medium' | 'high' | 'critical';
-  status: 'pending' | 'running' | 'completed' | 'failed';
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'awaiting_approval';
   result?: any;
   error?: string;
+  toolCalls?: ToolCallRecord[];
+  messages?: TaskMessageRecord[];
+  durationMs?: number;
+  tokenUsage?: TokenUsage;
+  attempt?: number; // queue attempt whose LangGraph thread the task runs on, from 1
+  scheduled?: boolean; // queued by the monitoring scheduler; not counted against the task quota
   createdAt: Date;
   completedAt?: Date;
 }
 
+// Messages are `{ agentId, instanceId }`; a replica ignores its own
+const AGENT_UPDATES_CHANNEL = 'agents:updated';
+
+interface AgentUpdatedEvent {
+  agentId: string;
+  instanceId: string;
+}
+
+/**
+ * Build the AI agent configuration from a persisted agent row
+ */
+export function buildAIAgentConfig(agent: Agent): AIAgentConfig {
+  const config = agent.config || {};
+
+  return {
+    agentId: agent.id,
+    userId: agent.user_id,
+    organizationId: agent.organization_id,
+    name: agent.name,
+    chain: agent.chain,
+    nodeType: agent.node_type,
+    endpointUrl: agent.endpoint_url,
+    llmProvider: config.llmProvider || 'openai',
+    model: config.model || 'gpt-4o-mini',
+    systemPrompt: config.systemPrompt,
+    tools: config.tools || ['health_check', 'collect_metrics', 'create_alert'],
+    maxIterations: config.maxIterations || 10,
+    temperature: config.temperature ?? 0.1,
+    nodeControl: config.nodeControl,
+    approval: config.approval,
+  };
+}
+
+// Tools that always wait for approval unless the task's priority is auto-approved
+const DANGEROUS_TOOLS = ['restart_node'];
+
+/**
+ * Merge an agent's approval policy with the deployment defaults. The
+ * deployment and the agent can only add gated tools to the built-in ones.
+ */
+export function resolveApprovalPolicy(config: AIAgentConfig): Required<ApprovalPolicy> {
+  return {
+    requiredTools: [...new Set([
+      ...DANGEROUS_TOOLS,
+      ...parseList(process.env.APPROVAL_REQUIRED_TOOLS ?? ''),
+      ...(config.approval?.requiredTools ?? []),
+    ])],
+    autoApprovePriorities: config.approval?.autoApprovePriorities
+      ?? parseList(process.env.APPROVAL_AUTO_APPROVE_PRIORITIES ?? '') as TaskPriority[],
+  };
+}
+
+function parseList(value: string): string[] {
+  return value.split(',').map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * Generate a task identifier
+ */
+export function createTaskId(): string {
+  return `task_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
 export class AIAgentService {
   private agents: Map<string, any> = new Map();
-  private checkpointer: MemorySaver;
+  private checkpointer: PostgresCheckpointSaver;
+  private taskService: TaskService;
+  private nodeControlService: NodeControlService;
+  private approvalService: ApprovalService;
+  private notificationService: NotificationService;
+  private auditService: AuditService;
+  private metricsService: MetricsService;
+  private alertService: AlertService;
+  private instanceId: string; // tells this replica's agent updates apart from others'
 
   constructor() {
-    this.checkpointer = new MemorySaver();
+    this.instanceId = crypto.randomUUID();
+    this.checkpointer = new PostgresCheckpointSaver();
+    this.taskService = new TaskService();
+    this.nodeControlService = new NodeControlService();
+    this.approvalService = new ApprovalService();
+    this.notificationService = new NotificationService();
+    this.auditService = new AuditService();
+    this.metricsService = new MetricsService();
+    this.alertService = new AlertService();
   }
 
   /**
@@ -55,30 +170,7 @@ export class AIAgentService {
     try {
       logger.info('Creating AI agent', { agentId: config.agentId, name: config.name });
 
-      // Initialize LLM based on provider
-      const llm = this.initializeLLM(config.llmProvider, config.model, config.temperature);
-
-      // Create tools for the agent
-      const tools = await this.createAgentTools(config);
-
-      // Bind tools to the LLM
-      const modelWithTools = llm.bindTools(tools);
-
-      // Create the agent workflow
-      const workflow = this.createAgentWorkflow(modelWithTools, tools, config);
-
-      // Compile the agent
-      const agent = workflow.compile({
-        checkpointer: this.checkpointer,
-      });
-
-      // Store the agent
-      this.agents.set(config.agentId, {
-        agent,
-        config,
-        status: 'active',
-        lastActivity: new Date(),
-      });
+      await this.registerAgent(config);
 
       // Update agent status in database
       await this.updateAgentStatus(config.agentId, AgentStatus.ACTIVE);
@@ -92,55 +184,196 @@ export class AIAgentService {
   }
 
   /**
-   * Execute a task with an AI agent
+   * Rebuild every persisted agent after a restart
+   */
+  async rehydrateAgents(): Promise<number> {
+    const result = await database.query('SELECT * FROM agents');
+    let loaded = 0;
+
+    for (const row of result.rows) {
+      try {
+        await this.registerAgent(buildAIAgentConfig(row));
+        loaded++;
+      } catch (error) {
+        logger.error('Failed to rehydrate AI agent', { agentId: row.id, error });
+      }
+    }
+
+    // Other replicas publish when they change or delete an agent
+    await redis.subscribe(AGENT_UPDATES_CHANNEL, (message) => {
+      const { agentId, instanceId } = JSON.parse(message) as AgentUpdatedEvent;
+      if (instanceId !== this.instanceId) {
+        this.agents.delete(agentId);
+      }
+    });
+
+    logger.info('AI agents rehydrated', { loaded, total: result.rows.length });
+    return loaded;
+  }
+
+  /**
+   * Rebuild an agent from its current database row
+   */
+  async rebuildAgent(agent: Agent): Promise<void> {
+    logger.info('Rebuilding AI agent', { agentId: agent.id });
+    await this.registerAgent(buildAIAgentConfig(agent));
+    await this.publishAgentUpdate(agent.id);
+  }
+
+  /**
+   * Drop an agent from this and every other replica's cache
+   */
+  async removeAgent(agentId: string): Promise<void> {
+    this.agents.delete(agentId);
+    await this.publishAgentUpdate(agentId);
+  }
+
+  private async publishAgentUpdate(agentId: string): Promise<void> {
+    const event: AgentUpdatedEvent = { agentId, instanceId: this.instanceId };
+    await redis.publish(AGENT_UPDATES_CHANNEL, JSON.stringify(event));
+  }
+
+  /**
+   * Compile the LangGraph agent and cache it
+   */
+  private async registerAgent(config: AIAgentConfig): Promise<void> {
+    // Initialize LLM based on provider
+    const llm = this.initializeLLM(config.llmProvider, config.model, config.temperature);
+
+    // Create tools for the agent
+    const tools = await this.createAgentTools(config);
+
+    // Bind tools to the LLM
+    const modelWithTools = llm.bindTools(tools);
+
+    // Create the agent workflow
+    const workflow = this.createAgentWorkflow(modelWithTools, tools, config);
+
+    // Compile the agent
+    const agent = workflow.compile({
+      checkpointer: this.checkpointer,
+    });
+
+    // Store the agent
+    this.agents.set(config.agentId, {
+      agent,
+      config,
+      status: 'active',
+      lastActivity: new Date(),
+    });
+  }
+
+  /**
+   * Get a compiled agent, rebuilding it from the database on a cache miss
    */
-  async executeTask(agentId: string, task: Omit<AgentTask, 'id' | 'createdAt' | 'status'>): Promise<AgentTask> {
-    const agentData = this.agents.get(agentId);
-    if (!agentData) {
+  private async getAgentData(agentId: string): Promise<any> {
+    const cached = this.agents.get(agentId);
+    if (cached) {
+      return cached;
+    }
+
+    const result = await database.query('SELECT * FROM agents WHERE id = $1', [agentId]);
+    if (result.rows.length === 0) {
       throw new Error(`Agent ${agentId} not found`);
     }
 
-    const taskId = `task_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    logger.info('Loading AI agent on demand', { agentId });
+    await this.registerAgent(buildAIAgentConfig(result.rows[0]));
+    return this.agents.get(agentId);
+  }
+
+  /**
+   * Execute a task with an AI agent. Queued tasks keep the id and creation
+   * time they were enqueued with.
+   */
+  async executeTask(
+    agentId: string,
+    task: Omit<AgentTask, 'id' | 'createdAt' | 'status'> & Partial<Pick<AgentTask, 'id' | 'createdAt'>>
+  ): Promise<AgentTask> {
+    const agentData = await this.getAgentData(agentId);
+
     const fullTask: AgentTask = {
-      id: taskId,
       ...task,
+      id: task.id || createTaskId(),
       status: 'pending',
-      createdAt: new Date(),
+      createdAt: task.createdAt ? new Date(task.createdAt) : new Date(),
     };
 
-    try {
-      logger.info('Executing agent task', { agentId, taskId, type: task.type });
+    logger.info('Executing agent task', { agentId, taskId: fullTask.id, type: task.type });
+
+    // Create system prompt and task-specific message
+    const input = {
+      messages: [
+        new SystemMessage(this.createSystemPrompt(agentData.config, task)),
+        new HumanMessage(this.createTaskMessage(task)),
+      ],
+    };
+
+    return this.runTask(agentData, fullTask, input);
+  }
+
+  /**
+   * Resume a task that was paused for approval with the operator's decision
+   */
+  async resumeTask(agentId: string, task: AgentTask, decision: ApprovalDecision): Promise<AgentTask> {
+    const agentData = await this.getAgentData(agentId);
 
+    logger.info('Resuming agent task', { agentId, taskId: task.id, approved: decision.approved });
+
+    return this.runTask(
+      agentData,
+      { ...task, createdAt: new Date(task.createdAt) },
+      new Command({ resume: decision })
+    );
+  }
+
+  /**
+   * Run the agent graph until it finishes or pauses for approval
+   */
+  private async runTask(agentData: any, fullTask: AgentTask, input: any): Promise<AgentTask> {
+    const agentId = fullTask.agentId;
+    const taskId = fullTask.id;
+    const startedAt = Date.now();
+    const previousDurationMs = fullTask.durationMs || 0;
+    const graphConfig = {
+      configurable: {
+        thread_id: this.getThreadId(agentId, taskId, fullTask.attempt),
+        taskId,
+        taskPriority: fullTask.priority,
+      },
+    };
+
+    try {
       // Update task status
       fullTask.status = 'running';
       await this.storeTask(fullTask);
 
-      // Create system prompt based on task type
-      const systemPrompt = this.createSystemPrompt(agentData.config, task);
-
-      // Create task-specific message
-      const taskMessage = this.createTaskMessage(task);
-
       // Execute the agent
-      const result = await agentData.agent.invoke(
-        {
-          messages: [
-            new SystemMessage(systemPrompt),
-            new HumanMessage(taskMessage),
-          ],
-        },
-        {
-          configurable: { thread_id: `${agentId}_${taskId}` },
-        }
-      );
+      const result = await agentData.agent.invoke(input, graphConfig);
+
+      // Update task with transcript so far
+      const transcript = this.summarizeTranscript(result.messages);
+      fullTask.toolCalls = transcript.toolCalls;
+      fullTask.messages = transcript.messages;
+      fullTask.tokenUsage = transcript.tokenUsage;
+      fullTask.durationMs = previousDurationMs + (Date.now() - startedAt);
+
+      // An interrupted thread still has nodes left to run
+      const state = await agentData.agent.getState(graphConfig);
+      if (state.next.length > 0) {
+        const lastMessage = result.messages[result.messages.length - 1] as AIMessage;
+        fullTask.status = 'awaiting_approval';
+        await this.storeTask(fullTask);
+        await this.requestApproval(agentData.config, fullTask, lastMessage);
+
+        logger.info('Agent task awaiting approval', { agentId, taskId });
+        return fullTask;
+      }
 
       // Extract the final response
       const finalMessage = result.messages[result.messages.length - 1];
-      const response = finalMessage.content;
-
-      // Update task with result
       fullTask.status = 'completed';
-      fullTask.result = response;
+      fullTask.result = finalMessage.content;
       fullTask.completedAt = new Date();
 
       await this.storeTask(fullTask);
@@ -156,57 +389,18 @@ export class AIAgentService {
       fullTask.status = 'failed';
       fullTask.error = error instanceof Error ? error.message : 'Unknown error';
       fullTask.completedAt = new Date();
+      fullTask.durationMs = previousDurationMs + (Date.now() - startedAt);
 
       await this.storeTask(fullTask);
       throw error;
     }
   }
 
-  /**
-   * Start continuous monitoring for an agent
-   */
-  async startMonitoring(agentId: string): Promise<void> {
-    const agentData = this.agents.get(agentId);
-    if (!agentData) {
-      throw new Error(`Agent ${agentId} not found`);
-    }
-
-    logger.info('Starting continuous monitoring', { agentId });
-
-    // Create monitoring interval
-    const monitoringInterval = setInterval(async () => {
-      try {
-        await this.performMonitoringCycle(agentId);
-      } catch (error) {
-        logger.error('Monitoring cycle failed', { agentId, error });
-      }
-    }, 30000); // Monitor every 30 seconds
-
-    agentData.monitoringInterval = monitoringInterval;
-  }
-
-  /**
-   * Stop monitoring for an agent
-   */
-  async stopMonitoring(agentId: string): Promise<void> {
-    const agentData = this.agents.get(agentId);
-    if (!agentData?.monitoringInterval) {
-      return;
-    }
-
-    logger.info('Stopping monitoring', { agentId });
-    clearInterval(agentData.monitoringInterval);
-    delete agentData.monitoringInterval;
-  }
-
   /**
    * Get agent status and metrics
    */
   async getAgentStatus(agentId: string): Promise<any> {
-    const agentData = this.agents.get(agentId);
-    if (!agentData) {
-      throw new Error(`Agent ${agentId} not found`);
-    }
+    const agentData = await this.getAgentData(agentId);
 
     // Get recent tasks
     const recentTasks = await this.getRecentTasks(agentId, 10);
@@ -218,13 +412,75 @@ export class AIAgentService {
       agentId,
       status: agentData.status,
       lastActivity: agentData.lastActivity,
-      isMonitoring: !!agentData.monitoringInterval,
+      isMonitoring: await this.isMonitoringActive(agentId),
       recentTasks,
       latestMetrics,
       config: agentData.config,
     };
   }
 
+  /**
+   * List a task's checkpoints oldest first, each with the messages it added
+   */
+  async getTaskCheckpoints(agentId: string, taskId: string): Promise<TaskCheckpoint[]> {
+    try {
+      const agentData = await this.getAgentData(agentId);
+      const snapshots: any[] = [];
+
+      for await (const snapshot of agentData.agent.getStateHistory({
+        configurable: { thread_id: await this.getTaskThreadId(agentId, taskId) },
+      })) {
+        snapshots.push(snapshot);
+      }
+
+      let previousCount = 0;
+      return snapshots.reverse().map(snapshot => {
+        const messages = this.summarizeTranscript(snapshot.values?.messages || []).messages;
+        const checkpoint = this.toTaskCheckpoint(snapshot, messages, previousCount);
+        previousCount = messages.length;
+        return checkpoint;
+      });
+    } catch (error) {
+      logger.error('Failed to get task checkpoints', { agentId, taskId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Get the full agent state at a single checkpoint
+   */
+  async getTaskCheckpoint(agentId: string, taskId: string, checkpointId: string): Promise<TaskCheckpointState | null> {
+    try {
+      const agentData = await this.getAgentData(agentId);
+      const threadId = await this.getTaskThreadId(agentId, taskId);
+
+      const tuple = await this.checkpointer.getTuple({
+        configurable: { thread_id: threadId, checkpoint_id: checkpointId },
+      });
+      if (!tuple) {
+        return null;
+      }
+
+      const snapshot = await agentData.agent.getState(tuple.config);
+      const messages = this.summarizeTranscript(snapshot.values?.messages || []).messages;
+
+      let parentCount = 0;
+      if (tuple.parentConfig) {
+        const parent = await this.checkpointer.getTuple(tuple.parentConfig);
+        parentCount = (parent?.checkpoint.channel_values?.messages as BaseMessage[] | undefined)?.length || 0;
+      }
+
+      return {
+        ...this.toTaskCheckpoint(snapshot, messages, parentCount),
+        messages,
+        metadata: snapshot.metadata || {},
+      };
+    } catch (error) {
+      logger.error('Failed to get task checkpoint', { agentId, taskId, checkpointId, error });
+      throw error;
+    }
+  }
+
   /**
    * Initialize LLM based on provider
    */
@@ -279,6 +535,19 @@ export class AIAgentService {
       );
     }
 
+    // Finality Check Tool
+    if (config.tools.includes('check_finality')) {
+      tools.push(
+        new DynamicTool({
+          name: 'check_finality',
+          description: 'Compare the latest block with the latest finalized block on the node',
+          func: async () => {
+            return await this.checkFinality(config.endpointUrl, config.chain);
+          },
+        })
+      );
+    }
+
     // Alert Creation Tool
     if (config.tools.includes('create_alert')) {
       tools.push(
@@ -298,9 +567,9 @@ export class AIAgentService {
       tools.push(
         new DynamicTool({
           name: 'restart_node',
-          description: 'Restart the blockchain node (use with caution)',
+          description: 'Restart the blockchain node and wait until it reports healthy again (use with caution)',
           func: async () => {
-            return await this.restartNode(config.endpointUrl, config.chain);
+            return await this.restartNode(config);
           },
         })
       );
@@ -319,22 +588,75 @@ export class AIAgentService {
       );
     }
 
-    return tools;
+    return tools.map(tool => this.withToolAudit(tool, config));
+  }
+
+  /**
+   * Wrap a tool so every invocation, successful or not, lands in the audit log
+   */
+  private withToolAudit(tool: DynamicTool, config: AIAgentConfig): DynamicTool {
+    return new DynamicTool({
+      name: tool.name,
+      description: tool.description,
+      func: async (input, runManager, runConfig) => {
+        const taskId: string | undefined = runConfig?.configurable?.taskId;
+        const startTime = Date.now();
+        const record = (metadata: Record<string, any>) => this.auditService.record(
+          { actorType: 'agent', actorId: config.agentId, userId: config.userId },
+          {
+            action: 'agent.tool_call',
+            targetType: 'tool',
+            targetId: tool.name,
+            agentId: config.agentId,
+            organizationId: config.organizationId,
+            metadata: {
+              taskId,
+              input,
+              durationMs: Date.now() - startTime,
+              ...metadata,
+            },
+          }
+        );
+
+        try {
+          const output = await tool.func(input, runManager, runConfig);
+          await record({ success: true });
+          return output;
+        } catch (error) {
+          await record({ success: false, error: error instanceof Error ? error.message : String(error) });
+          throw error;
+        }
+      },
+    });
   }
 
   /**
-   * Create the agent workflow using StateGraph
+   * Create the agent workflow using StateGraph. Tool calls that need
+   * approval go through an approval node that pauses the thread.
    */
   private createAgentWorkflow(modelWithTools: any, tools: DynamicTool[], config: AIAgentConfig) {
     const toolNode = new ToolNode(tools);
+    const approvalPolicy = resolveApprovalPolicy(config);
 
     // Define the function that determines whether to continue or not
-    function shouldContinue({ messages }: typeof MessagesAnnotation.State) {
+    function shouldContinue({ messages }: typeof MessagesAnnotation.State, runConfig?: LangGraphRunnableConfig) {
       const lastMessage = messages[messages.length - 1] as AIMessage;
 
-      // If the LLM makes a tool call, then we route to the "tools" node
+      // If the LLM makes a tool call, then we route to the "tools" node,
+      // unless one of the calls needs an operator's approval first
       if (lastMessage.tool_calls?.length) {
-        return 'tools';
+        const gated = lastMessage.tool_calls.filter(call => approvalPolicy.requiredTools.includes(call.name));
+        if (gated.length === 0) {
+          return 'tools';
+        }
+
+        const priority = runConfig?.configurable?.taskPriority;
+        if (approvalPolicy.autoApprovePriorities.includes(priority)) {
+          logger.info('Tool calls auto-approved', { agentId: config.agentId, priority, tools: gated.map(call => call.name) });
+          return 'tools';
+        }
+
+        return 'approval';
       }
       // Otherwise, we stop (reply to the user)
       return '__end__';
@@ -342,15 +664,43 @@ export class AIAgentService {
 
     // Define the function that calls the model
     async function callModel(state: typeof MessagesAnnotation.State) {
-      const response = await modelWithTools.invoke(state.messages);
+      const response = await llmCallDurationSeconds.time(
+        { provider: config.llmProvider, model: config.model },
+        () => modelWithTools.invoke(state.messages)
+      );
       return { messages: [response] };
     }
 
+    // Pause until the task is approved or rejected, then run or refuse the tool calls
+    function awaitApproval({ messages }: typeof MessagesAnnotation.State) {
+      const lastMessage = messages[messages.length - 1] as AIMessage;
+      const decision = interrupt<{ toolCalls: ToolCallRecord[] }, ApprovalDecision>({
+        toolCalls: (lastMessage.tool_calls || []).map(call => ({ id: call.id, name: call.name, args: call.args })),
+      });
+
+      if (decision.approved) {
+        return new Command({ goto: 'tools' });
+      }
+
+      const reason = decision.reason ? `: ${decision.reason}` : '';
+      return new Command({
+        goto: 'agent',
+        update: {
+          messages: (lastMessage.tool_calls || []).map(call => new ToolMessage({
+            tool_call_id: call.id!,
+            name: call.name,
+            content: `Rejected by operator${reason}. The tool was not run; do not retry it in this task.`,
+          })),
+        },
+      });
+    }
+
     // Define the workflow
     const workflow = new StateGraph(MessagesAnnotation)
       .addNode('agent', callModel)
       .addEdge('__start__', 'agent')
       .addNode('tools', toolNode)
+      .addNode('approval', awaitApproval, { ends: ['tools', 'agent'] })
       .addEdge('tools', 'agent')
       .addConditionalEdges('agent', shouldContinue);
 
@@ -361,11 +711,12 @@ export class AIAgentService {
    * Create system prompt based on agent configuration and task
    */
   private createSystemPrompt(config: AIAgentConfig, task: any): string {
+    const chainConfig = getChainAdapter(config.chain).config;
     const basePrompt = `You are an AI agent for the Mentis Protocol, responsible for autonomous blockchain infrastructure management.
 
 Agent Details:
 - Name: ${config.name}
-- Chain: ${config.chain}
+- Chain: ${chainConfig.name} (${config.chain}), ~${chainConfig.blockTime}s blocks, finality after ${chainConfig.finalityBlocks} blocks
 - Node Type: ${config.nodeType}
 - Endpoint: ${config.endpointUrl}
 
@@ -407,86 +758,49 @@ Available Tools: ${config.tools.join(', ')}`;
   }
 
   /**
-   * Perform a monitoring cycle
+   * Tool implementations
    */
-  private async performMonitoringCycle(agentId: string): Promise<void> {
-    await this.executeTask(agentId, {
-      agentId,
-      type: 'monitor',
-      description: 'Perform routine monitoring check of node health and performance',
-      parameters: {},
-      priority: 'medium',
+  private async checkNodeHealth(endpointUrl: string, chain: SupportedChain): Promise<string> {
+    const adapter = getChainAdapter(chain);
+    const health = await adapter.checkHealth(endpointUrl);
+
+    return JSON.stringify({
+      ...health,
+      explorerUrl: health.latestBlock !== undefined
+        ? adapter.getExplorerLink('block', health.latestBlock)
+        : undefined,
     });
   }
 
-  /**
-   * Tool implementations
-   */
-  private async checkNodeHealth(endpointUrl: string, chain: SupportedChain): Promise<string> {
+  private async checkFinality(endpointUrl: string, chain: SupportedChain): Promise<string> {
     try {
-      // Implementation depends on the blockchain
-      // This is a simplified example
-      const response = await fetch(endpointUrl, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          jsonrpc: '2.0',
-          method: chain === 'ethereum' ? 'eth_blockNumber' : 'getHealth',
-          params: [],
-          id: 1,
-        }),
-      });
-
-      const data = await response.json() as any;
-      return JSON.stringify({
-        status: response.ok ? 'healthy' : 'unhealthy',
-        latestBlock: data.result,
-        responseTime: Date.now(),
-      });
+      const finality = await getChainAdapter(chain).getFinality(endpointUrl);
+      return JSON.stringify(finality);
     } catch (error) {
       return JSON.stringify({
-        status: 'error',
-        error: error instanceof Error ? error.message : 'Unknown error',
+        error: error instanceof Error ? error.message : 'Failed to check finality',
       });
     }
   }
 
   private async collectNodeMetrics(agentId: string, endpointUrl: string, chain: SupportedChain): Promise<string> {
     try {
-      // Collect various metrics
-      const metrics = {
-        timestamp: new Date(),
-        uptime: 99.9, // This would be calculated based on actual monitoring
-        responseTime: Math.random() * 100 + 50, // Simulated
-        cpuUsage: Math.random() * 100,
-        memoryUsage: Math.random() * 100,
-        diskUsage: Math.random() * 100,
-        networkLatency: Math.random() * 50 + 10,
-        peerCount: Math.floor(Math.random() * 50) + 10,
-        blockHeight: Math.floor(Math.random() * 1000000) + 18000000,
-        syncStatus: Math.random() > 0.1, // 90% chance of being synced
-      };
+      // Query the node through the chain adapter
+      const { metrics, errors } = await getChainAdapter(chain).collectMetrics(endpointUrl);
 
-      // Store metrics in database
-      await database.query(
-        `INSERT INTO agent_metrics (agent_id, uptime, response_time, cpu_usage, memory_usage, 
-         disk_usage, network_latency, peer_count, block_height, sync_status) 
-         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
-        [
-          agentId,
-          metrics.uptime,
-          metrics.responseTime,
-          metrics.cpuUsage,
-          metrics.memoryUsage,
-          metrics.diskUsage,
-          metrics.networkLatency,
-          metrics.peerCount,
-          metrics.blockHeight,
-          metrics.syncStatus,
-        ]
-      );
+      // Store metrics in database; alert rules run against the new sample
+      await this.metricsService.recordMetrics(agentId, metrics);
 
-      return JSON.stringify(metrics);
+      return JSON.stringify({
+        timestamp: new Date(),
+        uptime: metrics.uptime,
+        responseTime: metrics.response_time,
+        networkLatency: metrics.network_latency,
+        peerCount: metrics.peer_count,
+        blockHeight: metrics.block_height,
+        syncStatus: metrics.sync_status,
+        errors,
+      });
     } catch (error) {
       return JSON.stringify({
         error: error instanceof Error ? error.message : 'Failed to collect metrics',
@@ -496,16 +810,14 @@ Available Tools: ${config.tools.join(', ')}`;
 
   private async createAlert(agentId: string, userId: string, alertData: any): Promise<string> {
     try {
-      const result = await database.query(
-        `INSERT INTO alerts (agent_id, user_id, type, severity, message) 
-         VALUES ($1, $2, $3, $4, $5) RETURNING id`,
-        [agentId, userId, alertData.type, alertData.severity, alertData.message]
-      );
+      // Repeats of an open alert are counted on it rather than duplicated
+      const { alert, created } = await this.alertService.raise(agentId, userId, alertData);
 
       return JSON.stringify({
         success: true,
-        alertId: result.rows[0].id,
-        message: 'Alert created successfully',
+        alertId: alert.id,
+        occurrenceCount: alert.occurrence_count,
+        message: created ? 'Alert created successfully' : 'Alert already open; occurrence recorded',
       });
     } catch (error) {
       return JSON.stringify({
@@ -515,14 +827,20 @@ Available Tools: ${config.tools.join(', ')}`;
     }
   }
 
-  private async restartNode(endpointUrl: string, chain: SupportedChain): Promise<string> {
-    // This would implement actual node restart logic
-    // For now, return a simulated response
-    return JSON.stringify({
-      success: true,
-      message: 'Node restart initiated',
-      timestamp: new Date(),
-    });
+  private async restartNode(config: AIAgentConfig): Promise<string> {
+    const result = await this.nodeControlService.execute(
+      {
+        agentId: config.agentId,
+        userId: config.userId,
+        organizationId: config.organizationId,
+        chain: config.chain,
+        endpointUrl: config.endpointUrl,
+        nodeControl: config.nodeControl,
+      },
+      'restart'
+    );
+
+    return JSON.stringify(result);
   }
 
   private async queryHistoricalData(agentId: string, query: string): Promise<string> {
@@ -552,15 +870,105 @@ Available Tools: ${config.tools.join(', ')}`;
     );
   }
 
+  private async isMonitoringActive(agentId: string): Promise<boolean> {
+    const result = await database.query('SELECT status FROM agents WHERE id = $1', [agentId]);
+    return result.rows[0]?.status === AgentStatus.ACTIVE;
+  }
+
   private async storeTask(task: AgentTask): Promise<void> {
+    // Persist task history
+    await this.taskService.saveTask(task);
+
     // Store task in Redis for quick access
     await redis.set(`task:${task.id}`, JSON.stringify(task), 3600); // 1 hour TTL
   }
 
-  private async getRecentTasks(agentId: string, limit: number): Promise<AgentTask[]> {
-    // This would query tasks from Redis or database
-    // Simplified implementation
-    return [];
+  private async requestApproval(config: AIAgentConfig, task: AgentTask, message: AIMessage): Promise<void> {
+    const toolCalls = (message.tool_calls || []).map(call => ({ id: call.id, name: call.name, args: call.args }));
+    const approval = await this.approvalService.createApproval(task.id, task.agentId, toolCalls);
+
+    await this.notificationService.sendApprovalRequest(config.userId, approval);
+  }
+
+  private async getRecentTasks(agentId: string, limit: number): Promise<AgentTaskRecord[]> {
+    return this.taskService.getRecentTasks(agentId, limit);
+  }
+
+  /**
+   * Each queue attempt runs on its own thread, so a retry starts from a clean
+   * history instead of appending to the failed attempt's messages
+   */
+  private getThreadId(agentId: string, taskId: string, attempt: number = 1): string {
+    return attempt > 1 ? `${agentId}_${taskId}_${attempt}` : `${agentId}_${taskId}`;
+  }
+
+  /**
+   * Thread of the task's latest attempt
+   */
+  private async getTaskThreadId(agentId: string, taskId: string): Promise<string> {
+    const task = await this.taskService.getTask(agentId, taskId);
+    return this.getThreadId(agentId, taskId, task?.attempt);
+  }
+
+  /**
+   * Convert a LangGraph state snapshot to its API shape
+   */
+  private toTaskCheckpoint(snapshot: any, messages: TaskMessageRecord[], parentMessageCount: number): TaskCheckpoint {
+    return {
+      checkpointId: snapshot.config.configurable.checkpoint_id,
+      parentCheckpointId: snapshot.parentConfig?.configurable?.checkpoint_id,
+      step: snapshot.metadata?.step ?? -1,
+      source: snapshot.metadata?.source || 'unknown',
+      createdAt: snapshot.createdAt,
+      next: [...(snapshot.next || [])],
+      messageCount: messages.length,
+      newMessages: messages.slice(parentMessageCount),
+    };
+  }
+
+  /**
+   * Extract tool calls, a serializable message log and token usage from a finished run
+   */
+  private summarizeTranscript(messages: BaseMessage[]): {
+    toolCalls: ToolCallRecord[];
+    messages: TaskMessageRecord[];
+    tokenUsage: TokenUsage;
+  } {
+    const toolCalls: ToolCallRecord[] = [];
+    const tokenUsage: TokenUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+
+    const records = messages.map((message): TaskMessageRecord => {
+      const record: TaskMessageRecord = {
+        role: message._getType(),
+        content: message.content,
+      };
+
+      if (message instanceof AIMessage) {
+        if (message.tool_calls?.length) {
+          record.tool_calls = message.tool_calls.map(call => ({ id: call.id, name: call.name, args: call.args }));
+          toolCalls.push(...record.tool_calls.map(call => ({ ...call })));
+        }
+
+        if (message.usage_metadata) {
+          tokenUsage.promptTokens += message.usage_metadata.input_tokens;
+          tokenUsage.completionTokens += message.usage_metadata.output_tokens;
+          tokenUsage.totalTokens += message.usage_metadata.total_tokens;
+        }
+      }
+
+      if (message instanceof ToolMessage) {
+        record.tool_call_id = message.tool_call_id;
+
+        const call = toolCalls.find(candidate => candidate.id === message.tool_call_id);
+        if (call) {
+          call.output = typeof message.content === 'string' ? message.content : JSON.stringify(message.content);
+        }
+      }
+
+      return record;
+    });
+
+    return { toolCalls, messages: records, tokenUsage };
   }
 
   private async getLatestMetrics(agentId: string): Promise<AgentMetrics | null> {
@@ -0,0 +1,157 @@
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import { database } from '../config/database';
+import { logger } from '../utils/logger';
+import { NotificationService } from './NotificationService';
+import { SessionService } from './SessionService';
+
+/**
+ * Email verification and password reset. Tokens are emailed in plaintext
+ * and stored as SHA-256 hashes; each one is cleared by the update that
+ * consumes it, so it works once.
+ */
+export class AccountService {
+  private notificationService: NotificationService;
+  private sessionService: SessionService;
+  private verificationTtlHours: number;
+  private resetTtlMinutes: number;
+
+  constructor(
+    notificationService: NotificationService = new NotificationService(),
+    sessionService: SessionService = new SessionService()
+  ) {
+    this.notificationService = notificationService;
+    this.sessionService = sessionService;
+    this.verificationTtlHours = parseInt(process.env.EMAIL_VERIFICATION_TTL_HOURS || '48');
+    this.resetTtlMinutes = parseInt(process.env.PASSWORD_RESET_TTL_MINUTES || '60');
+  }
+
+  /**
+   * Issue a new verification token, replacing any earlier one, and email it
+   */
+  async sendVerification(userId: string): Promise<void> {
+    try {
+      const token = this.generateToken();
+
+      const result = await database.query(
+        `UPDATE users
+         SET verification_token = $2,
+             verification_expires = CURRENT_TIMESTAMP + make_interval(hours => $3),
+             updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1 AND is_verified = false
+         RETURNING email`,
+        [userId, this.hash(token), this.verificationTtlHours]
+      );
+
+      if (result.rows.length === 0) {
+        return;
+      }
+
+      await this.notificationService.sendVerificationEmail(result.rows[0].email, token);
+      logger.info('Verification email issued', { userId });
+    } catch (error) {
+      logger.error('Failed to send verification email', { userId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Mark the token's user verified. Returns the user id, or null when the
+   * token is unknown, used or expired.
+   */
+  async verifyEmail(token: string): Promise<string | null> {
+    try {
+      const result = await database.query(
+        `UPDATE users
+         SET is_verified = true, verification_token = NULL, verification_expires = NULL, updated_at = CURRENT_TIMESTAMP
+         WHERE verification_token = $1 AND verification_expires > CURRENT_TIMESTAMP
+         RETURNING id`,
+        [this.hash(token)]
+      );
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      logger.info('Email verified', { userId: result.rows[0].id });
+      return result.rows[0].id;
+    } catch (error) {
+      logger.error('Failed to verify email', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Email a reset link if the address belongs to a user. Callers should
+   * respond the same way either way.
+   */
+  async requestPasswordReset(email: string): Promise<void> {
+    try {
+      const token = this.generateToken();
+
+      const result = await database.query(
+        `UPDATE users
+         SET reset_password_token = $2,
+             reset_password_expires = CURRENT_TIMESTAMP + make_interval(mins => $3),
+             updated_at = CURRENT_TIMESTAMP
+         WHERE email = $1
+         RETURNING id`,
+        [email, this.hash(token), this.resetTtlMinutes]
+      );
+
+      if (result.rows.length === 0) {
+        logger.info('Password reset requested for unknown email');
+        return;
+      }
+
+      await this.notificationService.sendPasswordResetEmail(email, token);
+      logger.info('Password reset email issued', { userId: result.rows[0].id });
+    } catch (error) {
+      logger.error('Failed to request password reset', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Set a new password with a reset token. Returns the user id, or null
+   * when the token is unknown, used or expired.
+   */
+  async resetPassword(token: string, newPassword: string): Promise<string | null> {
+    try {
+      const saltRounds = parseInt(process.env.BCRYPT_ROUNDS || '12');
+      const passwordHash = await bcrypt.hash(newPassword, saltRounds);
+
+      // Receiving the reset email also proves ownership of the address
+      const result = await database.query(
+        `UPDATE users
+         SET password_hash = $2, reset_password_token = NULL, reset_password_expires = NULL,
+             is_verified = true, verification_token = NULL, verification_expires = NULL,
+             updated_at = CURRENT_TIMESTAMP
+         WHERE reset_password_token = $1 AND reset_password_expires > CURRENT_TIMESTAMP
+         RETURNING id`,
+        [this.hash(token), passwordHash]
+      );
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      // Whoever knew the old password may still hold a session
+      await this.sessionService.revokeAllSessions(result.rows[0].id, 'password_reset');
+
+      logger.info('Password reset', { userId: result.rows[0].id });
+      return result.rows[0].id;
+    } catch (error) {
+      logger.error('Failed to reset password', { error });
+      throw error;
+    }
+  }
+
+  private generateToken(): string {
+    return crypto.randomBytes(32).toString('base64url');
+  }
+
+  private hash(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+}
@@ -2,14 +2,48 @@ import { database } from '../config/database';
 import { redis } from '../config/redis';
 import { logger } from '../utils/logger';
 import { Agent, CreateAgentData, UpdateAgentData, AgentWithMetrics } from '../models/Agent';
-import { SupportedChain, NodeType, AgentStatus } from '../types';
-import { AIAgentService, AIAgentConfig } from './AIAgentService';
+import { SupportedChain, NodeType, AgentStatus, TaskPriority, ValidationError } from '../types';
+import { NodeControlOwner, getControlTarget, isTargetAllowed } from '../control';
+import {
+  AgentTaskRecord,
+  TaskApprovalRecord,
+  TaskCheckpoint,
+  TaskCheckpointState,
+  TaskHistoryFilters,
+} from '../models/AgentTask';
+import { AIAgentService, AgentTask, buildAIAgentConfig, createTaskId } from './AIAgentService';
+import { TaskService } from './TaskService';
+import { ApprovalService } from './ApprovalService';
+import { SubscriptionService } from './SubscriptionService';
+import { TaskQueueService, QueuedTaskJob, EnqueueOptions } from './TaskQueueService';
+import { accessibleAgentsFilter } from './OrganizationService';
+import { MetricsService, MetricsHistory } from './MetricsService';
+
+export interface AgentTaskOptions extends EnqueueOptions {
+  // Queued by the monitoring scheduler; skips the monthly task quota
+  scheduled?: boolean;
+}
 
 export class AgentService {
   private aiAgentService: AIAgentService;
+  private taskService: TaskService;
+  private approvalService: ApprovalService;
+  private subscriptionService: SubscriptionService;
+  private metricsService: MetricsService;
+  private taskQueue: TaskQueueService;
 
-  constructor() {
+  constructor(taskQueue: TaskQueueService = new TaskQueueService()) {
     this.aiAgentService = new AIAgentService();
+    this.taskService = new TaskService();
+    this.approvalService = new ApprovalService();
+    this.subscriptionService = new SubscriptionService();
+    this.metricsService = new MetricsService();
+    this.taskQueue = taskQueue;
+
+    // Tasks that exhausted their retries never reach a terminal state on their own
+    this.taskQueue.on('dead', (job: QueuedTaskJob, message: string) => {
+      this.taskService.markFailed(job.id, message).catch(() => undefined);
+    });
   }
 
   /**
@@ -19,10 +53,13 @@ export class AgentService {
     try {
       logger.info('Creating new agent', { name: data.name, chain: data.chain });
 
+      await this.subscriptionService.assertCanCreateAgent(data.user_id, data.chain, data.config);
+      this.assertNodeControlGranted(data.config, { userId: data.user_id, organizationId: data.organization_id });
+
       // Insert agent into database
       const result = await database.query(
-        `INSERT INTO agents (user_id, name, description, chain, node_type, endpoint_url, config, status)
-         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+        `INSERT INTO agents (user_id, name, description, chain, node_type, endpoint_url, config, status, organization_id, escalation_policy_id)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
          RETURNING *`,
         [
           data.user_id,
@@ -32,30 +69,16 @@ export class AgentService {
           data.node_type,
           data.endpoint_url,
           JSON.stringify(data.config || {}),
-          'inactive'
+          'inactive',
+          data.organization_id || null,
+          data.escalation_policy_id || null,
         ]
       );
 
       const agent: Agent = result.rows[0];
 
-      // Create AI agent configuration
-      const aiConfig: AIAgentConfig = {
-        agentId: agent.id,
-        userId: agent.user_id,
-        name: agent.name,
-        chain: agent.chain,
-        nodeType: agent.node_type,
-        endpointUrl: agent.endpoint_url,
-        llmProvider: data.config?.llmProvider || 'openai',
-        model: data.config?.model || 'gpt-4o-mini',
-        systemPrompt: data.config?.systemPrompt,
-        tools: data.config?.tools || ['health_check', 'collect_metrics', 'create_alert'],
-        maxIterations: data.config?.maxIterations || 10,
-        temperature: data.config?.temperature || 0.1,
-      };
-
       // Initialize AI agent
-      await this.aiAgentService.createAgent(aiConfig);
+      await this.aiAgentService.createAgent(buildAIAgentConfig(agent));
 
       logger.info('Agent created successfully', { agentId: agent.id });
       return agent;
@@ -65,6 +88,13 @@ export class AgentService {
     }
   }
 
+  /**
+   * Rebuild AI agents for all persisted agents (called on startup)
+   */
+  async rehydrateAgents(): Promise<number> {
+    return this.aiAgentService.rehydrateAgents();
+  }
+
   /**
    * Get agent by ID with latest metrics
    */
@@ -106,13 +136,15 @@ export class AgentService {
   }
 
   /**
-   * Get all agents for a user
+   * Get all agents a user can access: personal agents and those of their organizations
    */
-  async getAgentsByUserId(userId: string): Promise<AgentWithMetrics[]> {
+  async getAgentsByUserId(userId: string, organizationId?: string): Promise<AgentWithMetrics[]> {
     try {
       const result = await database.query(
-        `SELECT * FROM agent_stats WHERE user_id = $1 ORDER BY created_at DESC`,
-        [userId]
+        `SELECT * FROM agent_stats a
+         WHERE ${accessibleAgentsFilter('a')} AND ($2::uuid IS NULL OR a.organization_id = $2)
+         ORDER BY created_at DESC`,
+        [userId, organizationId || null]
       );
 
       return result.rows.map((agent: any) => ({
@@ -130,10 +162,33 @@ export class AgentService {
    */
   async updateAgent(agentId: string, data: UpdateAgentData): Promise<Agent> {
     try {
+      if (data.config !== undefined || data.organization_id !== undefined) {
+        const current = await database.query('SELECT user_id, organization_id, config FROM agents WHERE id = $1', [agentId]);
+        if (current.rows.length === 0) {
+          throw new Error('Agent not found');
+        }
+
+        const { user_id: userId, organization_id: organizationId, config } = current.rows[0];
+        if (data.config !== undefined) {
+          await this.subscriptionService.assertAgentConfigAllowed(userId, data.config);
+        }
+
+        // Moving to another organization must keep the node control target granted
+        this.assertNodeControlGranted(data.config ?? (typeof config === 'string' ? JSON.parse(config) : config), {
+          userId,
+          organizationId: data.organization_id ?? organizationId,
+        });
+      }
+
       const updateFields: string[] = [];
       const values: any[] = [];
       let paramCount = 1;
 
+      if (data.organization_id !== undefined) {
+        updateFields.push(`organization_id = $${paramCount++}`);
+        values.push(data.organization_id);
+      }
+
       if (data.name !== undefined) {
         updateFields.push(`name = $${paramCount++}`);
         values.push(data.name);
@@ -154,6 +209,11 @@ export class AgentService {
         values.push(JSON.stringify(data.config));
       }
 
+      if (data.escalation_policy_id !== undefined) {
+        updateFields.push(`escalation_policy_id = $${paramCount++}`);
+        values.push(data.escalation_policy_id);
+      }
+
       if (data.status !== undefined) {
         updateFields.push(`status = $${paramCount++}`);
         values.push(data.status);
@@ -176,13 +236,18 @@ export class AgentService {
         throw new Error('Agent not found');
       }
 
-      const agent = result.rows[0];
+      const agent = {
+        ...result.rows[0],
+        config: typeof result.rows[0].config === 'string' ? JSON.parse(result.rows[0].config) : result.rows[0].config,
+      };
       logger.info('Agent updated successfully', { agentId });
 
-      return {
-        ...agent,
-        config: typeof agent.config === 'string' ? JSON.parse(agent.config) : agent.config,
-      };
+      // The compiled AI agent embeds its config and endpoint
+      if (data.config !== undefined || data.endpoint_url !== undefined) {
+        await this.aiAgentService.rebuildAgent(agent);
+      }
+
+      return agent;
     } catch (error) {
       logger.error('Failed to update agent', { agentId, error });
       throw error;
@@ -204,6 +269,8 @@ export class AgentService {
         throw new Error('Agent not found');
       }
 
+      await this.aiAgentService.removeAgent(agentId);
+
       logger.info('Agent deleted successfully', { agentId });
     } catch (error) {
       logger.error('Failed to delete agent', { agentId, error });
@@ -218,12 +285,9 @@ export class AgentService {
     try {
       logger.info('Starting agent', { agentId });
 
-      // Update agent status
+      // Update agent status; MonitoringService schedules the monitoring tasks
       await this.updateAgent(agentId, { status: AgentStatus.ACTIVE });
 
-      // Start AI agent monitoring
-      await this.aiAgentService.startMonitoring(agentId);
-
       // Cache agent status
       await redis.set(`agent:${agentId}:status`, 'active', 3600);
 
@@ -244,9 +308,6 @@ export class AgentService {
       // Update agent status
       await this.updateAgent(agentId, { status: AgentStatus.INACTIVE });
 
-      // Stop AI agent monitoring
-      await this.aiAgentService.stopMonitoring(agentId);
-
       // Update cache
       await redis.set(`agent:${agentId}:status`, 'inactive', 3600);
 
@@ -258,27 +319,117 @@ export class AgentService {
   }
 
   /**
-   * Execute a specific task with an agent
+   * Queue a task for the agent. Returns null when options.uniqueKey matches
+   * a task that is still outstanding.
    */
-  async executeAgentTask(agentId: string, taskType: string, description: string, parameters: Record<string, any> = {}) {
+  async executeAgentTask(
+    agentId: string,
+    taskType: string,
+    description: string,
+    parameters: Record<string, any> = {},
+    priority: TaskPriority = TaskPriority.MEDIUM,
+    options: AgentTaskOptions = {}
+  ): Promise<AgentTask | null> {
+    const { scheduled, ...enqueueOptions } = options;
+
     try {
-      logger.info('Executing agent task', { agentId, taskType });
+      logger.info('Queueing agent task', { agentId, taskType, priority });
 
-      const task = await this.aiAgentService.executeTask(agentId, {
+      if (!scheduled) {
+        const userId = await this.getAgentOwnerId(agentId);
+        await this.subscriptionService.assertTaskQuota(userId);
+      }
+
+      const task: AgentTask = {
+        id: createTaskId(),
         agentId,
         type: taskType as any,
         description,
         parameters,
-        priority: 'medium',
-      });
+        priority,
+        status: 'pending',
+        scheduled,
+        createdAt: new Date(),
+      };
+
+      const enqueued = await this.taskQueue.enqueue(task, enqueueOptions);
+      if (!enqueued) {
+        return null;
+      }
 
+      await this.taskService.createTask(task);
       return task;
     } catch (error) {
-      logger.error('Failed to execute agent task', { agentId, taskType, error });
+      logger.error('Failed to queue agent task', { agentId, taskType, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Run a task claimed from the queue
+   */
+  async processQueuedTask(job: QueuedTaskJob): Promise<AgentTask> {
+    if (job.resume) {
+      return this.aiAgentService.resumeTask(job.agentId, job.task, job.resume);
+    }
+
+    // A retry runs on a fresh thread; resumed tasks stay on the thread that paused
+    return this.aiAgentService.executeTask(job.agentId, { ...job.task, attempt: job.attempts });
+  }
+
+  /**
+   * Approve or reject the tool calls a paused task is waiting on and queue
+   * the task to resume. Returns null when the task is not awaiting approval.
+   */
+  async decideTaskApproval(
+    agentId: string,
+    taskId: string,
+    userId: string,
+    approved: boolean,
+    reason?: string
+  ): Promise<TaskApprovalRecord | null> {
+    try {
+      const task = await this.taskService.getTask(agentId, taskId);
+      if (!task) {
+        return null;
+      }
+
+      const approval = await this.approvalService.decide(agentId, taskId, approved, userId, reason);
+      if (!approval) {
+        return null;
+      }
+
+      await this.taskQueue.enqueue(
+        {
+          id: task.id,
+          agentId: task.agent_id,
+          type: task.type,
+          description: task.description,
+          parameters: task.parameters,
+          priority: task.priority,
+          status: task.status as AgentTask['status'],
+          durationMs: task.duration_ms,
+          attempt: task.attempt,
+          createdAt: task.created_at,
+        },
+        { resume: { approvalId: approval.id, approved, reason, decidedBy: userId } }
+      );
+
+      logger.info('Task approval decided', { agentId, taskId, approved, userId });
+      return approval;
+    } catch (error) {
+      logger.error('Failed to decide task approval', { agentId, taskId, error });
       throw error;
     }
   }
 
+  /**
+   * Get the approvals requested while a task ran
+   */
+  async getTaskApprovals(taskId: string): Promise<TaskApprovalRecord[]> {
+    return this.approvalService.getApprovals(taskId);
+  }
+
   /**
    * Get agent status including AI agent information
    */
@@ -304,18 +455,41 @@ export class AgentService {
   }
 
   /**
-   * Get agent metrics history
+   * Get task history for an agent
+   */
+  async getAgentTasks(agentId: string, filters: TaskHistoryFilters): Promise<{ tasks: AgentTaskRecord[]; total: number }> {
+    return this.taskService.getTasks(agentId, filters);
+  }
+
+  /**
+   * Get a single task for an agent
+   */
+  async getAgentTask(agentId: string, taskId: string): Promise<AgentTaskRecord | null> {
+    return this.taskService.getTask(agentId, taskId);
+  }
+
+  /**
+   * List the LangGraph checkpoints recorded while a task ran
+   */
+  async getTaskCheckpoints(agentId: string, taskId: string): Promise<TaskCheckpoint[]> {
+    return this.aiAgentService.getTaskCheckpoints(agentId, taskId);
+  }
+
+  /**
+   * Get the agent state at a single task checkpoint
+   */
+  async getTaskCheckpoint(agentId: string, taskId: string, checkpointId: string): Promise<TaskCheckpointState | null> {
+    return this.aiAgentService.getTaskCheckpoint(agentId, taskId, checkpointId);
+  }
+
+  /**
+   * Get agent metrics history, newest first, at the resolution suited to the range
    */
-  async getAgentMetrics(agentId: string, hours: number = 24): Promise<any[]> {
+  async getAgentMetrics(agentId: string, hours: number = 24): Promise<MetricsHistory> {
     try {
-      const result = await database.query(
-        `SELECT * FROM agent_metrics 
-         WHERE agent_id = $1 AND recorded_at >= NOW() - INTERVAL '${hours} hours'
-         ORDER BY recorded_at DESC`,
-        [agentId]
-      );
+      const history = await this.metricsService.getMetricsHistory(agentId, hours * 60);
 
-      return result.rows;
+      return { ...history, metrics: history.metrics.reverse() };
     } catch (error) {
       logger.error('Failed to get agent metrics', { agentId, error });
       throw error;
@@ -344,22 +518,49 @@ export class AgentService {
   /**
    * Resolve an alert
    */
-  async resolveAlert(alertId: string, userId: string): Promise<void> {
+  async resolveAlert(agentId: string, alertId: string, userId: string): Promise<boolean> {
     try {
-      await database.query(
+      const result = await database.query(
         `UPDATE alerts 
-         SET resolved = true, resolved_at = CURRENT_TIMESTAMP, resolved_by = $1
-         WHERE id = $2`,
-        [userId, alertId]
+         SET resolved = true, resolved_at = CURRENT_TIMESTAMP, resolved_by = $1, next_escalation_at = NULL
+         WHERE id = $2 AND agent_id = $3`,
+        [userId, alertId, agentId]
       );
 
-      logger.info('Alert resolved', { alertId, userId });
+      if (result.rowCount > 0) {
+        logger.info('Alert resolved', { alertId, userId });
+      }
+
+      return result.rowCount > 0;
     } catch (error) {
       logger.error('Failed to resolve alert', { alertId, error });
       throw error;
     }
   }
 
+  /**
+   * Acknowledge an open alert. It stays unresolved but stops escalating.
+   */
+  async acknowledgeAlert(agentId: string, alertId: string, userId: string): Promise<boolean> {
+    try {
+      const result = await database.query(
+        `UPDATE alerts
+         SET acknowledged_at = CURRENT_TIMESTAMP, acknowledged_by = $1, next_escalation_at = NULL
+         WHERE id = $2 AND agent_id = $3 AND resolved = false AND acknowledged_at IS NULL`,
+        [userId, alertId, agentId]
+      );
+
+      if (result.rowCount > 0) {
+        logger.info('Alert acknowledged', { alertId, userId });
+      }
+
+      return result.rowCount > 0;
+    } catch (error) {
+      logger.error('Failed to acknowledge alert', { alertId, error });
+      throw error;
+    }
+  }
+
   /**
    * Get dashboard statistics for user agents
    */
@@ -379,7 +580,7 @@ export class AgentService {
            ORDER BY am.recorded_at DESC
            LIMIT 1
          ) latest_metrics ON true
-         WHERE a.user_id = $1`,
+         WHERE ${accessibleAgentsFilter('a')}`,
         [userId]
       );
 
@@ -387,7 +588,7 @@ export class AgentService {
         `SELECT COUNT(*) as unresolved_alerts
          FROM alerts a
          JOIN agents ag ON a.agent_id = ag.id
-         WHERE ag.user_id = $1 AND a.resolved = false`,
+         WHERE ${accessibleAgentsFilter('ag')} AND a.resolved = false`,
         [userId]
       );
 
@@ -400,4 +601,26 @@ export class AgentService {
       throw error;
     }
   }
+
+  /**
+   * Reject a node control ssh host, container or unit the operator has not
+   * granted the agent's tenant
+   */
+  private assertNodeControlGranted(config: Record<string, any> | undefined, owner: NodeControlOwner): void {
+    const target = config?.nodeControl ? getControlTarget(config.nodeControl) : null;
+
+    if (target && !isTargetAllowed(target[0], target[1], owner)) {
+      throw new ValidationError(`${target[1]} is not enabled for node control on this account`);
+    }
+  }
+
+  private async getAgentOwnerId(agentId: string): Promise<string> {
+    const result = await database.query('SELECT user_id FROM agents WHERE id = $1', [agentId]);
+
+    if (result.rows.length === 0) {
+      throw new Error('Agent not found');
+    }
+
+    return result.rows[0].user_id;
+  }
 }
@@ -0,0 +1,298 @@
+import { database } from '../config/database';
+import { logger } from '../utils/logger';
+import { AgentMetrics } from '../models/Agent';
+import { AgentConfig, AlertRule, AlertRuleMetric, AlertRuleOperator, AlertSeverity } from '../types';
+
+// error_rate thresholds without forMinutes look at this many minutes of samples
+const DEFAULT_ERROR_RATE_WINDOW_MINUTES = 15;
+const DEFAULT_RULE_WINDOW_MINUTES = 5;
+
+// `firing` raises an alert, `ok` resolves it, `pending` leaves it as it is
+export type RuleState = 'firing' | 'ok' | 'pending';
+
+export interface ResolvedAlertRule extends AlertRule {
+  key: string; // stored on the alert as rule_key
+  severity: AlertSeverity;
+}
+
+export interface RuleOutcome {
+  rule: ResolvedAlertRule;
+  state: RuleState;
+  alertType: string;
+  message: string;
+}
+
+// `config.alertThresholds` fields and their `notification_settings.alert_thresholds` fallbacks
+const THRESHOLD_RULES: {
+  field: keyof NonNullable<AgentConfig['alertThresholds']>;
+  setting?: string;
+  metric: AlertRuleMetric;
+  operator: AlertRuleOperator;
+  severity: AlertSeverity;
+}[] = [
+  { field: 'uptime', setting: 'uptime_threshold', metric: 'uptime', operator: '<', severity: AlertSeverity.HIGH },
+  { field: 'responseTime', setting: 'response_time_threshold', metric: 'response_time', operator: '>', severity: AlertSeverity.MEDIUM },
+  { field: 'errorRate', setting: 'error_rate_threshold', metric: 'error_rate', operator: '>', severity: AlertSeverity.HIGH },
+  { field: 'cpuUsage', metric: 'cpu_usage', operator: '>', severity: AlertSeverity.MEDIUM },
+  { field: 'memoryUsage', metric: 'memory_usage', operator: '>', severity: AlertSeverity.MEDIUM },
+  { field: 'diskUsage', metric: 'disk_usage', operator: '>', severity: AlertSeverity.HIGH },
+];
+
+/**
+ * Rules for an agent: its alertThresholds (falling back to the owner's
+ * notification thresholds) plus its custom alertRules
+ */
+export function resolveAlertRules(config: AgentConfig, userThresholds: Record<string, number> = {}): ResolvedAlertRule[] {
+  const rules: ResolvedAlertRule[] = [];
+
+  for (const threshold of THRESHOLD_RULES) {
+    const value = config.alertThresholds?.[threshold.field]
+      ?? (threshold.setting ? userThresholds[threshold.setting] : undefined);
+
+    if (value !== undefined && value !== null) {
+      rules.push({
+        key: `threshold:${threshold.metric}`,
+        name: threshold.metric,
+        type: 'threshold',
+        metric: threshold.metric,
+        operator: threshold.operator,
+        value,
+        severity: threshold.severity,
+      });
+    }
+  }
+
+  for (const rule of config.alertRules || []) {
+    rules.push({
+      ...rule,
+      key: `rule:${rule.name}`,
+      severity: rule.severity || AlertSeverity.MEDIUM,
+    });
+  }
+
+  return rules;
+}
+
+function compare(value: number, operator: AlertRuleOperator, threshold: number): boolean {
+  switch (operator) {
+    case '>':
+      return value > threshold;
+    case '>=':
+      return value >= threshold;
+    case '<':
+      return value < threshold;
+    case '<=':
+      return value <= threshold;
+  }
+}
+
+function sampleValue(sample: AgentMetrics, metric: AlertRuleMetric): number {
+  const value = (sample as any)[metric];
+  return typeof value === 'boolean' ? Number(value) : parseFloat(value);
+}
+
+function sampleTime(sample: AgentMetrics): number {
+  return new Date(sample.recorded_at).getTime();
+}
+
+function formatNumber(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(2);
+}
+
+/**
+ * Evaluate one rule against samples in ascending time order, the last
+ * being the sample that triggered evaluation
+ */
+export function evaluateRule(rule: ResolvedAlertRule, samples: AgentMetrics[]): RuleOutcome {
+  const latest = samples[samples.length - 1];
+  const at = sampleTime(latest);
+  const since = (minutes: number) => samples.filter(sample => sampleTime(sample) >= at - minutes * 60000);
+  const outcome = (state: RuleState, alertType: string, message: string): RuleOutcome => ({
+    rule,
+    state,
+    alertType,
+    message: `${rule.name}: ${message}`,
+  });
+
+  // A sample just arrived, so data is not absent
+  if (rule.type === 'absence') {
+    return outcome('ok', 'metrics_absent', 'metrics are being received');
+  }
+
+  const metric = rule.metric!;
+  const operator = rule.operator!;
+  const threshold = rule.value!;
+
+  if (rule.type === 'rate_of_change') {
+    const windowMinutes = rule.windowMinutes || DEFAULT_RULE_WINDOW_MINUTES;
+    const window = since(windowMinutes);
+    const baseline = window.length > 1 ? window[0] : samples[samples.length - 2];
+
+    if (!baseline) {
+      return outcome('pending', 'rate_of_change', 'not enough samples');
+    }
+
+    const minutes = (at - sampleTime(baseline)) / 60000;
+
+    // Samples recorded at the same moment give no rate
+    if (minutes <= 0) {
+      return outcome('pending', 'rate_of_change', 'not enough samples');
+    }
+
+    const rate = (sampleValue(latest, metric) - sampleValue(baseline, metric)) / minutes;
+
+    if (Number.isNaN(rate)) {
+      return outcome('pending', 'rate_of_change', `${metric} is not reported`);
+    }
+
+    return outcome(
+      compare(rate, operator, threshold) ? 'firing' : 'ok',
+      'rate_of_change',
+      `${metric} changed by ${formatNumber(rate)}/min over ${formatNumber(minutes)} minutes (${operator} ${threshold})`
+    );
+  }
+
+  if (metric === 'error_rate') {
+    const windowMinutes = rule.forMinutes || DEFAULT_ERROR_RATE_WINDOW_MINUTES;
+    const window = since(windowMinutes);
+    const errorRate = 100 * window.filter(sample => sampleValue(sample, 'uptime') < 100).length / window.length;
+
+    return outcome(
+      compare(errorRate, operator, threshold) ? 'firing' : 'ok',
+      'threshold_breach',
+      `error_rate is ${formatNumber(errorRate)}% over the last ${windowMinutes} minutes (${operator} ${threshold})`
+    );
+  }
+
+  const value = sampleValue(latest, metric);
+
+  // Host usage is only known once a sidecar pushes it
+  if (Number.isNaN(value)) {
+    return outcome('pending', 'threshold_breach', `${metric} is not reported`);
+  }
+
+  const message = `${metric} is ${formatNumber(value)} (${operator} ${threshold})`;
+
+  if (!compare(value, operator, threshold)) {
+    return outcome('ok', 'threshold_breach', message);
+  }
+
+  if (!rule.forMinutes) {
+    return outcome('firing', 'threshold_breach', message);
+  }
+
+  // Fire once the run of breaching samples ending here spans the duration
+  let breachStart = latest;
+  for (let i = samples.length - 2; i >= 0 && compare(sampleValue(samples[i], metric), operator, threshold); i--) {
+    breachStart = samples[i];
+  }
+  const sustained = at - sampleTime(breachStart) >= rule.forMinutes * 60000;
+
+  return outcome(
+    sustained ? 'firing' : 'pending',
+    'threshold_breach',
+    `${message} for ${rule.forMinutes} minutes`
+  );
+}
+
+/**
+ * Deterministic alert rules, evaluated without the LLM whenever a metrics
+ * sample is recorded and, for absence rules, on a timer
+ */
+export class AlertRuleService {
+  /**
+   * Evaluate every rule of an agent against a newly recorded sample
+   */
+  async evaluateSample(agentId: string, metricsId: string): Promise<RuleOutcome[]> {
+    try {
+      const agentResult = await database.query(
+        `SELECT a.config, ns.alert_thresholds
+         FROM agents a
+         LEFT JOIN notification_settings ns ON ns.user_id = a.user_id
+         WHERE a.id = $1`,
+        [agentId]
+      );
+
+      if (agentResult.rows.length === 0) {
+        return [];
+      }
+
+      const { config, alert_thresholds } = agentResult.rows[0];
+      const rules = resolveAlertRules(config || {}, alert_thresholds || {});
+
+      if (rules.length === 0) {
+        return [];
+      }
+
+      const lookbackMinutes = Math.max(
+        ...rules.map(rule => rule.forMinutes || rule.windowMinutes || 0),
+        DEFAULT_ERROR_RATE_WINDOW_MINUTES,
+        DEFAULT_RULE_WINDOW_MINUTES
+      );
+
+      // Samples in the lookback window up to this one, plus the one before the window
+      const samplesResult = await database.query(
+        `WITH ref AS (SELECT recorded_at FROM agent_metrics WHERE id = $2)
+         SELECT am.*
+         FROM agent_metrics am, ref
+         WHERE am.agent_id = $1
+           AND am.recorded_at <= ref.recorded_at
+           AND am.recorded_at >= COALESCE(
+             (SELECT MAX(recorded_at) FROM agent_metrics
+              WHERE agent_id = $1 AND recorded_at < ref.recorded_at - make_interval(mins => $3)),
+             ref.recorded_at - make_interval(mins => $3)
+           )
+         ORDER BY am.recorded_at ASC, am.id = $2 ASC`,
+        [agentId, metricsId, lookbackMinutes]
+      );
+
+      if (samplesResult.rows.length === 0) {
+        return [];
+      }
+
+      return rules.map(rule => evaluateRule(rule, samplesResult.rows));
+    } catch (error) {
+      logger.error('Failed to evaluate alert rules', { agentId, metricsId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Evaluate absence rules for every active agent that has one
+   */
+  async evaluateAbsence(): Promise<{ agentId: string; outcomes: RuleOutcome[] }[]> {
+    try {
+      const result = await database.query(
+        `SELECT a.id, a.config,
+                EXTRACT(EPOCH FROM NOW() - GREATEST(m.last_recorded_at, a.created_at)) / 60 AS minutes_since
+         FROM agents a
+         LEFT JOIN LATERAL (
+           SELECT MAX(recorded_at) AS last_recorded_at FROM agent_metrics WHERE agent_id = a.id
+         ) m ON true
+         WHERE a.status = 'active' AND a.config->'alertRules' @> '[{"type": "absence"}]'`
+      );
+
+      return result.rows.map((row: any) => {
+        const minutesSince = parseFloat(row.minutes_since);
+
+        const outcomes = resolveAlertRules(row.config)
+          .filter(rule => rule.type === 'absence')
+          .map((rule): RuleOutcome => {
+            const windowMinutes = rule.windowMinutes || DEFAULT_RULE_WINDOW_MINUTES;
+
+            return {
+              rule,
+              state: minutesSince > windowMinutes ? 'firing' : 'ok',
+              alertType: 'metrics_absent',
+              message: `${rule.name}: no metrics received for ${Math.floor(minutesSince)} minutes (limit ${windowMinutes})`,
+            };
+          });
+
+        return { agentId: row.id, outcomes };
+      });
+    } catch (error) {
+      logger.error('Failed to evaluate absence rules', { error });
+      throw error;
+    }
+  }
+}
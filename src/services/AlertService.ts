@@ -0,0 +1,156 @@
+import { database } from '../config/database';
+import { redis } from '../config/redis';
+import { logger } from '../utils/logger';
+import { NotificationService } from './NotificationService';
+import { MonitoringAlert } from './MonitoringService';
+import { Alert, AlertIncident, AlertSeverity } from '../types';
+
+export interface RaiseAlertData {
+  type: string;
+  severity: AlertSeverity;
+  message: string;
+  ruleKey?: string;
+}
+
+/**
+ * Shape an alert row for WebSocket clients and notification channels
+ */
+export function toMonitoringAlert(alert: Alert): MonitoringAlert {
+  return {
+    id: alert.id,
+    agentId: alert.agent_id,
+    type: alert.type,
+    severity: alert.severity,
+    message: alert.message,
+    timestamp: new Date(alert.created_at),
+    resolved: alert.resolved,
+    occurrenceCount: alert.occurrence_count,
+    lastSeen: new Date(alert.last_seen),
+  };
+}
+
+/**
+ * Alert storage and notification fan-out. Repeats of an open alert are
+ * counted on it instead of creating new rows, notifications for a
+ * fingerprint are spaced by a cooldown, and alerts of one type across a
+ * user's agents are sent as a single incident.
+ */
+export class AlertService {
+  private notificationService: NotificationService;
+  private defaultCooldownMinutes: number;
+  private groupWaitSeconds: number;
+
+  constructor() {
+    this.notificationService = new NotificationService();
+    this.defaultCooldownMinutes = parseInt(process.env.ALERT_COOLDOWN_MINUTES || '15');
+    this.groupWaitSeconds = parseInt(process.env.ALERT_GROUP_WAIT_SECONDS || '60');
+  }
+
+  /**
+   * Open an alert, or count another occurrence on the open alert with the
+   * same fingerprint. Severity only ever goes up while the alert is open.
+   */
+  async raise(agentId: string, userId: string, data: RaiseAlertData): Promise<{ alert: Alert; created: boolean }> {
+    try {
+      const result = await database.query(
+        `INSERT INTO alerts (agent_id, user_id, type, severity, message, rule_key)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         ON CONFLICT (fingerprint) WHERE resolved = false DO UPDATE SET
+           occurrence_count = alerts.occurrence_count + 1,
+           last_seen = CURRENT_TIMESTAMP,
+           message = EXCLUDED.message,
+           severity = GREATEST(alerts.severity, EXCLUDED.severity)
+         RETURNING *, (xmax = 0) AS created`,
+        [agentId, userId, data.type, data.severity, data.message, data.ruleKey || null]
+      );
+
+      const { created, ...alert } = result.rows[0];
+
+      return { alert, created };
+    } catch (error) {
+      logger.error('Failed to raise alert', { agentId, type: data.type, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Queue an alert for notification unless its fingerprint was notified
+   * within the cooldown. Queued alerts join the user's collecting incident
+   * for their type and go out when it is flushed.
+   */
+  async queueNotification(alert: Alert, cooldownMinutes: number = this.defaultCooldownMinutes): Promise<boolean> {
+    try {
+      if (cooldownMinutes > 0) {
+        const acquired = await redis.setNX(`alerts:cooldown:${alert.fingerprint}`, alert.id, cooldownMinutes * 60000);
+        if (!acquired) {
+          logger.debug('Alert notification in cooldown', { alertId: alert.id, fingerprint: alert.fingerprint });
+          return false;
+        }
+      }
+
+      await database.transaction(async (client) => {
+        const incident = await client.query(
+          `INSERT INTO alert_incidents (user_id, type, severity)
+           VALUES ($1, $2, $3)
+           ON CONFLICT (user_id, type) WHERE notified_at IS NULL DO UPDATE SET
+             alert_count = alert_incidents.alert_count + 1,
+             last_alert_at = CURRENT_TIMESTAMP,
+             severity = GREATEST(alert_incidents.severity, EXCLUDED.severity)
+           RETURNING id`,
+          [alert.user_id, alert.type, alert.severity]
+        );
+
+        await client.query(
+          'UPDATE alerts SET incident_id = $1 WHERE id = $2',
+          [incident.rows[0].id, alert.id]
+        );
+      });
+
+      return true;
+    } catch (error) {
+      logger.error('Failed to queue alert notification', { alertId: alert.id, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Send incidents that have collected alerts for ALERT_GROUP_WAIT_SECONDS.
+   * Claiming an incident marks it notified, so each is sent by one replica.
+   */
+  async flushIncidents(): Promise<number> {
+    try {
+      const claimed = await database.query(
+        `UPDATE alert_incidents SET notified_at = CURRENT_TIMESTAMP
+         WHERE notified_at IS NULL AND created_at <= NOW() - make_interval(secs => $1)
+         RETURNING *`,
+        [this.groupWaitSeconds]
+      );
+
+      for (const incident of claimed.rows as AlertIncident[]) {
+        const alertsResult = await database.query(
+          `UPDATE alerts al SET last_notified_at = CURRENT_TIMESTAMP
+           FROM agents a
+           WHERE al.incident_id = $1 AND a.id = al.agent_id
+           RETURNING al.*, a.name AS agent_name`,
+          [incident.id]
+        );
+
+        const alerts = alertsResult.rows;
+        if (alerts.length === 0) {
+          continue;
+        }
+
+        if (alerts.length === 1) {
+          await this.notificationService.sendAlert(incident.user_id, toMonitoringAlert(alerts[0]));
+        } else {
+          await this.notificationService.sendIncident(incident.user_id, incident, alerts);
+        }
+      }
+
+      return claimed.rows.length;
+    } catch (error) {
+      logger.error('Failed to flush alert incidents', { error });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,353 @@
+import { PoolClient } from 'pg';
+import { database } from '../config/database';
+import { logger } from '../utils/logger';
+import { AgentMetrics } from '../models/Agent';
+import { AlertSeverity } from '../types';
+
+// block_rate is block-height progress in blocks per minute
+export type AnomalyMetric = 'response_time' | 'peer_count' | 'block_rate';
+
+export interface BaselineStats {
+  mean: number;
+  variance: number;
+  count: number;
+}
+
+export interface MetricBaseline extends BaselineStats {
+  metric: AnomalyMetric;
+  hourly: BaselineStats[]; // indexed by hour of day
+  streak: number; // consecutive anomalous samples
+}
+
+interface AnomalyMetricSpec {
+  metric: AnomalyMetric;
+  direction: 'high' | 'low'; // side of the baseline that counts as anomalous
+  minStdDev: number; // floor, so a flat baseline does not flag tiny changes
+  unit: string;
+}
+
+const ANOMALY_METRICS: AnomalyMetricSpec[] = [
+  { metric: 'response_time', direction: 'high', minStdDev: 5, unit: 'ms' },
+  { metric: 'peer_count', direction: 'low', minStdDev: 1, unit: 'peers' },
+  { metric: 'block_rate', direction: 'low', minStdDev: 0.5, unit: 'blocks/min' },
+];
+
+const OVERALL_ALPHA = 0.01;
+const HOURLY_ALPHA = 0.005; // each hour is seen for an hour a day, so it learns slower
+const ANOMALOUS_WEIGHT = 0.1; // anomalous samples move the baseline this much less
+const RELATIVE_MIN_STD_DEV = 0.05; // of the baseline mean
+const MIN_BASELINE_SAMPLES = 30;
+const MIN_HOURLY_SAMPLES = 30;
+const DEFAULT_Z_SCORE_THRESHOLD = 3;
+const ANOMALY_STREAK = 3; // anomalous samples in a row before an alert fires
+const BLOCK_RATE_WINDOW_MINUTES = 10;
+const MIN_BLOCK_RATE_SPAN_MINUTES = 2;
+const SEED_LOOKBACK = '3 days'; // raw samples every plan keeps
+const ANALYSIS_WINDOW_MINUTES = 30;
+const MAX_ANALYSIS_SAMPLES = 60;
+
+export interface AnomalyScore {
+  value: number;
+  expected: number;
+  stdDev: number;
+  zScore: number; // positive above the baseline
+  hour?: number; // set when scored against the hour-of-day profile
+}
+
+export interface AnomalyOutcome {
+  metric: AnomalyMetric;
+  key: string; // stored on the alert as rule_key
+  state: 'firing' | 'ok' | 'pending';
+  started: boolean; // first firing sample of this anomaly
+  severity: AlertSeverity;
+  message: string;
+  score?: AnomalyScore;
+}
+
+export function emptyStats(): BaselineStats {
+  return { mean: 0, variance: 0, count: 0 };
+}
+
+/**
+ * One EWMA step. Until a baseline has seen 1/alpha samples it weighs them
+ * equally, so it starts out as the plain mean and variance.
+ */
+export function updateStats(stats: BaselineStats, value: number, alpha: number, dampening: number = 1): BaselineStats {
+  const weight = Math.max(alpha, 1 / (stats.count + 1)) * dampening;
+  const diff = value - stats.mean;
+  const increment = weight * diff;
+
+  return {
+    mean: stats.mean + increment,
+    variance: (1 - weight) * (stats.variance + diff * increment),
+    count: stats.count + 1,
+  };
+}
+
+/**
+ * Score a value against the hour-of-day profile once that hour has enough
+ * history, otherwise against the overall baseline. Null while still learning.
+ */
+export function scoreValue(baseline: MetricBaseline, value: number, hour: number, minStdDev: number): AnomalyScore | null {
+  const slot = baseline.hourly[hour];
+  const seasonal = !!slot && slot.count >= MIN_HOURLY_SAMPLES;
+
+  if (!seasonal && baseline.count < MIN_BASELINE_SAMPLES) {
+    return null;
+  }
+
+  const stats = seasonal ? slot : baseline;
+  const stdDev = Math.max(Math.sqrt(stats.variance), minStdDev, Math.abs(stats.mean) * RELATIVE_MIN_STD_DEV);
+
+  return {
+    value,
+    expected: stats.mean,
+    stdDev,
+    zScore: (value - stats.mean) / stdDev,
+    hour: seasonal ? hour : undefined,
+  };
+}
+
+function formatNumber(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(2);
+}
+
+function explain(spec: AnomalyMetricSpec, score: AnomalyScore): string {
+  const baseline = score.hour !== undefined ? `the ${String(score.hour).padStart(2, '0')}:00 baseline` : 'the baseline';
+
+  return `${spec.metric} is ${formatNumber(score.value)} ${spec.unit}, ` +
+    `${Math.abs(score.zScore).toFixed(1)} standard deviations ${score.zScore > 0 ? 'above' : 'below'} ` +
+    `${baseline} of ${formatNumber(score.expected)} ± ${formatNumber(score.stdDev)} ${spec.unit}`;
+}
+
+/**
+ * Block-height progress over the last few minutes of samples, ascending
+ * and ending with the sample being scored
+ */
+function blockRate(samples: AgentMetrics[]): number | undefined {
+  const first = samples[0];
+  const latest = samples[samples.length - 1];
+  const minutes = (new Date(latest.recorded_at).getTime() - new Date(first.recorded_at).getTime()) / 60000;
+  const blocks = Number(latest.block_height) - Number(first.block_height);
+
+  return minutes >= MIN_BLOCK_RATE_SPAN_MINUTES && blocks >= 0 ? blocks / minutes : undefined;
+}
+
+function toBaseline(row: any): MetricBaseline {
+  return {
+    metric: row.metric,
+    mean: row.mean,
+    variance: row.variance,
+    count: row.samples,
+    hourly: Array.from({ length: 24 }, (_, hour) => row.hourly[hour] || emptyStats()),
+    streak: row.anomalous_streak,
+  };
+}
+
+/**
+ * Deterministic anomaly detection on metric streams. Each agent learns an
+ * EWMA baseline and an hour-of-day profile per metric from its own samples;
+ * a metric that stays several standard deviations off on the bad side for
+ * a few samples in a row is anomalous.
+ */
+export class AnomalyDetectionService {
+  /**
+   * Score a newly recorded sample and fold it into the agent's baselines
+   */
+  async evaluateSample(agentId: string, metricsId: string): Promise<AnomalyOutcome[]> {
+    try {
+      const agentResult = await database.query('SELECT config FROM agents WHERE id = $1', [agentId]);
+      const settings = agentResult.rows[0]?.config?.anomalyDetection;
+
+      if (agentResult.rows.length === 0 || settings?.enabled === false) {
+        return [];
+      }
+
+      const threshold: number = settings?.zScoreThreshold || DEFAULT_Z_SCORE_THRESHOLD;
+
+      const samplesResult = await database.query(
+        `SELECT s.* FROM agent_metrics latest
+         JOIN agent_metrics s ON s.agent_id = latest.agent_id
+           AND s.recorded_at BETWEEN latest.recorded_at - make_interval(mins => $3) AND latest.recorded_at
+         WHERE latest.id = $1 AND latest.agent_id = $2
+         ORDER BY s.recorded_at ASC, s.id = latest.id ASC`,
+        [metricsId, agentId, BLOCK_RATE_WINDOW_MINUTES]
+      );
+
+      if (samplesResult.rows.length === 0) {
+        return [];
+      }
+
+      const samples: AgentMetrics[] = samplesResult.rows;
+      const latest = samples[samples.length - 1];
+      const hour = new Date(latest.recorded_at).getHours();
+
+      const values: Record<AnomalyMetric, number | undefined> = {
+        response_time: Number(latest.response_time),
+        peer_count: Number(latest.peer_count),
+        block_rate: blockRate(samples),
+      };
+
+      return await database.transaction(async (client) => {
+        const baselines = await this.lockBaselines(client, agentId);
+        const outcomes: AnomalyOutcome[] = [];
+
+        for (const spec of ANOMALY_METRICS) {
+          const value = values[spec.metric];
+          if (value === undefined || !Number.isFinite(value)) {
+            continue;
+          }
+
+          const baseline = baselines.get(spec.metric)!;
+          const outcome = this.score(spec, baseline, value, hour, threshold);
+          outcomes.push(outcome);
+
+          // Anomalous values barely move the baseline, so it adapts to a
+          // lasting shift over days rather than learning an outage as normal
+          const anomalous = !!outcome.score && outcome.state !== 'ok';
+          const dampening = anomalous ? ANOMALOUS_WEIGHT : 1;
+          const overall = updateStats(baseline, value, OVERALL_ALPHA, dampening);
+          const hourly = [...baseline.hourly];
+          hourly[hour] = updateStats(hourly[hour], value, HOURLY_ALPHA, dampening);
+
+          await client.query(
+            `UPDATE agent_metric_baselines
+             SET mean = $1, variance = $2, samples = $3, hourly = $4, anomalous_streak = $5
+             WHERE agent_id = $6 AND metric = $7`,
+            [
+              overall.mean,
+              overall.variance,
+              overall.count,
+              JSON.stringify(hourly),
+              anomalous ? baseline.streak + 1 : 0,
+              agentId,
+              spec.metric,
+            ]
+          );
+        }
+
+        return outcomes;
+      });
+    } catch (error) {
+      logger.error('Failed to evaluate metrics anomalies', { agentId, metricsId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Recent samples of an agent, oldest first, handed to the AI agent when an
+   * anomaly needs a closer look
+   */
+  async getAnomalyWindow(agentId: string): Promise<Record<string, any>[]> {
+    try {
+      const result = await database.query(
+        `SELECT recorded_at, uptime, response_time, network_latency, peer_count, block_height, sync_status
+         FROM agent_metrics
+         WHERE agent_id = $1 AND recorded_at > NOW() - make_interval(mins => $2)
+         ORDER BY recorded_at DESC
+         LIMIT $3`,
+        [agentId, ANALYSIS_WINDOW_MINUTES, MAX_ANALYSIS_SAMPLES]
+      );
+
+      return result.rows.reverse();
+    } catch (error) {
+      logger.error('Failed to get anomaly window', { agentId, error });
+      throw error;
+    }
+  }
+
+  private score(spec: AnomalyMetricSpec, baseline: MetricBaseline, value: number, hour: number, threshold: number): AnomalyOutcome {
+    const score = scoreValue(baseline, value, hour, spec.minStdDev);
+    const outcome = (state: AnomalyOutcome['state'], message: string, started: boolean = false): AnomalyOutcome => ({
+      metric: spec.metric,
+      key: `anomaly:${spec.metric}`,
+      state,
+      started,
+      severity: score && Math.abs(score.zScore) >= 2 * threshold ? AlertSeverity.HIGH : AlertSeverity.MEDIUM,
+      message: `Anomalous ${spec.metric}: ${message}`,
+      score: score || undefined,
+    });
+
+    if (!score) {
+      return outcome('pending', `learning baseline (${baseline.count}/${MIN_BASELINE_SAMPLES} samples)`);
+    }
+
+    const anomalous = spec.direction === 'high' ? score.zScore >= threshold : score.zScore <= -threshold;
+    if (!anomalous) {
+      return outcome('ok', explain(spec, score));
+    }
+
+    const streak = baseline.streak + 1;
+    return streak >= ANOMALY_STREAK
+      ? outcome('firing', `${explain(spec, score)} for ${streak} samples in a row`, streak === ANOMALY_STREAK)
+      : outcome('pending', explain(spec, score));
+  }
+
+  /**
+   * Lock the agent's baselines for this sample, seeding missing ones from
+   * the raw samples still kept for it
+   */
+  private async lockBaselines(client: PoolClient, agentId: string): Promise<Map<AnomalyMetric, MetricBaseline>> {
+    const select = () => client.query(
+      'SELECT * FROM agent_metric_baselines WHERE agent_id = $1 FOR UPDATE',
+      [agentId]
+    );
+
+    let result = await select();
+
+    if (result.rows.length < ANOMALY_METRICS.length) {
+      await this.seedBaselines(client, agentId);
+      result = await select();
+    }
+
+    return new Map(result.rows.map((row: any) => [row.metric as AnomalyMetric, toBaseline(row)]));
+  }
+
+  private async seedBaselines(client: PoolClient, agentId: string): Promise<void> {
+    const result = await client.query(
+      `WITH samples AS (
+         SELECT recorded_at, response_time::float AS response_time, peer_count::float AS peer_count,
+                block_height, FIRST_VALUE(block_height) OVER w AS first_height,
+                EXTRACT(EPOCH FROM recorded_at - FIRST_VALUE(recorded_at) OVER w) / 60 AS span_minutes
+         FROM agent_metrics
+         WHERE agent_id = $1 AND recorded_at > NOW() - INTERVAL '${SEED_LOOKBACK}'
+         WINDOW w AS (ORDER BY recorded_at RANGE BETWEEN INTERVAL '${BLOCK_RATE_WINDOW_MINUTES} minutes' PRECEDING AND CURRENT ROW)
+       ), rates AS (
+         SELECT *, CASE WHEN span_minutes >= $2 AND block_height >= first_height
+                   THEN (block_height - first_height) / span_minutes END AS block_rate
+         FROM samples
+       )
+       SELECT EXTRACT(HOUR FROM recorded_at)::int AS hour,
+              ${ANOMALY_METRICS.map(({ metric }) =>
+                `COUNT(${metric}) AS ${metric}_count, AVG(${metric}) AS ${metric}_mean, VAR_POP(${metric}) AS ${metric}_variance`
+              ).join(',\n              ')}
+       FROM rates
+       GROUP BY GROUPING SETS ((EXTRACT(HOUR FROM recorded_at)), ())`,
+      [agentId, MIN_BLOCK_RATE_SPAN_MINUTES]
+    );
+
+    for (const { metric } of ANOMALY_METRICS) {
+      const stats = (row: any): BaselineStats => ({
+        mean: parseFloat(row[`${metric}_mean`]) || 0,
+        variance: parseFloat(row[`${metric}_variance`]) || 0,
+        count: parseInt(row[`${metric}_count`]),
+      });
+
+      const overall = result.rows.find((row: any) => row.hour === null);
+      const hourly = Array.from({ length: 24 }, (_, hour) => {
+        const row = result.rows.find((candidate: any) => candidate.hour === hour);
+        return row ? stats(row) : emptyStats();
+      });
+      const seeded = overall ? stats(overall) : emptyStats();
+
+      await client.query(
+        `INSERT INTO agent_metric_baselines (agent_id, metric, mean, variance, samples, hourly)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         ON CONFLICT (agent_id, metric) DO NOTHING`,
+        [agentId, metric, seeded.mean, seeded.variance, seeded.count, JSON.stringify(hourly)]
+      );
+    }
+
+    logger.info('Anomaly baselines seeded', { agentId });
+  }
+}
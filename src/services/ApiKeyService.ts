@@ -0,0 +1,195 @@
+import crypto from 'crypto';
+import { database } from '../config/database';
+import { redis } from '../config/redis';
+import { logger } from '../utils/logger';
+import { API_KEY_SCOPES, ApiKey, ApiKeyRateLimit, ApiKeyScope, ApiKeyWithSecret, CreateApiKeyData } from '../models/ApiKey';
+
+const KEY_PREFIX = 'mk_';
+const DISPLAY_PREFIX_LENGTH = 11;
+const PUBLIC_COLUMNS = `id, user_id, name, key_prefix, permissions, rate_limit_per_minute, last_used,
+  expires_at, is_active, revoked_at, rotated_at, created_at`;
+
+// INCR and set the window expiry on first use, atomically
+const RATE_LIMIT_SCRIPT = `
+local count = redis.call('INCR', KEYS[1])
+if count == 1 then
+  redis.call('PEXPIRE', KEYS[1], ARGV[1])
+end
+return count
+`;
+
+/**
+ * Scope a request needs: `<resource>:read` for GET/HEAD, `<resource>:write`
+ * otherwise. Null when no API key scope covers the request.
+ */
+export function requiredScope(baseUrl: string, method: string): ApiKeyScope | null {
+  const resource = baseUrl.replace(/^\/api\//, '').split('/')[0];
+  const scope = `${resource}:${method === 'GET' || method === 'HEAD' ? 'read' : 'write'}`;
+  return API_KEY_SCOPES.find(known => known === scope) ?? null;
+}
+
+/**
+ * Long-lived API keys for automation. Secrets are shown once and stored
+ * as SHA-256 hashes; requests look keys up by hash.
+ */
+export class ApiKeyService {
+  private defaultRateLimit: number;
+
+  constructor() {
+    this.defaultRateLimit = parseInt(process.env.API_KEY_RATE_LIMIT_PER_MINUTE || '60');
+  }
+
+  /**
+   * Create a key. The secret is only returned here.
+   */
+  async createKey(userId: string, data: CreateApiKeyData): Promise<ApiKeyWithSecret> {
+    try {
+      const secret = this.generateSecret();
+
+      const result = await database.query(
+        `INSERT INTO api_keys (user_id, name, key_hash, key_prefix, permissions, expires_at, rate_limit_per_minute)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         RETURNING ${PUBLIC_COLUMNS}`,
+        [
+          userId,
+          data.name,
+          this.hash(secret),
+          secret.slice(0, DISPLAY_PREFIX_LENGTH),
+          JSON.stringify(data.scopes),
+          data.expires_at || null,
+          data.rate_limit_per_minute || null,
+        ]
+      );
+
+      logger.info('API key created', { userId, keyId: result.rows[0].id, scopes: data.scopes });
+      return { apiKey: result.rows[0], secret };
+    } catch (error) {
+      logger.error('Failed to create API key', { userId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * List a user's keys, newest first
+   */
+  async listKeys(userId: string): Promise<ApiKey[]> {
+    try {
+      const result = await database.query(
+        `SELECT ${PUBLIC_COLUMNS} FROM api_keys WHERE user_id = $1 ORDER BY created_at DESC`,
+        [userId]
+      );
+
+      return result.rows;
+    } catch (error) {
+      logger.error('Failed to list API keys', { userId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Replace an active key's secret. The old secret stops working
+   * immediately. Returns null when the key is not found or revoked.
+   */
+  async rotateKey(userId: string, keyId: string): Promise<ApiKeyWithSecret | null> {
+    try {
+      const secret = this.generateSecret();
+
+      const result = await database.query(
+        `UPDATE api_keys
+         SET key_hash = $3, key_prefix = $4, rotated_at = CURRENT_TIMESTAMP
+         WHERE id = $1 AND user_id = $2 AND is_active = true
+         RETURNING ${PUBLIC_COLUMNS}`,
+        [keyId, userId, this.hash(secret), secret.slice(0, DISPLAY_PREFIX_LENGTH)]
+      );
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      logger.info('API key rotated', { userId, keyId });
+      return { apiKey: result.rows[0], secret };
+    } catch (error) {
+      logger.error('Failed to rotate API key', { userId, keyId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Revoke a key. Returns false when the key is not found or already revoked.
+   */
+  async revokeKey(userId: string, keyId: string): Promise<boolean> {
+    try {
+      const result = await database.query(
+        `UPDATE api_keys SET is_active = false, revoked_at = CURRENT_TIMESTAMP
+         WHERE id = $1 AND user_id = $2 AND is_active = true`,
+        [keyId, userId]
+      );
+
+      if (result.rowCount > 0) {
+        logger.info('API key revoked', { userId, keyId });
+      }
+
+      return result.rowCount > 0;
+    } catch (error) {
+      logger.error('Failed to revoke API key', { userId, keyId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Resolve a presented secret to an active, unexpired key
+   */
+  async authenticate(secret: string): Promise<ApiKey | null> {
+    if (!secret.startsWith(KEY_PREFIX)) {
+      return null;
+    }
+
+    const result = await database.query(
+      `SELECT ${PUBLIC_COLUMNS} FROM api_keys
+       WHERE key_hash = $1 AND is_active = true
+         AND (expires_at IS NULL OR expires_at > CURRENT_TIMESTAMP)`,
+      [this.hash(secret)]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const apiKey: ApiKey = result.rows[0];
+
+    // At most one write per key per minute
+    database.query(
+      `UPDATE api_keys SET last_used = CURRENT_TIMESTAMP
+       WHERE id = $1 AND (last_used IS NULL OR last_used < CURRENT_TIMESTAMP - INTERVAL '1 minute')`,
+      [apiKey.id]
+    ).catch(error => logger.warn('Failed to record API key use', { keyId: apiKey.id, error: error.message }));
+
+    return apiKey;
+  }
+
+  /**
+   * Count a request against the key's per-minute limit
+   */
+  async consumeRateLimit(apiKey: ApiKey): Promise<ApiKeyRateLimit> {
+    const limit = apiKey.rate_limit_per_minute || this.defaultRateLimit;
+    const window = Math.floor(Date.now() / 60000);
+    const resetSeconds = 60 - Math.floor((Date.now() % 60000) / 1000);
+
+    const count = Number(await redis.eval(RATE_LIMIT_SCRIPT, [`ratelimit:apikey:${apiKey.id}:${window}`], ['60000']));
+
+    return {
+      allowed: count <= limit,
+      limit,
+      remaining: Math.max(0, limit - count),
+      resetSeconds,
+    };
+  }
+
+  private generateSecret(): string {
+    return `${KEY_PREFIX}${crypto.randomBytes(30).toString('base64url')}`;
+  }
+
+  private hash(secret: string): string {
+    return crypto.createHash('sha256').update(secret).digest('hex');
+  }
+}
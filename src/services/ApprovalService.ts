@@ -0,0 +1,91 @@
+import { database } from '../config/database';
+import { logger } from '../utils/logger';
+import { TaskApprovalRecord, ToolCallRecord } from '../models/AgentTask';
+
+export class ApprovalService {
+  /**
+   * Record a pending approval for a paused task. Returns the existing one if
+   * the task is already waiting.
+   */
+  async createApproval(taskId: string, agentId: string, toolCalls: ToolCallRecord[]): Promise<TaskApprovalRecord> {
+    try {
+      const result = await database.query(
+        `INSERT INTO task_approvals (task_id, agent_id, tool_calls)
+         VALUES ($1, $2, $3)
+         ON CONFLICT (task_id) WHERE status = 'pending' DO NOTHING
+         RETURNING *`,
+        [taskId, agentId, JSON.stringify(toolCalls)]
+      );
+
+      if (result.rows.length > 0) {
+        return result.rows[0];
+      }
+
+      return (await this.getPendingApproval(taskId))!;
+    } catch (error) {
+      logger.error('Failed to create approval', { taskId, agentId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Get the approval a task is waiting on
+   */
+  async getPendingApproval(taskId: string): Promise<TaskApprovalRecord | null> {
+    try {
+      const result = await database.query(
+        `SELECT * FROM task_approvals WHERE task_id = $1 AND status = 'pending'`,
+        [taskId]
+      );
+
+      return result.rows[0] || null;
+    } catch (error) {
+      logger.error('Failed to get pending approval', { taskId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Get every approval requested for a task
+   */
+  async getApprovals(taskId: string): Promise<TaskApprovalRecord[]> {
+    try {
+      const result = await database.query(
+        'SELECT * FROM task_approvals WHERE task_id = $1 ORDER BY requested_at ASC',
+        [taskId]
+      );
+
+      return result.rows;
+    } catch (error) {
+      logger.error('Failed to get approvals', { taskId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Approve or reject the pending approval for a task. Returns null when the
+   * task has nothing pending, so only the first decision wins.
+   */
+  async decide(
+    agentId: string,
+    taskId: string,
+    approved: boolean,
+    userId: string,
+    reason?: string
+  ): Promise<TaskApprovalRecord | null> {
+    try {
+      const result = await database.query(
+        `UPDATE task_approvals
+         SET status = $3, decided_by = $4, reason = $5, decided_at = CURRENT_TIMESTAMP
+         WHERE task_id = $1 AND agent_id = $2 AND status = 'pending'
+         RETURNING *`,
+        [taskId, agentId, approved ? 'approved' : 'rejected', userId, reason || null]
+      );
+
+      return result.rows[0] || null;
+    } catch (error) {
+      logger.error('Failed to record approval decision', { agentId, taskId, error });
+      throw error;
+    }
+  }
+}
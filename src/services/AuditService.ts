@@ -0,0 +1,236 @@
+import { Request } from 'express';
+import { database } from '../config/database';
+import { logger } from '../utils/logger';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { AuditActor, AuditChanges, AuditEvent, AuditEventData, AuditFilters } from '../models/Audit';
+
+// Config fields holding credentials are recorded as changed but never stored
+const REDACTED_FIELD = /(token|secret|password)$/i;
+
+const EXPORT_COLUMNS: (keyof AuditEvent)[] = [
+  'id',
+  'occurred_at',
+  'actor_type',
+  'actor_id',
+  'user_id',
+  'organization_id',
+  'action',
+  'target_type',
+  'target_id',
+  'agent_id',
+  'changes',
+  'metadata',
+  'ip_address',
+  'user_agent',
+];
+
+/**
+ * The user or API key behind a request. Use after authMiddleware.
+ */
+export function auditActor(req: Request): AuditActor {
+  const { user, apiKey } = req as AuthenticatedRequest;
+
+  return {
+    actorType: apiKey ? 'api_key' : 'user',
+    actorId: apiKey ? apiKey.id : user.id,
+    userId: user.id,
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent'),
+  };
+}
+
+/**
+ * Fields that differ between two snapshots, compared by value. Nested
+ * objects are diffed by their dotted path.
+ */
+export function diffChanges(before: Record<string, any> = {}, after: Record<string, any> = {}, prefix: string = ''): AuditChanges {
+  const changes: AuditChanges = {};
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+  for (const key of keys) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    const previous = before[key];
+    const next = after[key];
+
+    if (isPlainObject(previous) && isPlainObject(next)) {
+      Object.assign(changes, diffChanges(previous, next, path));
+      continue;
+    }
+
+    if (JSON.stringify(previous) === JSON.stringify(next)) {
+      continue;
+    }
+
+    changes[path] = REDACTED_FIELD.test(key)
+      ? { before: previous === undefined ? undefined : '[redacted]', after: next === undefined ? undefined : '[redacted]' }
+      : { before: previous, after: next };
+  }
+
+  return changes;
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date);
+}
+
+/**
+ * Append-only record of who did what to which resource. The table rejects
+ * updates and deletes.
+ */
+export class AuditService {
+  private exportMaxRows: number;
+
+  constructor() {
+    this.exportMaxRows = parseInt(process.env.AUDIT_EXPORT_MAX_ROWS || '10000');
+  }
+
+  /**
+   * Record an event. Failures are logged rather than thrown so an audit
+   * outage never undoes the action being recorded.
+   */
+  async record(actor: AuditActor, event: AuditEventData): Promise<void> {
+    try {
+      const changes = event.before || event.after ? diffChanges(event.before, event.after) : null;
+
+      await database.query(
+        `INSERT INTO audit_events (actor_type, actor_id, user_id, organization_id, action, target_type, target_id,
+                                   agent_id, changes, metadata, ip_address, user_agent)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)`,
+        [
+          actor.actorType,
+          actor.actorId || null,
+          actor.userId || null,
+          event.organizationId || null,
+          event.action,
+          event.targetType,
+          event.targetId || null,
+          event.agentId || null,
+          changes ? JSON.stringify(changes) : null,
+          event.metadata ? JSON.stringify(event.metadata) : null,
+          actor.ipAddress || null,
+          actor.userAgent || null,
+        ]
+      );
+    } catch (error) {
+      logger.error('Failed to record audit event', { action: event.action, targetId: event.targetId, error });
+    }
+  }
+
+  /**
+   * Events visible to a user: their own, plus every event in organizations
+   * where they are an admin or owner. Newest first.
+   */
+  async listEvents(userId: string, filters: AuditFilters): Promise<{ events: AuditEvent[]; total: number }> {
+    try {
+      const { where, values } = this.buildFilters(userId, filters);
+      let paramCount = values.length + 1;
+
+      const countResult = await database.query(
+        `SELECT COUNT(*) as total FROM audit_events WHERE ${where}`,
+        values
+      );
+
+      const result = await database.query(
+        `SELECT * FROM audit_events
+         WHERE ${where}
+         ORDER BY occurred_at DESC
+         LIMIT $${paramCount++} OFFSET $${paramCount}`,
+        [...values, filters.limit, (filters.page - 1) * filters.limit]
+      );
+
+      return {
+        events: result.rows,
+        total: parseInt(countResult.rows[0].total),
+      };
+    } catch (error) {
+      logger.error('Failed to list audit events', { userId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Matching events as CSV or JSON, newest first, capped at AUDIT_EXPORT_MAX_ROWS
+   */
+  async exportEvents(userId: string, filters: Omit<AuditFilters, 'page' | 'limit'>, format: 'csv' | 'json'): Promise<string> {
+    try {
+      const { where, values } = this.buildFilters(userId, filters);
+
+      const result = await database.query(
+        `SELECT * FROM audit_events
+         WHERE ${where}
+         ORDER BY occurred_at DESC
+         LIMIT $${values.length + 1}`,
+        [...values, this.exportMaxRows]
+      );
+
+      if (format === 'json') {
+        return JSON.stringify(result.rows);
+      }
+
+      const lines = result.rows.map((row: AuditEvent) =>
+        EXPORT_COLUMNS.map(column => this.csvValue(row[column])).join(',')
+      );
+
+      return [EXPORT_COLUMNS.join(','), ...lines].join('\n');
+    } catch (error) {
+      logger.error('Failed to export audit events', { userId, error });
+      throw error;
+    }
+  }
+
+  private buildFilters(userId: string, filters: Partial<AuditFilters>): { where: string; values: any[] } {
+    const conditions: string[] = [
+      `(user_id = $1 OR organization_id IN (
+         SELECT organization_id FROM organization_members WHERE user_id = $1 AND role IN ('admin', 'owner')
+       ))`,
+    ];
+    const values: any[] = [userId];
+    let paramCount = 2;
+
+    const columns: [keyof AuditFilters, string][] = [
+      ['actorType', 'actor_type'],
+      ['actorId', 'actor_id'],
+      ['action', 'action'],
+      ['targetType', 'target_type'],
+      ['targetId', 'target_id'],
+      ['agentId', 'agent_id'],
+      ['organizationId', 'organization_id'],
+    ];
+
+    for (const [filter, column] of columns) {
+      if (filters[filter] !== undefined) {
+        conditions.push(`${column} = $${paramCount++}`);
+        values.push(filters[filter]);
+      }
+    }
+
+    if (filters.from) {
+      conditions.push(`occurred_at >= $${paramCount++}`);
+      values.push(filters.from);
+    }
+
+    if (filters.to) {
+      conditions.push(`occurred_at <= $${paramCount++}`);
+      values.push(filters.to);
+    }
+
+    return { where: conditions.join(' AND '), values };
+  }
+
+  private csvValue(value: any): string {
+    if (value === null || value === undefined) {
+      return '';
+    }
+
+    let text = value instanceof Date
+      ? value.toISOString()
+      : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+    // Keep spreadsheets from evaluating user-supplied text as a formula
+    if (/^[=+\-@]/.test(text)) {
+      text = `'${text}`;
+    }
+
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+}
@@ -0,0 +1,356 @@
+import crypto from 'crypto';
+import { PoolClient } from 'pg';
+import { database } from '../config/database';
+import { redis } from '../config/redis';
+import { logger } from '../utils/logger';
+import { BillingEvent, BillingEventResult, BillingHistoryEntry } from '../models/Billing';
+import { SubscriptionPlan, SubscriptionStatus, WebhookSignatureError } from '../types';
+
+// Provider subscription statuses mapped onto ours
+const STATUS_MAP: Record<string, SubscriptionStatus> = {
+  active: SubscriptionStatus.ACTIVE,
+  trialing: SubscriptionStatus.TRIALING,
+  past_due: SubscriptionStatus.PAST_DUE,
+  unpaid: SubscriptionStatus.PAST_DUE,
+  canceled: SubscriptionStatus.CANCELED,
+  incomplete: SubscriptionStatus.INACTIVE,
+  incomplete_expired: SubscriptionStatus.CANCELED,
+  paused: SubscriptionStatus.INACTIVE,
+};
+
+type AgentAction = 'pause' | 'resume';
+
+interface AppliedEvent {
+  userId: string;
+  stripeSubscriptionId?: string;
+  agentAction?: AgentAction;
+}
+
+/**
+ * Verify a `Stripe-Signature` style header (`t=<unix>,v1=<hex hmac>`)
+ * against the raw request body
+ */
+export function verifyWebhookSignature(
+  payload: Buffer | string,
+  header: string | undefined,
+  secret: string,
+  toleranceSeconds: number = 300
+): void {
+  if (!header) {
+    throw new WebhookSignatureError('Missing signature header');
+  }
+
+  const parts = header.split(',').map(part => part.split('='));
+  const timestamp = parts.find(([key]) => key === 't')?.[1];
+  const signatures = parts.filter(([key]) => key === 'v1').map(([, value]) => value);
+
+  if (!timestamp || signatures.length === 0) {
+    throw new WebhookSignatureError('Malformed signature header');
+  }
+
+  const age = Math.abs(Date.now() / 1000 - parseInt(timestamp));
+  if (isNaN(age) || age > toleranceSeconds) {
+    throw new WebhookSignatureError('Signature timestamp outside the tolerance window');
+  }
+
+  const expected = Buffer.from(
+    crypto.createHmac('sha256', secret).update(`${timestamp}.${payload.toString()}`).digest('hex')
+  );
+
+  const matches = signatures.some(signature => {
+    const received = Buffer.from(signature);
+    return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+  });
+
+  if (!matches) {
+    throw new WebhookSignatureError();
+  }
+}
+
+/**
+ * Applies billing provider webhooks to subscriptions. Every event is
+ * recorded once, in the same transaction as its effects, so redelivery is
+ * a no-op.
+ */
+export class BillingService {
+  private webhookSecret?: string;
+  private priceIds: Partial<Record<SubscriptionPlan, string>>;
+
+  constructor() {
+    this.webhookSecret = process.env.BILLING_WEBHOOK_SECRET;
+    this.priceIds = {
+      [SubscriptionPlan.STARTER]: process.env.BILLING_PRICE_STARTER,
+      [SubscriptionPlan.CORE]: process.env.BILLING_PRICE_CORE,
+      [SubscriptionPlan.ENTERPRISE]: process.env.BILLING_PRICE_ENTERPRISE,
+    };
+  }
+
+  isConfigured(): boolean {
+    return !!this.webhookSecret;
+  }
+
+  /**
+   * Verify and parse a webhook request body
+   */
+  constructEvent(payload: Buffer, signatureHeader: string | undefined): BillingEvent {
+    verifyWebhookSignature(payload, signatureHeader, this.webhookSecret!);
+
+    let event: any;
+    try {
+      event = JSON.parse(payload.toString());
+    } catch {
+      throw new WebhookSignatureError('Malformed event payload');
+    }
+
+    if (!event?.id || !event?.type || !event?.data?.object) {
+      throw new WebhookSignatureError('Malformed event payload');
+    }
+
+    return event;
+  }
+
+  /**
+   * Apply a verified event
+   */
+  async handleEvent(event: BillingEvent): Promise<BillingEventResult> {
+    try {
+      const { result, applied, agentIds } = await database.transaction(async (client) => {
+        const inserted = await client.query(
+          `INSERT INTO billing_events (id, type, payload, event_created_at)
+           VALUES ($1, $2, $3, to_timestamp($4))
+           ON CONFLICT (id) DO NOTHING
+           RETURNING id`,
+          [event.id, event.type, JSON.stringify(event), event.created]
+        );
+
+        if (inserted.rows.length === 0) {
+          return { result: 'duplicate' as const, applied: null, agentIds: [] };
+        }
+
+        const applied = await this.applyEvent(client, event);
+        if (!applied) {
+          return { result: 'ignored' as const, applied: null, agentIds: [] };
+        }
+
+        const amount = event.type.startsWith('invoice.')
+          ? event.data.object.amount_paid ?? event.data.object.amount_due ?? null
+          : null;
+
+        await client.query(
+          `UPDATE billing_events
+           SET user_id = $2, stripe_subscription_id = $3, amount_cents = $4, currency = $5
+           WHERE id = $1`,
+          [event.id, applied.userId, applied.stripeSubscriptionId || null, amount, event.data.object.currency || null]
+        );
+
+        const agentIds = applied.agentAction
+          ? await this.updateAgentsForBilling(client, applied.userId, applied.agentAction)
+          : [];
+
+        return { result: 'processed' as const, applied, agentIds };
+      });
+
+      if (applied?.agentAction) {
+        const status = applied.agentAction === 'pause' ? 'inactive' : 'active';
+        await Promise.all(agentIds.map(agentId => redis.set(`agent:${agentId}:status`, status, 3600)));
+      }
+
+      logger.info('Billing event handled', {
+        eventId: event.id,
+        type: event.type,
+        result,
+        userId: applied?.userId,
+        agentAction: applied?.agentAction,
+        agents: agentIds.length,
+      });
+
+      return result;
+    } catch (error) {
+      logger.error('Failed to handle billing event', { eventId: event.id, type: event.type, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Invoices recorded for a user, newest first
+   */
+  async getBillingHistory(userId: string, limit: number = 50): Promise<BillingHistoryEntry[]> {
+    try {
+      const result = await database.query(
+        `SELECT id, type, amount_cents, currency, event_created_at
+         FROM billing_events
+         WHERE user_id = $1 AND type LIKE 'invoice.%'
+         ORDER BY event_created_at DESC
+         LIMIT $2`,
+        [userId, limit]
+      );
+
+      return result.rows.map((row: any) => ({
+        id: row.id,
+        type: row.type,
+        amountCents: row.amount_cents,
+        currency: row.currency,
+        createdAt: row.event_created_at,
+      }));
+    } catch (error) {
+      logger.error('Failed to get billing history', { userId, error });
+      throw error;
+    }
+  }
+
+  private async applyEvent(client: PoolClient, event: BillingEvent): Promise<AppliedEvent | null> {
+    const object = event.data.object;
+
+    switch (event.type) {
+      case 'checkout.session.completed':
+        return this.applyCheckoutCompleted(client, event, object);
+
+      case 'invoice.paid':
+        return this.updateSubscription(client, event, object.subscription, {
+          status: SubscriptionStatus.ACTIVE,
+          periodStart: object.lines?.data?.[0]?.period?.start,
+          periodEnd: object.lines?.data?.[0]?.period?.end,
+        }, 'resume');
+
+      case 'invoice.payment_failed':
+        return this.updateSubscription(client, event, object.subscription, {
+          status: SubscriptionStatus.PAST_DUE,
+        }, 'pause');
+
+      case 'customer.subscription.updated': {
+        const status = STATUS_MAP[object.status];
+        if (!status) {
+          return null;
+        }
+
+        return this.updateSubscription(client, event, object.id, {
+          status,
+          plan: this.resolvePlan(object),
+          periodStart: object.current_period_start,
+          periodEnd: object.current_period_end,
+          cancelAtPeriodEnd: object.cancel_at_period_end,
+        }, status === SubscriptionStatus.ACTIVE || status === SubscriptionStatus.TRIALING ? 'resume' : 'pause');
+      }
+
+      case 'customer.subscription.deleted':
+        return this.updateSubscription(client, event, object.id, {
+          status: SubscriptionStatus.CANCELED,
+          cancelAtPeriodEnd: false,
+        }, 'pause');
+
+      default:
+        return null;
+    }
+  }
+
+  private async applyCheckoutCompleted(client: PoolClient, event: BillingEvent, session: any): Promise<AppliedEvent | null> {
+    const userId = session.client_reference_id || session.metadata?.userId;
+    if (!userId) {
+      return null;
+    }
+
+    const result = await client.query(
+      `UPDATE subscriptions
+       SET stripe_customer_id = $2,
+           stripe_subscription_id = $3,
+           plan = COALESCE($4, plan),
+           status = 'active',
+           cancel_at_period_end = false,
+           billing_updated_at = to_timestamp($5),
+           updated_at = CURRENT_TIMESTAMP
+       WHERE id = (SELECT id FROM subscriptions WHERE user_id = $1 ORDER BY created_at DESC LIMIT 1)
+       RETURNING user_id`,
+      [userId, session.customer || null, session.subscription || null, this.resolvePlan(session), event.created]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return { userId, stripeSubscriptionId: session.subscription, agentAction: 'resume' };
+  }
+
+  private async updateSubscription(
+    client: PoolClient,
+    event: BillingEvent,
+    stripeSubscriptionId: string | undefined,
+    changes: {
+      status: SubscriptionStatus;
+      plan?: SubscriptionPlan | null;
+      periodStart?: number;
+      periodEnd?: number;
+      cancelAtPeriodEnd?: boolean;
+    },
+    agentAction: AgentAction
+  ): Promise<AppliedEvent | null> {
+    if (!stripeSubscriptionId) {
+      return null;
+    }
+
+    // Events older than the last one applied are recorded but don't change state
+    const result = await client.query(
+      `UPDATE subscriptions
+       SET status = $2,
+           plan = COALESCE($3, plan),
+           current_period_start = COALESCE(to_timestamp($4), current_period_start),
+           current_period_end = COALESCE(to_timestamp($5), current_period_end),
+           cancel_at_period_end = COALESCE($6, cancel_at_period_end),
+           billing_updated_at = to_timestamp($7),
+           updated_at = CURRENT_TIMESTAMP
+       WHERE stripe_subscription_id = $1
+         AND (billing_updated_at IS NULL OR billing_updated_at <= to_timestamp($7))
+       RETURNING user_id`,
+      [
+        stripeSubscriptionId,
+        changes.status,
+        changes.plan || null,
+        changes.periodStart ?? null,
+        changes.periodEnd ?? null,
+        changes.cancelAtPeriodEnd ?? null,
+        event.created,
+      ]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return { userId: result.rows[0].user_id, stripeSubscriptionId, agentAction };
+  }
+
+  /**
+   * Plan from event metadata, falling back to the configured price ids
+   */
+  private resolvePlan(object: any): SubscriptionPlan | null {
+    const plan = object.metadata?.plan;
+    if (Object.values(SubscriptionPlan).includes(plan)) {
+      return plan;
+    }
+
+    const priceId = object.items?.data?.[0]?.price?.id;
+    const match = Object.entries(this.priceIds).find(([, id]) => id && id === priceId);
+    return match ? (match[0] as SubscriptionPlan) : null;
+  }
+
+  /**
+   * Stop active agents when payment lapses and restart the ones billing
+   * stopped once it recovers. Agents stopped by their owner stay stopped.
+   */
+  private async updateAgentsForBilling(client: PoolClient, userId: string, action: AgentAction): Promise<string[]> {
+    const result = action === 'pause'
+      ? await client.query(
+          `UPDATE agents SET status = 'inactive', billing_paused_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+           WHERE user_id = $1 AND status = 'active'
+           RETURNING id`,
+          [userId]
+        )
+      : await client.query(
+          `UPDATE agents SET status = 'active', billing_paused_at = NULL, updated_at = CURRENT_TIMESTAMP
+           WHERE user_id = $1 AND billing_paused_at IS NOT NULL
+           RETURNING id`,
+          [userId]
+        );
+
+    return result.rows.map((row: any) => row.id);
+  }
+}
@@ -0,0 +1,451 @@
+import { database } from '../config/database';
+import { redis } from '../config/redis';
+import { logger } from '../utils/logger';
+import { AlertSeverity, SupportedChain, TaskStatus } from '../types';
+import { AgentService } from './AgentService';
+import { MonitoringService, SystemHealth } from './MonitoringService';
+import { accessibleAgentsFilter } from './OrganizationService';
+import { SloService, SloSummary } from './SloService';
+import { SloWithStatus } from '../models/Slo';
+
+export interface UptimePercentiles {
+  p50: number;
+  p90: number;
+  p99: number;
+  min: number;
+}
+
+export interface ChainBreakdown {
+  chain: SupportedChain;
+  agents: number;
+  activeAgents: number;
+  errorAgents: number;
+  avgUptime: number;
+  avgResponseTime: number;
+  unresolvedAlerts: number;
+}
+
+export interface DashboardOverview {
+  totalAgents: number;
+  activeAgents: number;
+  errorAgents: number;
+  avgUptime: number;
+  unresolvedAlerts: number;
+  uptimePercentiles: UptimePercentiles;
+  alertsBySeverity: Record<AlertSeverity, number>;
+  tasksByStatus: Record<TaskStatus, number>;
+  chains: ChainBreakdown[];
+  slos: SloSummary;
+  periodHours: number;
+  generatedAt: Date;
+}
+
+export interface PerformanceBucket {
+  bucket: Date;
+  chain: SupportedChain;
+  avgUptime: number;
+  avgResponseTime: number;
+  p95ResponseTime: number;
+  avgNetworkLatency: number;
+  samples: number;
+}
+
+export interface AgentPerformance {
+  agentId: string;
+  name: string;
+  chain: SupportedChain;
+  avgUptime: number;
+  p95ResponseTime: number;
+  samples: number;
+}
+
+export interface DashboardPerformance {
+  buckets: PerformanceBucket[];
+  agents: AgentPerformance[];
+  periodHours: number;
+  generatedAt: Date;
+}
+
+export interface DashboardAlertSummary {
+  bySeverity: Record<AlertSeverity, { unresolved: number; resolved: number }>;
+  byType: { type: string; count: number }[];
+  byChain: { chain: SupportedChain; count: number; unresolved: number }[];
+  daily: { date: string; count: number }[];
+  meanTimeToResolveMinutes: number | null;
+  periodDays: number;
+  generatedAt: Date;
+}
+
+export interface DashboardRevenue {
+  totalTransactions: number;
+  totalValue: number;
+  totalFees: number;
+  byChain: { chain: SupportedChain; transactions: number; value: number; fees: number }[];
+  daily: { date: string; chain: SupportedChain; transactions: number; value: number }[];
+  periodDays: number;
+  generatedAt: Date;
+}
+
+/**
+ * Fleet rollups for the dashboard, scoped to one user's agents. Results are
+ * cached in Redis for a short time since every query scans the metrics table.
+ */
+export class DashboardService {
+  private agentService: AgentService;
+  private monitoringService: MonitoringService;
+  private sloService: SloService;
+  private cacheTtlSeconds: number;
+
+  constructor(agentService: AgentService, monitoringService: MonitoringService) {
+    this.agentService = agentService;
+    this.monitoringService = monitoringService;
+    this.sloService = new SloService();
+    this.cacheTtlSeconds = parseInt(process.env.DASHBOARD_CACHE_TTL_SECONDS || '60');
+  }
+
+  /**
+   * Agent counts, uptime percentiles, open alerts, per-chain breakdown and SLO counts
+   */
+  async getOverview(userId: string, hours: number = 24): Promise<DashboardOverview> {
+    return this.cached(`dashboard:${userId}:overview:${hours}`, async () => {
+      try {
+        const stats = await this.agentService.getDashboardStats(userId);
+
+        const agentUptime = `
+          SELECT a.id, a.chain, a.status,
+                 SUM(am.uptime_avg * am.samples) / SUM(am.samples) as uptime,
+                 SUM(am.response_time_avg * am.samples) / SUM(am.samples) as response_time
+          FROM agents a
+          LEFT JOIN agent_metrics_1h am
+            ON am.agent_id = a.id AND am.bucket >= date_trunc('hour', NOW() - make_interval(hours => $2))
+          WHERE ${accessibleAgentsFilter('a')}
+          GROUP BY a.id`;
+
+        const percentilesResult = await database.query(
+          `WITH agent_uptime AS (${agentUptime})
+           SELECT percentile_cont(0.5) WITHIN GROUP (ORDER BY uptime) as p50,
+                  percentile_cont(0.9) WITHIN GROUP (ORDER BY uptime) as p90,
+                  percentile_cont(0.99) WITHIN GROUP (ORDER BY uptime) as p99,
+                  MIN(uptime) as min
+           FROM agent_uptime
+           WHERE uptime IS NOT NULL`,
+          [userId, hours]
+        );
+
+        const chainsResult = await database.query(
+          `WITH agent_uptime AS (${agentUptime})
+           SELECT au.chain,
+                  COUNT(*) as agents,
+                  COUNT(*) FILTER (WHERE au.status = 'active') as active_agents,
+                  COUNT(*) FILTER (WHERE au.status = 'error') as error_agents,
+                  AVG(au.uptime) as avg_uptime,
+                  AVG(au.response_time) as avg_response_time,
+                  COALESCE(SUM(open_alerts.count), 0) as unresolved_alerts
+           FROM agent_uptime au
+           LEFT JOIN LATERAL (
+             SELECT COUNT(*) as count FROM alerts al WHERE al.agent_id = au.id AND al.resolved = false
+           ) open_alerts ON true
+           GROUP BY au.chain
+           ORDER BY au.chain`,
+          [userId, hours]
+        );
+
+        const alertsResult = await database.query(
+          `SELECT al.severity, COUNT(*) as count
+           FROM alerts al
+           JOIN agents a ON al.agent_id = a.id
+           WHERE ${accessibleAgentsFilter('a')} AND al.resolved = false
+           GROUP BY al.severity`,
+          [userId]
+        );
+
+        const tasksResult = await database.query(
+          `SELECT t.status, COUNT(*) as count
+           FROM agent_tasks t
+           JOIN agents a ON t.agent_id = a.id
+           WHERE ${accessibleAgentsFilter('a')} AND t.created_at >= NOW() - make_interval(hours => $2)
+           GROUP BY t.status`,
+          [userId, hours]
+        );
+
+        const slos = await this.sloService.getSummary(userId);
+        const percentiles = percentilesResult.rows[0];
+
+        return {
+          totalAgents: parseInt(stats.total_agents),
+          activeAgents: parseInt(stats.active_agents),
+          errorAgents: parseInt(stats.error_agents),
+          avgUptime: parseFloat(stats.avg_uptime) || 0,
+          unresolvedAlerts: stats.unresolved_alerts,
+          uptimePercentiles: {
+            p50: parseFloat(percentiles.p50) || 0,
+            p90: parseFloat(percentiles.p90) || 0,
+            p99: parseFloat(percentiles.p99) || 0,
+            min: parseFloat(percentiles.min) || 0,
+          },
+          alertsBySeverity: this.countBy(Object.values(AlertSeverity), alertsResult.rows, 'severity'),
+          tasksByStatus: this.countBy(Object.values(TaskStatus), tasksResult.rows, 'status'),
+          chains: chainsResult.rows.map((row: any) => ({
+            chain: row.chain,
+            agents: parseInt(row.agents),
+            activeAgents: parseInt(row.active_agents),
+            errorAgents: parseInt(row.error_agents),
+            avgUptime: parseFloat(row.avg_uptime) || 0,
+            avgResponseTime: parseFloat(row.avg_response_time) || 0,
+            unresolvedAlerts: parseInt(row.unresolved_alerts),
+          })),
+          slos,
+          periodHours: hours,
+          generatedAt: new Date(),
+        };
+      } catch (error) {
+        logger.error('Failed to get dashboard overview', { userId, error });
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Hourly performance per chain and a per-agent summary, worst uptime first.
+   * Read from hourly rollups; p95 is taken over the hourly p95 values.
+   */
+  async getPerformance(userId: string, hours: number = 24): Promise<DashboardPerformance> {
+    return this.cached(`dashboard:${userId}:performance:${hours}`, async () => {
+      try {
+        const bucketsResult = await database.query(
+          `SELECT am.bucket,
+                  a.chain,
+                  SUM(am.uptime_avg * am.samples) / SUM(am.samples) as avg_uptime,
+                  SUM(am.response_time_avg * am.samples) / SUM(am.samples) as avg_response_time,
+                  percentile_cont(0.95) WITHIN GROUP (ORDER BY am.response_time_p95) as p95_response_time,
+                  SUM(am.network_latency_avg * am.samples) / SUM(am.samples) as avg_network_latency,
+                  SUM(am.samples) as samples
+           FROM agent_metrics_1h am
+           JOIN agents a ON am.agent_id = a.id
+           WHERE ${accessibleAgentsFilter('a')} AND am.bucket >= date_trunc('hour', NOW() - make_interval(hours => $2))
+           GROUP BY am.bucket, a.chain
+           ORDER BY bucket ASC, a.chain`,
+          [userId, hours]
+        );
+
+        const agentsResult = await database.query(
+          `SELECT a.id, a.name, a.chain,
+                  SUM(am.uptime_avg * am.samples) / SUM(am.samples) as avg_uptime,
+                  percentile_cont(0.95) WITHIN GROUP (ORDER BY am.response_time_p95) as p95_response_time,
+                  SUM(am.samples) as samples
+           FROM agent_metrics_1h am
+           JOIN agents a ON am.agent_id = a.id
+           WHERE ${accessibleAgentsFilter('a')} AND am.bucket >= date_trunc('hour', NOW() - make_interval(hours => $2))
+           GROUP BY a.id
+           ORDER BY avg_uptime ASC`,
+          [userId, hours]
+        );
+
+        return {
+          buckets: bucketsResult.rows.map((row: any) => ({
+            bucket: row.bucket,
+            chain: row.chain,
+            avgUptime: parseFloat(row.avg_uptime) || 0,
+            avgResponseTime: parseFloat(row.avg_response_time) || 0,
+            p95ResponseTime: parseFloat(row.p95_response_time) || 0,
+            avgNetworkLatency: parseFloat(row.avg_network_latency) || 0,
+            samples: parseInt(row.samples),
+          })),
+          agents: agentsResult.rows.map((row: any) => ({
+            agentId: row.id,
+            name: row.name,
+            chain: row.chain,
+            avgUptime: parseFloat(row.avg_uptime) || 0,
+            p95ResponseTime: parseFloat(row.p95_response_time) || 0,
+            samples: parseInt(row.samples),
+          })),
+          periodHours: hours,
+          generatedAt: new Date(),
+        };
+      } catch (error) {
+        logger.error('Failed to get dashboard performance', { userId, error });
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Alert counts by severity, type, chain and day
+   */
+  async getAlertSummary(userId: string, days: number = 30): Promise<DashboardAlertSummary> {
+    return this.cached(`dashboard:${userId}:alerts:${days}`, async () => {
+      try {
+        const params = [userId, days];
+        const scope = `FROM alerts al
+           JOIN agents a ON al.agent_id = a.id
+           WHERE ${accessibleAgentsFilter('a')} AND al.created_at >= NOW() - make_interval(days => $2)`;
+
+        const severityResult = await database.query(
+          `SELECT al.severity,
+                  COUNT(*) FILTER (WHERE al.resolved = false) as unresolved,
+                  COUNT(*) FILTER (WHERE al.resolved = true) as resolved
+           ${scope}
+           GROUP BY al.severity`,
+          params
+        );
+
+        const typeResult = await database.query(
+          `SELECT al.type, COUNT(*) as count ${scope} GROUP BY al.type ORDER BY count DESC`,
+          params
+        );
+
+        const chainResult = await database.query(
+          `SELECT a.chain, COUNT(*) as count, COUNT(*) FILTER (WHERE al.resolved = false) as unresolved
+           ${scope}
+           GROUP BY a.chain
+           ORDER BY a.chain`,
+          params
+        );
+
+        const dailyResult = await database.query(
+          `SELECT to_char(date_trunc('day', al.created_at), 'YYYY-MM-DD') as date, COUNT(*) as count
+           ${scope}
+           GROUP BY date
+           ORDER BY date ASC`,
+          params
+        );
+
+        const resolveResult = await database.query(
+          `SELECT AVG(EXTRACT(EPOCH FROM (al.resolved_at - al.created_at)) / 60) as minutes
+           ${scope} AND al.resolved = true AND al.resolved_at IS NOT NULL`,
+          params
+        );
+
+        const bySeverity = {} as DashboardAlertSummary['bySeverity'];
+        for (const severity of Object.values(AlertSeverity)) {
+          const row = severityResult.rows.find((candidate: any) => candidate.severity === severity);
+          bySeverity[severity] = {
+            unresolved: row ? parseInt(row.unresolved) : 0,
+            resolved: row ? parseInt(row.resolved) : 0,
+          };
+        }
+
+        const meanMinutes = resolveResult.rows[0].minutes;
+
+        return {
+          bySeverity,
+          byType: typeResult.rows.map((row: any) => ({ type: row.type, count: parseInt(row.count) })),
+          byChain: chainResult.rows.map((row: any) => ({
+            chain: row.chain,
+            count: parseInt(row.count),
+            unresolved: parseInt(row.unresolved),
+          })),
+          daily: dailyResult.rows.map((row: any) => ({ date: row.date, count: parseInt(row.count) })),
+          meanTimeToResolveMinutes: meanMinutes !== null ? parseFloat(meanMinutes) : null,
+          periodDays: days,
+          generatedAt: new Date(),
+        };
+      } catch (error) {
+        logger.error('Failed to get dashboard alert summary', { userId, error });
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Transaction value and fees recorded for the user's agents
+   */
+  async getRevenue(userId: string, days: number = 30): Promise<DashboardRevenue> {
+    return this.cached(`dashboard:${userId}:revenue:${days}`, async () => {
+      try {
+        const chainResult = await database.query(
+          `SELECT chain,
+                  COUNT(*) as transactions,
+                  COALESCE(SUM(value), 0) as value,
+                  COALESCE(SUM(gas_used * gas_price), 0) as fees
+           FROM transactions
+           WHERE user_id = $1 AND recorded_at >= NOW() - make_interval(days => $2)
+           GROUP BY chain
+           ORDER BY chain`,
+          [userId, days]
+        );
+
+        const dailyResult = await database.query(
+          `SELECT to_char(date_trunc('day', recorded_at), 'YYYY-MM-DD') as date,
+                  chain,
+                  COUNT(*) as transactions,
+                  COALESCE(SUM(value), 0) as value
+           FROM transactions
+           WHERE user_id = $1 AND recorded_at >= NOW() - make_interval(days => $2)
+           GROUP BY date, chain
+           ORDER BY date ASC, chain`,
+          [userId, days]
+        );
+
+        const byChain = chainResult.rows.map((row: any) => ({
+          chain: row.chain,
+          transactions: parseInt(row.transactions),
+          value: parseFloat(row.value),
+          fees: parseFloat(row.fees),
+        }));
+
+        return {
+          totalTransactions: byChain.reduce((sum: number, row: any) => sum + row.transactions, 0),
+          totalValue: byChain.reduce((sum: number, row: any) => sum + row.value, 0),
+          totalFees: byChain.reduce((sum: number, row: any) => sum + row.fees, 0),
+          byChain,
+          daily: dailyResult.rows.map((row: any) => ({
+            date: row.date,
+            chain: row.chain,
+            transactions: parseInt(row.transactions),
+            value: parseFloat(row.value),
+          })),
+          periodDays: days,
+          generatedAt: new Date(),
+        };
+      } catch (error) {
+        logger.error('Failed to get dashboard revenue', { userId, error });
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Health status of the user's fleet
+   */
+  async getHealth(userId: string): Promise<SystemHealth> {
+    return this.cached(`dashboard:${userId}:health`, () => this.monitoringService.getSystemHealth(userId));
+  }
+
+  /**
+   * Attainment, error budget and burn rates of every SLO the user can see
+   */
+  async getSlos(userId: string): Promise<SloWithStatus[]> {
+    return this.cached(`dashboard:${userId}:slos`, () => this.sloService.listSlos(userId));
+  }
+
+  private async cached<T>(key: string, loader: () => Promise<T>): Promise<T> {
+    try {
+      const hit = await redis.get(key);
+      if (hit) {
+        return JSON.parse(hit);
+      }
+    } catch (error) {
+      logger.warn('Dashboard cache read failed', { key, error });
+    }
+
+    const value = await loader();
+
+    try {
+      await redis.set(key, JSON.stringify(value), this.cacheTtlSeconds);
+    } catch (error) {
+      logger.warn('Dashboard cache write failed', { key, error });
+    }
+
+    return value;
+  }
+
+  private countBy<K extends string>(keys: K[], rows: any[], column: string): Record<K, number> {
+    const counts = {} as Record<K, number>;
+    for (const key of keys) {
+      const row = rows.find(candidate => candidate[column] === key);
+      counts[key] = row ? parseInt(row.count) : 0;
+    }
+    return counts;
+  }
+}
@@ -0,0 +1,268 @@
+import { database } from '../config/database';
+import { logger } from '../utils/logger';
+import { Alert, ValidationError } from '../types';
+import { accessibleAgentsFilter } from './OrganizationService';
+import { OnCallService, assertPageableUsers } from './OnCallService';
+import { NotificationService } from './NotificationService';
+import { toMonitoringAlert } from './AlertService';
+import {
+  OwnedResource,
+  EscalationPolicy,
+  EscalationTier,
+  CreateEscalationPolicyData,
+  UpdateEscalationPolicyData,
+} from '../models/Escalation';
+
+export interface EscalationStep {
+  alert: Alert;
+  tier: number; // zero-based tier that was notified
+  recipients: string[];
+}
+
+/**
+ * Escalation policies page tier after tier until an alert is acknowledged
+ * or resolved. The current tier and when the next one is due are stored on
+ * the alert, so any replica can drive escalations.
+ */
+export class EscalationService {
+  private onCallService: OnCallService;
+  private notificationService: NotificationService;
+
+  constructor() {
+    this.onCallService = new OnCallService();
+    this.notificationService = new NotificationService();
+  }
+
+  /**
+   * Policies the user can see, optionally limited to one organization
+   */
+  async listPolicies(userId: string, organizationId?: string): Promise<EscalationPolicy[]> {
+    try {
+      const values: any[] = [userId];
+      let query = `SELECT p.* FROM escalation_policies p WHERE ${accessibleAgentsFilter('p')}`;
+
+      if (organizationId) {
+        values.push(organizationId);
+        query += ' AND p.organization_id = $2';
+      }
+
+      const result = await database.query(`${query} ORDER BY p.name`, values);
+      return result.rows;
+    } catch (error) {
+      logger.error('Failed to list escalation policies', { userId, error });
+      throw error;
+    }
+  }
+
+  async getPolicy(policyId: string): Promise<EscalationPolicy | null> {
+    try {
+      const result = await database.query('SELECT * FROM escalation_policies WHERE id = $1', [policyId]);
+      return result.rows[0] || null;
+    } catch (error) {
+      logger.error('Failed to get escalation policy', { policyId, error });
+      throw error;
+    }
+  }
+
+  async createPolicy(data: CreateEscalationPolicyData): Promise<EscalationPolicy> {
+    try {
+      await this.validateTiers(data, data.tiers);
+
+      const result = await database.query(
+        `INSERT INTO escalation_policies (user_id, organization_id, name, tiers)
+         VALUES ($1, $2, $3, $4)
+         RETURNING *`,
+        [data.user_id, data.organization_id || null, data.name, JSON.stringify(data.tiers)]
+      );
+
+      logger.info('Escalation policy created', { policyId: result.rows[0].id, userId: data.user_id });
+      return result.rows[0];
+    } catch (error) {
+      logger.error('Failed to create escalation policy', { userId: data.user_id, error });
+      throw error;
+    }
+  }
+
+  async updatePolicy(policy: EscalationPolicy, data: UpdateEscalationPolicyData): Promise<EscalationPolicy> {
+    try {
+      if (data.tiers !== undefined) {
+        await this.validateTiers(policy, data.tiers);
+      }
+
+      const result = await database.query(
+        `UPDATE escalation_policies SET name = COALESCE($1, name), tiers = COALESCE($2, tiers)
+         WHERE id = $3
+         RETURNING *`,
+        [data.name || null, data.tiers ? JSON.stringify(data.tiers) : null, policy.id]
+      );
+
+      logger.info('Escalation policy updated', { policyId: policy.id });
+      return result.rows[0];
+    } catch (error) {
+      logger.error('Failed to update escalation policy', { policyId: policy.id, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a policy; agents using it fall back to plain notifications
+   */
+  async deletePolicy(policyId: string): Promise<void> {
+    try {
+      await database.query('DELETE FROM escalation_policies WHERE id = $1', [policyId]);
+      logger.info('Escalation policy deleted', { policyId });
+    } catch (error) {
+      logger.error('Failed to delete escalation policy', { policyId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Check that an agent may use a policy: an organization's agents use its
+   * policies, personal agents their owner's personal policies
+   */
+  isPolicyUsableBy(policy: EscalationPolicy, agent: OwnedResource): boolean {
+    if (agent.organization_id) {
+      return policy.organization_id === agent.organization_id;
+    }
+    return !policy.organization_id && policy.user_id === agent.user_id;
+  }
+
+  /**
+   * Notify the first tier of a new alert and schedule the next one
+   */
+  async startEscalation(alert: Alert, policyId: string): Promise<EscalationStep | null> {
+    try {
+      const policy = await this.getPolicy(policyId);
+      if (!policy || policy.tiers.length === 0) {
+        return null;
+      }
+
+      const result = await database.query(
+        `UPDATE alerts SET
+           escalation_policy_id = $1,
+           escalation_tier = 0,
+           next_escalation_at = CASE WHEN $2 THEN NOW() + make_interval(mins => $3) END
+         WHERE id = $4 AND resolved = false AND acknowledged_at IS NULL
+         RETURNING *`,
+        [policy.id, policy.tiers.length > 1, policy.tiers[0].escalateAfterMinutes, alert.id]
+      );
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      return await this.notifyTier(result.rows[0], policy.tiers, 0);
+    } catch (error) {
+      logger.error('Failed to start escalation', { alertId: alert.id, policyId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Move every due, unacknowledged alert to its next tier and notify it.
+   * Claiming advances the tier in the same statement, so concurrent
+   * replicas never notify a tier twice.
+   */
+  async processDueEscalations(): Promise<EscalationStep[]> {
+    try {
+      const claimed = await database.query(
+        `UPDATE alerts al SET
+           escalation_tier = al.escalation_tier + 1,
+           next_escalation_at = CASE
+             WHEN jsonb_array_length(p.tiers) > al.escalation_tier + 2
+             THEN NOW() + make_interval(mins => (p.tiers -> (al.escalation_tier + 1) ->> 'escalateAfterMinutes')::int)
+           END
+         FROM escalation_policies p
+         WHERE p.id = al.escalation_policy_id
+           AND al.next_escalation_at <= NOW()
+           AND al.resolved = false
+           AND al.acknowledged_at IS NULL
+           AND jsonb_array_length(p.tiers) > al.escalation_tier + 1
+         RETURNING al.*, p.tiers AS policy_tiers`
+      );
+
+      // Policies deleted or shortened since the alert was last escalated
+      await database.query(
+        `UPDATE alerts al SET next_escalation_at = NULL
+         WHERE al.next_escalation_at <= NOW() AND NOT EXISTS (
+           SELECT 1 FROM escalation_policies p
+           WHERE p.id = al.escalation_policy_id AND jsonb_array_length(p.tiers) > al.escalation_tier + 1
+         )`
+      );
+
+      const steps: EscalationStep[] = [];
+
+      for (const { policy_tiers, ...alert } of claimed.rows) {
+        const step = await this.notifyTier(alert, policy_tiers, alert.escalation_tier).catch(error => {
+          logger.warn('Failed to notify escalation tier', { alertId: alert.id, error: error.message });
+          return null;
+        });
+
+        if (step) {
+          steps.push(step);
+        }
+      }
+
+      return steps;
+    } catch (error) {
+      logger.error('Failed to process due escalations', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Page everyone a tier targets, resolving schedules to whoever is on call
+   */
+  private async notifyTier(alert: Alert, tiers: EscalationTier[], tier: number): Promise<EscalationStep> {
+    const recipients = new Set<string>();
+
+    for (const target of tiers[tier].targets) {
+      if (target.type === 'user') {
+        recipients.add(target.id);
+      } else {
+        const userId = await this.onCallService.getOnCallUser(target.id);
+        if (userId) {
+          recipients.add(userId);
+        }
+      }
+    }
+
+    const notification = toMonitoringAlert(alert);
+    notification.message = `[Escalation tier ${tier + 1}/${tiers.length}] ${alert.message}`;
+
+    for (const userId of recipients) {
+      await this.notificationService.sendAlert(userId, notification);
+    }
+
+    await database.query('UPDATE alerts SET last_notified_at = CURRENT_TIMESTAMP WHERE id = $1', [alert.id]);
+
+    logger.info('Escalation tier notified', { alertId: alert.id, tier: tier + 1, recipients: recipients.size });
+    return { alert, tier, recipients: [...recipients] };
+  }
+
+  /**
+   * Targets must be pageable for the policy and schedules must share its scope
+   */
+  private async validateTiers(owner: OwnedResource, tiers: EscalationTier[]): Promise<void> {
+    const targets = tiers.flatMap(tier => tier.targets);
+
+    await assertPageableUsers(owner, targets.filter(target => target.type === 'user').map(target => target.id));
+
+    const scheduleIds = [...new Set(targets.filter(target => target.type === 'schedule').map(target => target.id))];
+    if (scheduleIds.length === 0) {
+      return;
+    }
+
+    const result = await database.query(
+      `SELECT id FROM oncall_schedules
+       WHERE id = ANY($1::uuid[])
+         AND ${owner.organization_id ? 'organization_id = $2' : 'organization_id IS NULL AND user_id = $2'}`,
+      [scheduleIds, owner.organization_id || owner.user_id]
+    );
+
+    if (result.rows.length !== scheduleIds.length) {
+      throw new ValidationError('Escalation targets must be schedules of the same organization or owner');
+    }
+  }
+}
@@ -0,0 +1,192 @@
+import crypto from 'crypto';
+import { database } from '../config/database';
+import { redis } from '../config/redis';
+import { logger } from '../utils/logger';
+import { parseExposition } from '../utils/prometheus';
+import { readNodeExporter, CpuTotals } from '../collectors';
+import { MetricsService, MetricsSample } from './MetricsService';
+import { AgentIngestionToken, AgentIngestionTokenWithSecret, IngestionResult } from '../models/Agent';
+
+const TOKEN_PREFIX = 'mti_';
+const DISPLAY_PREFIX_LENGTH = 12;
+const PUBLIC_COLUMNS = 'agent_id, token_prefix, created_by, created_at, last_used_at';
+
+// Pushed samples must land inside the window the per-minute rollup still recomputes
+export const MAX_SAMPLE_AGE_MS = 5 * 60 * 1000;
+export const MAX_SAMPLE_LEAD_MS = 60 * 1000;
+
+const CPU_TOTALS_TTL_SECONDS = 60 * 60;
+
+export interface IngestionBatch {
+  sent_at?: Date;
+  samples: MetricsSample[];
+}
+
+/**
+ * Metrics pushed by a sidecar on the node, in our JSON shape or as a
+ * node_exporter scrape. Each agent has at most one token; it is shown once
+ * and stored as a SHA-256 hash.
+ */
+export class MetricsIngestionService {
+  private metricsService: MetricsService;
+
+  constructor() {
+    this.metricsService = new MetricsService();
+  }
+
+  /**
+   * Create the agent's token, replacing any previous one. The secret is only returned here.
+   */
+  async createToken(agentId: string, userId: string): Promise<AgentIngestionTokenWithSecret> {
+    try {
+      const secret = TOKEN_PREFIX + crypto.randomBytes(30).toString('base64url');
+
+      const result = await database.query(
+        `INSERT INTO agent_ingestion_tokens (agent_id, token_hash, token_prefix, created_by)
+         VALUES ($1, $2, $3, $4)
+         ON CONFLICT (agent_id) DO UPDATE SET
+           token_hash = EXCLUDED.token_hash,
+           token_prefix = EXCLUDED.token_prefix,
+           created_by = EXCLUDED.created_by,
+           created_at = CURRENT_TIMESTAMP,
+           last_used_at = NULL
+         RETURNING ${PUBLIC_COLUMNS}`,
+        [agentId, this.hash(secret), secret.slice(0, DISPLAY_PREFIX_LENGTH), userId]
+      );
+
+      logger.info('Ingestion token created', { agentId, userId });
+      return { token: result.rows[0], secret };
+    } catch (error) {
+      logger.error('Failed to create ingestion token', { agentId, userId, error });
+      throw error;
+    }
+  }
+
+  async getToken(agentId: string): Promise<AgentIngestionToken | null> {
+    try {
+      const result = await database.query(
+        `SELECT ${PUBLIC_COLUMNS} FROM agent_ingestion_tokens WHERE agent_id = $1`,
+        [agentId]
+      );
+      return result.rows[0] || null;
+    } catch (error) {
+      logger.error('Failed to get ingestion token', { agentId, error });
+      throw error;
+    }
+  }
+
+  async revokeToken(agentId: string): Promise<boolean> {
+    try {
+      const result = await database.query('DELETE FROM agent_ingestion_tokens WHERE agent_id = $1', [agentId]);
+
+      if (result.rowCount === 0) {
+        return false;
+      }
+
+      logger.info('Ingestion token revoked', { agentId });
+      return true;
+    } catch (error) {
+      logger.error('Failed to revoke ingestion token', { agentId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Check a pushed secret against the agent's token
+   */
+  async authenticate(agentId: string, secret: string): Promise<boolean> {
+    if (!secret.startsWith(TOKEN_PREFIX)) {
+      return false;
+    }
+
+    const result = await database.query(
+      'SELECT agent_id FROM agent_ingestion_tokens WHERE agent_id = $1 AND token_hash = $2',
+      [agentId, this.hash(secret)]
+    );
+
+    if (result.rows.length === 0) {
+      return false;
+    }
+
+    // At most one write per token per minute
+    database.query(
+      `UPDATE agent_ingestion_tokens SET last_used_at = CURRENT_TIMESTAMP
+       WHERE agent_id = $1 AND (last_used_at IS NULL OR last_used_at < CURRENT_TIMESTAMP - INTERVAL '1 minute')`,
+      [agentId]
+    ).catch(error => logger.warn('Failed to record ingestion token use', { agentId, error: error.message }));
+
+    return true;
+  }
+
+  /**
+   * Store a JSON batch. Timestamps are shifted by the gap between the
+   * batch's `sent_at` and our clock; samples that then fall outside the
+   * accepted window are rejected and reported, the rest stored.
+   */
+  async ingestBatch(agentId: string, batch: IngestionBatch): Promise<IngestionResult> {
+    try {
+      const now = Date.now();
+      const offset = batch.sent_at ? now - batch.sent_at.getTime() : 0;
+
+      const accepted: MetricsSample[] = [];
+      const rejected: IngestionResult['rejected'] = [];
+
+      batch.samples.forEach((sample, index) => {
+        const recordedAt = sample.recorded_at ? sample.recorded_at.getTime() + offset : now;
+
+        if (recordedAt < now - MAX_SAMPLE_AGE_MS) {
+          rejected.push({ index, reason: `Older than ${MAX_SAMPLE_AGE_MS / 60000} minutes` });
+        } else if (recordedAt > now + MAX_SAMPLE_LEAD_MS) {
+          rejected.push({ index, reason: 'Recorded in the future' });
+        } else {
+          accepted.push({ ...sample, recorded_at: new Date(recordedAt) });
+        }
+      });
+
+      if (accepted.length > 0) {
+        await this.metricsService.recordSamples(agentId, accepted);
+      }
+
+      if (rejected.length > 0) {
+        logger.warn('Rejected pushed metrics samples', { agentId, rejected: rejected.length, clockOffsetMs: offset });
+      }
+
+      return { accepted: accepted.length, rejected, clock_offset_ms: offset };
+    } catch (error) {
+      logger.error('Failed to ingest metrics', { agentId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Store a node_exporter scrape as one sample recorded now. CPU counters
+   * are kept until the next push to turn them into usage.
+   */
+  async ingestNodeExporter(agentId: string, exposition: string, mountpoint?: string): Promise<IngestionResult> {
+    try {
+      const key = `ingest:cpu:${agentId}`;
+      const stored = await redis.get(key);
+      const previousCpu: CpuTotals | null = stored ? JSON.parse(stored) : null;
+
+      const { metrics, cpu } = readNodeExporter(parseExposition(exposition), previousCpu, mountpoint);
+
+      if (cpu) {
+        await redis.set(key, JSON.stringify(cpu), CPU_TOTALS_TTL_SECONDS);
+      }
+
+      if (Object.keys(metrics).length === 0) {
+        return { accepted: 0, rejected: [{ index: 0, reason: 'No usable node_exporter metrics' }], clock_offset_ms: 0 };
+      }
+
+      await this.metricsService.recordSamples(agentId, [metrics]);
+      return { accepted: 1, rejected: [], clock_offset_ms: 0 };
+    } catch (error) {
+      logger.error('Failed to ingest node_exporter metrics', { agentId, error });
+      throw error;
+    }
+  }
+
+  private hash(secret: string): string {
+    return crypto.createHash('sha256').update(secret).digest('hex');
+  }
+}
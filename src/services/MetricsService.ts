@@ -0,0 +1,294 @@
+import { database } from '../config/database';
+import { redis } from '../config/redis';
+import { logger } from '../utils/logger';
+import { AgentMetrics, MetricsResolution } from '../models/Agent';
+import { CollectedMetrics } from '../collectors/MetricsCollector';
+import { PLANS } from './SubscriptionService';
+import { SubscriptionPlan } from '../types';
+
+// Every replica hears about new samples; the message is `{ agentId, metricsId }`
+export const METRICS_RECORDED_CHANNEL = 'metrics:recorded';
+
+export interface MetricsRecordedEvent {
+  agentId: string;
+  metricsId: string;
+}
+
+// A sample may leave fields out; the stored row repeats the agent's previous values
+export type MetricsSample = Partial<CollectedMetrics> & { recorded_at?: Date };
+
+export interface MetricsHistory {
+  resolution: MetricsResolution;
+  metrics: any[]; // rollups also carry the raw field names, set to the bucket average
+}
+
+// agent_metrics columns a sample sets, the type its parameter is cast to and
+// the value stored when neither the sample nor the previous one has it
+const SAMPLE_COLUMNS: [keyof CollectedMetrics, string, string][] = [
+  ['uptime', 'numeric', '0'],
+  ['response_time', 'integer', '0'],
+  ['cpu_usage', 'numeric', 'NULL'],
+  ['memory_usage', 'numeric', 'NULL'],
+  ['disk_usage', 'numeric', 'NULL'],
+  ['network_latency', 'integer', '0'],
+  ['peer_count', 'integer', '0'],
+  ['block_height', 'bigint', '0'],
+  ['sync_status', 'boolean', 'false'],
+  ['sync_lag', 'integer', 'NULL'],
+];
+
+// Rolled up as <field>_min, _avg, _max and _p95; sync_status as the share in sync
+const ROLLUP_FIELDS = [
+  'uptime',
+  'response_time',
+  'cpu_usage',
+  'memory_usage',
+  'disk_usage',
+  'network_latency',
+  'peer_count',
+  'block_height',
+];
+
+const ROLLUP_COLUMNS = [
+  ...ROLLUP_FIELDS.flatMap(field => [`${field}_min`, `${field}_avg`, `${field}_max`, `${field}_p95`]),
+  'sync_status_avg',
+];
+
+interface RollupTier {
+  resolution: Exclude<MetricsResolution, 'raw'>;
+  unit: 'minute' | 'hour' | 'day';
+  table: string;
+  lookback: string; // buckets this far behind the newest are recomputed to pick up late samples
+}
+
+// Each tier is rolled up from the one before it, the first from raw samples
+const ROLLUP_TIERS: RollupTier[] = [
+  { resolution: '1m', unit: 'minute', table: 'agent_metrics_1m', lookback: '10 minutes' },
+  { resolution: '1h', unit: 'hour', table: 'agent_metrics_1h', lookback: '2 hours' },
+  { resolution: '1d', unit: 'day', table: 'agent_metrics_1d', lookback: '2 days' },
+];
+
+const METRICS_TABLES: Record<MetricsResolution, { table: string; time: string }> = {
+  raw: { table: 'agent_metrics', time: 'recorded_at' },
+  '1m': { table: 'agent_metrics_1m', time: 'bucket' },
+  '1h': { table: 'agent_metrics_1h', time: 'bucket' },
+  '1d': { table: 'agent_metrics_1d', time: 'bucket' },
+};
+
+// Longest range served at each resolution, finest first
+const MAX_RANGE_MINUTES: [MetricsResolution, number][] = [
+  ['raw', 6 * 60],
+  ['1m', 24 * 60],
+  ['1h', 31 * 24 * 60],
+  ['1d', Infinity],
+];
+
+/**
+ * Aggregates of one rollup row, computed from raw samples or from the finer
+ * tier. Minimum, maximum and average stay exact across tiers. p95 is only
+ * exact per minute: a coarser tier takes the p95 of the finer buckets' p95
+ * values, an approximation that ignores how many samples each bucket holds
+ * and can differ from the p95 of the raw samples, most when load is uneven
+ * across the hour or day.
+ */
+export function rollupAggregates(fromRaw: boolean): string {
+  if (fromRaw) {
+    return [
+      'COUNT(*)',
+      ...ROLLUP_FIELDS.map(field => `MIN(${field}), AVG(${field}), MAX(${field}), percentile_cont(0.95) WITHIN GROUP (ORDER BY ${field})`),
+      'AVG(sync_status::int)',
+    ].join(',\n');
+  }
+
+  return [
+    'SUM(samples)',
+    ...ROLLUP_FIELDS.map(field => `MIN(${field}_min), SUM(${field}_avg * samples) / SUM(samples), MAX(${field}_max), percentile_cont(0.95) WITHIN GROUP (ORDER BY ${field}_p95)`),
+    'SUM(sync_status_avg * samples) / SUM(samples)',
+  ].join(',\n');
+}
+
+/**
+ * Pick the finest resolution suited to the range that the plan still keeps
+ * for the whole range
+ */
+export function selectResolution(rangeMinutes: number, retentionDays: Record<MetricsResolution, number>): MetricsResolution {
+  const match = MAX_RANGE_MINUTES.find(([resolution, maxMinutes]) =>
+    rangeMinutes <= maxMinutes && retentionDays[resolution] * 24 * 60 >= rangeMinutes
+  );
+  return match ? match[0] : '1d';
+}
+
+export class MetricsService {
+  /**
+   * Store a metrics sample and announce it so alert rules run against it
+   */
+  async recordMetrics(agentId: string, metrics: CollectedMetrics): Promise<AgentMetrics> {
+    const [sample] = await this.recordSamples(agentId, [metrics]);
+    return sample;
+  }
+
+  /**
+   * Store samples oldest first, each filling the fields it leaves out from
+   * the agent's previous sample. Only the newest is announced, so alert
+   * rules evaluate a batch once.
+   */
+  async recordSamples(agentId: string, samples: MetricsSample[]): Promise<AgentMetrics[]> {
+    try {
+      const ordered = [...samples].sort((a, b) =>
+        (a.recorded_at?.getTime() ?? Date.now()) - (b.recorded_at?.getTime() ?? Date.now())
+      );
+
+      const columns = SAMPLE_COLUMNS.map(([field]) => field).join(', ');
+      const values = SAMPLE_COLUMNS.map(([field, type, fallback], index) =>
+        `COALESCE($${index + 3}::${type}, prev.${field}, ${fallback})`
+      ).join(', ');
+
+      const stored = await database.transaction(async (client) => {
+        const rows: AgentMetrics[] = [];
+
+        for (const sample of ordered) {
+          const result = await client.query(
+            `INSERT INTO agent_metrics (agent_id, recorded_at, ${columns})
+             SELECT $1, COALESCE($2::timestamp, CURRENT_TIMESTAMP), ${values}
+             FROM (SELECT 1) AS one
+             LEFT JOIN LATERAL (
+               SELECT * FROM agent_metrics
+               WHERE agent_id = $1 AND recorded_at <= COALESCE($2::timestamp, CURRENT_TIMESTAMP)
+               ORDER BY recorded_at DESC
+               LIMIT 1
+             ) prev ON true
+             RETURNING *`,
+            [agentId, sample.recorded_at || null, ...SAMPLE_COLUMNS.map(([field]) => sample[field] ?? null)]
+          );
+          rows.push(result.rows[0]);
+        }
+
+        return rows;
+      });
+
+      const latest = stored[stored.length - 1];
+      if (latest) {
+        const event: MetricsRecordedEvent = { agentId, metricsId: latest.id };
+        await redis.publish(METRICS_RECORDED_CHANNEL, JSON.stringify(event)).catch(error => {
+          logger.warn('Failed to announce metrics sample', { agentId, metricsId: latest.id, error: error.message });
+        });
+      }
+
+      return stored;
+    } catch (error) {
+      logger.error('Failed to record metrics', { agentId, samples: samples.length, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Metrics of an agent over the last `rangeMinutes`, oldest first, at the
+   * resolution picked for the range
+   */
+  async getMetricsHistory(agentId: string, rangeMinutes: number): Promise<MetricsHistory> {
+    try {
+      const planResult = await database.query(
+        `SELECT s.plan FROM agents a
+         LEFT JOIN LATERAL (
+           SELECT plan FROM subscriptions WHERE user_id = a.user_id ORDER BY created_at DESC LIMIT 1
+         ) s ON true
+         WHERE a.id = $1`,
+        [agentId]
+      );
+
+      const plan: SubscriptionPlan = planResult.rows[0]?.plan ?? SubscriptionPlan.STARTER;
+      const resolution = selectResolution(rangeMinutes, PLANS[plan].limits.metricsRetentionDays);
+
+      if (resolution === 'raw') {
+        const result = await database.query(
+          `SELECT * FROM agent_metrics
+           WHERE agent_id = $1 AND recorded_at >= NOW() - make_interval(mins => $2)
+           ORDER BY recorded_at ASC`,
+          [agentId, rangeMinutes]
+        );
+
+        return { resolution, metrics: result.rows };
+      }
+
+      const tier = ROLLUP_TIERS.find(item => item.resolution === resolution)!;
+      const averages = ROLLUP_FIELDS.map(field => `r.${field}_avg AS ${field}`).join(', ');
+
+      const result = await database.query(
+        `SELECT r.*, r.bucket AS recorded_at, ${averages}, r.sync_status_avg >= 0.5 AS sync_status
+         FROM ${tier.table} r
+         WHERE r.agent_id = $1 AND r.bucket >= date_trunc('${tier.unit}', NOW() - make_interval(mins => $2))
+         ORDER BY r.bucket ASC`,
+        [agentId, rangeMinutes]
+      );
+
+      return { resolution, metrics: result.rows };
+    } catch (error) {
+      logger.error('Failed to get metrics history', { agentId, rangeMinutes, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Refresh every rollup tier, from the newest bucket (less its lookback)
+   * onwards. The current, still-filling bucket is included and rewritten
+   * on the next run.
+   */
+  async rollUp(): Promise<void> {
+    try {
+      let source = METRICS_TABLES.raw;
+
+      for (const tier of ROLLUP_TIERS) {
+        const updates = ROLLUP_COLUMNS.map(column => `${column} = EXCLUDED.${column}`);
+
+        await database.query(
+          `INSERT INTO ${tier.table} (agent_id, bucket, samples, ${ROLLUP_COLUMNS.join(', ')})
+           SELECT agent_id, date_trunc('${tier.unit}', ${source.time}),
+                  ${rollupAggregates(source.table === METRICS_TABLES.raw.table)}
+           FROM ${source.table}
+           WHERE ${source.time} >= (
+             SELECT COALESCE(date_trunc('${tier.unit}', MAX(bucket) - INTERVAL '${tier.lookback}'), '-infinity')
+             FROM ${tier.table}
+           )
+           GROUP BY agent_id, date_trunc('${tier.unit}', ${source.time})
+           ON CONFLICT (agent_id, bucket) DO UPDATE SET samples = EXCLUDED.samples, ${updates.join(', ')}`
+        );
+
+        source = METRICS_TABLES[tier.resolution];
+      }
+    } catch (error) {
+      logger.error('Failed to roll up metrics', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete raw samples and rollups past the retention of the agent owner's plan
+   */
+  async applyRetention(): Promise<void> {
+    try {
+      const plans = Object.values(PLANS);
+
+      for (const [resolution, { table, time }] of Object.entries(METRICS_TABLES) as [MetricsResolution, { table: string; time: string }][]) {
+        const days = plans.map(plan => plan.limits.metricsRetentionDays[resolution]);
+
+        const result = await database.query(
+          `DELETE FROM ${table} t
+           USING agents a
+           LEFT JOIN LATERAL (
+             SELECT plan FROM subscriptions WHERE user_id = a.user_id ORDER BY created_at DESC LIMIT 1
+           ) s ON true
+           JOIN unnest($1::text[], $2::int[]) AS r(plan, days) ON r.plan = COALESCE(s.plan::text, $3)
+           WHERE t.agent_id = a.id
+             AND t.${time} < NOW() - make_interval(days => $4)
+             AND t.${time} < NOW() - make_interval(days => r.days)`,
+          [plans.map(plan => plan.plan), days, SubscriptionPlan.STARTER, Math.min(...days)]
+        );
+
+        logger.info('Metrics retention applied', { resolution, deleted: result.rowCount });
+      }
+    } catch (error) {
+      logger.error('Failed to apply metrics retention', { error });
+      throw error;
+    }
+  }
+}
@@ -4,8 +4,17 @@ import { database } from '../config/database';
 import { redis } from '../config/redis';
 import { logger } from '../utils/logger';
 import { AgentService } from './AgentService';
-import { NotificationService } from './NotificationService';
-import { SupportedChain, AgentStatus, AlertSeverity } from '../types';
+import { SubscriptionService } from './SubscriptionService';
+import { accessibleAgentsFilter } from './OrganizationService';
+import { TaskQueueService, QueuedTaskJob } from './TaskQueueService';
+import { AlertRuleService, RuleOutcome } from './AlertRuleService';
+import { AlertService, RaiseAlertData, toMonitoringAlert } from './AlertService';
+import { EscalationService, EscalationStep } from './EscalationService';
+import { AnomalyDetectionService, AnomalyOutcome } from './AnomalyDetectionService';
+import { SloService, SloSummary } from './SloService';
+import { MetricsService, MetricsHistory, METRICS_RECORDED_CHANNEL, MetricsRecordedEvent } from './MetricsService';
+import { AgentTask } from './AIAgentService';
+import { SupportedChain, AgentStatus, AlertSeverity, TaskPriority } from '../types';
 
 export { AlertSeverity };
 
@@ -17,28 +26,79 @@ export interface MonitoringAlert {
   message: string;
   timestamp: Date;
   resolved: boolean;
+  occurrenceCount?: number;
+  lastSeen?: Date;
 }
 
+// Ranges clients can request over WebSocket
+const TIME_RANGE_MINUTES: Record<string, number> = {
+  '5m': 5,
+  '15m': 15,
+  '1h': 60,
+  '6h': 6 * 60,
+  '24h': 24 * 60,
+  '7d': 7 * 24 * 60,
+  '30d': 30 * 24 * 60,
+  '1y': 365 * 24 * 60,
+};
+
+// Uptime below which the system is in warning while no SLO is defined
+const DEFAULT_AVAILABILITY_OBJECTIVE = 95;
+
 export interface SystemHealth {
   totalAgents: number;
   activeAgents: number;
   errorAgents: number;
   avgUptime: number;
   unresolvedAlerts: number;
+  slos: SloSummary;
   systemStatus: 'healthy' | 'warning' | 'critical';
 }
 
 export class MonitoringService {
   private io: Server;
   private agentService: AgentService;
-  private notificationService: NotificationService;
+  private subscriptionService: SubscriptionService;
+  private taskQueue: TaskQueueService;
+  private alertRuleService: AlertRuleService;
+  private alertService: AlertService;
+  private escalationService: EscalationService;
+  private anomalyDetectionService: AnomalyDetectionService;
+  private sloService: SloService;
+  private metricsService: MetricsService;
   private monitoringJobs: Map<string, any> = new Map();
   private isRunning: boolean = false;
 
-  constructor(io: Server) {
+  constructor(io: Server, agentService: AgentService, taskQueue: TaskQueueService) {
     this.io = io;
-    this.agentService = new AgentService();
-    this.notificationService = new NotificationService();
+    this.agentService = agentService;
+    this.subscriptionService = new SubscriptionService();
+    this.taskQueue = taskQueue;
+    this.alertRuleService = new AlertRuleService();
+    this.alertService = new AlertService();
+    this.escalationService = new EscalationService();
+    this.anomalyDetectionService = new AnomalyDetectionService();
+    this.sloService = new SloService();
+    this.metricsService = new MetricsService();
+
+    // Health check results arrive from whichever worker ran the task
+    this.taskQueue.on('completed', (job: QueuedTaskJob, task: AgentTask) => {
+      if (task.type === 'monitor') {
+        this.handleHealthCheckCompleted(task).catch(error => {
+          logger.error('Failed to process health check result', { agentId: task.agentId, error });
+        });
+      }
+    });
+
+    this.taskQueue.on('dead', (job: QueuedTaskJob, message: string) => {
+      if (job.task.type === 'monitor') {
+        this.createAlert(job.agentId, {
+          type: 'health_check_failed',
+          severity: AlertSeverity.CRITICAL,
+          message: `Health check failed: ${message}`,
+        }).catch(() => undefined);
+      }
+    });
   }
 
   /**
@@ -56,9 +116,28 @@ export class MonitoringService {
       // Start system health monitoring
       this.startSystemHealthMonitoring();
 
+      // Start scheduling health checks for active agents
+      this.startAgentScheduler();
+
       // Start agent discovery and monitoring
       await this.discoverAndMonitorAgents();
 
+      // Evaluate alert rules on every metrics sample, and absence rules every minute
+      await this.startAlertRuleEvaluation();
+      this.startAbsenceRuleSweep();
+
+      // Send grouped alert notifications once their incident stops collecting
+      this.startIncidentFlushing();
+
+      // Page the next escalation tier for alerts nobody acknowledged
+      this.startEscalationProcessing();
+
+      // Keep per-minute, hourly and daily metrics rollups current
+      this.startMetricsRollup();
+
+      // Track SLO error budgets and alert on fast or slow burn
+      this.startSloEvaluation();
+
       // Start periodic cleanup
       this.startPeriodicCleanup();
 
@@ -96,31 +175,15 @@ export class MonitoringService {
   }
 
   /**
-   * Start monitoring for a specific agent
+   * Start monitoring for a specific agent. Recurring checks are scheduled by
+   * the agent scheduler for every active agent; this queues the first one.
    */
   async startAgentMonitoring(agentId: string): Promise<void> {
-    if (this.monitoringJobs.has(agentId)) {
-      logger.warn('Agent monitoring already active', { agentId });
-      return;
-    }
-
     try {
       logger.info('Starting agent monitoring', { agentId });
 
-      // Create monitoring job for this agent
-      const job = cron.schedule('*/30 * * * * *', async () => {
-        await this.performAgentHealthCheck(agentId);
-      }, {
-        scheduled: false,
-        name: `agent-monitor-${agentId}`,
-      });
-
-      // Start the job
-      job.start();
-      this.monitoringJobs.set(agentId, job);
-
       // Perform initial health check
-      await this.performAgentHealthCheck(agentId);
+      await this.scheduleHealthCheck(agentId);
 
       logger.info('Agent monitoring started', { agentId });
     } catch (error) {
@@ -130,69 +193,60 @@ export class MonitoringService {
   }
 
   /**
-   * Stop monitoring for a specific agent
+   * Stop monitoring for a specific agent. The scheduler skips agents that
+   * are no longer active, so there is nothing to tear down here.
    */
   async stopAgentMonitoring(agentId: string): Promise<void> {
-    const job = this.monitoringJobs.get(agentId);
-    if (!job) {
-      return;
-    }
-
     logger.info('Stopping agent monitoring', { agentId });
-    job.destroy();
-    this.monitoringJobs.delete(agentId);
   }
 
   /**
-   * Perform health check for an agent using AI
+   * Queue an AI-powered health check for an agent, at most once per interval
    */
-  private async performAgentHealthCheck(agentId: string): Promise<void> {
-    try {
-      // Execute AI-powered health check
-      const task = await this.agentService.executeAgentTask(
-        agentId,
-        'monitor',
-        'Perform comprehensive health check and collect metrics',
-        {
-          checkType: 'full',
-          includeMetrics: true,
-          alertOnIssues: true,
-        }
-      );
-
-      // Broadcast real-time update
-      this.io.to(`agent-${agentId}`).emit('health_check', {
-        agentId,
-        status: task.status,
-        result: task.result,
-        timestamp: new Date(),
-      });
+  private async scheduleHealthCheck(agentId: string, intervalSeconds: number = 30): Promise<void> {
+    // Every replica runs the scheduler; only one of them queues each interval
+    const acquired = await redis.setNX(`monitoring:schedule:${agentId}`, '1', intervalSeconds * 1000 - 5000);
+    if (!acquired) {
+      return;
+    }
 
-      // Update agent last health check
-      await this.agentService.updateAgent(agentId, {
-        last_health_check: new Date(),
-      });
+    await this.agentService.executeAgentTask(
+      agentId,
+      'monitor',
+      'Perform comprehensive health check and collect metrics',
+      {
+        checkType: 'full',
+        includeMetrics: true,
+        alertOnIssues: true,
+      },
+      TaskPriority.MEDIUM,
+      { uniqueKey: `monitor:${agentId}`, scheduled: true }
+    );
+  }
 
-    } catch (error) {
-      logger.error('Agent health check failed', { agentId, error });
+  /**
+   * Broadcast a finished health check and record it on the agent
+   */
+  private async handleHealthCheckCompleted(task: AgentTask): Promise<void> {
+    // Broadcast real-time update
+    this.io.to(`agent-${task.agentId}`).emit('health_check', {
+      agentId: task.agentId,
+      status: task.status,
+      result: task.result,
+      timestamp: new Date(),
+    });
 
-      // Create critical alert for failed health check
-      await this.createAlert(agentId, {
-        type: 'health_check_failed',
-        severity: AlertSeverity.CRITICAL,
-        message: `Health check failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
-      });
-    }
+    // Update agent last health check
+    await this.agentService.updateAgent(task.agentId, {
+      last_health_check: new Date(),
+    });
   }
 
   /**
-   * Create and process an alert
+   * Create and process an alert. A repeat of an open alert with the same
+   * fingerprint is counted on it; notifications respect the agent's cooldown.
    */
-  async createAlert(agentId: string, alertData: {
-    type: string;
-    severity: AlertSeverity;
-    message: string;
-  }): Promise<string> {
+  async createAlert(agentId: string, alertData: RaiseAlertData): Promise<string> {
     try {
       // Get agent info
       const agent = await this.agentService.getAgentById(agentId);
@@ -200,40 +254,35 @@ export class MonitoringService {
         throw new Error('Agent not found');
       }
 
-      // Insert alert into database
-      const result = await database.query(
-        `INSERT INTO alerts (agent_id, user_id, type, severity, message)
-         VALUES ($1, $2, $3, $4, $5) RETURNING id`,
-        [agentId, agent.user_id, alertData.type, alertData.severity, alertData.message]
-      );
-
-      const alertId = result.rows[0].id;
-
-      // Create alert object
-      const alert: MonitoringAlert = {
-        id: alertId,
-        agentId,
-        type: alertData.type,
-        severity: alertData.severity,
-        message: alertData.message,
-        timestamp: new Date(),
-        resolved: false,
-      };
+      const { alert: row, created } = await this.alertService.raise(agentId, agent.user_id, alertData);
+      const alert = toMonitoringAlert(row);
 
       // Broadcast alert via WebSocket
-      this.io.to(`agent-${agentId}`).emit('alert', alert);
-      this.io.to(`user-${agent.user_id}`).emit('alert', alert);
-
-      // Send notifications based on severity
-      if (alertData.severity === 'high' || alertData.severity === 'critical') {
-        await this.notificationService.sendAlert(agent.user_id, alert);
+      const event = created ? 'alert' : 'alert_updated';
+      this.io.to(`agent-${agentId}`).emit(event, alert);
+      this.io.to(`user-${agent.user_id}`).emit(event, alert);
+
+      // New alerts on agents with an escalation policy page its first tier;
+      // everything else goes through the cooldown and incident grouping
+      if (row.severity === 'high' || row.severity === 'critical') {
+        const step = created && agent.escalation_policy_id
+          ? await this.escalationService.startEscalation(row, agent.escalation_policy_id)
+          : null;
+
+        if (step) {
+          this.broadcastAlertEvent(agent, 'alert_escalated', this.escalationUpdate(step));
+        } else {
+          await this.alertService.queueNotification(row, agent.config?.alertCooldownMinutes);
+        }
       }
 
       // Cache alert for quick access
-      await redis.set(`alert:${alertId}`, JSON.stringify(alert), 3600);
+      await redis.set(`alert:${row.id}`, JSON.stringify(alert), 3600);
 
-      logger.info('Alert created', { alertId, agentId, severity: alertData.severity });
-      return alertId;
+      if (created) {
+        logger.info('Alert created', { alertId: row.id, agentId, severity: row.severity });
+      }
+      return row.id;
     } catch (error) {
       logger.error('Failed to create alert', { agentId, error });
       throw error;
@@ -241,10 +290,147 @@ export class MonitoringService {
   }
 
   /**
-   * Get system health overview
+   * Send an alert lifecycle event to the agent's room and its owner's room
    */
-  async getSystemHealth(): Promise<SystemHealth> {
+  broadcastAlertEvent(agent: { id: string; user_id: string }, event: string, payload: Record<string, any>): void {
+    this.io.to(`agent-${agent.id}`).emit(event, payload);
+    this.io.to(`user-${agent.user_id}`).emit(event, payload);
+  }
+
+  private escalationUpdate(step: EscalationStep): Record<string, any> {
+    return {
+      id: step.alert.id,
+      agentId: step.alert.agent_id,
+      tier: step.tier + 1,
+      recipients: step.recipients,
+      nextEscalationAt: step.alert.next_escalation_at || null,
+      timestamp: new Date(),
+    };
+  }
+
+  /**
+   * Resolve the open alert raised by a rule, once the rule stops firing
+   */
+  async resolveRuleAlert(agentId: string, ruleKey: string): Promise<void> {
     try {
+      const result = await database.query(
+        `UPDATE alerts SET resolved = true, resolved_at = CURRENT_TIMESTAMP, next_escalation_at = NULL
+         WHERE agent_id = $1 AND rule_key = $2 AND resolved = false
+         RETURNING id, user_id`,
+        [agentId, ruleKey]
+      );
+
+      for (const row of result.rows) {
+        const update = { id: row.id, agentId, ruleKey, timestamp: new Date() };
+        this.io.to(`agent-${agentId}`).emit('alert_resolved', update);
+        this.io.to(`user-${row.user_id}`).emit('alert_resolved', update);
+
+        await redis.del(`alert:${row.id}`);
+
+        logger.info('Alert resolved automatically', { alertId: row.id, agentId, ruleKey });
+      }
+    } catch (error) {
+      logger.error('Failed to resolve rule alert', { agentId, ruleKey, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Raise (or count another occurrence of) alerts for firing rules and
+   * resolve open alerts whose rule is back to normal
+   */
+  private async applyRuleOutcomes(agentId: string, outcomes: RuleOutcome[]): Promise<void> {
+    if (outcomes.length === 0) {
+      return;
+    }
+
+    const result = await database.query(
+      'SELECT rule_key FROM alerts WHERE agent_id = $1 AND resolved = false AND rule_key IS NOT NULL',
+      [agentId]
+    );
+    const open = new Set<string>(result.rows.map((row: any) => row.rule_key));
+
+    for (const outcome of outcomes) {
+      if (outcome.state === 'firing') {
+        await this.createAlert(agentId, {
+          type: outcome.alertType,
+          severity: outcome.rule.severity,
+          message: outcome.message,
+          ruleKey: outcome.rule.key,
+        });
+      } else if (outcome.state === 'ok' && open.has(outcome.rule.key)) {
+        await this.resolveRuleAlert(agentId, outcome.rule.key);
+      }
+    }
+  }
+
+  /**
+   * Raise alerts for lasting anomalies and resolve them once the metric is
+   * back within its baseline. A new anomaly also gets an analyze task with
+   * the samples around it.
+   */
+  private async applyAnomalyOutcomes(agentId: string, outcomes: AnomalyOutcome[]): Promise<void> {
+    if (outcomes.length === 0) {
+      return;
+    }
+
+    const result = await database.query(
+      `SELECT rule_key FROM alerts WHERE agent_id = $1 AND resolved = false AND rule_key LIKE 'anomaly:%'`,
+      [agentId]
+    );
+    const open = new Set<string>(result.rows.map((row: any) => row.rule_key));
+
+    for (const outcome of outcomes) {
+      if (outcome.state === 'firing') {
+        await this.createAlert(agentId, {
+          type: 'anomaly',
+          severity: outcome.severity,
+          message: outcome.message,
+          ruleKey: outcome.key,
+        });
+
+        if (outcome.started) {
+          await this.queueAnomalyAnalysis(agentId, outcome).catch(error => {
+            logger.warn('Failed to queue anomaly analysis', { agentId, metric: outcome.metric, error: error.message });
+          });
+        }
+      } else if (outcome.state === 'ok' && open.has(outcome.key)) {
+        await this.resolveRuleAlert(agentId, outcome.key);
+      }
+    }
+  }
+
+  private async queueAnomalyAnalysis(agentId: string, outcome: AnomalyOutcome): Promise<void> {
+    const samples = await this.anomalyDetectionService.getAnomalyWindow(agentId);
+
+    await this.agentService.executeAgentTask(
+      agentId,
+      'analyze',
+      `Investigate the cause of an anomaly detected in ${outcome.metric}`,
+      {
+        anomaly: {
+          metric: outcome.metric,
+          explanation: outcome.message,
+          ...outcome.score,
+        },
+        window: {
+          from: samples[0]?.recorded_at,
+          to: samples[samples.length - 1]?.recorded_at,
+          samples,
+        },
+      },
+      TaskPriority.HIGH,
+      { uniqueKey: `anomaly:${agentId}:${outcome.metric}` }
+    );
+  }
+
+  /**
+   * Get system health overview, optionally limited to one user's agents
+   */
+  async getSystemHealth(userId?: string): Promise<SystemHealth> {
+    try {
+      const params = userId ? [userId] : [];
+
       const result = await database.query(`
         SELECT 
           COUNT(*) as total_agents,
@@ -259,23 +445,31 @@ export class MonitoringService {
           ORDER BY am.recorded_at DESC
           LIMIT 1
         ) latest_metrics ON true
-      `);
+        ${userId ? `WHERE ${accessibleAgentsFilter('a')}` : ''}
+      `, params);
 
       const alertsResult = await database.query(`
         SELECT COUNT(*) as unresolved_alerts
-        FROM alerts
-        WHERE resolved = false
-      `);
+        FROM alerts al
+        JOIN agents a ON al.agent_id = a.id
+        WHERE al.resolved = false ${userId ? `AND ${accessibleAgentsFilter('a')}` : ''}
+      `, params);
 
       const stats = result.rows[0];
       const unresolvedAlerts = parseInt(alertsResult.rows[0].unresolved_alerts);
+      const slos = await this.sloService.getSummary(userId);
+
+      // SLOs replace the default uptime objective once any is defined
+      const belowObjective = slos.total > 0
+        ? slos.breaching > 0 || slos.slowBurn > 0
+        : stats.avg_uptime < DEFAULT_AVAILABILITY_OBJECTIVE;
 
       // Determine system status
       let systemStatus: 'healthy' | 'warning' | 'critical' = 'healthy';
       
-      if (stats.error_agents > 0 || unresolvedAlerts > 10) {
+      if (stats.error_agents > 0 || unresolvedAlerts > 10 || slos.fastBurn > 0) {
         systemStatus = 'critical';
-      } else if (stats.avg_uptime < 95 || unresolvedAlerts > 5) {
+      } else if (belowObjective || unresolvedAlerts > 5) {
         systemStatus = 'warning';
       }
 
@@ -285,49 +479,21 @@ export class MonitoringService {
         errorAgents: parseInt(stats.error_agents),
         avgUptime: parseFloat(stats.avg_uptime) || 0,
         unresolvedAlerts,
+        slos,
         systemStatus,
       };
     } catch (error) {
-      logger.error('Failed to get system health', { error });
+      logger.error('Failed to get system health', { userId, error });
       throw error;
     }
   }
 
   /**
-   * Get real-time metrics for an agent
+   * Get metrics for an agent over a time range, at the resolution suited to it
    */
-  async getAgentMetrics(agentId: string, timeRange: string = '1h'): Promise<any[]> {
+  async getAgentMetrics(agentId: string, timeRange: string = '1h'): Promise<MetricsHistory> {
     try {
-      let interval = '1 hour';
-      switch (timeRange) {
-        case '5m':
-          interval = '5 minutes';
-          break;
-        case '15m':
-          interval = '15 minutes';
-          break;
-        case '1h':
-          interval = '1 hour';
-          break;
-        case '6h':
-          interval = '6 hours';
-          break;
-        case '24h':
-          interval = '24 hours';
-          break;
-        case '7d':
-          interval = '7 days';
-          break;
-      }
-
-      const result = await database.query(
-        `SELECT * FROM agent_metrics 
-         WHERE agent_id = $1 AND recorded_at >= NOW() - INTERVAL '${interval}'
-         ORDER BY recorded_at ASC`,
-        [agentId]
-      );
-
-      return result.rows;
+      return await this.metricsService.getMetricsHistory(agentId, TIME_RANGE_MINUTES[timeRange] ?? 60);
     } catch (error) {
       logger.error('Failed to get agent metrics', { agentId, error });
       throw error;
@@ -335,7 +501,8 @@ export class MonitoringService {
   }
 
   /**
-   * Start system health monitoring
+   * Start system health monitoring. Runs on every replica, since each one
+   * emits to its own socket clients.
    */
   private startSystemHealthMonitoring(): void {
     const job = cron.schedule('*/5 * * * *', async () => {
@@ -360,6 +527,209 @@ export class MonitoringService {
     this.monitoringJobs.set('system-health', job);
   }
 
+  /**
+   * Queue a health check for every active agent every 30 seconds
+   */
+  private startAgentScheduler(): void {
+    const job = cron.schedule('*/30 * * * * *', async () => {
+      try {
+        const result = await database.query(
+          `SELECT a.id, (a.config->>'monitoringInterval')::int as monitoring_interval, s.plan
+           FROM agents a
+           LEFT JOIN LATERAL (
+             SELECT plan FROM subscriptions
+             WHERE user_id = a.user_id
+             ORDER BY created_at DESC
+             LIMIT 1
+           ) s ON true
+           WHERE a.status = 'active'`
+        );
+
+        for (const row of result.rows) {
+          const interval = this.subscriptionService.getMonitoringInterval(row.plan, row.monitoring_interval ?? undefined);
+
+          // One agent over quota must not hold up the others
+          await this.scheduleHealthCheck(row.id, interval).catch(error => {
+            logger.warn('Failed to schedule health check', { agentId: row.id, error: error.message });
+          });
+        }
+      } catch (error) {
+        logger.error('Agent scheduling failed', { error });
+      }
+    });
+
+    this.monitoringJobs.set('agent-scheduler', job);
+  }
+
+  /**
+   * Evaluate alert rules whenever any replica records a metrics sample
+   */
+  private async startAlertRuleEvaluation(): Promise<void> {
+    await redis.subscribe(METRICS_RECORDED_CHANNEL, (message) => {
+      const { agentId, metricsId } = JSON.parse(message) as MetricsRecordedEvent;
+
+      this.evaluateSampleRules(agentId, metricsId).catch(error => {
+        logger.error('Alert rule evaluation failed', { agentId, metricsId, error });
+      });
+    });
+  }
+
+  private async evaluateSampleRules(agentId: string, metricsId: string): Promise<void> {
+    // Every replica receives the sample; only one of them evaluates it
+    const acquired = await redis.setNX(`alert-rules:sample:${metricsId}`, '1', 60000);
+    if (!acquired) {
+      return;
+    }
+
+    const outcomes = await this.alertRuleService.evaluateSample(agentId, metricsId);
+    await this.applyRuleOutcomes(agentId, outcomes);
+
+    const anomalies = await this.anomalyDetectionService.evaluateSample(agentId, metricsId);
+    await this.applyAnomalyOutcomes(agentId, anomalies);
+  }
+
+  /**
+   * Check absence-of-data rules every minute, since no sample arrives to trigger them
+   */
+  private startAbsenceRuleSweep(): void {
+    const job = cron.schedule('* * * * *', async () => {
+      try {
+        const acquired = await redis.setNX('alert-rules:absence-sweep', '1', 55000);
+        if (!acquired) {
+          return;
+        }
+
+        const results = await this.alertRuleService.evaluateAbsence();
+
+        for (const { agentId, outcomes } of results) {
+          await this.applyRuleOutcomes(agentId, outcomes).catch(error => {
+            logger.warn('Failed to apply absence rules', { agentId, error: error.message });
+          });
+        }
+      } catch (error) {
+        logger.error('Absence rule sweep failed', { error });
+      }
+    });
+
+    this.monitoringJobs.set('absence-rules', job);
+  }
+
+  /**
+   * Flush alert incidents every 15 seconds
+   */
+  private startIncidentFlushing(): void {
+    const job = cron.schedule('*/15 * * * * *', async () => {
+      try {
+        const acquired = await redis.setNX('alert-incidents:flush', '1', 14000);
+        if (!acquired) {
+          return;
+        }
+
+        await this.alertService.flushIncidents();
+      } catch (error) {
+        logger.error('Alert incident flush failed', { error });
+      }
+    });
+
+    this.monitoringJobs.set('alert-incidents', job);
+  }
+
+  /**
+   * Escalate unacknowledged alerts whose tier timed out, every minute
+   */
+  private startEscalationProcessing(): void {
+    const job = cron.schedule('* * * * *', async () => {
+      try {
+        const acquired = await redis.setNX('alert-escalations:process', '1', 55000);
+        if (!acquired) {
+          return;
+        }
+
+        const steps = await this.escalationService.processDueEscalations();
+
+        for (const step of steps) {
+          this.broadcastAlertEvent(
+            { id: step.alert.agent_id, user_id: step.alert.user_id },
+            'alert_escalated',
+            this.escalationUpdate(step)
+          );
+        }
+      } catch (error) {
+        logger.error('Alert escalation failed', { error });
+      }
+    });
+
+    this.monitoringJobs.set('alert-escalations', job);
+  }
+
+  /**
+   * Roll up new metrics samples every minute
+   */
+  private startMetricsRollup(): void {
+    const job = cron.schedule('* * * * *', async () => {
+      try {
+        const acquired = await redis.setNX('metrics:rollup', '1', 55000);
+        if (!acquired) {
+          return;
+        }
+
+        await this.metricsService.rollUp();
+      } catch (error) {
+        logger.error('Metrics rollup failed', { error });
+      }
+    });
+
+    this.monitoringJobs.set('metrics-rollup', job);
+  }
+
+  /**
+   * Count new samples against each SLO every minute, raise burn-rate alerts
+   * on the agents spending the budget and resolve those that stopped burning
+   */
+  private startSloEvaluation(): void {
+    const job = cron.schedule('* * * * *', async () => {
+      try {
+        const acquired = await redis.setNX('slo:evaluate', '1', 55000);
+        if (!acquired) {
+          return;
+        }
+
+        await this.sloService.refreshHourly();
+        const alerts = await this.sloService.evaluateBurnAlerts();
+        const firing = new Set<string>();
+
+        for (const alert of alerts) {
+          for (const agentId of alert.agentIds) {
+            firing.add(`${agentId}|${alert.key}`);
+
+            await this.createAlert(agentId, {
+              type: 'slo_burn',
+              severity: alert.severity,
+              message: alert.message,
+              ruleKey: alert.key,
+            }).catch(error => {
+              logger.warn('Failed to raise SLO burn alert', { agentId, key: alert.key, error: error.message });
+            });
+          }
+        }
+
+        const open = await database.query(
+          `SELECT DISTINCT agent_id, rule_key FROM alerts WHERE resolved = false AND rule_key LIKE 'slo:%'`
+        );
+
+        for (const row of open.rows) {
+          if (!firing.has(`${row.agent_id}|${row.rule_key}`)) {
+            await this.resolveRuleAlert(row.agent_id, row.rule_key);
+          }
+        }
+      } catch (error) {
+        logger.error('SLO evaluation failed', { error });
+      }
+    });
+
+    this.monitoringJobs.set('slo-evaluation', job);
+  }
+
   /**
    * Discover and start monitoring for all active agents
    */
@@ -385,16 +755,48 @@ export class MonitoringService {
   private startPeriodicCleanup(): void {
     const job = cron.schedule('0 2 * * *', async () => {
       try {
-        // Clean up old metrics (older than 30 days)
-        await database.query(
-          `DELETE FROM agent_metrics WHERE recorded_at < NOW() - INTERVAL '30 days'`
-        );
+        const acquired = await redis.setNX('cleanup:daily', '1', 60 * 60 * 1000);
+        if (!acquired) {
+          return;
+        }
+
+        // Drop raw metrics and rollups past the retention of each owner's plan
+        await this.metricsService.applyRetention();
+
+        // Drop SLO hourly counts that fell out of their window
+        await this.sloService.applyRetention();
 
         // Clean up resolved alerts (older than 7 days)
         await database.query(
           `DELETE FROM alerts WHERE resolved = true AND resolved_at < NOW() - INTERVAL '7 days'`
         );
 
+        // Clean up notified alert incidents (older than 30 days)
+        await database.query(
+          `DELETE FROM alert_incidents WHERE notified_at < NOW() - INTERVAL '30 days'`
+        );
+
+        // Drop agent threads whose latest checkpoint is past the retention window
+        const checkpointRetentionDays = parseInt(process.env.CHECKPOINT_RETENTION_DAYS || '30');
+        const expiredThreads = `SELECT thread_id FROM langgraph_checkpoints
+           GROUP BY thread_id
+           HAVING MAX(created_at) < NOW() - make_interval(days => $1)`;
+
+        await database.query(
+          `DELETE FROM langgraph_checkpoint_writes WHERE thread_id IN (${expiredThreads})`,
+          [checkpointRetentionDays]
+        );
+        await database.query(
+          `DELETE FROM langgraph_checkpoints WHERE thread_id IN (${expiredThreads})`,
+          [checkpointRetentionDays]
+        );
+
+        // Clean up expired and revoked login sessions (refresh tokens cascade)
+        await database.query(
+          `DELETE FROM auth_sessions
+           WHERE expires_at < NOW() - INTERVAL '1 day' OR revoked_at < NOW() - INTERVAL '1 day'`
+        );
+
         logger.info('Periodic cleanup completed');
       } catch (error) {
         logger.error('Periodic cleanup failed', { error });
@@ -405,7 +807,8 @@ export class MonitoringService {
   }
 
   /**
-   * Start real-time metrics broadcasting
+   * Start real-time metrics broadcasting. Runs on every replica, since each
+   * one emits to its own socket clients.
    */
   private startMetricsBroadcasting(): void {
     const job = cron.schedule('*/10 * * * * *', async () => {
@@ -462,8 +865,8 @@ export class MonitoringService {
 
     socket.on('request-metrics', async (data: { agentId: string; timeRange: string }) => {
       try {
-        const metrics = await this.getAgentMetrics(data.agentId, data.timeRange);
-        socket.emit('metrics-history', { agentId: data.agentId, metrics });
+        const { resolution, metrics } = await this.getAgentMetrics(data.agentId, data.timeRange);
+        socket.emit('metrics-history', { agentId: data.agentId, resolution, metrics });
       } catch (error) {
         socket.emit('error', { message: 'Failed to get metrics' });
       }
@@ -0,0 +1,143 @@
+import { logger } from '../utils/logger';
+import { getChainAdapter } from '../chains';
+import {
+  NodeControlAction,
+  NodeControlConfig,
+  NodeControlContext,
+  NodeControlDriverType,
+  NodeControlError,
+  createNodeControlDriver,
+} from '../control';
+
+export interface NodeControlTarget extends NodeControlContext {
+  nodeControl?: NodeControlConfig;
+}
+
+export interface NodeControlVerification {
+  healthy: boolean;
+  attempts: number;
+  latestBlock?: number;
+  error?: string;
+}
+
+export interface NodeControlResult {
+  success: boolean;
+  action: NodeControlAction;
+  driver?: NodeControlDriverType;
+  exitCode: number | null;
+  stdout: string;
+  stderr: string;
+  durationMs: number;
+  startedAt: Date;
+  verification?: NodeControlVerification;
+  error?: string;
+}
+
+// Keep tool output small enough to hand back to the LLM
+const MAX_CAPTURED_OUTPUT = 4000;
+
+/**
+ * Runs node lifecycle actions through the agent's configured control driver
+ * and, after a restart or start, polls the chain health check until the node
+ * answers again.
+ */
+export class NodeControlService {
+  private timeoutMs: number;
+  private verifyAttempts: number;
+  private verifyIntervalMs: number;
+
+  constructor() {
+    this.timeoutMs = parseInt(process.env.NODE_CONTROL_TIMEOUT_MS || '60000');
+    this.verifyAttempts = parseInt(process.env.NODE_CONTROL_VERIFY_ATTEMPTS || '6');
+    this.verifyIntervalMs = parseInt(process.env.NODE_CONTROL_VERIFY_INTERVAL_MS || '10000');
+  }
+
+  /**
+   * Run an action against the target node
+   */
+  async execute(target: NodeControlTarget, action: NodeControlAction): Promise<NodeControlResult> {
+    const startedAt = new Date();
+    const result: NodeControlResult = {
+      success: false,
+      action,
+      driver: target.nodeControl?.driver,
+      exitCode: null,
+      stdout: '',
+      stderr: '',
+      durationMs: 0,
+      startedAt,
+    };
+
+    if (!target.nodeControl) {
+      result.error = 'Node control is not configured for this agent';
+      return result;
+    }
+
+    const timeoutMs = target.nodeControl.timeoutMs || this.timeoutMs;
+
+    logger.info('Running node control action', { agentId: target.agentId, action, driver: result.driver });
+
+    try {
+      const driver = createNodeControlDriver(target.nodeControl);
+      const output = await driver.execute(action, target, timeoutMs);
+
+      result.exitCode = output.exitCode;
+      result.stdout = this.truncate(output.stdout);
+      result.stderr = this.truncate(output.stderr);
+      result.success = output.exitCode === 0;
+    } catch (error) {
+      if (error instanceof NodeControlError && error.output) {
+        result.stdout = this.truncate(error.output.stdout || '');
+        result.stderr = this.truncate(error.output.stderr || '');
+      }
+      result.error = error instanceof Error ? error.message : 'Node control action failed';
+    }
+
+    result.durationMs = Date.now() - startedAt.getTime();
+
+    if (result.success && (action === 'restart' || action === 'start')) {
+      result.verification = await this.verifyHealthy(target);
+      result.success = result.verification.healthy;
+    }
+
+    if (result.success) {
+      logger.info('Node control action completed', { agentId: target.agentId, action, durationMs: result.durationMs });
+    } else {
+      logger.warn('Node control action failed', {
+        agentId: target.agentId,
+        action,
+        exitCode: result.exitCode,
+        error: result.error || result.verification?.error,
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Poll the chain health check until the node reports healthy
+   */
+  private async verifyHealthy(target: NodeControlTarget): Promise<NodeControlVerification> {
+    const adapter = getChainAdapter(target.chain);
+    let lastError: string | undefined;
+
+    for (let attempt = 1; attempt <= this.verifyAttempts; attempt++) {
+      await new Promise(resolve => setTimeout(resolve, this.verifyIntervalMs));
+
+      const health = await adapter.checkHealth(target.endpointUrl);
+      if (health.status === 'healthy') {
+        return { healthy: true, attempts: attempt, latestBlock: health.latestBlock };
+      }
+
+      lastError = health.error || `Node reported ${health.status}`;
+    }
+
+    return { healthy: false, attempts: this.verifyAttempts, error: lastError };
+  }
+
+  private truncate(output: string): string {
+    return output.length > MAX_CAPTURED_OUTPUT
+      ? `${output.slice(0, MAX_CAPTURED_OUTPUT)}... [truncated]`
+      : output;
+  }
+}
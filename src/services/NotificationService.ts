@@ -3,6 +3,8 @@ import axios from 'axios';
 import { database } from '../config/database';
 import { logger } from '../utils/logger';
 import { MonitoringAlert, AlertSeverity } from './MonitoringService';
+import { TaskApprovalRecord } from '../models/AgentTask';
+import { Alert, AlertIncident } from '../types';
 
 export interface NotificationSettings {
   email_enabled: boolean;
@@ -85,6 +87,25 @@ export class NotificationService {
     }
   }
 
+  /**
+   * Send one notification for an incident grouping alerts from several agents
+   */
+  async sendIncident(userId: string, incident: AlertIncident, alerts: (Alert & { agent_name: string })[]): Promise<void> {
+    const agentNames = alerts.map(alert => alert.agent_name).join(', ');
+
+    const incidentAlert: MonitoringAlert = {
+      id: incident.id,
+      agentId: alerts[0].agent_id,
+      type: incident.type,
+      severity: incident.severity,
+      message: `${alerts.length} agents affected: ${agentNames}. First alert: ${alerts[0].message}`,
+      timestamp: new Date(incident.created_at),
+      resolved: false,
+    };
+
+    await this.sendAlert(userId, incidentAlert);
+  }
+
   /**
    * Send email alert
    */
@@ -375,6 +396,53 @@ ${alert.message}
     }
   }
 
+  /**
+   * Ask the agent owner to approve or reject a paused task's tool calls
+   */
+  async sendApprovalRequest(userId: string, approval: TaskApprovalRecord): Promise<void> {
+    const toolNames = approval.tool_calls.map(call => call.name).join(', ');
+    const taskPath = `/api/agents/${approval.agent_id}/tasks/${approval.task_id}`;
+
+    const approvalAlert: MonitoringAlert = {
+      id: approval.id,
+      agentId: approval.agent_id,
+      type: 'approval_required',
+      severity: AlertSeverity.HIGH,
+      message: `Agent task ${approval.task_id} is paused and needs approval to run: ${toolNames}. ` +
+        `Approve with POST ${taskPath}/approve or reject with POST ${taskPath}/reject.`,
+      timestamp: new Date(approval.requested_at),
+      resolved: false,
+    };
+
+    await this.sendAlert(userId, approvalAlert);
+  }
+
+  /**
+   * Email a link that confirms the address
+   */
+  async sendVerificationEmail(email: string, token: string): Promise<void> {
+    await this.sendAccountEmail(
+      email,
+      'Verify your Mentis Protocol email',
+      'Confirm your email address to finish setting up your account.',
+      'Verify Email',
+      `${process.env.FRONTEND_URL}/verify-email?token=${encodeURIComponent(token)}`
+    );
+  }
+
+  /**
+   * Email a password reset link
+   */
+  async sendPasswordResetEmail(email: string, token: string): Promise<void> {
+    await this.sendAccountEmail(
+      email,
+      'Reset your Mentis Protocol password',
+      'We received a request to reset your password. If you did not make it, you can ignore this email.',
+      'Reset Password',
+      `${process.env.FRONTEND_URL}/reset-password?token=${encodeURIComponent(token)}`
+    );
+  }
+
   /**
    * Send test notification
    */
@@ -392,6 +460,57 @@ ${alert.message}
     await this.sendAlert(userId, testAlert);
   }
 
+  /**
+   * Send a single-action account email
+   */
+  private async sendAccountEmail(email: string, subject: string, message: string, actionLabel: string, actionUrl: string): Promise<void> {
+    try {
+      const html = `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 20px; text-align: center;">
+            <h1 style="margin: 0;">🤖 Mentis Protocol</h1>
+          </div>
+
+          <div style="padding: 20px; background: #f8f9fa;">
+            <div style="background: white; padding: 20px; border-radius: 8px; box-shadow: 0 2px 4px rgba(0,0,0,0.1);">
+              <p style="color: #333;">${message}</p>
+
+              <div style="margin-top: 30px; text-align: center;">
+                <a href="${actionUrl}"
+                   style="
+                     background: #667eea;
+                     color: white;
+                     padding: 12px 24px;
+                     text-decoration: none;
+                     border-radius: 6px;
+                     display: inline-block;
+                   ">
+                  ${actionLabel}
+                </a>
+              </div>
+            </div>
+          </div>
+
+          <div style="padding: 20px; text-align: center; color: #666; font-size: 12px;">
+            <p>This link can only be used once and expires soon.</p>
+          </div>
+        </div>
+      `;
+
+      await this.emailTransporter.sendMail({
+        from: `"Mentis Protocol" <${process.env.SMTP_USER}>`,
+        to: email,
+        subject,
+        html,
+      });
+
+      logger.info('Account email sent', { email, subject });
+    } catch (error) {
+      logger.error('Failed to send account email', { email, subject, error });
+      throw error;
+    }
+  }
+
   /**
    * Get severity color for UI
    */
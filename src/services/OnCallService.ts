@@ -0,0 +1,256 @@
+import { database } from '../config/database';
+import { logger } from '../utils/logger';
+import { ConflictError, ValidationError } from '../types';
+import { accessibleAgentsFilter } from './OrganizationService';
+import {
+  OwnedResource,
+  OnCallSchedule,
+  OnCallOverride,
+  CreateOnCallScheduleData,
+  UpdateOnCallScheduleData,
+} from '../models/Escalation';
+
+/**
+ * Who a schedule puts on call at `at`: the most recently created override
+ * covering that time, otherwise the participant whose shift it is
+ */
+export function resolveOnCallUser(schedule: OnCallSchedule, overrides: OnCallOverride[], at: Date = new Date()): string | null {
+  const time = at.getTime();
+
+  const override = overrides
+    .filter(item => new Date(item.starts_at).getTime() <= time && time < new Date(item.ends_at).getTime())
+    .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())[0];
+
+  if (override) {
+    return override.user_id;
+  }
+
+  const { participants } = schedule;
+  if (participants.length === 0) {
+    return null;
+  }
+
+  const shift = Math.floor((time - new Date(schedule.rotation_start).getTime()) / (schedule.shift_hours * 3600000));
+  return participants[((shift % participants.length) + participants.length) % participants.length];
+}
+
+/**
+ * Check that users can be paged for a resource: organization members for
+ * shared resources, only the owner for personal ones
+ */
+export async function assertPageableUsers(owner: OwnedResource, userIds: string[]): Promise<void> {
+  const unique = [...new Set(userIds)];
+
+  if (unique.length === 0) {
+    return;
+  }
+
+  if (!owner.organization_id) {
+    if (unique.some(userId => userId !== owner.user_id)) {
+      throw new ValidationError('Personal schedules and policies can only page their owner; use an organization to page others');
+    }
+    return;
+  }
+
+  const result = await database.query(
+    'SELECT user_id FROM organization_members WHERE organization_id = $1 AND user_id = ANY($2::uuid[])',
+    [owner.organization_id, unique]
+  );
+
+  if (result.rows.length !== unique.length) {
+    throw new ValidationError('Every paged user must be a member of the organization');
+  }
+}
+
+/**
+ * On-call rotations with overrides, used as escalation targets
+ */
+export class OnCallService {
+  /**
+   * Schedules the user can see, optionally limited to one organization
+   */
+  async listSchedules(userId: string, organizationId?: string): Promise<OnCallSchedule[]> {
+    try {
+      const values: any[] = [userId];
+      let query = `SELECT s.* FROM oncall_schedules s WHERE ${accessibleAgentsFilter('s')}`;
+
+      if (organizationId) {
+        values.push(organizationId);
+        query += ' AND s.organization_id = $2';
+      }
+
+      const result = await database.query(`${query} ORDER BY s.name`, values);
+      return result.rows;
+    } catch (error) {
+      logger.error('Failed to list on-call schedules', { userId, error });
+      throw error;
+    }
+  }
+
+  async getSchedule(scheduleId: string): Promise<OnCallSchedule | null> {
+    try {
+      const result = await database.query('SELECT * FROM oncall_schedules WHERE id = $1', [scheduleId]);
+      return result.rows[0] || null;
+    } catch (error) {
+      logger.error('Failed to get on-call schedule', { scheduleId, error });
+      throw error;
+    }
+  }
+
+  async createSchedule(data: CreateOnCallScheduleData): Promise<OnCallSchedule> {
+    try {
+      await assertPageableUsers(data, data.participants);
+
+      const result = await database.query(
+        `INSERT INTO oncall_schedules (user_id, organization_id, name, participants, rotation_start, shift_hours)
+         VALUES ($1, $2, $3, $4, COALESCE($5, CURRENT_TIMESTAMP), COALESCE($6, 168))
+         RETURNING *`,
+        [
+          data.user_id,
+          data.organization_id || null,
+          data.name,
+          data.participants,
+          data.rotation_start || null,
+          data.shift_hours || null,
+        ]
+      );
+
+      logger.info('On-call schedule created', { scheduleId: result.rows[0].id, userId: data.user_id });
+      return result.rows[0];
+    } catch (error) {
+      logger.error('Failed to create on-call schedule', { userId: data.user_id, error });
+      throw error;
+    }
+  }
+
+  async updateSchedule(schedule: OnCallSchedule, data: UpdateOnCallScheduleData): Promise<OnCallSchedule> {
+    try {
+      if (data.participants !== undefined) {
+        await assertPageableUsers(schedule, data.participants);
+      }
+
+      const updateFields: string[] = [];
+      const values: any[] = [];
+      let paramCount = 1;
+
+      for (const field of ['name', 'participants', 'rotation_start', 'shift_hours'] as const) {
+        if (data[field] !== undefined) {
+          updateFields.push(`${field} = $${paramCount++}`);
+          values.push(data[field]);
+        }
+      }
+
+      if (updateFields.length === 0) {
+        return schedule;
+      }
+
+      values.push(schedule.id);
+
+      const result = await database.query(
+        `UPDATE oncall_schedules SET ${updateFields.join(', ')} WHERE id = $${paramCount} RETURNING *`,
+        values
+      );
+
+      logger.info('On-call schedule updated', { scheduleId: schedule.id });
+      return result.rows[0];
+    } catch (error) {
+      logger.error('Failed to update on-call schedule', { scheduleId: schedule.id, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a schedule that no escalation policy pages
+   */
+  async deleteSchedule(scheduleId: string): Promise<void> {
+    try {
+      const policies = await database.query(
+        `SELECT COUNT(*) as count FROM escalation_policies
+         WHERE tiers @> jsonb_build_array(jsonb_build_object('targets', jsonb_build_array(jsonb_build_object('type', 'schedule', 'id', $1::text))))`,
+        [scheduleId]
+      );
+
+      if (parseInt(policies.rows[0].count) > 0) {
+        throw new ConflictError('Remove the schedule from its escalation policies first');
+      }
+
+      await database.query('DELETE FROM oncall_schedules WHERE id = $1', [scheduleId]);
+      logger.info('On-call schedule deleted', { scheduleId });
+    } catch (error) {
+      logger.error('Failed to delete on-call schedule', { scheduleId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Current and upcoming overrides
+   */
+  async listOverrides(scheduleId: string): Promise<OnCallOverride[]> {
+    try {
+      const result = await database.query(
+        `SELECT * FROM oncall_overrides
+         WHERE schedule_id = $1 AND ends_at > CURRENT_TIMESTAMP
+         ORDER BY starts_at`,
+        [scheduleId]
+      );
+      return result.rows;
+    } catch (error) {
+      logger.error('Failed to list on-call overrides', { scheduleId, error });
+      throw error;
+    }
+  }
+
+  async addOverride(schedule: OnCallSchedule, data: { user_id: string; starts_at: Date; ends_at: Date }, createdBy: string): Promise<OnCallOverride> {
+    try {
+      await assertPageableUsers(schedule, [data.user_id]);
+
+      const result = await database.query(
+        `INSERT INTO oncall_overrides (schedule_id, user_id, starts_at, ends_at, created_by)
+         VALUES ($1, $2, $3, $4, $5)
+         RETURNING *`,
+        [schedule.id, data.user_id, data.starts_at, data.ends_at, createdBy]
+      );
+
+      logger.info('On-call override added', { scheduleId: schedule.id, overrideId: result.rows[0].id });
+      return result.rows[0];
+    } catch (error) {
+      logger.error('Failed to add on-call override', { scheduleId: schedule.id, error });
+      throw error;
+    }
+  }
+
+  async deleteOverride(scheduleId: string, overrideId: string): Promise<boolean> {
+    try {
+      const result = await database.query(
+        'DELETE FROM oncall_overrides WHERE id = $1 AND schedule_id = $2',
+        [overrideId, scheduleId]
+      );
+      return result.rowCount > 0;
+    } catch (error) {
+      logger.error('Failed to delete on-call override', { scheduleId, overrideId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * The user on call for a schedule right now, or null if it has nobody
+   */
+  async getOnCallUser(scheduleId: string, at: Date = new Date()): Promise<string | null> {
+    try {
+      const schedule = await this.getSchedule(scheduleId);
+      if (!schedule) {
+        return null;
+      }
+
+      const overrides = await database.query(
+        'SELECT * FROM oncall_overrides WHERE schedule_id = $1 AND starts_at <= $2 AND ends_at > $2',
+        [scheduleId, at]
+      );
+
+      return resolveOnCallUser(schedule, overrides.rows, at);
+    } catch (error) {
+      logger.error('Failed to resolve on-call user', { scheduleId, error });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,299 @@
+import { PoolClient } from 'pg';
+import { database } from '../config/database';
+import { logger } from '../utils/logger';
+import { ConflictError } from '../types';
+import {
+  ORGANIZATION_ROLES,
+  OrganizationRole,
+  OrganizationWithRole,
+  OrganizationMember,
+} from '../models/Organization';
+
+/**
+ * Whether `role` grants at least the permissions of `minimum`
+ */
+export function hasRole(role: OrganizationRole | null, minimum: OrganizationRole): boolean {
+  return role !== null && ORGANIZATION_ROLES.indexOf(role) >= ORGANIZATION_ROLES.indexOf(minimum);
+}
+
+/**
+ * SQL condition matching the agents (aliased `alias`) a user can see: their
+ * personal agents plus those of every organization they belong to
+ */
+export function accessibleAgentsFilter(alias: string, param: string = '$1'): string {
+  return `((${alias}.organization_id IS NULL AND ${alias}.user_id = ${param})
+    OR ${alias}.organization_id IN (SELECT organization_id FROM organization_members WHERE user_id = ${param}))`;
+}
+
+/**
+ * Organizations share agents between members. Roles, lowest first: viewers
+ * read, operators also start, stop and execute, admins also change agents
+ * and members, owners also manage owners and delete the organization.
+ */
+export class OrganizationService {
+  /**
+   * Create an organization with the user as its owner
+   */
+  async createOrganization(userId: string, name: string): Promise<OrganizationWithRole> {
+    try {
+      const organization = await database.transaction(async (client) => {
+        const result = await client.query(
+          `INSERT INTO organizations (name, created_by) VALUES ($1, $2) RETURNING *`,
+          [name, userId]
+        );
+
+        await client.query(
+          `INSERT INTO organization_members (organization_id, user_id, role) VALUES ($1, $2, 'owner')`,
+          [result.rows[0].id, userId]
+        );
+
+        return result.rows[0];
+      });
+
+      logger.info('Organization created', { organizationId: organization.id, userId });
+
+      return { ...organization, role: 'owner', member_count: 1, agent_count: 0 };
+    } catch (error) {
+      logger.error('Failed to create organization', { userId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Organizations the user belongs to, with their role in each
+   */
+  async listOrganizations(userId: string): Promise<OrganizationWithRole[]> {
+    try {
+      const result = await database.query(
+        `${this.organizationSelect()}
+         WHERE m.user_id = $1
+         ORDER BY o.name`,
+        [userId]
+      );
+
+      return result.rows.map(this.mapOrganization);
+    } catch (error) {
+      logger.error('Failed to list organizations', { userId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * One organization as seen by a member; null when the user is not a member
+   */
+  async getOrganization(organizationId: string, userId: string): Promise<OrganizationWithRole | null> {
+    const result = await database.query(
+      `${this.organizationSelect()}
+       WHERE o.id = $2 AND m.user_id = $1`,
+      [userId, organizationId]
+    );
+
+    return result.rows.length > 0 ? this.mapOrganization(result.rows[0]) : null;
+  }
+
+  async getRole(organizationId: string, userId: string): Promise<OrganizationRole | null> {
+    const result = await database.query(
+      'SELECT role FROM organization_members WHERE organization_id = $1 AND user_id = $2',
+      [organizationId, userId]
+    );
+
+    return result.rows[0]?.role || null;
+  }
+
+  /**
+   * The user's role on an agent. Personal agents give their creator the owner role.
+   */
+  async getAgentRole(agent: { user_id: string; organization_id?: string | null }, userId: string): Promise<OrganizationRole | null> {
+    if (!agent.organization_id) {
+      return agent.user_id === userId ? 'owner' : null;
+    }
+
+    return this.getRole(agent.organization_id, userId);
+  }
+
+  async renameOrganization(organizationId: string, name: string): Promise<void> {
+    try {
+      await database.query('UPDATE organizations SET name = $2 WHERE id = $1', [organizationId, name]);
+      logger.info('Organization renamed', { organizationId });
+    } catch (error) {
+      logger.error('Failed to rename organization', { organizationId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete an organization. Its agents must be deleted or moved first.
+   */
+  async deleteOrganization(organizationId: string): Promise<void> {
+    try {
+      const agents = await database.query(
+        'SELECT COUNT(*) as count FROM agents WHERE organization_id = $1',
+        [organizationId]
+      );
+
+      if (parseInt(agents.rows[0].count) > 0) {
+        throw new ConflictError('Delete or move the organization\'s agents first');
+      }
+
+      await database.query('DELETE FROM organizations WHERE id = $1', [organizationId]);
+      logger.info('Organization deleted', { organizationId });
+    } catch (error) {
+      logger.error('Failed to delete organization', { organizationId, error });
+      throw error;
+    }
+  }
+
+  async listMembers(organizationId: string): Promise<OrganizationMember[]> {
+    try {
+      const result = await database.query(
+        `SELECT m.user_id, u.email, u.first_name, u.last_name, m.role, m.created_at
+         FROM organization_members m
+         JOIN users u ON u.id = m.user_id
+         WHERE m.organization_id = $1
+         ORDER BY m.created_at`,
+        [organizationId]
+      );
+
+      return result.rows;
+    } catch (error) {
+      logger.error('Failed to list organization members', { organizationId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Add a registered user by email. Returns null when no user has that email.
+   */
+  async addMember(organizationId: string, email: string, role: OrganizationRole): Promise<OrganizationMember | null> {
+    try {
+      const result = await database.query(
+        `INSERT INTO organization_members (organization_id, user_id, role)
+         SELECT $1, id, $3 FROM users WHERE email = $2
+         ON CONFLICT (organization_id, user_id) DO NOTHING
+         RETURNING user_id`,
+        [organizationId, email, role]
+      );
+
+      if (result.rows.length === 0) {
+        const existing = await database.query('SELECT id FROM users WHERE email = $1', [email]);
+        if (existing.rows.length > 0) {
+          throw new ConflictError('User is already a member of this organization');
+        }
+        return null;
+      }
+
+      logger.info('Organization member added', { organizationId, userId: result.rows[0].user_id, role });
+      return this.getMember(organizationId, result.rows[0].user_id);
+    } catch (error) {
+      logger.error('Failed to add organization member', { organizationId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Change a member's role. Returns null when the user is not a member.
+   */
+  async updateMemberRole(organizationId: string, userId: string, role: OrganizationRole): Promise<OrganizationMember | null> {
+    try {
+      const updated = await database.transaction(async (client) => {
+        if (role !== 'owner') {
+          await this.assertNotLastOwner(client, organizationId, userId);
+        }
+
+        const result = await client.query(
+          `UPDATE organization_members SET role = $3
+           WHERE organization_id = $1 AND user_id = $2
+           RETURNING user_id`,
+          [organizationId, userId, role]
+        );
+
+        return result.rows.length > 0;
+      });
+
+      if (!updated) {
+        return null;
+      }
+
+      logger.info('Organization member role changed', { organizationId, userId, role });
+      return this.getMember(organizationId, userId);
+    } catch (error) {
+      logger.error('Failed to change organization member role', { organizationId, userId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a member. Returns false when the user is not a member.
+   */
+  async removeMember(organizationId: string, userId: string): Promise<boolean> {
+    try {
+      const removed = await database.transaction(async (client) => {
+        await this.assertNotLastOwner(client, organizationId, userId);
+
+        const result = await client.query(
+          'DELETE FROM organization_members WHERE organization_id = $1 AND user_id = $2 RETURNING user_id',
+          [organizationId, userId]
+        );
+
+        return result.rows.length > 0;
+      });
+
+      if (removed) {
+        logger.info('Organization member removed', { organizationId, userId });
+      }
+
+      return removed;
+    } catch (error) {
+      logger.error('Failed to remove organization member', { organizationId, userId, error });
+      throw error;
+    }
+  }
+
+  async getMember(organizationId: string, userId: string): Promise<OrganizationMember | null> {
+    const result = await database.query(
+      `SELECT m.user_id, u.email, u.first_name, u.last_name, m.role, m.created_at
+       FROM organization_members m
+       JOIN users u ON u.id = m.user_id
+       WHERE m.organization_id = $1 AND m.user_id = $2`,
+      [organizationId, userId]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Every organization keeps at least one owner. Locks the organization row
+   * so concurrent demotions cannot both pass.
+   */
+  private async assertNotLastOwner(client: PoolClient, organizationId: string, userId: string): Promise<void> {
+    await client.query('SELECT id FROM organizations WHERE id = $1 FOR UPDATE', [organizationId]);
+
+    const result = await client.query(
+      `SELECT COUNT(*) FILTER (WHERE role = 'owner') as owners,
+              BOOL_OR(user_id = $2 AND role = 'owner') as is_owner
+       FROM organization_members
+       WHERE organization_id = $1`,
+      [organizationId, userId]
+    );
+
+    if (result.rows[0].is_owner && parseInt(result.rows[0].owners) <= 1) {
+      throw new ConflictError('An organization must keep at least one owner');
+    }
+  }
+
+  private organizationSelect(): string {
+    return `SELECT o.*, m.role,
+              (SELECT COUNT(*) FROM organization_members om WHERE om.organization_id = o.id) as member_count,
+              (SELECT COUNT(*) FROM agents a WHERE a.organization_id = o.id) as agent_count
+            FROM organizations o
+            JOIN organization_members m ON m.organization_id = o.id`;
+  }
+
+  private mapOrganization(row: any): OrganizationWithRole {
+    return {
+      ...row,
+      member_count: parseInt(row.member_count),
+      agent_count: parseInt(row.agent_count),
+    };
+  }
+}
@@ -0,0 +1,233 @@
+import type { RunnableConfig } from '@langchain/core/runnables';
+import {
+  BaseCheckpointSaver,
+  Checkpoint,
+  CheckpointListOptions,
+  CheckpointMetadata,
+  CheckpointPendingWrite,
+  CheckpointTuple,
+  PendingWrite,
+  SerializerProtocol,
+  TASKS,
+  WRITES_IDX_MAP,
+  copyCheckpoint,
+  getCheckpointId,
+} from '@langchain/langgraph-checkpoint';
+import { database } from '../config/database';
+
+/**
+ * LangGraph checkpoint saver backed by PostgreSQL so agent threads survive
+ * restarts and can be resumed by any replica.
+ *
+ * Checkpoint ids are time-ordered uuid6 values, so ordering by id gives
+ * chronological order.
+ */
+export class PostgresCheckpointSaver extends BaseCheckpointSaver {
+  constructor(serde?: SerializerProtocol) {
+    super(serde);
+  }
+
+  async getTuple(config: RunnableConfig): Promise<CheckpointTuple | undefined> {
+    const threadId = config.configurable?.thread_id;
+    const checkpointNs = config.configurable?.checkpoint_ns ?? '';
+    const checkpointId = getCheckpointId(config);
+
+    const result = checkpointId
+      ? await database.query(
+          `SELECT * FROM langgraph_checkpoints
+           WHERE thread_id = $1 AND checkpoint_ns = $2 AND checkpoint_id = $3`,
+          [threadId, checkpointNs, checkpointId]
+        )
+      : await database.query(
+          `SELECT * FROM langgraph_checkpoints
+           WHERE thread_id = $1 AND checkpoint_ns = $2
+           ORDER BY checkpoint_id DESC
+           LIMIT 1`,
+          [threadId, checkpointNs]
+        );
+
+    if (result.rows.length === 0) {
+      return undefined;
+    }
+
+    return this.rowToTuple(result.rows[0]);
+  }
+
+  async *list(config: RunnableConfig, options?: CheckpointListOptions): AsyncGenerator<CheckpointTuple> {
+    const { before, limit, filter } = options ?? {};
+    const conditions: string[] = [];
+    const values: any[] = [];
+    let paramCount = 1;
+
+    if (config.configurable?.thread_id) {
+      conditions.push(`thread_id = $${paramCount++}`);
+      values.push(config.configurable.thread_id);
+    }
+
+    if (config.configurable?.checkpoint_ns !== undefined) {
+      conditions.push(`checkpoint_ns = $${paramCount++}`);
+      values.push(config.configurable.checkpoint_ns);
+    }
+
+    if (config.configurable?.checkpoint_id) {
+      conditions.push(`checkpoint_id = $${paramCount++}`);
+      values.push(config.configurable.checkpoint_id);
+    }
+
+    if (before?.configurable?.checkpoint_id) {
+      conditions.push(`checkpoint_id < $${paramCount++}`);
+      values.push(before.configurable.checkpoint_id);
+    }
+
+    if (filter && Object.keys(filter).length > 0) {
+      conditions.push(`metadata_json @> $${paramCount++}`);
+      values.push(JSON.stringify(filter));
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const limitClause = limit !== undefined ? `LIMIT ${Math.max(0, Math.floor(limit))}` : '';
+
+    const result = await database.query(
+      `SELECT * FROM langgraph_checkpoints ${where} ORDER BY checkpoint_id DESC ${limitClause}`,
+      values
+    );
+
+    for (const row of result.rows) {
+      yield await this.rowToTuple(row);
+    }
+  }
+
+  async put(config: RunnableConfig, checkpoint: Checkpoint, metadata: CheckpointMetadata): Promise<RunnableConfig> {
+    const threadId = config.configurable?.thread_id;
+    const checkpointNs = config.configurable?.checkpoint_ns ?? '';
+
+    if (threadId === undefined) {
+      throw new Error('Failed to put checkpoint. The passed RunnableConfig is missing a required "thread_id" field in its "configurable" property.');
+    }
+
+    // Pending sends are rebuilt from the parent's writes when loading
+    const prepared: Partial<Checkpoint> = copyCheckpoint(checkpoint);
+    delete prepared.pending_sends;
+
+    const [checkpointType, serializedCheckpoint] = this.serde.dumpsTyped(prepared);
+    const [metadataType, serializedMetadata] = this.serde.dumpsTyped(metadata);
+
+    await database.query(
+      `INSERT INTO langgraph_checkpoints
+         (thread_id, checkpoint_ns, checkpoint_id, parent_checkpoint_id, checkpoint_type, checkpoint,
+          metadata_type, metadata, metadata_json)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+       ON CONFLICT (thread_id, checkpoint_ns, checkpoint_id) DO UPDATE SET
+         checkpoint_type = EXCLUDED.checkpoint_type,
+         checkpoint = EXCLUDED.checkpoint,
+         metadata_type = EXCLUDED.metadata_type,
+         metadata = EXCLUDED.metadata,
+         metadata_json = EXCLUDED.metadata_json`,
+      [
+        threadId,
+        checkpointNs,
+        checkpoint.id,
+        config.configurable?.checkpoint_id || null,
+        checkpointType,
+        Buffer.from(serializedCheckpoint),
+        metadataType,
+        Buffer.from(serializedMetadata),
+        JSON.stringify(metadata),
+      ]
+    );
+
+    return {
+      configurable: {
+        thread_id: threadId,
+        checkpoint_ns: checkpointNs,
+        checkpoint_id: checkpoint.id,
+      },
+    };
+  }
+
+  async putWrites(config: RunnableConfig, writes: PendingWrite[], taskId: string): Promise<void> {
+    const threadId = config.configurable?.thread_id;
+    const checkpointNs = config.configurable?.checkpoint_ns ?? '';
+    const checkpointId = config.configurable?.checkpoint_id;
+
+    if (threadId === undefined) {
+      throw new Error('Failed to put writes. The passed RunnableConfig is missing a required "thread_id" field in its "configurable" property');
+    }
+
+    if (checkpointId === undefined) {
+      throw new Error('Failed to put writes. The passed RunnableConfig is missing a required "checkpoint_id" field in its "configurable" property.');
+    }
+
+    for (const [idx, [channel, value]] of writes.entries()) {
+      const writeIdx = WRITES_IDX_MAP[channel] ?? idx;
+      const [valueType, serializedValue] = this.serde.dumpsTyped(value);
+
+      // Special writes (negative index) replace earlier ones; regular writes are kept once
+      await database.query(
+        `INSERT INTO langgraph_checkpoint_writes
+           (thread_id, checkpoint_ns, checkpoint_id, task_id, idx, channel, value_type, value)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+         ON CONFLICT (thread_id, checkpoint_ns, checkpoint_id, task_id, idx) DO ${writeIdx < 0
+           ? 'UPDATE SET channel = EXCLUDED.channel, value_type = EXCLUDED.value_type, value = EXCLUDED.value'
+           : 'NOTHING'}`,
+        [threadId, checkpointNs, checkpointId, taskId, writeIdx, channel, valueType, Buffer.from(serializedValue)]
+      );
+    }
+  }
+
+  private async rowToTuple(row: any): Promise<CheckpointTuple> {
+    const pendingWrites = await this.getPendingWrites(row.thread_id, row.checkpoint_ns, row.checkpoint_id);
+    const pendingSends = row.parent_checkpoint_id
+      ? (await this.getPendingWrites(row.thread_id, row.checkpoint_ns, row.parent_checkpoint_id))
+          .filter(([, channel]) => channel === TASKS)
+          .map(([, , value]) => value)
+      : [];
+
+    const checkpoint: Checkpoint = {
+      ...(await this.serde.loadsTyped(row.checkpoint_type, row.checkpoint)),
+      pending_sends: pendingSends,
+    };
+
+    const tuple: CheckpointTuple = {
+      config: {
+        configurable: {
+          thread_id: row.thread_id,
+          checkpoint_ns: row.checkpoint_ns,
+          checkpoint_id: row.checkpoint_id,
+        },
+      },
+      checkpoint,
+      metadata: await this.serde.loadsTyped(row.metadata_type, row.metadata),
+      pendingWrites,
+    };
+
+    if (row.parent_checkpoint_id) {
+      tuple.parentConfig = {
+        configurable: {
+          thread_id: row.thread_id,
+          checkpoint_ns: row.checkpoint_ns,
+          checkpoint_id: row.parent_checkpoint_id,
+        },
+      };
+    }
+
+    return tuple;
+  }
+
+  private async getPendingWrites(threadId: string, checkpointNs: string, checkpointId: string): Promise<CheckpointPendingWrite[]> {
+    const result = await database.query(
+      `SELECT task_id, channel, value_type, value FROM langgraph_checkpoint_writes
+       WHERE thread_id = $1 AND checkpoint_ns = $2 AND checkpoint_id = $3
+       ORDER BY task_id, idx`,
+      [threadId, checkpointNs, checkpointId]
+    );
+
+    return Promise.all(
+      result.rows.map(async (row: any): Promise<CheckpointPendingWrite> => [
+        row.task_id,
+        row.channel,
+        await this.serde.loadsTyped(row.value_type, row.value),
+      ])
+    );
+  }
+}
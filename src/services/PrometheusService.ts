@@ -0,0 +1,166 @@
+import crypto from 'crypto';
+import { database } from '../config/database';
+import { logger } from '../utils/logger';
+import { TaskQueueService } from './TaskQueueService';
+import { AlertSeverity } from '../types';
+import {
+  GaugeSample,
+  renderGauge,
+  taskDurationSeconds,
+  llmCallDurationSeconds,
+} from '../utils/prometheus';
+
+// Latest agent_metrics columns exposed per agent, with their metric name and help
+const NODE_GAUGES: { column: string; name: string; help: string }[] = [
+  { column: 'uptime', name: 'mentis_agent_uptime_percent', help: 'Uptime reported by the latest sample' },
+  { column: 'response_time', name: 'mentis_agent_response_time_milliseconds', help: 'Node response time' },
+  { column: 'cpu_usage', name: 'mentis_agent_cpu_usage_percent', help: 'Node CPU usage' },
+  { column: 'memory_usage', name: 'mentis_agent_memory_usage_percent', help: 'Node memory usage' },
+  { column: 'disk_usage', name: 'mentis_agent_disk_usage_percent', help: 'Node disk usage' },
+  { column: 'network_latency', name: 'mentis_agent_network_latency_milliseconds', help: 'Node network latency' },
+  { column: 'peer_count', name: 'mentis_agent_peer_count', help: 'Connected peers' },
+  { column: 'block_height', name: 'mentis_agent_block_height', help: 'Latest block height seen by the node' },
+  { column: 'sync_status', name: 'mentis_agent_synced', help: 'Whether the node is in sync (1) or not (0)' },
+  { column: 'recorded_epoch', name: 'mentis_agent_last_sample_timestamp_seconds', help: 'Unix time of the latest sample' },
+];
+
+/**
+ * Prometheus scrape output: node metrics of every agent and open alerts,
+ * read from the database, plus queue, database pool and process internals
+ * of the replica that serves the scrape
+ */
+export class PrometheusService {
+  private token?: string;
+  private taskQueue: TaskQueueService;
+
+  constructor(taskQueue: TaskQueueService) {
+    this.token = process.env.METRICS_TOKEN;
+    this.taskQueue = taskQueue;
+  }
+
+  isConfigured(): boolean {
+    return !!this.token;
+  }
+
+  /**
+   * Check an `Authorization: Bearer <token>` header against METRICS_TOKEN
+   */
+  verifyAuthorization(header: string | undefined): boolean {
+    const match = header?.match(/^Bearer (.+)$/);
+    if (!this.token || !match) {
+      return false;
+    }
+
+    const received = crypto.createHash('sha256').update(match[1]).digest();
+    const expected = crypto.createHash('sha256').update(this.token).digest();
+    return crypto.timingSafeEqual(received, expected);
+  }
+
+  async collect(): Promise<string> {
+    try {
+      const families = await Promise.all([
+        this.collectNodeMetrics(),
+        this.collectAlerts(),
+        this.collectQueue(),
+      ]);
+
+      return [
+        ...families.flat(),
+        ...this.collectDatabasePool(),
+        ...this.collectProcess(),
+        taskDurationSeconds.render(),
+        llmCallDurationSeconds.render(),
+      ].join('\n') + '\n';
+    } catch (error) {
+      logger.error('Failed to collect Prometheus metrics', { error });
+      throw error;
+    }
+  }
+
+  private async collectNodeMetrics(): Promise<string[]> {
+    const result = await database.query(
+      `SELECT a.id, a.name, a.chain, a.node_type, am.*, EXTRACT(EPOCH FROM am.recorded_at) AS recorded_epoch
+       FROM agents a
+       JOIN LATERAL (
+         SELECT uptime, response_time, cpu_usage, memory_usage, disk_usage, network_latency,
+                peer_count, block_height, sync_status, recorded_at
+         FROM agent_metrics
+         WHERE agent_id = a.id
+         ORDER BY recorded_at DESC
+         LIMIT 1
+       ) am ON true
+       ORDER BY a.id`
+    );
+
+    return NODE_GAUGES.map(gauge => renderGauge(
+      gauge.name,
+      gauge.help,
+      // Host usage is NULL for agents without a sidecar; leave those series out
+      result.rows.filter((row: any) => row[gauge.column] !== null).map((row: any): GaugeSample => ({
+        labels: { agent_id: row.id, agent: row.name, chain: row.chain, node_type: row.node_type },
+        value: typeof row[gauge.column] === 'boolean' ? Number(row[gauge.column]) : parseFloat(row[gauge.column]),
+      }))
+    ));
+  }
+
+  private async collectAlerts(): Promise<string[]> {
+    const result = await database.query(
+      `SELECT severity, COUNT(*) AS open, COUNT(*) FILTER (WHERE acknowledged_at IS NOT NULL) AS acknowledged
+       FROM alerts
+       WHERE resolved = false
+       GROUP BY severity`
+    );
+
+    const bySeverity = new Map<string, any>(result.rows.map((row: any) => [row.severity, row]));
+    const severities = Object.values(AlertSeverity);
+
+    return [
+      renderGauge('mentis_alerts_open', 'Unresolved alerts', severities.map(severity => ({
+        labels: { severity },
+        value: parseInt(bySeverity.get(severity)?.open || '0'),
+      }))),
+      renderGauge('mentis_alerts_acknowledged', 'Unresolved alerts that were acknowledged', severities.map(severity => ({
+        labels: { severity },
+        value: parseInt(bySeverity.get(severity)?.acknowledged || '0'),
+      }))),
+    ];
+  }
+
+  private async collectQueue(): Promise<string[]> {
+    const stats = await this.taskQueue.getStats();
+
+    return [
+      renderGauge('mentis_task_queue_jobs', 'Agent task jobs by queue state', Object.entries(stats).map(([state, value]) => ({
+        labels: { state },
+        value,
+      }))),
+    ];
+  }
+
+  private collectDatabasePool(): string[] {
+    const pool = database.getPool();
+
+    return [
+      renderGauge('mentis_db_pool_connections', 'Database connections held by this replica', [
+        { labels: { state: 'idle' }, value: pool.idleCount },
+        { labels: { state: 'active' }, value: pool.totalCount - pool.idleCount },
+      ]),
+      renderGauge('mentis_db_pool_waiting_requests', 'Queries waiting for a free database connection', [
+        { value: pool.waitingCount },
+      ]),
+      renderGauge('mentis_db_pool_max_connections', 'Database pool size limit', [
+        { value: pool.options.max ?? 10 },
+      ]),
+    ];
+  }
+
+  private collectProcess(): string[] {
+    const memory = process.memoryUsage();
+
+    return [
+      renderGauge('process_resident_memory_bytes', 'Resident memory of this replica', [{ value: memory.rss }]),
+      renderGauge('nodejs_heap_used_bytes', 'V8 heap in use', [{ value: memory.heapUsed }]),
+      renderGauge('process_uptime_seconds', 'Seconds since this replica started', [{ value: process.uptime() }]),
+    ];
+  }
+}
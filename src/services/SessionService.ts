@@ -0,0 +1,222 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { database } from '../config/database';
+import { logger } from '../utils/logger';
+import { AuthSession, SessionMetadata, SessionTokens } from '../models/Session';
+
+/**
+ * Login sessions. Each session issues short-lived access tokens (JWTs
+ * carrying the session id) and a chain of single-use refresh tokens.
+ * Presenting a refresh token that was already rotated means it leaked, so
+ * the whole session is revoked.
+ */
+export class SessionService {
+  private accessTokenTtl: string;
+  private refreshTokenTtlDays: number;
+
+  constructor() {
+    this.accessTokenTtl = process.env.ACCESS_TOKEN_TTL || '15m';
+    this.refreshTokenTtlDays = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '30');
+  }
+
+  /**
+   * Start a session for a user who has just authenticated
+   */
+  async createSession(user: { id: string; email: string }, metadata: SessionMetadata = {}): Promise<SessionTokens> {
+    try {
+      const refreshToken = this.generateToken();
+
+      const sessionId = await database.transaction(async (client) => {
+        const session = await client.query(
+          `INSERT INTO auth_sessions (user_id, user_agent, ip_address, expires_at)
+           VALUES ($1, $2, $3, CURRENT_TIMESTAMP + make_interval(days => $4))
+           RETURNING id`,
+          [user.id, metadata.userAgent || null, metadata.ipAddress || null, this.refreshTokenTtlDays]
+        );
+
+        await client.query(
+          `INSERT INTO refresh_tokens (session_id, token_hash, expires_at)
+           VALUES ($1, $2, CURRENT_TIMESTAMP + make_interval(days => $3))`,
+          [session.rows[0].id, this.hash(refreshToken), this.refreshTokenTtlDays]
+        );
+
+        return session.rows[0].id as string;
+      });
+
+      logger.info('Session created', { userId: user.id, sessionId });
+
+      return {
+        sessionId,
+        accessToken: this.signAccessToken(user, sessionId),
+        refreshToken,
+        expiresIn: this.accessTokenTtl,
+      };
+    } catch (error) {
+      logger.error('Failed to create session', { userId: user.id, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Exchange a refresh token for a new access and refresh token. Returns
+   * null when the token is unknown, expired, revoked or reused.
+   */
+  async refresh(refreshToken: string, metadata: SessionMetadata = {}): Promise<SessionTokens | null> {
+    try {
+      const nextToken = this.generateToken();
+
+      const outcome = await database.transaction(async (client) => {
+        const result = await client.query(
+          `SELECT rt.id, rt.used_at, rt.expires_at < CURRENT_TIMESTAMP as expired,
+                  s.id as session_id, s.revoked_at, u.id as user_id, u.email
+           FROM refresh_tokens rt
+           JOIN auth_sessions s ON s.id = rt.session_id
+           JOIN users u ON u.id = s.user_id
+           WHERE rt.token_hash = $1
+           FOR UPDATE OF rt`,
+          [this.hash(refreshToken)]
+        );
+
+        if (result.rows.length === 0) {
+          return null;
+        }
+
+        const token = result.rows[0];
+
+        if (token.used_at) {
+          await client.query(
+            `UPDATE auth_sessions SET revoked_at = CURRENT_TIMESTAMP, revoke_reason = 'refresh_token_reuse'
+             WHERE id = $1 AND revoked_at IS NULL`,
+            [token.session_id]
+          );
+          logger.warn('Refresh token reuse detected; session revoked', { userId: token.user_id, sessionId: token.session_id });
+          return null;
+        }
+
+        if (token.expired || token.revoked_at) {
+          return null;
+        }
+
+        const inserted = await client.query(
+          `INSERT INTO refresh_tokens (session_id, token_hash, expires_at)
+           VALUES ($1, $2, CURRENT_TIMESTAMP + make_interval(days => $3))
+           RETURNING id`,
+          [token.session_id, this.hash(nextToken), this.refreshTokenTtlDays]
+        );
+
+        await client.query(
+          `UPDATE refresh_tokens SET used_at = CURRENT_TIMESTAMP, replaced_by = $2 WHERE id = $1`,
+          [token.id, inserted.rows[0].id]
+        );
+
+        await client.query(
+          `UPDATE auth_sessions
+           SET last_used_at = CURRENT_TIMESTAMP,
+               expires_at = CURRENT_TIMESTAMP + make_interval(days => $2),
+               user_agent = COALESCE($3, user_agent),
+               ip_address = COALESCE($4, ip_address)
+           WHERE id = $1`,
+          [token.session_id, this.refreshTokenTtlDays, metadata.userAgent || null, metadata.ipAddress || null]
+        );
+
+        return { sessionId: token.session_id as string, user: { id: token.user_id, email: token.email } };
+      });
+
+      if (!outcome) {
+        return null;
+      }
+
+      return {
+        sessionId: outcome.sessionId,
+        accessToken: this.signAccessToken(outcome.user, outcome.sessionId),
+        refreshToken: nextToken,
+        expiresIn: this.accessTokenTtl,
+      };
+    } catch (error) {
+      logger.error('Failed to refresh session', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Active sessions for a user, most recently used first
+   */
+  async listSessions(userId: string): Promise<AuthSession[]> {
+    try {
+      const result = await database.query(
+        `SELECT id, user_id, user_agent, ip_address, created_at, last_used_at, expires_at
+         FROM auth_sessions
+         WHERE user_id = $1 AND revoked_at IS NULL AND expires_at > CURRENT_TIMESTAMP
+         ORDER BY last_used_at DESC`,
+        [userId]
+      );
+
+      return result.rows;
+    } catch (error) {
+      logger.error('Failed to list sessions', { userId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Revoke one session. Returns false when it is not found or already revoked.
+   */
+  async revokeSession(userId: string, sessionId: string, reason: string = 'logout'): Promise<boolean> {
+    try {
+      const result = await database.query(
+        `UPDATE auth_sessions SET revoked_at = CURRENT_TIMESTAMP, revoke_reason = $3
+         WHERE id = $1 AND user_id = $2 AND revoked_at IS NULL`,
+        [sessionId, userId, reason]
+      );
+
+      if (result.rowCount > 0) {
+        logger.info('Session revoked', { userId, sessionId, reason });
+      }
+
+      return result.rowCount > 0;
+    } catch (error) {
+      logger.error('Failed to revoke session', { userId, sessionId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Revoke all of a user's sessions, optionally keeping the current one
+   */
+  async revokeAllSessions(userId: string, reason: string, exceptSessionId?: string): Promise<number> {
+    try {
+      const result = await database.query(
+        `UPDATE auth_sessions SET revoked_at = CURRENT_TIMESTAMP, revoke_reason = $2
+         WHERE user_id = $1 AND revoked_at IS NULL AND ($3::uuid IS NULL OR id <> $3)`,
+        [userId, reason, exceptSessionId || null]
+      );
+
+      logger.info('Sessions revoked', { userId, reason, count: result.rowCount });
+      return result.rowCount;
+    } catch (error) {
+      logger.error('Failed to revoke sessions', { userId, error });
+      throw error;
+    }
+  }
+
+  private signAccessToken(user: { id: string; email: string }, sessionId: string): string {
+    const jwtSecret = process.env.JWT_SECRET;
+    if (!jwtSecret) {
+      throw new Error('JWT_SECRET not configured');
+    }
+
+    return jwt.sign(
+      { userId: user.id, email: user.email, sid: sessionId },
+      jwtSecret,
+      { expiresIn: this.accessTokenTtl } as jwt.SignOptions
+    );
+  }
+
+  private generateToken(): string {
+    return crypto.randomBytes(48).toString('base64url');
+  }
+
+  private hash(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+}
@@ -0,0 +1,465 @@
+import { database } from '../config/database';
+import { logger } from '../utils/logger';
+import { AlertSeverity, ValidationError } from '../types';
+import { accessibleAgentsFilter } from './OrganizationService';
+import { OwnedResource } from '../models/Escalation';
+import { Slo, SloStatus, SloWithStatus, BurnWindow, CreateSloData, UpdateSloData } from '../models/Slo';
+
+// Share of one sample that is good, or NULL when it does not count: latency
+// and sync lag only count samples where the node answered
+const GOOD_SAMPLE = `CASE s.type
+  WHEN 'availability' THEN am.uptime / 100.0
+  WHEN 'latency' THEN CASE WHEN am.uptime > 0 THEN (am.response_time <= s.threshold)::int END
+  WHEN 'sync_lag' THEN CASE WHEN am.uptime > 0 THEN (COALESCE(am.sync_lag, CASE WHEN am.sync_status THEN 0 END) <= s.threshold)::int END
+END`;
+
+const SLO_SAMPLES = `slos s
+  JOIN slo_agents sa ON sa.slo_id = s.id
+  JOIN agent_metrics am ON am.agent_id = sa.agent_id
+  CROSS JOIN LATERAL (SELECT ${GOOD_SAMPLE} AS good) g`;
+
+const SLO_COLUMNS = `s.*, COALESCE(
+  (SELECT array_agg(sa.agent_id ORDER BY sa.agent_id) FROM slo_agents sa WHERE sa.slo_id = s.id), '{}'
+) AS agent_ids`;
+
+const BURN_WINDOWS: Record<BurnWindow, number> = { '5m': 5, '30m': 30, '1h': 60, '6h': 360 };
+
+export interface BurnAlert {
+  name: 'fast' | 'slow';
+  long: BurnWindow;
+  short: BurnWindow;
+  budgetShare: number; // of the whole window's budget, spent within the long window
+  severity: AlertSeverity;
+}
+
+// Multi-window burn alerts: the long window shows the budget is really being
+// spent, the short one that it still is. For a 30-day window these are the
+// usual 14.4x over 1h and 6x over 6h.
+export const BURN_ALERTS: BurnAlert[] = [
+  { name: 'fast', long: '1h', short: '5m', budgetShare: 0.02, severity: AlertSeverity.HIGH },
+  { name: 'slow', long: '6h', short: '30m', budgetShare: 0.05, severity: AlertSeverity.MEDIUM },
+];
+
+interface SampleCounts {
+  good: number;
+  total: number;
+}
+
+export interface SloSummary {
+  total: number;
+  breaching: number;
+  fastBurn: number;
+  slowBurn: number;
+  budgetExhausted: number;
+}
+
+export interface SloBurnAlert {
+  key: string; // stored on the alerts as rule_key
+  agentIds: string[]; // agents whose samples spent budget in the long window
+  severity: AlertSeverity;
+  message: string;
+}
+
+/**
+ * Burn rate at which the alert fires; 1 spends the budget exactly over the window
+ */
+export function burnThreshold(slo: Pick<Slo, 'window_days'>, alert: BurnAlert): number {
+  return alert.budgetShare * slo.window_days * 24 * 60 / BURN_WINDOWS[alert.long];
+}
+
+/**
+ * Attainment, remaining error budget and burn rates from good/total sample
+ * counts over the SLO window and each burn window
+ */
+export function computeStatus(slo: Pick<Slo, 'objective' | 'window_days'>, window: SampleCounts, burn: Record<BurnWindow, SampleCounts>): Omit<SloStatus, 'history_start'> {
+  const allowedBad = 1 - slo.objective / 100;
+  const badShare = (counts: SampleCounts) => (counts.total - counts.good) / counts.total;
+
+  const burnRates = {} as Record<BurnWindow, number | null>;
+  for (const name of Object.keys(BURN_WINDOWS) as BurnWindow[]) {
+    burnRates[name] = burn[name].total > 0 ? badShare(burn[name]) / allowedBad : null;
+  }
+
+  const burning = (alert: BurnAlert) => {
+    const threshold = burnThreshold(slo, alert);
+    return (burnRates[alert.long] ?? 0) >= threshold && (burnRates[alert.short] ?? 0) >= threshold;
+  };
+
+  const attainment = window.total > 0 ? 100 * window.good / window.total : null;
+
+  return {
+    attainment,
+    error_budget_remaining: window.total > 0 ? 100 * (1 - badShare(window) / allowedBad) : null,
+    samples: window.total,
+    burn_rates: burnRates,
+    fast_burn: burning(BURN_ALERTS[0]),
+    slow_burn: burning(BURN_ALERTS[1]),
+    breaching: attainment !== null && attainment < slo.objective,
+  };
+}
+
+function formatNumber(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(2);
+}
+
+/**
+ * Service level objectives over one agent or a group of agents, measured as
+ * the share of good metrics samples over a rolling window. Hourly good/total
+ * counts cover the window; burn rates are read from raw samples.
+ */
+export class SloService {
+  /**
+   * SLOs the user can see, optionally limited to one organization, with their status
+   */
+  async listSlos(userId: string, organizationId?: string): Promise<SloWithStatus[]> {
+    try {
+      const values: any[] = [userId];
+      let query = `SELECT ${SLO_COLUMNS} FROM slos s WHERE ${accessibleAgentsFilter('s')}`;
+
+      if (organizationId) {
+        values.push(organizationId);
+        query += ' AND s.organization_id = $2';
+      }
+
+      const result = await database.query(`${query} ORDER BY s.name`, values);
+      return await this.withStatus(result.rows);
+    } catch (error) {
+      logger.error('Failed to list SLOs', { userId, error });
+      throw error;
+    }
+  }
+
+  async getSlo(sloId: string): Promise<Slo | null> {
+    try {
+      const result = await database.query(`SELECT ${SLO_COLUMNS} FROM slos s WHERE s.id = $1`, [sloId]);
+      return result.rows[0] || null;
+    } catch (error) {
+      logger.error('Failed to get SLO', { sloId, error });
+      throw error;
+    }
+  }
+
+  async getSloWithStatus(slo: Slo): Promise<SloWithStatus> {
+    const [withStatus] = await this.withStatus([slo]);
+    return withStatus;
+  }
+
+  async createSlo(data: CreateSloData): Promise<Slo> {
+    try {
+      await this.validateAgents(data, data.agent_ids);
+
+      const sloId = await database.transaction(async (client) => {
+        const result = await client.query(
+          `INSERT INTO slos (user_id, organization_id, name, description, type, threshold, objective, window_days, burn_alerts)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+           RETURNING id`,
+          [
+            data.user_id,
+            data.organization_id || null,
+            data.name,
+            data.description || null,
+            data.type,
+            data.threshold ?? null,
+            data.objective,
+            data.window_days || 30,
+            data.burn_alerts ?? true,
+          ]
+        );
+
+        const id = result.rows[0].id;
+        await client.query(
+          'INSERT INTO slo_agents (slo_id, agent_id) SELECT $1, unnest($2::uuid[])',
+          [id, data.agent_ids]
+        );
+
+        return id;
+      });
+
+      await this.rebuildHourly(sloId);
+
+      logger.info('SLO created', { sloId, userId: data.user_id, type: data.type });
+      return (await this.getSlo(sloId))!;
+    } catch (error) {
+      logger.error('Failed to create SLO', { userId: data.user_id, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Update an SLO. Changing what counts as a good sample or which agents
+   * are covered recomputes its history from the raw samples still kept,
+   * and the status reports where the new history starts. Changing the
+   * window keeps the hourly counts.
+   */
+  async updateSlo(slo: Slo, data: UpdateSloData): Promise<Slo> {
+    try {
+      if (data.threshold !== undefined && slo.type === 'availability') {
+        throw new ValidationError('Availability SLOs have no threshold');
+      }
+
+      if (data.agent_ids !== undefined) {
+        await this.validateAgents(slo, data.agent_ids);
+      }
+
+      await database.transaction(async (client) => {
+        await client.query(
+          `UPDATE slos SET
+             name = COALESCE($1, name),
+             description = COALESCE($2, description),
+             threshold = COALESCE($3, threshold),
+             objective = COALESCE($4, objective),
+             window_days = COALESCE($5, window_days),
+             burn_alerts = COALESCE($6, burn_alerts)
+           WHERE id = $7`,
+          [
+            data.name || null,
+            data.description ?? null,
+            data.threshold ?? null,
+            data.objective ?? null,
+            data.window_days ?? null,
+            data.burn_alerts ?? null,
+            slo.id,
+          ]
+        );
+
+        if (data.agent_ids !== undefined) {
+          await client.query('DELETE FROM slo_agents WHERE slo_id = $1', [slo.id]);
+          await client.query(
+            'INSERT INTO slo_agents (slo_id, agent_id) SELECT $1, unnest($2::uuid[])',
+            [slo.id, data.agent_ids]
+          );
+        }
+      });
+
+      if (data.agent_ids !== undefined || data.threshold !== undefined) {
+        await this.rebuildHourly(slo.id);
+      }
+
+      logger.info('SLO updated', { sloId: slo.id });
+      return (await this.getSlo(slo.id))!;
+    } catch (error) {
+      logger.error('Failed to update SLO', { sloId: slo.id, error });
+      throw error;
+    }
+  }
+
+  async deleteSlo(sloId: string): Promise<void> {
+    try {
+      await database.query('DELETE FROM slos WHERE id = $1', [sloId]);
+      logger.info('SLO deleted', { sloId });
+    } catch (error) {
+      logger.error('Failed to delete SLO', { sloId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Counts of SLOs by state, over the user's SLOs or every SLO
+   */
+  async getSummary(userId?: string): Promise<SloSummary> {
+    try {
+      const result = await database.query(
+        `SELECT ${SLO_COLUMNS} FROM slos s ${userId ? `WHERE ${accessibleAgentsFilter('s')}` : ''}`,
+        userId ? [userId] : []
+      );
+      const slos = await this.withStatus(result.rows);
+
+      return {
+        total: slos.length,
+        breaching: slos.filter(slo => slo.status.breaching).length,
+        fastBurn: slos.filter(slo => slo.status.fast_burn).length,
+        slowBurn: slos.filter(slo => slo.status.slow_burn).length,
+        budgetExhausted: slos.filter(slo => (slo.status.error_budget_remaining ?? 100) <= 0).length,
+      };
+    } catch (error) {
+      logger.error('Failed to get SLO summary', { userId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Recount the current and previous hours of every SLO, picking up samples
+   * recorded since the last run
+   */
+  async refreshHourly(): Promise<void> {
+    try {
+      await database.query(
+        `INSERT INTO slo_hourly (slo_id, bucket, good, total)
+         SELECT s.id, date_trunc('hour', am.recorded_at), SUM(g.good), COUNT(*)
+         FROM ${SLO_SAMPLES}
+         WHERE g.good IS NOT NULL AND am.recorded_at >= date_trunc('hour', NOW() - INTERVAL '2 hours')
+         GROUP BY s.id, date_trunc('hour', am.recorded_at)
+         ON CONFLICT (slo_id, bucket) DO UPDATE SET good = EXCLUDED.good, total = EXCLUDED.total`
+      );
+    } catch (error) {
+      logger.error('Failed to refresh SLO counts', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Drop hourly counts older than the SLO's window
+   */
+  async applyRetention(): Promise<number> {
+    try {
+      const result = await database.query(
+        `DELETE FROM slo_hourly h USING slos s
+         WHERE h.slo_id = s.id AND h.bucket < NOW() - make_interval(days => s.window_days + 1)`
+      );
+
+      return result.rowCount || 0;
+    } catch (error) {
+      logger.error('Failed to apply SLO retention', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Burn alerts firing now across every SLO with burn alerts on. Alerts for
+   * keys missing from the result should be resolved.
+   */
+  async evaluateBurnAlerts(): Promise<SloBurnAlert[]> {
+    try {
+      const result = await database.query(`SELECT ${SLO_COLUMNS} FROM slos s WHERE s.burn_alerts = true`);
+      const slos = await this.withStatus(result.rows);
+      const alerts: SloBurnAlert[] = [];
+
+      for (const slo of slos) {
+        for (const burn of BURN_ALERTS) {
+          if (!(burn.name === 'fast' ? slo.status.fast_burn : slo.status.slow_burn)) {
+            continue;
+          }
+
+          const contributors = await database.query(
+            `SELECT DISTINCT am.agent_id FROM ${SLO_SAMPLES}
+             WHERE s.id = $1 AND g.good < 1 AND am.recorded_at > NOW() - make_interval(mins => $2)`,
+            [slo.id, BURN_WINDOWS[burn.long]]
+          );
+
+          const remaining = slo.status.error_budget_remaining;
+          alerts.push({
+            key: `slo:${slo.id}:${burn.name}_burn`,
+            agentIds: contributors.rows.map((row: any) => row.agent_id),
+            severity: burn.severity,
+            message: `SLO "${slo.name}" is burning its error budget ` +
+              `${formatNumber(slo.status.burn_rates[burn.long]!)}x too fast over ${burn.long} ` +
+              `(${formatNumber(slo.status.burn_rates[burn.short]!)}x over ${burn.short}); ` +
+              `${remaining === null ? 'unknown' : `${formatNumber(remaining)}%`} of the ${slo.window_days}-day budget left`,
+          });
+        }
+      }
+
+      return alerts;
+    } catch (error) {
+      logger.error('Failed to evaluate SLO burn alerts', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Recount an SLO's whole history from the raw samples still kept, and
+   * record where the recounted history starts
+   */
+  private async rebuildHourly(sloId: string): Promise<void> {
+    await database.transaction(async (client) => {
+      await client.query('DELETE FROM slo_hourly WHERE slo_id = $1', [sloId]);
+      await client.query(
+        `INSERT INTO slo_hourly (slo_id, bucket, good, total)
+         SELECT s.id, date_trunc('hour', am.recorded_at), SUM(g.good), COUNT(*)
+         FROM ${SLO_SAMPLES}
+         WHERE s.id = $1 AND g.good IS NOT NULL
+           AND am.recorded_at >= date_trunc('hour', NOW() - make_interval(days => s.window_days))
+         GROUP BY s.id, date_trunc('hour', am.recorded_at)`,
+        [sloId]
+      );
+      await client.query(
+        `UPDATE slos SET history_start = COALESCE(
+           (SELECT MIN(bucket) FROM slo_hourly WHERE slo_id = $1), date_trunc('hour', NOW())
+         ) WHERE id = $1`,
+        [sloId]
+      );
+    });
+  }
+
+  private async withStatus(slos: Slo[]): Promise<SloWithStatus[]> {
+    if (slos.length === 0) {
+      return [];
+    }
+
+    const ids = slos.map(slo => slo.id);
+
+    const windowResult = await database.query(
+      `SELECT h.slo_id, SUM(h.good) AS good, SUM(h.total) AS total
+       FROM slo_hourly h
+       JOIN slos s ON s.id = h.slo_id
+       WHERE h.slo_id = ANY($1::uuid[])
+         AND h.bucket >= date_trunc('hour', NOW() - make_interval(days => s.window_days))
+       GROUP BY h.slo_id`,
+      [ids]
+    );
+
+    const windows = Object.entries(BURN_WINDOWS);
+    const burnResult = await database.query(
+      `SELECT s.id AS slo_id,
+              ${windows.map(([name, minutes]) =>
+                `SUM(g.good) FILTER (WHERE am.recorded_at > NOW() - INTERVAL '${minutes} minutes') AS good_${name},
+              COUNT(*) FILTER (WHERE am.recorded_at > NOW() - INTERVAL '${minutes} minutes') AS total_${name}`
+              ).join(',\n              ')}
+       FROM ${SLO_SAMPLES}
+       WHERE s.id = ANY($1::uuid[]) AND g.good IS NOT NULL
+         AND am.recorded_at > NOW() - INTERVAL '${Math.max(...Object.values(BURN_WINDOWS))} minutes'
+       GROUP BY s.id`,
+      [ids]
+    );
+
+    const windowCounts = new Map<string, any>(windowResult.rows.map((row: any) => [row.slo_id, row]));
+    const burnCounts = new Map<string, any>(burnResult.rows.map((row: any) => [row.slo_id, row]));
+
+    const now = Date.now();
+
+    return slos.map(slo => {
+      const window = windowCounts.get(slo.id);
+      const burn = burnCounts.get(slo.id);
+
+      const burnWindows = {} as Record<BurnWindow, SampleCounts>;
+      for (const [name] of windows) {
+        burnWindows[name as BurnWindow] = {
+          good: parseFloat(burn?.[`good_${name}`]) || 0,
+          total: parseInt(burn?.[`total_${name}`] || '0'),
+        };
+      }
+
+      const windowStart = now - slo.window_days * 24 * 60 * 60 * 1000;
+      const historyStart = slo.history_start ? new Date(slo.history_start) : null;
+
+      return {
+        ...slo,
+        status: {
+          ...computeStatus(
+            slo,
+            { good: parseFloat(window?.good) || 0, total: parseInt(window?.total || '0') },
+            burnWindows
+          ),
+          history_start: historyStart && historyStart.getTime() > windowStart ? historyStart : null,
+        },
+      };
+    });
+  }
+
+  /**
+   * Organization SLOs cover the organization's agents, personal SLOs the
+   * owner's personal agents
+   */
+  private async validateAgents(owner: OwnedResource, agentIds: string[]): Promise<void> {
+    const result = await database.query(
+      `SELECT id FROM agents
+       WHERE id = ANY($1::uuid[])
+         AND ${owner.organization_id ? 'organization_id = $2' : 'organization_id IS NULL AND user_id = $2'}`,
+      [agentIds, owner.organization_id || owner.user_id]
+    );
+
+    if (result.rows.length !== new Set(agentIds).size) {
+      throw new ValidationError('SLO agents must belong to the same organization or owner as the SLO');
+    }
+  }
+}
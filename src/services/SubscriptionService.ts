@@ -0,0 +1,377 @@
+import { database } from '../config/database';
+import { logger } from '../utils/logger';
+import {
+  AgentConfig,
+  Subscription,
+  SubscriptionPlan,
+  SubscriptionStatus,
+  SupportedChain,
+  MentisError,
+  QuotaExceededError,
+  SubscriptionRequiredError,
+} from '../types';
+import { MetricsResolution } from '../models/Agent';
+
+export interface PlanLimits {
+  maxAgents: number | null; // null = unlimited
+  maxChains: number | null; // distinct chains across the user's agents
+  tools: string[] | null; // null = every tool
+  minMonitoringIntervalSeconds: number;
+  monthlyTaskLimit: number | null; // LLM tasks per calendar month, not counting scheduled monitoring
+  metricsRetentionDays: Record<MetricsResolution, number>;
+}
+
+export interface PlanDefinition {
+  plan: SubscriptionPlan;
+  name: string;
+  priceMonthly: number;
+  features: string[];
+  limits: PlanLimits;
+}
+
+export interface SubscriptionUsage {
+  plan: SubscriptionPlan;
+  status: SubscriptionStatus;
+  limits: PlanLimits;
+  usage: {
+    agents: number;
+    chains: SupportedChain[];
+    tasksThisMonth: number;
+  };
+  currentPeriodStart: Date;
+  currentPeriodEnd: Date;
+  cancelAtPeriodEnd: boolean;
+}
+
+export interface QuotaCheck {
+  allowed: boolean;
+  code?: string;
+  reason?: string;
+  limit?: number | null;
+  used?: number;
+}
+
+const STARTER_TOOLS = ['health_check', 'collect_metrics', 'check_finality', 'create_alert'];
+
+export const PLANS: Record<SubscriptionPlan, PlanDefinition> = {
+  [SubscriptionPlan.STARTER]: {
+    plan: SubscriptionPlan.STARTER,
+    name: 'Starter',
+    priceMonthly: 9,
+    features: ['1 agent', '1 chain', 'Basic uptime monitoring', 'Email alerts'],
+    limits: {
+      maxAgents: 1,
+      maxChains: 1,
+      tools: STARTER_TOOLS,
+      minMonitoringIntervalSeconds: 300,
+      monthlyTaskLimit: 10000,
+      metricsRetentionDays: { raw: 3, '1m': 7, '1h': 90, '1d': 365 },
+    },
+  },
+  [SubscriptionPlan.CORE]: {
+    plan: SubscriptionPlan.CORE,
+    name: 'Core',
+    priceMonthly: 19,
+    features: ['3 agents', 'All supported chains', 'Full automation', 'Multiple alert channels', 'On-chain reports'],
+    limits: {
+      maxAgents: 3,
+      maxChains: null,
+      tools: null,
+      minMonitoringIntervalSeconds: 60,
+      monthlyTaskLimit: 50000,
+      metricsRetentionDays: { raw: 7, '1m': 30, '1h': 365, '1d': 730 },
+    },
+  },
+  [SubscriptionPlan.ENTERPRISE]: {
+    plan: SubscriptionPlan.ENTERPRISE,
+    name: 'Enterprise',
+    priceMonthly: 99,
+    features: ['Unlimited agents', 'Custom scripts', 'Priority support', 'Dedicated API access'],
+    limits: {
+      maxAgents: null,
+      maxChains: null,
+      tools: null,
+      minMonitoringIntervalSeconds: 30,
+      monthlyTaskLimit: null,
+      metricsRetentionDays: { raw: 30, '1m': 90, '1h': 730, '1d': 1825 },
+    },
+  },
+};
+
+const USABLE_STATUSES = [SubscriptionStatus.ACTIVE, SubscriptionStatus.TRIALING];
+
+/**
+ * Reads the user's subscription and enforces the quotas of its plan
+ */
+export class SubscriptionService {
+  /**
+   * List the available plans
+   */
+  getPlans(): PlanDefinition[] {
+    return Object.values(PLANS);
+  }
+
+  /**
+   * Effective monitoring interval for an agent: the configured interval,
+   * raised to the plan minimum
+   */
+  getMonitoringInterval(plan: SubscriptionPlan | null, configuredSeconds?: number): number {
+    const minimum = PLANS[plan ?? SubscriptionPlan.STARTER].limits.minMonitoringIntervalSeconds;
+    return Math.max(configuredSeconds ?? minimum, minimum);
+  }
+
+  /**
+   * Get the user's most recent subscription
+   */
+  async getSubscription(userId: string): Promise<Subscription | null> {
+    try {
+      const result = await database.query(
+        `SELECT * FROM subscriptions WHERE user_id = $1 ORDER BY created_at DESC LIMIT 1`,
+        [userId]
+      );
+
+      return result.rows[0] || null;
+    } catch (error) {
+      logger.error('Failed to get subscription', { userId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Get the user's plan and how much of it is in use
+   */
+  async getUsage(userId: string): Promise<SubscriptionUsage> {
+    try {
+      const subscription = await this.requireUsableSubscription(userId);
+
+      const [agents, tasks] = await Promise.all([
+        database.query(
+          `SELECT COUNT(*) as count, COALESCE(array_agg(DISTINCT chain) FILTER (WHERE chain IS NOT NULL), '{}') as chains
+           FROM agents WHERE user_id = $1`,
+          [userId]
+        ),
+        database.query(
+          `SELECT COUNT(*) as count
+           FROM agent_tasks t
+           JOIN agents a ON a.id = t.agent_id
+           WHERE a.user_id = $1 AND NOT t.scheduled AND t.created_at >= date_trunc('month', CURRENT_TIMESTAMP)`,
+          [userId]
+        ),
+      ]);
+
+      return {
+        plan: subscription.plan,
+        status: subscription.status,
+        limits: PLANS[subscription.plan].limits,
+        usage: {
+          agents: parseInt(agents.rows[0].count),
+          chains: agents.rows[0].chains,
+          tasksThisMonth: parseInt(tasks.rows[0].count),
+        },
+        currentPeriodStart: subscription.current_period_start,
+        currentPeriodEnd: subscription.current_period_end,
+        cancelAtPeriodEnd: subscription.cancel_at_period_end,
+      };
+    } catch (error) {
+      logger.error('Failed to get subscription usage', { userId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Check whether the user may create another agent
+   */
+  async canCreateAgent(userId: string): Promise<QuotaCheck> {
+    const { limits, usage } = await this.getUsage(userId);
+
+    if (limits.maxAgents !== null && usage.agents >= limits.maxAgents) {
+      return {
+        allowed: false,
+        code: 'AGENT_LIMIT_EXCEEDED',
+        reason: `Your plan allows ${limits.maxAgents} agent(s)`,
+        limit: limits.maxAgents,
+        used: usage.agents,
+      };
+    }
+
+    return { allowed: true, limit: limits.maxAgents, used: usage.agents };
+  }
+
+  /**
+   * Check whether the user may run agents on a chain. Chains already in use
+   * are always allowed.
+   */
+  async canUseChain(userId: string, chain: SupportedChain): Promise<QuotaCheck> {
+    const { limits, usage } = await this.getUsage(userId);
+
+    if (
+      limits.maxChains !== null &&
+      !usage.chains.includes(chain) &&
+      usage.chains.length >= limits.maxChains
+    ) {
+      return {
+        allowed: false,
+        code: 'CHAIN_NOT_SUPPORTED',
+        reason: `Your plan allows ${limits.maxChains} chain(s) (in use: ${usage.chains.join(', ')})`,
+        limit: limits.maxChains,
+        used: usage.chains.length,
+      };
+    }
+
+    return { allowed: true, limit: limits.maxChains, used: usage.chains.length };
+  }
+
+  /**
+   * Throw unless the user may create an agent on this chain with this config
+   */
+  async assertCanCreateAgent(userId: string, chain: SupportedChain, config?: AgentConfig): Promise<void> {
+    const agentCheck = await this.canCreateAgent(userId);
+    this.assertAllowed(agentCheck);
+
+    const chainCheck = await this.canUseChain(userId, chain);
+    this.assertAllowed(chainCheck);
+
+    await this.assertAgentConfigAllowed(userId, config);
+  }
+
+  /**
+   * Throw when the config uses tools or a monitoring interval the plan does not include
+   */
+  async assertAgentConfigAllowed(userId: string, config?: AgentConfig): Promise<void> {
+    if (!config) {
+      return;
+    }
+
+    const subscription = await this.requireUsableSubscription(userId);
+    const { limits } = PLANS[subscription.plan];
+
+    if (limits.tools && config.tools) {
+      const unavailable = config.tools.filter(tool => !limits.tools!.includes(tool));
+      if (unavailable.length > 0) {
+        throw new QuotaExceededError(
+          `Tools not available on the ${subscription.plan} plan: ${unavailable.join(', ')}`,
+          'TOOL_NOT_AVAILABLE',
+          { plan: subscription.plan, tools: unavailable, allowed: limits.tools }
+        );
+      }
+    }
+
+    if (config.monitoringInterval !== undefined && config.monitoringInterval < limits.minMonitoringIntervalSeconds) {
+      throw new QuotaExceededError(
+        `The ${subscription.plan} plan allows a monitoring interval of at least ${limits.minMonitoringIntervalSeconds} seconds`,
+        'MONITORING_INTERVAL_TOO_SHORT',
+        { plan: subscription.plan, minimum: limits.minMonitoringIntervalSeconds, requested: config.monitoringInterval }
+      );
+    }
+  }
+
+  /**
+   * Throw when the user has used up the plan's monthly task allowance.
+   * Scheduled monitor tasks are neither counted nor checked; their volume is
+   * bounded by the plan's agent count and minimum interval instead.
+   */
+  async assertTaskQuota(userId: string): Promise<void> {
+    const { plan, limits, usage } = await this.getUsage(userId);
+
+    if (limits.monthlyTaskLimit !== null && usage.tasksThisMonth >= limits.monthlyTaskLimit) {
+      throw new QuotaExceededError(
+        `Monthly task limit of ${limits.monthlyTaskLimit} reached for the ${plan} plan`,
+        'TASK_LIMIT_EXCEEDED',
+        { plan, limit: limits.monthlyTaskLimit, used: usage.tasksThisMonth }
+      );
+    }
+  }
+
+  /**
+   * Move the user to a plan that costs no more than the current one.
+   * Upgrades only take effect from a completed checkout or billing event
+   * (see BillingService). Rejected when current usage does not fit the new
+   * plan's limits.
+   */
+  async changePlan(userId: string, plan: SubscriptionPlan): Promise<Subscription> {
+    try {
+      const current = await this.requireUsableSubscription(userId);
+      const { usage } = await this.getUsage(userId);
+      const limits = PLANS[plan].limits;
+
+      if (current.stripe_subscription_id) {
+        throw new MentisError('Plan changes for billed subscriptions are made through the billing portal', 'BILLING_MANAGED', 409);
+      }
+
+      if (PLANS[plan].priceMonthly > PLANS[current.plan].priceMonthly) {
+        throw new SubscriptionRequiredError(`Upgrading to ${plan} requires checkout`);
+      }
+
+      if (limits.maxAgents !== null && usage.agents > limits.maxAgents) {
+        throw new QuotaExceededError(
+          `The ${plan} plan allows ${limits.maxAgents} agent(s); delete agents before changing plan`,
+          'AGENT_LIMIT_EXCEEDED',
+          { plan, limit: limits.maxAgents, used: usage.agents }
+        );
+      }
+
+      if (limits.maxChains !== null && usage.chains.length > limits.maxChains) {
+        throw new QuotaExceededError(
+          `The ${plan} plan allows ${limits.maxChains} chain(s); remove agents before changing plan`,
+          'CHAIN_NOT_SUPPORTED',
+          { plan, limit: limits.maxChains, used: usage.chains }
+        );
+      }
+
+      const result = await database.query(
+        `UPDATE subscriptions SET plan = $1, cancel_at_period_end = false, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $2
+         RETURNING *`,
+        [plan, current.id]
+      );
+
+      logger.info('Subscription plan changed', { userId, from: current.plan, to: plan });
+      return result.rows[0];
+    } catch (error) {
+      logger.error('Failed to change subscription plan', { userId, plan, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Cancel the subscription, at the end of the current period unless immediate
+   */
+  async cancelSubscription(userId: string, immediate: boolean = false): Promise<Subscription> {
+    try {
+      const current = await this.requireUsableSubscription(userId);
+
+      const result = await database.query(
+        immediate
+          ? `UPDATE subscriptions SET status = 'canceled', current_period_end = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+             WHERE id = $1 RETURNING *`
+          : `UPDATE subscriptions SET cancel_at_period_end = true, updated_at = CURRENT_TIMESTAMP
+             WHERE id = $1 RETURNING *`,
+        [current.id]
+      );
+
+      logger.info('Subscription canceled', { userId, immediate });
+      return result.rows[0];
+    } catch (error) {
+      logger.error('Failed to cancel subscription', { userId, error });
+      throw error;
+    }
+  }
+
+  private async requireUsableSubscription(userId: string): Promise<Subscription> {
+    const subscription = await this.getSubscription(userId);
+
+    const lapsed = subscription?.cancel_at_period_end && new Date(subscription.current_period_end) <= new Date();
+
+    if (!subscription || !USABLE_STATUSES.includes(subscription.status) || lapsed) {
+      throw new SubscriptionRequiredError();
+    }
+
+    return subscription;
+  }
+
+  private assertAllowed(check: QuotaCheck): void {
+    if (!check.allowed) {
+      throw new QuotaExceededError(check.reason!, check.code, { limit: check.limit, used: check.used });
+    }
+  }
+}
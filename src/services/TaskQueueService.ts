@@ -0,0 +1,326 @@
+import { EventEmitter } from 'events';
+import { redis } from '../config/redis';
+import { logger } from '../utils/logger';
+import { taskDurationSeconds } from '../utils/prometheus';
+import { TaskPriority } from '../types';
+import { AgentTask } from './AIAgentService';
+import { ApprovalDecision } from '../models/AgentTask';
+
+export interface QueuedTaskJob {
+  id: string;
+  agentId: string;
+  task: AgentTask;
+  attempts: number;
+  maxAttempts: number;
+  score: number;
+  enqueuedAt: number;
+  uniqueKey?: string;
+  // Set when the job resumes a task that was paused for approval
+  resume?: ApprovalDecision;
+  lastError?: string;
+}
+
+export interface EnqueueOptions {
+  maxAttempts?: number;
+  // Skip the enqueue while another job with the same key is outstanding
+  uniqueKey?: string;
+  resume?: ApprovalDecision;
+}
+
+export interface QueueStats {
+  pending: number;
+  processing: number;
+  delayed: number;
+  dead: number;
+}
+
+export type TaskJobHandler = (job: QueuedTaskJob) => Promise<AgentTask>;
+
+const QUEUE_PREFIX = 'queue:agent-tasks';
+const KEYS = {
+  jobs: `${QUEUE_PREFIX}:jobs`,
+  pending: `${QUEUE_PREFIX}:pending`,
+  processing: `${QUEUE_PREFIX}:processing`,
+  delayed: `${QUEUE_PREFIX}:delayed`,
+  dead: `${QUEUE_PREFIX}:dead`,
+  unique: (key: string) => `${QUEUE_PREFIX}:unique:${key}`,
+};
+
+// The unique key is held until its job completes or is dead-lettered; the TTL
+// only bounds a key whose job record was lost
+const UNIQUE_KEY_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Lower rank is served first
+const PRIORITY_RANK: Record<TaskPriority, number> = {
+  [TaskPriority.CRITICAL]: 0,
+  [TaskPriority.HIGH]: 1,
+  [TaskPriority.MEDIUM]: 2,
+  [TaskPriority.LOW]: 3,
+};
+
+// Pop the highest priority job and move it to the processing set in one step
+const CLAIM_SCRIPT = `
+local popped = redis.call('ZPOPMIN', KEYS[1])
+if #popped == 0 then
+  return nil
+end
+redis.call('ZADD', KEYS[2], ARGV[1], popped[1])
+return redis.call('HGET', KEYS[3], popped[1])
+`;
+
+/**
+ * Redis-backed queue for agent tasks shared by every backend replica.
+ *
+ * Jobs are claimed atomically into a processing set with a visibility
+ * deadline; jobs whose worker dies are returned to the queue once the
+ * deadline passes. Failed jobs are retried with exponential backoff and
+ * moved to a dead-letter list after maxAttempts.
+ *
+ * Emits 'completed' (job, task) and 'dead' (job, error).
+ */
+export class TaskQueueService extends EventEmitter {
+  private concurrency: number;
+  private maxAttempts: number;
+  private visibilityTimeoutMs: number;
+  private retryBaseDelayMs: number;
+  private pollIntervalMs: number;
+  private running: boolean = false;
+  private workers: Promise<void>[] = [];
+
+  constructor() {
+    super();
+    this.concurrency = parseInt(process.env.TASK_WORKER_CONCURRENCY || '2');
+    this.maxAttempts = parseInt(process.env.TASK_MAX_ATTEMPTS || '3');
+    this.visibilityTimeoutMs = parseInt(process.env.TASK_VISIBILITY_TIMEOUT_MS || '300000'); // 5 minutes
+    this.retryBaseDelayMs = parseInt(process.env.TASK_RETRY_BASE_DELAY_MS || '5000');
+    this.pollIntervalMs = parseInt(process.env.TASK_QUEUE_POLL_INTERVAL_MS || '1000');
+  }
+
+  /**
+   * Add a task to the queue. Returns false when a job with the same
+   * uniqueKey is still outstanding.
+   */
+  async enqueue(task: AgentTask, options: EnqueueOptions = {}): Promise<boolean> {
+    if (options.uniqueKey && !(await this.acquireUniqueKey(options.uniqueKey, task.id))) {
+      logger.debug('Skipping duplicate task', { agentId: task.agentId, uniqueKey: options.uniqueKey });
+      return false;
+    }
+
+    const enqueuedAt = Date.now();
+    const job: QueuedTaskJob = {
+      id: task.id,
+      agentId: task.agentId,
+      task,
+      attempts: 0,
+      maxAttempts: options.maxAttempts || this.maxAttempts,
+      // Priority rank first, then FIFO within the same priority
+      score: PRIORITY_RANK[task.priority as TaskPriority] * 1e13 + enqueuedAt,
+      enqueuedAt,
+      uniqueKey: options.uniqueKey,
+      resume: options.resume,
+    };
+
+    await redis.hSet(KEYS.jobs, job.id, JSON.stringify(job));
+    await redis.zAdd(KEYS.pending, job.score, job.id);
+
+    logger.info('Task enqueued', { taskId: job.id, agentId: job.agentId, priority: task.priority });
+    return true;
+  }
+
+  /**
+   * Start worker loops in this process
+   */
+  startWorkers(handler: TaskJobHandler): void {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    for (let i = 0; i < this.concurrency; i++) {
+      this.workers.push(this.workerLoop(handler));
+    }
+
+    logger.info('Task queue workers started', { concurrency: this.concurrency });
+  }
+
+  /**
+   * Stop claiming new jobs and wait for in-flight jobs to finish
+   */
+  async stopWorkers(): Promise<void> {
+    this.running = false;
+    await Promise.all(this.workers);
+    this.workers = [];
+    logger.info('Task queue workers stopped');
+  }
+
+  /**
+   * Get queue depth by state
+   */
+  async getStats(): Promise<QueueStats> {
+    const [pending, processing, delayed, dead] = await Promise.all([
+      redis.zCard(KEYS.pending),
+      redis.zCard(KEYS.processing),
+      redis.zCard(KEYS.delayed),
+      redis.lLen(KEYS.dead),
+    ]);
+
+    return { pending, processing, delayed, dead };
+  }
+
+  /**
+   * Get the most recent dead-lettered jobs
+   */
+  async getDeadLetters(limit: number = 50): Promise<QueuedTaskJob[]> {
+    const entries = await redis.lRange(KEYS.dead, 0, limit - 1);
+    return entries.map(entry => JSON.parse(entry));
+  }
+
+  private async workerLoop(handler: TaskJobHandler): Promise<void> {
+    while (this.running) {
+      try {
+        await this.requeueDueJobs();
+
+        const job = await this.claim();
+        if (!job) {
+          await this.sleep(this.pollIntervalMs);
+          continue;
+        }
+
+        await this.process(job, handler);
+      } catch (error) {
+        logger.error('Task queue worker error', { error });
+        await this.sleep(this.pollIntervalMs);
+      }
+    }
+  }
+
+  private async claim(): Promise<QueuedTaskJob | null> {
+    const deadline = Date.now() + this.visibilityTimeoutMs;
+    const raw = await redis.eval(CLAIM_SCRIPT, [KEYS.pending, KEYS.processing, KEYS.jobs], [deadline.toString()]);
+
+    return typeof raw === 'string' ? JSON.parse(raw) : null;
+  }
+
+  private async process(job: QueuedTaskJob, handler: TaskJobHandler): Promise<void> {
+    job.attempts++;
+    await redis.hSet(KEYS.jobs, job.id, JSON.stringify(job));
+
+    // Keep extending the visibility deadline while the task is running
+    const heartbeat = setInterval(() => {
+      redis.zAdd(KEYS.processing, Date.now() + this.visibilityTimeoutMs, job.id).catch(error => {
+        logger.error('Failed to extend task visibility', { taskId: job.id, error });
+      });
+    }, this.visibilityTimeoutMs / 2);
+
+    try {
+      const task = await taskDurationSeconds.time({ type: job.task.type }, () => handler(job));
+      await this.complete(job);
+      this.emit('completed', job, task);
+    } catch (error) {
+      await this.fail(job, error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  private async complete(job: QueuedTaskJob): Promise<void> {
+    const removed = await redis.zRem(KEYS.processing, job.id);
+    if (removed === 0) {
+      logger.warn('Task completed after its visibility timeout', { taskId: job.id });
+    }
+
+    await redis.hDel(KEYS.jobs, job.id);
+    await this.releaseUniqueKey(job);
+  }
+
+  private async fail(job: QueuedTaskJob, message: string): Promise<void> {
+    await redis.zRem(KEYS.processing, job.id);
+    await this.retryOrDeadLetter(job, message);
+  }
+
+  private async retryOrDeadLetter(job: QueuedTaskJob, message: string): Promise<void> {
+    job.lastError = message;
+
+    if (job.attempts >= job.maxAttempts) {
+      await redis.lPush(KEYS.dead, JSON.stringify({ ...job, failedAt: new Date() }));
+      await redis.hDel(KEYS.jobs, job.id);
+      await this.releaseUniqueKey(job);
+
+      logger.error('Task moved to dead-letter list', { taskId: job.id, agentId: job.agentId, attempts: job.attempts, error: message });
+      this.emit('dead', job, message);
+      return;
+    }
+
+    const delay = this.retryBaseDelayMs * Math.pow(2, job.attempts - 1);
+    await redis.hSet(KEYS.jobs, job.id, JSON.stringify(job));
+    await redis.zAdd(KEYS.delayed, Date.now() + delay, job.id);
+
+    logger.warn('Task scheduled for retry', { taskId: job.id, attempts: job.attempts, delay, error: message });
+  }
+
+  /**
+   * Move delayed jobs whose backoff has elapsed back to pending, and recover
+   * jobs whose worker stopped heartbeating. zRem decides which replica wins.
+   */
+  private async requeueDueJobs(): Promise<void> {
+    const now = Date.now();
+
+    for (const jobId of await redis.zRangeByScore(KEYS.delayed, 0, now)) {
+      if (await redis.zRem(KEYS.delayed, jobId) === 0) {
+        continue;
+      }
+
+      const job = await this.getJob(jobId);
+      if (job) {
+        await redis.zAdd(KEYS.pending, job.score, job.id);
+      }
+    }
+
+    for (const jobId of await redis.zRangeByScore(KEYS.processing, 0, now)) {
+      if (await redis.zRem(KEYS.processing, jobId) === 0) {
+        continue;
+      }
+
+      const job = await this.getJob(jobId);
+      if (job) {
+        logger.warn('Task visibility timeout expired', { taskId: job.id, agentId: job.agentId });
+        await this.retryOrDeadLetter(job, 'Visibility timeout expired');
+      }
+    }
+  }
+
+  private async getJob(jobId: string): Promise<QueuedTaskJob | null> {
+    const raw = await redis.hGet(KEYS.jobs, jobId);
+    return raw ? JSON.parse(raw) : null;
+  }
+
+  /**
+   * Take the unique key unless a job holding it is still queued, delayed for
+   * retry or running
+   */
+  private async acquireUniqueKey(uniqueKey: string, jobId: string): Promise<boolean> {
+    const key = KEYS.unique(uniqueKey);
+    if (await redis.setNX(key, jobId, UNIQUE_KEY_TTL_MS)) {
+      return true;
+    }
+
+    const holder = await redis.get(key);
+    if (holder && await redis.hGet(KEYS.jobs, holder)) {
+      return false;
+    }
+
+    // The holder finished without releasing the key
+    await redis.set(key, jobId, UNIQUE_KEY_TTL_MS / 1000);
+    return true;
+  }
+
+  private async releaseUniqueKey(job: QueuedTaskJob): Promise<void> {
+    if (job.uniqueKey && await redis.get(KEYS.unique(job.uniqueKey)) === job.id) {
+      await redis.del(KEYS.unique(job.uniqueKey));
+    }
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
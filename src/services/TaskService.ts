@@ -0,0 +1,182 @@
+import { database } from '../config/database';
+import { logger } from '../utils/logger';
+import { AgentTaskRecord, TaskHistoryFilters } from '../models/AgentTask';
+import { AgentTask } from './AIAgentService';
+
+export class TaskService {
+  /**
+   * Insert or update a task; called on every state transition
+   */
+  async saveTask(task: AgentTask): Promise<void> {
+    try {
+      await database.query(
+        `INSERT INTO agent_tasks (id, agent_id, type, description, parameters, priority, status, result, error,
+                                  tool_calls, messages, duration_ms, prompt_tokens, completion_tokens, total_tokens,
+                                  attempt, scheduled, created_at, completed_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19)
+         ON CONFLICT (id) DO UPDATE SET
+           status = EXCLUDED.status,
+           attempt = EXCLUDED.attempt,
+           result = EXCLUDED.result,
+           error = EXCLUDED.error,
+           tool_calls = EXCLUDED.tool_calls,
+           messages = EXCLUDED.messages,
+           duration_ms = EXCLUDED.duration_ms,
+           prompt_tokens = EXCLUDED.prompt_tokens,
+           completion_tokens = EXCLUDED.completion_tokens,
+           total_tokens = EXCLUDED.total_tokens,
+           completed_at = EXCLUDED.completed_at`,
+        [
+          task.id,
+          task.agentId,
+          task.type,
+          task.description,
+          JSON.stringify(task.parameters || {}),
+          task.priority,
+          task.status,
+          task.result !== undefined ? JSON.stringify(task.result) : null,
+          task.error || null,
+          JSON.stringify(task.toolCalls || []),
+          JSON.stringify(task.messages || []),
+          task.durationMs ?? null,
+          task.tokenUsage?.promptTokens || 0,
+          task.tokenUsage?.completionTokens || 0,
+          task.tokenUsage?.totalTokens || 0,
+          task.attempt || 1,
+          task.scheduled || false,
+          task.createdAt,
+          task.completedAt || null,
+        ]
+      );
+    } catch (error) {
+      logger.error('Failed to save task', { taskId: task.id, agentId: task.agentId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Record a newly queued task. Does nothing if a worker already picked it up.
+   */
+  async createTask(task: AgentTask): Promise<void> {
+    try {
+      await database.query(
+        `INSERT INTO agent_tasks (id, agent_id, type, description, parameters, priority, status, scheduled, created_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+         ON CONFLICT (id) DO NOTHING`,
+        [
+          task.id,
+          task.agentId,
+          task.type,
+          task.description,
+          JSON.stringify(task.parameters || {}),
+          task.priority,
+          task.status,
+          task.scheduled || false,
+          task.createdAt,
+        ]
+      );
+    } catch (error) {
+      logger.error('Failed to create task', { taskId: task.id, agentId: task.agentId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Mark a task that will not be retried as failed
+   */
+  async markFailed(taskId: string, message: string): Promise<void> {
+    try {
+      await database.query(
+        `UPDATE agent_tasks
+         SET status = 'failed', error = $2, completed_at = CURRENT_TIMESTAMP
+         WHERE id = $1 AND status IN ('pending', 'running')`,
+        [taskId, message]
+      );
+    } catch (error) {
+      logger.error('Failed to mark task as failed', { taskId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Get a page of tasks for an agent
+   */
+  async getTasks(agentId: string, filters: TaskHistoryFilters): Promise<{ tasks: AgentTaskRecord[]; total: number }> {
+    try {
+      const conditions: string[] = ['agent_id = $1'];
+      const values: any[] = [agentId];
+      let paramCount = 2;
+
+      if (filters.type) {
+        conditions.push(`type = $${paramCount++}`);
+        values.push(filters.type);
+      }
+
+      if (filters.status) {
+        conditions.push(`status = $${paramCount++}`);
+        values.push(filters.status);
+      }
+
+      if (filters.from) {
+        conditions.push(`created_at >= $${paramCount++}`);
+        values.push(filters.from);
+      }
+
+      if (filters.to) {
+        conditions.push(`created_at <= $${paramCount++}`);
+        values.push(filters.to);
+      }
+
+      const where = conditions.join(' AND ');
+
+      const countResult = await database.query(
+        `SELECT COUNT(*) as total FROM agent_tasks WHERE ${where}`,
+        values
+      );
+
+      // The list view leaves out the full message transcript
+      const result = await database.query(
+        `SELECT id, agent_id, type, description, parameters, priority, status, result, error, tool_calls,
+                duration_ms, prompt_tokens, completion_tokens, total_tokens, created_at, completed_at, updated_at
+         FROM agent_tasks
+         WHERE ${where}
+         ORDER BY created_at DESC
+         LIMIT $${paramCount++} OFFSET $${paramCount}`,
+        [...values, filters.limit, (filters.page - 1) * filters.limit]
+      );
+
+      return {
+        tasks: result.rows,
+        total: parseInt(countResult.rows[0].total),
+      };
+    } catch (error) {
+      logger.error('Failed to get tasks', { agentId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Get a single task with its full transcript
+   */
+  async getTask(agentId: string, taskId: string): Promise<AgentTaskRecord | null> {
+    try {
+      const result = await database.query(
+        'SELECT * FROM agent_tasks WHERE id = $1 AND agent_id = $2',
+        [taskId, agentId]
+      );
+
+      return result.rows[0] || null;
+    } catch (error) {
+      logger.error('Failed to get task', { agentId, taskId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Get the most recent tasks for an agent
+   */
+  async getRecentTasks(agentId: string, limit: number): Promise<AgentTaskRecord[]> {
+    const { tasks } = await this.getTasks(agentId, { page: 1, limit });
+    return tasks;
+  }
+}
@@ -0,0 +1,343 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { PoolClient } from 'pg';
+import { database } from '../config/database';
+import { logger } from '../utils/logger';
+import { generateTotpSecret, matchTotpStep, totpUri } from '../utils/totp';
+
+const RECOVERY_CODE_COUNT = 10;
+const LOGIN_CHALLENGE_TTL = '5m';
+const LOGIN_CHALLENGE_PURPOSE = '2fa_login';
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt?: Date;
+  requireForNodeControl: boolean;
+  recoveryCodesRemaining: number;
+}
+
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUrl: string;
+}
+
+/**
+ * TOTP two-factor authentication with single-use recovery codes. Secrets
+ * are encrypted at rest; each TOTP time step is accepted once.
+ */
+export class TwoFactorService {
+  private freshnessMinutes: number;
+
+  constructor() {
+    this.freshnessMinutes = parseInt(process.env.TWO_FACTOR_FRESHNESS_MINUTES || '10');
+  }
+
+  /**
+   * 2FA state for a user
+   */
+  async getStatus(userId: string): Promise<TwoFactorStatus> {
+    const result = await database.query(
+      `SELECT u.two_factor_enabled, u.two_factor_enabled_at, u.require_2fa_for_node_control,
+              (SELECT COUNT(*) FROM two_factor_recovery_codes rc WHERE rc.user_id = u.id AND rc.used_at IS NULL) as recovery_codes
+       FROM users u WHERE u.id = $1`,
+      [userId]
+    );
+
+    const row = result.rows[0];
+    return {
+      enabled: row.two_factor_enabled,
+      enabledAt: row.two_factor_enabled_at || undefined,
+      requireForNodeControl: row.require_2fa_for_node_control,
+      recoveryCodesRemaining: parseInt(row.recovery_codes),
+    };
+  }
+
+  /**
+   * Generate a secret to add to an authenticator app. 2FA is not enabled
+   * until a code from it is confirmed. Returns null when already enabled.
+   */
+  async beginEnrollment(userId: string): Promise<TwoFactorEnrollment | null> {
+    try {
+      const secret = generateTotpSecret();
+
+      const result = await database.query(
+        `UPDATE users SET totp_pending_secret = $2, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1 AND two_factor_enabled = false
+         RETURNING email`,
+        [userId, this.encrypt(secret)]
+      );
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      return { secret, otpauthUrl: totpUri(secret, result.rows[0].email) };
+    } catch (error) {
+      logger.error('Failed to begin 2FA enrollment', { userId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Confirm enrollment with a code from the pending secret. Returns the
+   * recovery codes, or null when the code does not match.
+   */
+  async enable(userId: string, code: string): Promise<string[] | null> {
+    try {
+      const result = await database.query(
+        'SELECT totp_pending_secret FROM users WHERE id = $1 AND two_factor_enabled = false',
+        [userId]
+      );
+
+      const pending = result.rows[0]?.totp_pending_secret;
+      if (!pending) {
+        return null;
+      }
+
+      const step = matchTotpStep(this.decrypt(pending), code);
+      if (step === null) {
+        return null;
+      }
+
+      const recoveryCodes = await database.transaction(async (client) => {
+        await client.query(
+          `UPDATE users
+           SET totp_secret = totp_pending_secret, totp_pending_secret = NULL, totp_last_step = $2,
+               two_factor_enabled = true, two_factor_enabled_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+           WHERE id = $1`,
+          [userId, step]
+        );
+
+        return this.replaceRecoveryCodes(client, userId);
+      });
+
+      logger.info('2FA enabled', { userId });
+      return recoveryCodes;
+    } catch (error) {
+      logger.error('Failed to enable 2FA', { userId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Check a TOTP code or an unused recovery code. Both are single-use.
+   */
+  async verify(userId: string, code: string): Promise<boolean> {
+    try {
+      const normalized = code.replace(/[\s-]/g, '').toLowerCase();
+
+      if (/^\d{6}$/.test(normalized)) {
+        const result = await database.query(
+          'SELECT totp_secret FROM users WHERE id = $1 AND two_factor_enabled = true',
+          [userId]
+        );
+
+        const secret = result.rows[0]?.totp_secret;
+        const step = secret ? matchTotpStep(this.decrypt(secret), normalized) : null;
+        if (step === null) {
+          return false;
+        }
+
+        // Reject a replay of this or an earlier step
+        const claimed = await database.query(
+          `UPDATE users SET totp_last_step = $2
+           WHERE id = $1 AND (totp_last_step IS NULL OR totp_last_step < $2)`,
+          [userId, step]
+        );
+
+        return claimed.rowCount > 0;
+      }
+
+      const consumed = await database.query(
+        `UPDATE two_factor_recovery_codes SET used_at = CURRENT_TIMESTAMP
+         WHERE id = (
+           SELECT id FROM two_factor_recovery_codes
+           WHERE user_id = $1 AND code_hash = $2 AND used_at IS NULL
+           LIMIT 1
+         )`,
+        [userId, this.hash(normalized)]
+      );
+
+      if (consumed.rowCount > 0) {
+        logger.info('2FA recovery code used', { userId });
+      }
+
+      return consumed.rowCount > 0;
+    } catch (error) {
+      logger.error('Failed to verify 2FA code', { userId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Turn 2FA off after checking a code. Returns false when the code does not match.
+   */
+  async disable(userId: string, code: string): Promise<boolean> {
+    try {
+      if (!(await this.verify(userId, code))) {
+        return false;
+      }
+
+      await database.transaction(async (client) => {
+        await client.query(
+          `UPDATE users
+           SET totp_secret = NULL, totp_pending_secret = NULL, totp_last_step = NULL,
+               two_factor_enabled = false, two_factor_enabled_at = NULL, require_2fa_for_node_control = false,
+               updated_at = CURRENT_TIMESTAMP
+           WHERE id = $1`,
+          [userId]
+        );
+        await client.query('DELETE FROM two_factor_recovery_codes WHERE user_id = $1', [userId]);
+      });
+
+      logger.info('2FA disabled', { userId });
+      return true;
+    } catch (error) {
+      logger.error('Failed to disable 2FA', { userId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Replace the recovery codes after checking a code. Returns null when the code does not match.
+   */
+  async regenerateRecoveryCodes(userId: string, code: string): Promise<string[] | null> {
+    try {
+      if (!(await this.verify(userId, code))) {
+        return null;
+      }
+
+      return await database.transaction(client => this.replaceRecoveryCodes(client, userId));
+    } catch (error) {
+      logger.error('Failed to regenerate recovery codes', { userId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Require a fresh 2FA assertion before starting agents that can restart nodes
+   */
+  async setNodeControlRequirement(userId: string, required: boolean): Promise<boolean> {
+    const result = await database.query(
+      `UPDATE users SET require_2fa_for_node_control = $2, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND (two_factor_enabled = true OR $2 = false)`,
+      [userId, required]
+    );
+
+    return result.rowCount > 0;
+  }
+
+  /**
+   * Record that the session's holder just passed a 2FA check
+   */
+  async markSessionVerified(sessionId: string): Promise<void> {
+    await database.query(
+      'UPDATE auth_sessions SET two_factor_verified_at = CURRENT_TIMESTAMP WHERE id = $1',
+      [sessionId]
+    );
+  }
+
+  /**
+   * Whether the user must present a fresh 2FA assertion to start a node-controlling agent
+   */
+  async requiresFreshAssertionForNodeControl(userId: string): Promise<boolean> {
+    const result = await database.query(
+      'SELECT require_2fa_for_node_control FROM users WHERE id = $1',
+      [userId]
+    );
+
+    return result.rows[0]?.require_2fa_for_node_control === true;
+  }
+
+  /**
+   * Whether the session passed a 2FA check within TWO_FACTOR_FRESHNESS_MINUTES
+   */
+  async hasFreshAssertion(sessionId: string | undefined): Promise<boolean> {
+    if (!sessionId) {
+      return false;
+    }
+
+    const result = await database.query(
+      `SELECT 1 FROM auth_sessions
+       WHERE id = $1 AND revoked_at IS NULL
+         AND two_factor_verified_at > CURRENT_TIMESTAMP - make_interval(mins => $2)`,
+      [sessionId, this.freshnessMinutes]
+    );
+
+    return result.rows.length > 0;
+  }
+
+  /**
+   * Short-lived token proving the password step of a 2FA login
+   */
+  issueLoginChallenge(userId: string): string {
+    return jwt.sign(
+      { userId, purpose: LOGIN_CHALLENGE_PURPOSE },
+      this.jwtSecret(),
+      { expiresIn: LOGIN_CHALLENGE_TTL } as jwt.SignOptions
+    );
+  }
+
+  /**
+   * User id from a login challenge, or null when it is invalid or expired
+   */
+  verifyLoginChallenge(challengeToken: string): string | null {
+    try {
+      const decoded = jwt.verify(challengeToken, this.jwtSecret()) as any;
+      return decoded.purpose === LOGIN_CHALLENGE_PURPOSE ? decoded.userId : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private async replaceRecoveryCodes(client: PoolClient, userId: string): Promise<string[]> {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const raw = crypto.randomBytes(5).toString('hex');
+      return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+
+    await client.query('DELETE FROM two_factor_recovery_codes WHERE user_id = $1', [userId]);
+    for (const code of codes) {
+      await client.query(
+        'INSERT INTO two_factor_recovery_codes (user_id, code_hash) VALUES ($1, $2)',
+        [userId, this.hash(code.replace('-', ''))]
+      );
+    }
+
+    return codes;
+  }
+
+  private encryptionKey(): Buffer {
+    const configured = process.env.TWO_FACTOR_ENCRYPTION_KEY;
+    return crypto.createHash('sha256').update(configured || this.jwtSecret()).digest();
+  }
+
+  private encrypt(plaintext: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.encryptionKey(), iv);
+    const encrypted = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+    return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64')).join('.');
+  }
+
+  private decrypt(stored: string): string {
+    const [iv, tag, encrypted] = stored.split('.').map(part => Buffer.from(part, 'base64'));
+    const decipher = crypto.createDecipheriv('aes-256-gcm', this.encryptionKey(), iv);
+    decipher.setAuthTag(tag);
+
+    return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+  }
+
+  private hash(code: string): string {
+    return crypto.createHash('sha256').update(code).digest('hex');
+  }
+
+  private jwtSecret(): string {
+    const jwtSecret = process.env.JWT_SECRET;
+    if (!jwtSecret) {
+      throw new Error('JWT_SECRET not configured');
+    }
+
+    return jwtSecret;
+  }
+}
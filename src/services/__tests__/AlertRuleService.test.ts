@@ -0,0 +1,170 @@
+import { evaluateRule, ResolvedAlertRule } from '../AlertRuleService';
+import { AgentMetrics } from '../../models/Agent';
+import { AlertSeverity } from '../../types';
+
+jest.mock('../../config/database', () => ({ database: { query: jest.fn() } }));
+jest.mock('../../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const START = new Date('2026-01-01T00:00:00Z').getTime();
+
+/**
+ * A sample recorded `minute` minutes after START
+ */
+const sample = (minute: number, fields: Partial<AgentMetrics> = {}): AgentMetrics => ({
+  id: `m-${minute}`,
+  agent_id: 'agent-1',
+  uptime: 100,
+  response_time: 100,
+  cpu_usage: 10,
+  memory_usage: 10,
+  disk_usage: 10,
+  network_latency: 10,
+  peer_count: 25,
+  block_height: 1000,
+  sync_status: true,
+  sync_lag: 0,
+  ...fields,
+  recorded_at: new Date(START + minute * 60000),
+});
+
+const rule = (fields: Partial<ResolvedAlertRule>): ResolvedAlertRule => ({
+  key: 'rule:test',
+  name: 'test',
+  type: 'threshold',
+  metric: 'response_time',
+  operator: '>',
+  value: 500,
+  severity: AlertSeverity.MEDIUM,
+  ...fields,
+});
+
+describe('evaluateRule', () => {
+  describe('threshold', () => {
+    it('fires on the latest sample without forMinutes', () => {
+      const outcome = evaluateRule(rule({}), [sample(0), sample(1, { response_time: 800 })]);
+
+      expect(outcome).toMatchObject({ state: 'firing', alertType: 'threshold_breach', message: 'test: response_time is 800 (> 500)' });
+    });
+
+    it('is ok when the latest sample is within the threshold', () => {
+      const outcome = evaluateRule(rule({}), [sample(0, { response_time: 800 }), sample(1, { response_time: 200 })]);
+
+      expect(outcome.state).toBe('ok');
+    });
+
+    it('waits until the breach has lasted forMinutes', () => {
+      const slow = rule({ forMinutes: 5 });
+      const samples = [0, 1, 2, 3, 4, 5].map(minute => sample(minute, { response_time: minute === 0 ? 100 : 800 }));
+
+      expect(evaluateRule(slow, samples.slice(0, 5)).state).toBe('pending');
+      expect(evaluateRule(slow, samples).state).toBe('pending');
+      expect(evaluateRule(slow, [...samples, sample(6, { response_time: 800 })]).state).toBe('firing');
+    });
+
+    it('restarts the breach window after a good sample', () => {
+      const samples = [
+        sample(0, { response_time: 800 }),
+        sample(5, { response_time: 800 }),
+        sample(6, { response_time: 100 }),
+        sample(7, { response_time: 800 }),
+        sample(10, { response_time: 800 }),
+      ];
+
+      expect(evaluateRule(rule({ forMinutes: 5 }), samples).state).toBe('pending');
+    });
+
+    it('counts booleans as 0 and 1', () => {
+      const outOfSync = rule({ metric: 'sync_status', operator: '<', value: 1 });
+
+      expect(evaluateRule(outOfSync, [sample(0, { sync_status: false })]).state).toBe('firing');
+      expect(evaluateRule(outOfSync, [sample(0, { sync_status: true })]).state).toBe('ok');
+    });
+  });
+
+  describe('rate_of_change', () => {
+    const growth = rule({ type: 'rate_of_change', metric: 'disk_usage', operator: '>', value: 1, windowMinutes: 10 });
+
+    it('measures the change per minute since the first sample in the window', () => {
+      const samples = [sample(0, { disk_usage: 10 }), sample(5, { disk_usage: 20 }), sample(10, { disk_usage: 40 })];
+
+      expect(evaluateRule(growth, samples)).toMatchObject({
+        state: 'firing',
+        alertType: 'rate_of_change',
+        message: 'test: disk_usage changed by 3/min over 10 minutes (> 1)',
+      });
+    });
+
+    it('falls back to the sample before the window when the window holds only the latest one', () => {
+      const samples = [sample(0, { disk_usage: 10 }), sample(20, { disk_usage: 20 })];
+
+      expect(evaluateRule(growth, samples)).toMatchObject({
+        state: 'ok',
+        message: 'test: disk_usage changed by 0.50/min over 20 minutes (> 1)',
+      });
+    });
+
+    it('is pending with a single sample', () => {
+      expect(evaluateRule(growth, [sample(0)])).toMatchObject({ state: 'pending', message: 'test: not enough samples' });
+    });
+
+    it('is pending when the samples share a timestamp', () => {
+      const samples = [sample(0, { disk_usage: 10 }), sample(0, { disk_usage: 50 })];
+
+      expect(evaluateRule(growth, samples)).toMatchObject({ state: 'pending', message: 'test: not enough samples' });
+    });
+
+    it('is pending when the metric is not reported', () => {
+      const samples = [sample(0, { disk_usage: null }), sample(5, { disk_usage: 20 })];
+
+      expect(evaluateRule(growth, samples)).toMatchObject({ state: 'pending', message: 'test: disk_usage is not reported' });
+    });
+  });
+
+  describe('error rate', () => {
+    const errors = rule({ metric: 'error_rate', operator: '>', value: 20 });
+
+    it('is the share of samples with downtime over the default 15 minutes', () => {
+      const samples = [
+        sample(0, { uptime: 0 }), // outside the window
+        sample(10, { uptime: 0 }),
+        sample(12),
+        sample(14, { uptime: 50 }),
+        sample(16),
+        sample(18),
+      ];
+
+      expect(evaluateRule(errors, samples)).toMatchObject({
+        state: 'firing',
+        message: 'test: error_rate is 40% over the last 15 minutes (> 20)',
+      });
+    });
+
+    it('uses forMinutes as the window', () => {
+      const samples = [sample(0, { uptime: 0 }), sample(10), sample(15)];
+
+      expect(evaluateRule({ ...errors, forMinutes: 5 }, samples)).toMatchObject({
+        state: 'ok',
+        message: 'test: error_rate is 0% over the last 5 minutes (> 20)',
+      });
+    });
+  });
+
+  describe('missing data', () => {
+    it('leaves host usage rules pending until a sidecar reports it', () => {
+      const cpu = rule({ metric: 'cpu_usage', operator: '>', value: 90 });
+
+      expect(evaluateRule(cpu, [sample(0, { cpu_usage: null })])).toMatchObject({
+        state: 'pending',
+        message: 'test: cpu_usage is not reported',
+      });
+    });
+
+    it('resolves absence rules when a sample arrives', () => {
+      const absence = rule({ type: 'absence', metric: undefined, operator: undefined, value: undefined, windowMinutes: 10 });
+
+      expect(evaluateRule(absence, [sample(0)])).toMatchObject({ state: 'ok', alertType: 'metrics_absent' });
+    });
+  });
+});
@@ -0,0 +1,258 @@
+import { AlertService } from '../AlertService';
+import { database } from '../../config/database';
+import { redis } from '../../config/redis';
+import { Alert, AlertIncident, AlertSeverity } from '../../types';
+
+jest.mock('../../config/database', () => ({ database: { query: jest.fn(), transaction: jest.fn() } }));
+jest.mock('../../config/redis', () => ({ redis: { setNX: jest.fn() } }));
+jest.mock('../../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const mockSendAlert = jest.fn();
+const mockSendIncident = jest.fn();
+jest.mock('../NotificationService', () => ({
+  NotificationService: jest.fn().mockImplementation(() => ({ sendAlert: mockSendAlert, sendIncident: mockSendIncident })),
+}));
+
+const query = database.query as jest.Mock;
+const transaction = database.transaction as jest.Mock;
+const setNX = redis.setNX as jest.Mock;
+
+const SEVERITY_ORDER = [AlertSeverity.LOW, AlertSeverity.MEDIUM, AlertSeverity.HIGH, AlertSeverity.CRITICAL];
+const highest = (a: AlertSeverity, b: AlertSeverity) => SEVERITY_ORDER[Math.max(SEVERITY_ORDER.indexOf(a), SEVERITY_ORDER.indexOf(b))];
+
+/**
+ * In-memory alerts and alert_incidents tables answering the queries
+ * AlertService makes, with the open-fingerprint and collecting-incident
+ * conflict rules of the schema, and a Redis whose NX keys never expire
+ */
+function mockStore() {
+  const alerts: Alert[] = [];
+  const incidents: AlertIncident[] = [];
+  const cooldowns = new Set<string>();
+  let nextId = 1;
+
+  const handle = async (sql: string, params: any[] = []) => {
+    if (sql.startsWith('INSERT INTO alerts')) {
+      const [agentId, userId, type, severity, message, ruleKey] = params;
+      const fingerprint = `${agentId}:${type}:${ruleKey || ''}`;
+      const open = alerts.find(alert => alert.fingerprint === fingerprint && !alert.resolved);
+
+      if (open) {
+        open.occurrence_count += 1;
+        open.message = message;
+        open.severity = highest(open.severity, severity);
+        return { rows: [{ ...open, created: false }] };
+      }
+
+      const alert: Alert = {
+        id: `alert-${nextId++}`,
+        agent_id: agentId,
+        user_id: userId,
+        type,
+        severity,
+        message,
+        rule_key: ruleKey || undefined,
+        fingerprint,
+        resolved: false,
+        occurrence_count: 1,
+        last_seen: new Date(),
+        created_at: new Date(),
+      };
+      alerts.push(alert);
+      return { rows: [{ ...alert, created: true }] };
+    }
+
+    if (sql.startsWith('INSERT INTO alert_incidents')) {
+      const [userId, type, severity] = params;
+      let incident = incidents.find(item => item.user_id === userId && item.type === type && !item.notified_at);
+
+      if (incident) {
+        incident.alert_count += 1;
+        incident.severity = highest(incident.severity, severity);
+      } else {
+        incident = { id: `incident-${nextId++}`, user_id: userId, type, severity, alert_count: 1, created_at: new Date(), last_alert_at: new Date() };
+        incidents.push(incident);
+      }
+      return { rows: [{ id: incident.id }] };
+    }
+
+    if (sql.startsWith('UPDATE alerts SET incident_id')) {
+      alerts.find(alert => alert.id === params[1])!.incident_id = params[0];
+      return { rows: [] };
+    }
+
+    if (sql.startsWith('UPDATE alert_incidents SET notified_at')) {
+      const cutoff = Date.now() - params[0] * 1000;
+      const claimed = incidents.filter(incident => !incident.notified_at && incident.created_at.getTime() <= cutoff);
+      claimed.forEach(incident => { incident.notified_at = new Date(); });
+      return { rows: claimed };
+    }
+
+    if (sql.startsWith('UPDATE alerts al SET last_notified_at')) {
+      const grouped = alerts.filter(alert => alert.incident_id === params[0]);
+      grouped.forEach(alert => { alert.last_notified_at = new Date(); });
+      return { rows: grouped.map(alert => ({ ...alert, agent_name: `node ${alert.agent_id}` })) };
+    }
+
+    throw new Error(`Unexpected query: ${sql}`);
+  };
+
+  query.mockImplementation(handle);
+  transaction.mockImplementation(async (callback: (client: any) => Promise<any>) => callback({ query: handle }));
+  setNX.mockImplementation(async (key: string) => {
+    if (cooldowns.has(key)) {
+      return false;
+    }
+    cooldowns.add(key);
+    return true;
+  });
+
+  // Let collecting incidents age past the group wait
+  const ageIncidents = (seconds: number) => incidents.forEach(incident => {
+    incident.created_at = new Date(incident.created_at.getTime() - seconds * 1000);
+  });
+
+  return { alerts, incidents, ageIncidents };
+}
+
+const down = { type: 'node_down', severity: AlertSeverity.HIGH, message: 'Node is not responding' };
+
+describe('AlertService', () => {
+  let service: AlertService;
+  let store: ReturnType<typeof mockStore>;
+
+  beforeEach(() => {
+    process.env.ALERT_COOLDOWN_MINUTES = '15';
+    process.env.ALERT_GROUP_WAIT_SECONDS = '60';
+    service = new AlertService();
+    store = mockStore();
+  });
+
+  afterEach(() => {
+    delete process.env.ALERT_COOLDOWN_MINUTES;
+    delete process.env.ALERT_GROUP_WAIT_SECONDS;
+  });
+
+  describe('raise', () => {
+    it('counts repeats of an open fingerprint on the same alert', async () => {
+      const first = await service.raise('agent-1', 'user-1', down);
+      const second = await service.raise('agent-1', 'user-1', { ...down, message: 'Node is still not responding' });
+
+      expect(first.created).toBe(true);
+      expect(second.created).toBe(false);
+      expect(second.alert).not.toHaveProperty('created');
+      expect(second.alert).toMatchObject({ id: first.alert.id, occurrence_count: 2, message: 'Node is still not responding' });
+      expect(store.alerts).toHaveLength(1);
+    });
+
+    it('only raises the severity of an open alert', async () => {
+      await service.raise('agent-1', 'user-1', down);
+      const raised = await service.raise('agent-1', 'user-1', { ...down, severity: AlertSeverity.CRITICAL });
+      const lowered = await service.raise('agent-1', 'user-1', { ...down, severity: AlertSeverity.LOW });
+
+      expect(raised.alert.severity).toBe(AlertSeverity.CRITICAL);
+      expect(lowered.alert.severity).toBe(AlertSeverity.CRITICAL);
+    });
+
+    it('opens separate alerts per agent, type and rule', async () => {
+      await service.raise('agent-1', 'user-1', down);
+      await service.raise('agent-2', 'user-1', down);
+      await service.raise('agent-1', 'user-1', { ...down, type: 'threshold_breach', ruleKey: 'rule:slow' });
+      await service.raise('agent-1', 'user-1', { ...down, type: 'threshold_breach', ruleKey: 'rule:disk' });
+
+      expect(store.alerts).toHaveLength(4);
+    });
+
+    it('opens a new alert once the open one is resolved', async () => {
+      const first = await service.raise('agent-1', 'user-1', down);
+      store.alerts[0].resolved = true;
+
+      const second = await service.raise('agent-1', 'user-1', down);
+
+      expect(second.created).toBe(true);
+      expect(second.alert.id).not.toBe(first.alert.id);
+    });
+  });
+
+  describe('queueNotification', () => {
+    it('queues the first notification of a fingerprint and holds repeats within the cooldown', async () => {
+      const { alert } = await service.raise('agent-1', 'user-1', down);
+
+      expect(await service.queueNotification(alert)).toBe(true);
+      expect(await service.queueNotification(alert)).toBe(false);
+      expect(setNX).toHaveBeenCalledWith(`alerts:cooldown:${alert.fingerprint}`, alert.id, 15 * 60000);
+      expect(store.incidents).toHaveLength(1);
+      expect(store.incidents[0].alert_count).toBe(1);
+    });
+
+    it('skips the cooldown when it is 0', async () => {
+      const { alert } = await service.raise('agent-1', 'user-1', down);
+
+      expect(await service.queueNotification(alert, 0)).toBe(true);
+      expect(await service.queueNotification(alert, 0)).toBe(true);
+      expect(setNX).not.toHaveBeenCalled();
+    });
+
+    it('collects alerts of one type across agents into one incident', async () => {
+      const first = await service.raise('agent-1', 'user-1', down);
+      const second = await service.raise('agent-2', 'user-1', { ...down, severity: AlertSeverity.CRITICAL });
+      const other = await service.raise('agent-1', 'user-1', { ...down, type: 'sync_lag' });
+
+      for (const { alert } of [first, second, other]) {
+        await service.queueNotification(alert);
+      }
+
+      expect(store.incidents).toHaveLength(2);
+      expect(store.incidents[0]).toMatchObject({ type: 'node_down', alert_count: 2, severity: AlertSeverity.CRITICAL });
+      expect(store.alerts[0].incident_id).toBe(store.incidents[0].id);
+      expect(store.alerts[1].incident_id).toBe(store.incidents[0].id);
+      expect(store.alerts[2].incident_id).toBe(store.incidents[1].id);
+    });
+  });
+
+  describe('flushIncidents', () => {
+    it('waits for the group wait before sending', async () => {
+      const { alert } = await service.raise('agent-1', 'user-1', down);
+      await service.queueNotification(alert);
+
+      expect(await service.flushIncidents()).toBe(0);
+      expect(mockSendAlert).not.toHaveBeenCalled();
+    });
+
+    it('sends a lone alert as itself and a group as one incident', async () => {
+      const single = await service.raise('agent-1', 'user-1', { ...down, type: 'sync_lag' });
+      const first = await service.raise('agent-1', 'user-1', down);
+      const second = await service.raise('agent-2', 'user-1', down);
+      for (const { alert } of [single, first, second]) {
+        await service.queueNotification(alert);
+      }
+      store.ageIncidents(60);
+
+      expect(await service.flushIncidents()).toBe(2);
+
+      expect(mockSendAlert).toHaveBeenCalledTimes(1);
+      expect(mockSendAlert).toHaveBeenCalledWith('user-1', expect.objectContaining({ id: single.alert.id, type: 'sync_lag' }));
+      expect(mockSendIncident).toHaveBeenCalledTimes(1);
+      const [, incident, grouped] = mockSendIncident.mock.calls[0];
+      expect(incident).toMatchObject({ type: 'node_down', alert_count: 2 });
+      expect(grouped.map((alert: any) => alert.id)).toEqual([first.alert.id, second.alert.id]);
+      expect(store.alerts.every(alert => alert.last_notified_at)).toBe(true);
+    });
+
+    it('sends each incident once and starts a new one for later alerts', async () => {
+      const first = await service.raise('agent-1', 'user-1', down);
+      await service.queueNotification(first.alert);
+      store.ageIncidents(60);
+      await service.flushIncidents();
+
+      const second = await service.raise('agent-2', 'user-1', down);
+      await service.queueNotification(second.alert);
+
+      expect(await service.flushIncidents()).toBe(0);
+      expect(store.incidents).toHaveLength(2);
+      expect(mockSendAlert).toHaveBeenCalledTimes(1);
+    });
+  });
+});
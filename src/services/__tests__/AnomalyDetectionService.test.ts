@@ -0,0 +1,175 @@
+import { AnomalyDetectionService, BaselineStats, MetricBaseline, emptyStats, scoreValue, updateStats } from '../AnomalyDetectionService';
+import { database } from '../../config/database';
+import { AlertSeverity } from '../../types';
+
+jest.mock('../../config/database', () => ({ database: { query: jest.fn(), transaction: jest.fn() } }));
+jest.mock('../../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const query = database.query as jest.Mock;
+const transaction = database.transaction as jest.Mock;
+
+const feed = (values: number[], alpha: number, start: BaselineStats = emptyStats()) =>
+  values.reduce((stats, value) => updateStats(stats, value, alpha), start);
+
+const baseline = (stats: Partial<BaselineStats>, hourly: Record<number, BaselineStats> = {}): MetricBaseline => ({
+  metric: 'response_time',
+  mean: 100,
+  variance: 100,
+  count: 1000,
+  ...stats,
+  hourly: Array.from({ length: 24 }, (_, hour) => hourly[hour] || emptyStats()),
+  streak: 0,
+});
+
+describe('updateStats', () => {
+  it('is the plain mean and population variance while warming up', () => {
+    const stats = feed([2, 4, 6], 0.01);
+
+    expect(stats.mean).toBeCloseTo(4);
+    expect(stats.variance).toBeCloseTo(8 / 3);
+    expect(stats.count).toBe(3);
+  });
+
+  it('weighs each sample equally until it has seen 1/alpha of them', () => {
+    const values = Array.from({ length: 10 }, (_, index) => index);
+
+    expect(feed(values, 0.1).mean).toBeCloseTo(4.5);
+  });
+
+  it('moves by alpha once warmed up', () => {
+    const warm = { mean: 100, variance: 25, count: 500 };
+    const stats = updateStats(warm, 200, 0.01);
+
+    expect(stats.mean).toBeCloseTo(101);
+    expect(stats.variance).toBeCloseTo(0.99 * (25 + 100 * 1));
+    expect(stats.count).toBe(501);
+  });
+
+  it('moves less with dampening', () => {
+    const warm = { mean: 100, variance: 25, count: 500 };
+
+    expect(updateStats(warm, 200, 0.01, 0.1).mean).toBeCloseTo(100.1);
+  });
+});
+
+describe('scoreValue', () => {
+  it('returns null while the baseline is learning', () => {
+    expect(scoreValue(baseline({ count: 29 }), 500, 3, 5)).toBeNull();
+    expect(scoreValue(baseline({ count: 30 }), 500, 3, 5)).not.toBeNull();
+  });
+
+  it('scores against the baseline standard deviation', () => {
+    expect(scoreValue(baseline({ mean: 100, variance: 400 }), 160, 3, 5)).toEqual({
+      value: 160,
+      expected: 100,
+      stdDev: 20,
+      zScore: 3,
+      hour: undefined,
+    });
+  });
+
+  it('floors the standard deviation at the metric minimum', () => {
+    const score = scoreValue(baseline({ mean: 20, variance: 0 }), 30, 3, 5)!;
+
+    expect(score.stdDev).toBe(5);
+    expect(score.zScore).toBe(2);
+  });
+
+  it('floors the standard deviation at 5% of the mean', () => {
+    const score = scoreValue(baseline({ mean: 1000, variance: 1 }), 1100, 3, 5)!;
+
+    expect(score.stdDev).toBe(50);
+    expect(score.zScore).toBe(2);
+  });
+
+  it('uses the hour-of-day profile once that hour has enough samples', () => {
+    const nightly = { mean: 300, variance: 900, count: 30 };
+    const profile = baseline({ mean: 100, variance: 100 }, { 2: nightly, 3: { ...nightly, count: 29 } });
+
+    expect(scoreValue(profile, 360, 2, 5)).toMatchObject({ expected: 300, stdDev: 30, zScore: 2, hour: 2 });
+    expect(scoreValue(profile, 360, 3, 5)).toMatchObject({ expected: 100, stdDev: 10, zScore: 26, hour: undefined });
+  });
+
+  it('uses a seasoned hour even while the overall baseline is learning', () => {
+    const profile = baseline({ count: 5 }, { 2: { mean: 300, variance: 900, count: 40 } });
+
+    expect(scoreValue(profile, 300, 2, 5)).toMatchObject({ zScore: 0, hour: 2 });
+  });
+});
+
+describe('AnomalyDetectionService.evaluateSample', () => {
+  const service = new AnomalyDetectionService();
+  let updates: any[][];
+
+  /**
+   * A warmed-up response_time baseline of 100 ± 10 ms with `streak`
+   * anomalous samples so far, and a new sample of `responseTime`
+   */
+  function mockSample(responseTime: number, streak: number) {
+    updates = [];
+
+    query.mockImplementation(async (sql: string) => {
+      if (sql.startsWith('SELECT config FROM agents')) {
+        return { rows: [{ config: {} }] };
+      }
+      return { rows: [{ id: 'm-1', response_time: responseTime, peer_count: 25, block_height: 100, recorded_at: new Date() }] };
+    });
+
+    transaction.mockImplementation(async (callback: (client: any) => Promise<any>) => callback({
+      query: async (sql: string, params: any[]) => {
+        if (sql.startsWith('SELECT * FROM agent_metric_baselines')) {
+          return {
+            rows: ['response_time', 'peer_count', 'block_rate'].map(metric => ({
+              metric,
+              mean: metric === 'response_time' ? 100 : 25,
+              variance: 100,
+              samples: 1000,
+              hourly: {},
+              anomalous_streak: metric === 'response_time' ? streak : 0,
+            })),
+          };
+        }
+        updates.push(params);
+        return { rows: [] };
+      },
+    }));
+  }
+
+  const responseTime = async (value: number, streak: number) => {
+    mockSample(value, streak);
+    const outcomes = await service.evaluateSample('agent-1', 'm-1');
+    const update = updates.find(params => params[6] === 'response_time')!;
+
+    return { outcome: outcomes.find(item => item.metric === 'response_time')!, streak: update[4], mean: update[0] };
+  };
+
+  it('waits for three anomalous samples in a row before firing', async () => {
+    expect(await responseTime(140, 0)).toMatchObject({ outcome: { state: 'pending', started: false }, streak: 1 });
+    expect(await responseTime(140, 1)).toMatchObject({ outcome: { state: 'pending', started: false }, streak: 2 });
+    expect(await responseTime(140, 2)).toMatchObject({ outcome: { state: 'firing', started: true }, streak: 3 });
+    expect(await responseTime(140, 3)).toMatchObject({ outcome: { state: 'firing', started: false }, streak: 4 });
+  });
+
+  it('resets the streak on a normal sample', async () => {
+    expect(await responseTime(105, 5)).toMatchObject({ outcome: { state: 'ok' }, streak: 0 });
+  });
+
+  it('ignores deviations on the harmless side', async () => {
+    expect(await responseTime(10, 2)).toMatchObject({ outcome: { state: 'ok' }, streak: 0 });
+  });
+
+  it('raises severity at twice the threshold', async () => {
+    expect((await responseTime(140, 2)).outcome.severity).toBe(AlertSeverity.MEDIUM);
+    expect((await responseTime(160, 2)).outcome.severity).toBe(AlertSeverity.HIGH);
+  });
+
+  it('lets anomalous samples move the baseline a tenth as much', async () => {
+    const { mean: normal } = await responseTime(120, 0);
+    const { mean: anomalous } = await responseTime(140, 0);
+
+    expect(normal - 100).toBeCloseTo(0.2);
+    expect(anomalous - 100).toBeCloseTo(0.04);
+  });
+});
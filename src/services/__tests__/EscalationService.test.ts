@@ -0,0 +1,203 @@
+import { EscalationService } from '../EscalationService';
+import { database } from '../../config/database';
+import { Alert, AlertSeverity } from '../../types';
+import { EscalationPolicy, EscalationTier } from '../../models/Escalation';
+
+jest.mock('../../config/database', () => ({ database: { query: jest.fn() } }));
+jest.mock('../../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const mockSendAlert = jest.fn();
+jest.mock('../NotificationService', () => ({
+  NotificationService: jest.fn().mockImplementation(() => ({ sendAlert: mockSendAlert })),
+}));
+
+const mockGetOnCallUser = jest.fn();
+jest.mock('../OnCallService', () => ({
+  OnCallService: jest.fn().mockImplementation(() => ({ getOnCallUser: mockGetOnCallUser })),
+  assertPageableUsers: jest.fn(),
+}));
+
+const query = database.query as jest.Mock;
+
+const tier = (escalateAfterMinutes: number, ...userIds: string[]): EscalationTier => ({
+  targets: userIds.map(id => ({ type: 'user', id })),
+  escalateAfterMinutes,
+});
+
+/**
+ * One alert and its policy, answering the escalation queries the way the
+ * statements in EscalationService do: claiming a due alert moves it to the
+ * next tier and schedules another step only while a tier remains after that
+ */
+function mockStore(tiers: EscalationTier[]) {
+  const policy: EscalationPolicy = {
+    id: 'policy-1',
+    user_id: 'owner',
+    organization_id: 'org-1',
+    name: 'Primary',
+    tiers,
+    created_at: new Date(),
+    updated_at: new Date(),
+  };
+  const alert: Alert = {
+    id: 'alert-1',
+    agent_id: 'agent-1',
+    user_id: 'owner',
+    type: 'node_down',
+    severity: AlertSeverity.HIGH,
+    message: 'Node is not responding',
+    resolved: false,
+    fingerprint: 'fp',
+    occurrence_count: 1,
+    last_seen: new Date(),
+    created_at: new Date(),
+  };
+  const inMinutes = (minutes: number) => new Date(Date.now() + minutes * 60000);
+
+  query.mockImplementation(async (sql: string, params: any[] = []) => {
+    if (sql.startsWith('SELECT * FROM escalation_policies')) {
+      return { rows: params[0] === policy.id ? [policy] : [] };
+    }
+
+    if (sql.includes('escalation_policy_id = $1')) {
+      const [policyId, hasNextTier, escalateAfterMinutes] = params;
+      if (alert.resolved || alert.acknowledged_at) {
+        return { rows: [] };
+      }
+      alert.escalation_policy_id = policyId;
+      alert.escalation_tier = 0;
+      alert.next_escalation_at = hasNextTier ? inMinutes(escalateAfterMinutes) : undefined;
+      return { rows: [{ ...alert }] };
+    }
+
+    if (sql.includes('escalation_tier = al.escalation_tier + 1')) {
+      const due = alert.next_escalation_at && alert.next_escalation_at.getTime() <= Date.now();
+      const current = alert.escalation_tier!;
+      if (!due || alert.resolved || alert.acknowledged_at || policy.tiers.length <= current + 1) {
+        return { rows: [] };
+      }
+      alert.escalation_tier = current + 1;
+      alert.next_escalation_at = policy.tiers.length > current + 2 ? inMinutes(policy.tiers[current + 1].escalateAfterMinutes) : undefined;
+      return { rows: [{ ...alert, policy_tiers: policy.tiers }] };
+    }
+
+    if (sql.includes('SET next_escalation_at = NULL')) {
+      const due = alert.next_escalation_at && alert.next_escalation_at.getTime() <= Date.now();
+      if (due && policy.tiers.length <= alert.escalation_tier! + 1) {
+        alert.next_escalation_at = undefined;
+      }
+      return { rows: [] };
+    }
+
+    if (sql.startsWith('UPDATE alerts SET last_notified_at')) {
+      alert.last_notified_at = new Date();
+      return { rows: [] };
+    }
+
+    throw new Error(`Unexpected query: ${sql}`);
+  });
+
+  // Let the pending step come due
+  const elapse = () => {
+    if (alert.next_escalation_at) {
+      alert.next_escalation_at = new Date(Date.now() - 1000);
+    }
+  };
+
+  return { policy, alert, elapse };
+}
+
+const notifiedUsers = () => mockSendAlert.mock.calls.map(([userId]) => userId);
+
+describe('EscalationService', () => {
+  let service: EscalationService;
+
+  beforeEach(() => {
+    service = new EscalationService();
+  });
+
+  it('notifies the first tier and schedules the second', async () => {
+    const { alert } = mockStore([tier(5, 'alice'), tier(10, 'bob')]);
+
+    const step = await service.startEscalation(alert, 'policy-1');
+
+    expect(step).toMatchObject({ tier: 0, recipients: ['alice'] });
+    expect(alert.escalation_tier).toBe(0);
+    expect(alert.next_escalation_at!.getTime()).toBeGreaterThan(Date.now() + 4 * 60000);
+    expect(mockSendAlert).toHaveBeenCalledWith('alice', expect.objectContaining({ message: '[Escalation tier 1/2] Node is not responding' }));
+  });
+
+  it('schedules nothing after a single-tier policy', async () => {
+    const { alert } = mockStore([tier(5, 'alice')]);
+
+    await service.startEscalation(alert, 'policy-1');
+
+    expect(alert.next_escalation_at).toBeUndefined();
+  });
+
+  it('walks every tier once, waiting on each tier before the next', async () => {
+    const { alert, elapse } = mockStore([tier(5, 'alice'), tier(10, 'bob'), tier(15, 'carol')]);
+    await service.startEscalation(alert, 'policy-1');
+
+    expect(await service.processDueEscalations()).toEqual([]);
+
+    elapse();
+    const [second] = await service.processDueEscalations();
+    expect(second).toMatchObject({ tier: 1, recipients: ['bob'] });
+    expect(alert.next_escalation_at!.getTime()).toBeGreaterThan(Date.now() + 9 * 60000);
+    expect(alert.next_escalation_at!.getTime()).toBeLessThanOrEqual(Date.now() + 10 * 60000);
+
+    elapse();
+    const [third] = await service.processDueEscalations();
+    expect(third).toMatchObject({ tier: 2, recipients: ['carol'] });
+    expect(alert.next_escalation_at).toBeUndefined();
+
+    elapse();
+    expect(await service.processDueEscalations()).toEqual([]);
+
+    expect(notifiedUsers()).toEqual(['alice', 'bob', 'carol']);
+    expect(mockSendAlert.mock.calls.map(([, notification]) => notification.message)).toEqual([
+      '[Escalation tier 1/3] Node is not responding',
+      '[Escalation tier 2/3] Node is not responding',
+      '[Escalation tier 3/3] Node is not responding',
+    ]);
+  });
+
+  it('stops escalating once the alert is acknowledged', async () => {
+    const { alert, elapse } = mockStore([tier(5, 'alice'), tier(10, 'bob')]);
+    await service.startEscalation(alert, 'policy-1');
+
+    alert.acknowledged_at = new Date();
+    elapse();
+
+    expect(await service.processDueEscalations()).toEqual([]);
+    expect(notifiedUsers()).toEqual(['alice']);
+  });
+
+  it('clears the pending step when the policy was shortened', async () => {
+    const { policy, alert, elapse } = mockStore([tier(5, 'alice'), tier(10, 'bob')]);
+    await service.startEscalation(alert, 'policy-1');
+
+    policy.tiers = policy.tiers.slice(0, 1);
+    elapse();
+
+    expect(await service.processDueEscalations()).toEqual([]);
+    expect(alert.next_escalation_at).toBeUndefined();
+  });
+
+  it('pages whoever is on call for schedule targets, once per user', async () => {
+    const { alert } = mockStore([{
+      targets: [{ type: 'schedule', id: 'schedule-1' }, { type: 'user', id: 'alice' }, { type: 'schedule', id: 'schedule-2' }],
+      escalateAfterMinutes: 5,
+    }]);
+    mockGetOnCallUser.mockImplementation(async (scheduleId: string) => scheduleId === 'schedule-1' ? 'alice' : null);
+
+    const step = await service.startEscalation(alert, 'policy-1');
+
+    expect(step!.recipients).toEqual(['alice']);
+    expect(mockGetOnCallUser).toHaveBeenCalledTimes(2);
+    expect(notifiedUsers()).toEqual(['alice']);
+  });
+});
@@ -0,0 +1,100 @@
+import { MetricsIngestionService, MAX_SAMPLE_AGE_MS, MAX_SAMPLE_LEAD_MS } from '../MetricsIngestionService';
+
+jest.mock('../../config/database', () => ({ database: { query: jest.fn() } }));
+jest.mock('../../config/redis', () => ({ redis: { get: jest.fn(), set: jest.fn() } }));
+jest.mock('../../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const mockRecordSamples = jest.fn();
+jest.mock('../MetricsService', () => ({
+  MetricsService: jest.fn().mockImplementation(() => ({ recordSamples: mockRecordSamples })),
+}));
+
+const NOW = new Date('2026-03-01T12:00:00Z').getTime();
+const MINUTE = 60000;
+
+// Samples stored by the last ingest, with their timestamps in ms
+const storedTimes = () => mockRecordSamples.mock.calls[0][1].map((sample: any) => sample.recorded_at.getTime());
+
+describe('MetricsIngestionService.ingestBatch', () => {
+  const service = new MetricsIngestionService();
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('stores samples inside the window and stamps ones without a time with now', async () => {
+    const result = await service.ingestBatch('agent-1', {
+      samples: [
+        { recorded_at: new Date(NOW - 4 * MINUTE), cpu_usage: 10 },
+        { cpu_usage: 20 },
+        { recorded_at: new Date(NOW + 30000), cpu_usage: 30 },
+      ],
+    });
+
+    expect(result).toEqual({ accepted: 3, rejected: [], clock_offset_ms: 0 });
+    expect(mockRecordSamples).toHaveBeenCalledWith('agent-1', expect.any(Array));
+    expect(storedTimes()).toEqual([NOW - 4 * MINUTE, NOW, NOW + 30000]);
+  });
+
+  it('rejects samples too old or too far ahead and reports them by index', async () => {
+    const result = await service.ingestBatch('agent-1', {
+      samples: [
+        { recorded_at: new Date(NOW - MAX_SAMPLE_AGE_MS - 1) },
+        { recorded_at: new Date(NOW - MAX_SAMPLE_AGE_MS) },
+        { recorded_at: new Date(NOW + MAX_SAMPLE_LEAD_MS) },
+        { recorded_at: new Date(NOW + MAX_SAMPLE_LEAD_MS + 1) },
+      ],
+    });
+
+    expect(result).toEqual({
+      accepted: 2,
+      rejected: [
+        { index: 0, reason: 'Older than 5 minutes' },
+        { index: 3, reason: 'Recorded in the future' },
+      ],
+      clock_offset_ms: 0,
+    });
+    expect(storedTimes()).toEqual([NOW - MAX_SAMPLE_AGE_MS, NOW + MAX_SAMPLE_LEAD_MS]);
+  });
+
+  it('shifts samples from a sidecar whose clock runs behind', async () => {
+    const skew = 10 * MINUTE;
+
+    const result = await service.ingestBatch('agent-1', {
+      sent_at: new Date(NOW - skew),
+      samples: [{ recorded_at: new Date(NOW - skew - MINUTE) }, { recorded_at: new Date(NOW - skew) }],
+    });
+
+    expect(result).toEqual({ accepted: 2, rejected: [], clock_offset_ms: skew });
+    expect(storedTimes()).toEqual([NOW - MINUTE, NOW]);
+  });
+
+  it('shifts samples from a sidecar whose clock runs ahead', async () => {
+    const skew = 10 * MINUTE;
+
+    const result = await service.ingestBatch('agent-1', {
+      sent_at: new Date(NOW + skew),
+      samples: [{ recorded_at: new Date(NOW + skew) }, { recorded_at: new Date(NOW + skew - 6 * MINUTE) }],
+    });
+
+    expect(result).toEqual({
+      accepted: 1,
+      rejected: [{ index: 1, reason: 'Older than 5 minutes' }],
+      clock_offset_ms: -skew,
+    });
+    expect(storedTimes()).toEqual([NOW]);
+  });
+
+  it('stores nothing when every sample is rejected', async () => {
+    const result = await service.ingestBatch('agent-1', { samples: [{ recorded_at: new Date(NOW - 60 * MINUTE) }] });
+
+    expect(result.accepted).toBe(0);
+    expect(mockRecordSamples).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,69 @@
+import { rollupAggregates, selectResolution } from '../MetricsService';
+import { PLANS } from '../SubscriptionService';
+import { MetricsResolution } from '../../models/Agent';
+import { SubscriptionPlan } from '../../types';
+
+jest.mock('../../config/database', () => ({ database: { query: jest.fn(), transaction: jest.fn() } }));
+jest.mock('../../config/redis', () => ({ redis: { publish: jest.fn() } }));
+jest.mock('../../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const HOUR = 60;
+const DAY = 24 * HOUR;
+
+// Expressions of a SELECT list, one field's aggregates per line
+const expressions = (sql: string) => sql.split(',\n').flatMap(line => line.split(', '));
+
+describe('selectResolution', () => {
+  it.each(Object.values(PLANS).map(plan => [plan.plan, plan.limits.metricsRetentionDays] as const))(
+    'picks the finest resolution for the range on the %s plan',
+    (_plan, retention) => {
+      expect(selectResolution(HOUR, retention)).toBe('raw');
+      expect(selectResolution(6 * HOUR, retention)).toBe('raw');
+      expect(selectResolution(6 * HOUR + 1, retention)).toBe('1m');
+      expect(selectResolution(DAY, retention)).toBe('1m');
+      expect(selectResolution(DAY + 1, retention)).toBe('1h');
+      expect(selectResolution(31 * DAY, retention)).toBe('1h');
+      expect(selectResolution(31 * DAY + 1, retention)).toBe('1d');
+    }
+  );
+
+  it('skips resolutions the plan does not keep for the whole range', () => {
+    const retention: Record<MetricsResolution, number> = { raw: 0.1, '1m': 0.5, '1h': 10, '1d': 365 };
+
+    expect(selectResolution(2 * HOUR, retention)).toBe('raw');
+    expect(selectResolution(3 * HOUR, retention)).toBe('1m');
+    expect(selectResolution(13 * HOUR, retention)).toBe('1h');
+    expect(selectResolution(11 * DAY, retention)).toBe('1d');
+  });
+
+  it('falls back to daily rollups beyond every retention', () => {
+    expect(selectResolution(2000 * DAY, PLANS[SubscriptionPlan.STARTER].limits.metricsRetentionDays)).toBe('1d');
+  });
+});
+
+describe('rollupAggregates', () => {
+  it('aggregates raw samples directly', () => {
+    const sql = rollupAggregates(true);
+
+    expect(sql.startsWith('COUNT(*)')).toBe(true);
+    expect(sql).toContain('MIN(response_time), AVG(response_time), MAX(response_time), percentile_cont(0.95) WITHIN GROUP (ORDER BY response_time)');
+    expect(sql.endsWith('AVG(sync_status::int)')).toBe(true);
+  });
+
+  it('combines finer buckets weighted by their sample counts', () => {
+    const sql = rollupAggregates(false);
+
+    expect(sql.startsWith('SUM(samples)')).toBe(true);
+    expect(sql).toContain('MIN(response_time_min), SUM(response_time_avg * samples) / SUM(samples), MAX(response_time_max)');
+    expect(sql).toContain('percentile_cont(0.95) WITHIN GROUP (ORDER BY response_time_p95)');
+    expect(sql.endsWith('SUM(sync_status_avg * samples) / SUM(samples)')).toBe(true);
+  });
+
+  it('yields the same columns from either source', () => {
+    // samples, four aggregates for each of the eight fields, sync_status_avg
+    expect(expressions(rollupAggregates(true))).toHaveLength(34);
+    expect(expressions(rollupAggregates(false))).toHaveLength(34);
+  });
+});
@@ -0,0 +1,113 @@
+import { NodeControlService, NodeControlTarget } from '../NodeControlService';
+import { registerChainAdapter, HealthCheckResult } from '../../chains';
+
+jest.mock('../../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+// Health checks the verification step sees, in order; the last one repeats
+let healthResults: HealthCheckResult[] = [];
+const checkHealth = jest.fn(async () => healthResults.length > 1 ? healthResults.shift()! : healthResults[0]);
+
+registerChainAdapter({
+  chain: 'control-test',
+  checkHealth,
+  collectMetrics: jest.fn(),
+  getFinality: jest.fn(),
+  getExplorerLink: () => undefined,
+} as any);
+
+const healthy = (latestBlock: number): HealthCheckResult => ({ status: 'healthy', latestBlock });
+const down = (error: string): HealthCheckResult => ({ status: 'error', error });
+
+const target = (nodeControl?: NodeControlTarget['nodeControl']): NodeControlTarget => ({
+  agentId: 'agent-1',
+  userId: 'user-1',
+  chain: 'control-test',
+  endpointUrl: 'http://node.example.com:8545',
+  nodeControl,
+});
+
+describe('NodeControlService', () => {
+  let service: NodeControlService;
+
+  beforeAll(() => {
+    process.env.NODE_CONTROL_VERIFY_ATTEMPTS = '3';
+    process.env.NODE_CONTROL_VERIFY_INTERVAL_MS = '1';
+    service = new NodeControlService();
+  });
+
+  afterAll(() => {
+    delete process.env.NODE_CONTROL_VERIFY_ATTEMPTS;
+    delete process.env.NODE_CONTROL_VERIFY_INTERVAL_MS;
+  });
+
+  beforeEach(() => {
+    healthResults = [healthy(100)];
+  });
+
+  it('fails without running anything when node control is not configured', async () => {
+    const result = await service.execute(target(), 'restart');
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Node control is not configured for this agent');
+    expect(checkHealth).not.toHaveBeenCalled();
+  });
+
+  it('reports status output without a health check', async () => {
+    const result = await service.execute(target({ driver: 'fake', stdout: 'active (running)' }), 'status');
+
+    expect(result).toMatchObject({ success: true, driver: 'fake', exitCode: 0, stdout: 'active (running)' });
+    expect(result.verification).toBeUndefined();
+    expect(checkHealth).not.toHaveBeenCalled();
+  });
+
+  it('verifies the node is healthy again after a restart', async () => {
+    healthResults = [down('connection refused'), healthy(1234)];
+
+    const result = await service.execute(target({ driver: 'fake' }), 'restart');
+
+    expect(result.success).toBe(true);
+    expect(result.verification).toEqual({ healthy: true, attempts: 2, latestBlock: 1234 });
+    expect(checkHealth).toHaveBeenCalledWith('http://node.example.com:8545');
+  });
+
+  it('fails a restart the node does not recover from', async () => {
+    healthResults = [down('connection refused')];
+
+    const result = await service.execute(target({ driver: 'fake' }), 'start');
+
+    expect(result.success).toBe(false);
+    expect(result.exitCode).toBe(0);
+    expect(result.verification).toEqual({ healthy: false, attempts: 3, error: 'connection refused' });
+  });
+
+  it('returns a non-zero exit code as a failure and skips verification', async () => {
+    const result = await service.execute(target({ driver: 'fake', exitCode: 1, stderr: 'Job failed' }), 'restart');
+
+    expect(result).toMatchObject({ success: false, exitCode: 1, stderr: 'Job failed' });
+    expect(result.verification).toBeUndefined();
+  });
+
+  it('turns a driver timeout into an error result', async () => {
+    const result = await service.execute(target({ driver: 'fake', delayMs: 1000, timeoutMs: 10 }), 'stop');
+
+    expect(result.success).toBe(false);
+    expect(result.exitCode).toBeNull();
+    expect(result.error).toBe('Fake stop timed out after 10ms');
+  });
+
+  it('truncates long output', async () => {
+    const result = await service.execute(target({ driver: 'fake', stdout: 'x'.repeat(5000) }), 'status');
+
+    expect(result.stdout).toHaveLength(4000 + '... [truncated]'.length);
+    expect(result.stdout.endsWith('... [truncated]')).toBe(true);
+  });
+
+  it('rejects drivers the operator has not enabled', async () => {
+    const result = await service.execute(target({ driver: 'systemd', unit: 'mentis-api.service' }), 'stop');
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Unsupported node control driver: systemd');
+  });
+});
@@ -0,0 +1,91 @@
+import { resolveOnCallUser } from '../OnCallService';
+import { OnCallOverride, OnCallSchedule } from '../../models/Escalation';
+
+jest.mock('../../config/database', () => ({ database: { query: jest.fn() } }));
+jest.mock('../../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const ROTATION_START = new Date('2026-01-05T09:00:00Z');
+const HOUR = 3600000;
+
+// `hours` after the rotation started
+const at = (hours: number) => new Date(ROTATION_START.getTime() + hours * HOUR);
+
+const schedule = (participants: string[], shiftHours = 24): OnCallSchedule => ({
+  id: 'schedule-1',
+  user_id: 'owner',
+  organization_id: 'org-1',
+  name: 'Primary',
+  participants,
+  rotation_start: ROTATION_START,
+  shift_hours: shiftHours,
+  created_at: ROTATION_START,
+  updated_at: ROTATION_START,
+});
+
+const override = (userId: string, fromHours: number, toHours: number, createdHours = 0): OnCallOverride => ({
+  id: `override-${userId}`,
+  schedule_id: 'schedule-1',
+  user_id: userId,
+  starts_at: at(fromHours),
+  ends_at: at(toHours),
+  created_at: at(createdHours),
+});
+
+describe('resolveOnCallUser', () => {
+  const rotation = schedule(['alice', 'bob', 'carol'], 8);
+
+  it.each([
+    [0, 'alice'],
+    [7.99, 'alice'],
+    [8, 'bob'],
+    [16, 'carol'],
+    [23.99, 'carol'],
+  ])('hands over at each shift boundary (%s hours in)', (hours, expected) => {
+    expect(resolveOnCallUser(rotation, [], at(hours))).toBe(expected);
+  });
+
+  it.each([
+    [24, 'alice'],
+    [32, 'bob'],
+    [24 * 100 + 16, 'carol'],
+  ])('wraps around to the first participant (%s hours in)', (hours, expected) => {
+    expect(resolveOnCallUser(rotation, [], at(hours))).toBe(expected);
+  });
+
+  it.each([
+    [-0.5, 'carol'],
+    [-8, 'carol'],
+    [-8.5, 'bob'],
+    [-24, 'alice'],
+    [-24.5, 'carol'],
+  ])('runs the rotation backwards before rotation_start (%s hours)', (hours, expected) => {
+    expect(resolveOnCallUser(rotation, [], at(hours))).toBe(expected);
+  });
+
+  it('returns null for a schedule without participants', () => {
+    expect(resolveOnCallUser(schedule([]), [], at(5))).toBeNull();
+  });
+
+  it('puts an override ahead of the rotation while it lasts', () => {
+    const overrides = [override('dave', 2, 4)];
+
+    expect(resolveOnCallUser(rotation, overrides, at(1.99))).toBe('alice');
+    expect(resolveOnCallUser(rotation, overrides, at(2))).toBe('dave');
+    expect(resolveOnCallUser(rotation, overrides, at(3.99))).toBe('dave');
+    expect(resolveOnCallUser(rotation, overrides, at(4))).toBe('alice');
+  });
+
+  it('lets the most recently created override win where overrides overlap', () => {
+    const overrides = [override('erin', 0, 12, 2), override('dave', 4, 8, 1), override('frank', 6, 10, -1)];
+
+    expect(resolveOnCallUser(rotation, overrides, at(5))).toBe('erin');
+    expect(resolveOnCallUser(rotation, [overrides[1], overrides[2]], at(7))).toBe('dave');
+    expect(resolveOnCallUser(rotation, [overrides[1], overrides[2]], at(9))).toBe('frank');
+  });
+
+  it('applies overrides to schedules without participants', () => {
+    expect(resolveOnCallUser(schedule([]), [override('dave', 0, 4)], at(1))).toBe('dave');
+  });
+});
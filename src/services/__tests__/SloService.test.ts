@@ -0,0 +1,96 @@
+import { BURN_ALERTS, burnThreshold, computeStatus } from '../SloService';
+import { BurnWindow } from '../../models/Slo';
+
+jest.mock('../../config/database', () => ({ database: { query: jest.fn(), transaction: jest.fn() } }));
+jest.mock('../../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const [FAST, SLOW] = BURN_ALERTS;
+
+const counts = (good: number, total: number) => ({ good, total });
+
+// The same good/total counts in every burn window
+const burnWindows = (overrides: Partial<Record<BurnWindow, { good: number; total: number }>> = {}) => ({
+  '5m': counts(100, 100),
+  '30m': counts(100, 100),
+  '1h': counts(100, 100),
+  '6h': counts(100, 100),
+  ...overrides,
+});
+
+describe('burnThreshold', () => {
+  it('is 14.4 for the fast burn and 6 for the slow burn over 30 days', () => {
+    expect(burnThreshold({ window_days: 30 }, FAST)).toBeCloseTo(14.4);
+    expect(burnThreshold({ window_days: 30 }, SLOW)).toBeCloseTo(6);
+  });
+
+  it('scales with the window', () => {
+    expect(burnThreshold({ window_days: 7 }, FAST)).toBeCloseTo(3.36);
+    expect(burnThreshold({ window_days: 7 }, SLOW)).toBeCloseTo(1.4);
+  });
+});
+
+describe('computeStatus', () => {
+  const slo = { objective: 99, window_days: 30 };
+
+  it('reports attainment and the budget left', () => {
+    const status = computeStatus(slo, counts(9950, 10000), burnWindows());
+
+    expect(status.attainment).toBeCloseTo(99.5);
+    expect(status.error_budget_remaining).toBeCloseTo(50);
+    expect(status.samples).toBe(10000);
+    expect(status.breaching).toBe(false);
+  });
+
+  it('reports an exhausted budget as zero and an overspent one as negative', () => {
+    const exhausted = computeStatus(slo, counts(990, 1000), burnWindows());
+    const overspent = computeStatus(slo, counts(970, 1000), burnWindows());
+
+    expect(exhausted.error_budget_remaining).toBeCloseTo(0);
+    expect(exhausted.breaching).toBe(false);
+    expect(overspent.error_budget_remaining).toBeCloseTo(-200);
+    expect(overspent.breaching).toBe(true);
+  });
+
+  it('fires the fast burn only when both its windows burn at 14.4x', () => {
+    // 15% bad is a burn rate of 15 against a 1% budget
+    const fast = computeStatus(slo, counts(1000, 1000), burnWindows({ '5m': counts(85, 100), '1h': counts(85, 100) }));
+    const recovered = computeStatus(slo, counts(1000, 1000), burnWindows({ '5m': counts(100, 100), '1h': counts(85, 100) }));
+
+    expect(fast.burn_rates['1h']).toBeCloseTo(15);
+    expect(fast.fast_burn).toBe(true);
+    expect(recovered.fast_burn).toBe(false);
+  });
+
+  it('fires the slow burn when both its windows burn at 6x', () => {
+    const status = computeStatus(slo, counts(1000, 1000), burnWindows({ '30m': counts(93, 100), '6h': counts(93, 100) }));
+
+    expect(status.burn_rates['6h']).toBeCloseTo(7);
+    expect(status.slow_burn).toBe(true);
+    expect(status.fast_burn).toBe(false);
+  });
+
+  it('reports no burn rate for windows without samples and does not fire on them', () => {
+    const status = computeStatus(slo, counts(1000, 1000), burnWindows({ '5m': counts(0, 0), '1h': counts(0, 100) }));
+
+    expect(status.burn_rates['5m']).toBeNull();
+    expect(status.burn_rates['1h']).toBeCloseTo(100);
+    expect(status.fast_burn).toBe(false);
+  });
+
+  it('reports nothing without samples in the window', () => {
+    const empty = counts(0, 0);
+    const status = computeStatus(slo, empty, burnWindows({ '5m': empty, '30m': empty, '1h': empty, '6h': empty }));
+
+    expect(status).toEqual({
+      attainment: null,
+      error_budget_remaining: null,
+      samples: 0,
+      burn_rates: { '5m': null, '30m': null, '1h': null, '6h': null },
+      fast_burn: false,
+      slow_burn: false,
+      breaching: false,
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { SubscriptionService } from '../SubscriptionService';
+import { database } from '../../config/database';
+import { SubscriptionPlan, SubscriptionStatus } from '../../types';
+
+jest.mock('../../config/database', () => ({ database: { query: jest.fn() } }));
+jest.mock('../../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const query = database.query as jest.Mock;
+
+/**
+ * Answer the subscription, usage and update queries for a user on `plan`
+ */
+function mockAccount(plan: SubscriptionPlan, overrides: Record<string, any> = {}) {
+  const subscription = {
+    id: 'sub-1',
+    user_id: 'user-1',
+    plan,
+    status: SubscriptionStatus.ACTIVE,
+    cancel_at_period_end: false,
+    current_period_start: new Date(),
+    current_period_end: new Date(Date.now() + 86400000),
+    ...overrides,
+  };
+
+  query.mockImplementation(async (sql: string, params: any[]) => {
+    if (sql.includes('FROM subscriptions')) {
+      return { rows: [subscription] };
+    }
+    if (sql.includes('FROM agents')) {
+      return { rows: [{ count: '1', chains: ['ethereum'] }] };
+    }
+    if (sql.includes('FROM agent_tasks')) {
+      return { rows: [{ count: '0' }] };
+    }
+    if (sql.startsWith('UPDATE subscriptions')) {
+      return { rows: [{ ...subscription, plan: params[0] }] };
+    }
+    throw new Error(`Unexpected query: ${sql}`);
+  });
+}
+
+const updates = () => query.mock.calls.filter(([sql]) => sql.startsWith('UPDATE subscriptions'));
+
+describe('SubscriptionService.changePlan', () => {
+  const service = new SubscriptionService();
+  const savedSecret = process.env.BILLING_WEBHOOK_SECRET;
+
+  afterEach(() => {
+    if (savedSecret === undefined) {
+      delete process.env.BILLING_WEBHOOK_SECRET;
+    } else {
+      process.env.BILLING_WEBHOOK_SECRET = savedSecret;
+    }
+  });
+
+  it.each([undefined, 'whsec_test'])('refuses a paid upgrade without checkout (webhook secret %s)', async secret => {
+    if (secret) {
+      process.env.BILLING_WEBHOOK_SECRET = secret;
+    } else {
+      delete process.env.BILLING_WEBHOOK_SECRET;
+    }
+    mockAccount(SubscriptionPlan.STARTER);
+
+    await expect(service.changePlan('user-1', SubscriptionPlan.ENTERPRISE)).rejects.toMatchObject({
+      code: 'SUBSCRIPTION_REQUIRED',
+      statusCode: 402,
+    });
+    expect(updates()).toHaveLength(0);
+  });
+
+  it('leaves billed subscriptions to the billing portal', async () => {
+    mockAccount(SubscriptionPlan.ENTERPRISE, { stripe_subscription_id: 'sub_123' });
+
+    await expect(service.changePlan('user-1', SubscriptionPlan.CORE)).rejects.toMatchObject({ code: 'BILLING_MANAGED' });
+    expect(updates()).toHaveLength(0);
+  });
+
+  it('downgrades an unbilled subscription', async () => {
+    mockAccount(SubscriptionPlan.CORE);
+
+    const subscription = await service.changePlan('user-1', SubscriptionPlan.STARTER);
+
+    expect(subscription.plan).toBe(SubscriptionPlan.STARTER);
+    expect(updates()).toHaveLength(1);
+  });
+});
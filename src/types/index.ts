@@ -1,12 +1,6 @@
-// Supported blockchain networks
-export enum SupportedChain {
-  ETHEREUM = 'ethereum',
-  SOLANA = 'solana',
-  COSMOS = 'cosmos',
-  POLYGON = 'polygon',
-  AVALANCHE = 'avalanche',
-  BSC = 'bsc',
-}
+// Blockchain network identifier. The supported networks are the ones with an
+// adapter in src/chains/adapters (see getSupportedChains).
+export type SupportedChain = string;
 
 // Node types
 export enum NodeType {
@@ -64,6 +58,7 @@ export enum TaskStatus {
   RUNNING = 'running',
   COMPLETED = 'completed',
   FAILED = 'failed',
+  AWAITING_APPROVAL = 'awaiting_approval',
 }
 
 // Task priority
@@ -112,7 +107,7 @@ export interface AgentConfig {
   tools?: string[];
   maxIterations?: number;
   temperature?: number;
-  monitoringInterval?: number;
+  monitoringInterval?: number; // in seconds
   alertThresholds?: {
     uptime?: number;
     responseTime?: number;
@@ -121,6 +116,43 @@ export interface AgentConfig {
     cpuUsage?: number;
     diskUsage?: number;
   };
+  alertRules?: AlertRule[];
+  alertCooldownMinutes?: number; // between notifications for the same alert fingerprint
+  anomalyDetection?: {
+    enabled?: boolean; // on by default
+    zScoreThreshold?: number; // standard deviations off the baseline that count as anomalous
+  };
+}
+
+// Metrics an alert rule can watch. error_rate is the percentage of samples
+// in the rule's window where the node was not fully up.
+export const ALERT_RULE_METRICS = [
+  'uptime',
+  'response_time',
+  'cpu_usage',
+  'memory_usage',
+  'disk_usage',
+  'network_latency',
+  'peer_count',
+  'block_height',
+  'sync_status',
+  'error_rate',
+] as const;
+
+export type AlertRuleMetric = typeof ALERT_RULE_METRICS[number];
+
+export type AlertRuleOperator = '>' | '>=' | '<' | '<=';
+
+// Deterministic alert rule evaluated on every metrics sample
+export interface AlertRule {
+  name: string;
+  type: 'threshold' | 'rate_of_change' | 'absence';
+  metric?: AlertRuleMetric;
+  operator?: AlertRuleOperator;
+  value?: number;
+  forMinutes?: number; // threshold: how long the breach must last
+  windowMinutes?: number; // rate_of_change and absence
+  severity?: AlertSeverity;
 }
 
 // Blockchain network configuration
@@ -218,6 +250,8 @@ export interface Subscription {
   current_period_end: Date;
   cancel_at_period_end: boolean;
   stripe_subscription_id?: string;
+  stripe_customer_id?: string;
+  billing_updated_at?: Date;
   created_at: Date;
   updated_at: Date;
 }
@@ -232,7 +266,30 @@ export interface Alert {
   resolved: boolean;
   resolved_at?: Date;
   resolved_by?: string;
+  rule_key?: string;
+  fingerprint: string; // agent, type and rule; one open alert per fingerprint
+  occurrence_count: number;
+  last_seen: Date;
+  last_notified_at?: Date;
+  incident_id?: string;
+  acknowledged_at?: Date;
+  acknowledged_by?: string;
+  escalation_policy_id?: string;
+  escalation_tier?: number; // last tier notified
+  next_escalation_at?: Date;
+  created_at: Date;
+}
+
+// Alerts of one type across a user's agents, notified together
+export interface AlertIncident {
+  id: string;
+  user_id: string;
+  type: string;
+  severity: AlertSeverity;
+  alert_count: number;
   created_at: Date;
+  last_alert_at: Date;
+  notified_at?: Date;
 }
 
 // Error types
@@ -292,4 +349,25 @@ export class RateLimitError extends MentisError {
   }
 }
 
+export class SubscriptionRequiredError extends MentisError {
+  constructor(message: string = 'An active subscription is required') {
+    super(message, 'SUBSCRIPTION_REQUIRED', 402);
+    this.name = 'SubscriptionRequiredError';
+  }
+}
+
+export class QuotaExceededError extends MentisError {
+  constructor(message: string, code: string = 'QUOTA_EXCEEDED', details?: any) {
+    super(message, code, 403, details);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+export class WebhookSignatureError extends MentisError {
+  constructor(message: string = 'Invalid webhook signature') {
+    super(message, 'INVALID_SIGNATURE', 400);
+    this.name = 'WebhookSignatureError';
+  }
+}
+
 // All types are already exported above
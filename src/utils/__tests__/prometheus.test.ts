@@ -0,0 +1,101 @@
+import { Histogram, parseExposition, renderGauge } from '../prometheus';
+
+describe('renderGauge', () => {
+  it('renders HELP and TYPE lines and one line per sample', () => {
+    const text = renderGauge('mentis_agents', 'Agents by status', [
+      { labels: { status: 'active' }, value: 3 },
+      { labels: { status: 'paused', chain: 'ethereum' }, value: 0.5 },
+      { value: 7 },
+    ]);
+
+    expect(text).toBe([
+      '# HELP mentis_agents Agents by status',
+      '# TYPE mentis_agents gauge',
+      'mentis_agents{status="active"} 3',
+      'mentis_agents{status="paused",chain="ethereum"} 0.5',
+      'mentis_agents 7',
+    ].join('\n'));
+  });
+
+  it('renders non-finite values the way Prometheus spells them', () => {
+    const text = renderGauge('mentis_value', 'Value', [{ value: NaN }, { value: Infinity }, { value: -Infinity }]);
+
+    expect(text.split('\n').slice(2)).toEqual(['mentis_value NaN', 'mentis_value +Inf', 'mentis_value -Inf']);
+  });
+
+  it('escapes backslashes, quotes and newlines in label values', () => {
+    const text = renderGauge('mentis_value', 'Value', [{ labels: { path: 'C:\\node "main"\nbackup' }, value: 1 }]);
+
+    expect(text.split('\n')[2]).toBe('mentis_value{path="C:\\\\node \\"main\\"\\nbackup"} 1');
+  });
+});
+
+describe('Histogram', () => {
+  it('renders cumulative buckets, sum and count per label set', () => {
+    const histogram = new Histogram('mentis_duration_seconds', 'Duration', [1, 5]);
+    histogram.observe({ type: 'monitor' }, 0.5);
+    histogram.observe({ type: 'monitor' }, 3);
+    histogram.observe({ type: 'monitor' }, 10);
+
+    expect(histogram.render().split('\n').slice(2)).toEqual([
+      'mentis_duration_seconds_bucket{type="monitor",le="1"} 1',
+      'mentis_duration_seconds_bucket{type="monitor",le="5"} 2',
+      'mentis_duration_seconds_bucket{type="monitor",le="+Inf"} 3',
+      'mentis_duration_seconds_sum{type="monitor"} 13.5',
+      'mentis_duration_seconds_count{type="monitor"} 3',
+    ]);
+  });
+});
+
+describe('parseExposition', () => {
+  it('reads names, labels and values and skips comments, blanks and timestamps', () => {
+    const samples = parseExposition([
+      '# HELP node_cpu_seconds_total Seconds the CPUs spent in each mode.',
+      '# TYPE node_cpu_seconds_total counter',
+      'node_cpu_seconds_total{cpu="0",mode="idle"} 1234.5',
+      '',
+      '  node_load1 0.42 1700000000000',
+      'node_filesystem_avail_bytes{mountpoint="/", fstype = "ext4"} 1e+09',
+      'not a sample line',
+    ].join('\n'));
+
+    expect(samples).toEqual([
+      { name: 'node_cpu_seconds_total', labels: { cpu: '0', mode: 'idle' }, value: 1234.5 },
+      { name: 'node_load1', labels: {}, value: 0.42 },
+      { name: 'node_filesystem_avail_bytes', labels: { mountpoint: '/', fstype: 'ext4' }, value: 1e9 },
+    ]);
+  });
+
+  it('reads non-finite values', () => {
+    const values = parseExposition('a +Inf\nb Inf\nc -Inf\nd NaN').map(sample => sample.value);
+
+    expect(values.slice(0, 3)).toEqual([Infinity, Infinity, -Infinity]);
+    expect(values[3]).toBeNaN();
+  });
+
+  it('unescapes label values', () => {
+    const [sample] = parseExposition('m{path="C:\\\\node \\"main\\"\\nbackup",other="a,b=c"} 1');
+
+    expect(sample.labels).toEqual({ path: 'C:\\node "main"\nbackup', other: 'a,b=c' });
+  });
+
+  it('reads back what renderGauge and Histogram render', () => {
+    const labels = { chain: 'ethereum', note: 'say "hi"\\\n' };
+    const histogram = new Histogram('mentis_duration_seconds', 'Duration', [1]);
+    histogram.observe(labels, 0.25);
+
+    const text = [
+      renderGauge('mentis_value', 'Value', [{ labels, value: -2.5 }, { value: Infinity }]),
+      histogram.render(),
+    ].join('\n');
+
+    expect(parseExposition(text)).toEqual([
+      { name: 'mentis_value', labels, value: -2.5 },
+      { name: 'mentis_value', labels: {}, value: Infinity },
+      { name: 'mentis_duration_seconds_bucket', labels: { ...labels, le: '1' }, value: 1 },
+      { name: 'mentis_duration_seconds_bucket', labels: { ...labels, le: '+Inf' }, value: 1 },
+      { name: 'mentis_duration_seconds_sum', labels, value: 0.25 },
+      { name: 'mentis_duration_seconds_count', labels, value: 1 },
+    ]);
+  });
+});
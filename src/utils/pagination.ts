@@ -0,0 +1,17 @@
+import { PaginatedResponse } from '../types';
+
+/**
+ * Build the pagination block of a PaginatedResponse
+ */
+export function buildPagination(page: number, limit: number, total: number): PaginatedResponse<any>['pagination'] {
+  const totalPages = Math.ceil(total / limit);
+
+  return {
+    page,
+    limit,
+    total,
+    totalPages,
+    hasNext: page < totalPages,
+    hasPrev: page > 1,
+  };
+}
@@ -0,0 +1,174 @@
+/**
+ * Minimal Prometheus text exposition (format 0.0.4). Histograms live in
+ * process memory, so each replica reports its own; scrape every replica.
+ * Exposition from node sidecars is read back with parseExposition.
+ */
+
+export type Labels = Record<string, string | number>;
+
+export interface GaugeSample {
+  labels?: Labels;
+  value: number;
+}
+
+function escapeLabelValue(value: string | number): string {
+  return String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Labels = {}): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabelValue(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) {
+    return 'NaN';
+  }
+  if (!Number.isFinite(value)) {
+    return value > 0 ? '+Inf' : '-Inf';
+  }
+  return String(value);
+}
+
+/**
+ * A gauge family with its HELP and TYPE lines
+ */
+export function renderGauge(name: string, help: string, samples: GaugeSample[]): string {
+  const lines = [`# HELP ${name} ${help}`, `# TYPE ${name} gauge`];
+
+  for (const sample of samples) {
+    lines.push(`${name}${formatLabels(sample.labels)} ${formatValue(sample.value)}`);
+  }
+
+  return lines.join('\n');
+}
+
+interface HistogramSeries {
+  labels: Labels;
+  counts: number[]; // per bucket, not cumulative
+  sum: number;
+  count: number;
+}
+
+export class Histogram {
+  private name: string;
+  private help: string;
+  private buckets: number[]; // upper bounds, ascending
+  private series: Map<string, HistogramSeries> = new Map();
+
+  constructor(name: string, help: string, buckets: number[]) {
+    this.name = name;
+    this.help = help;
+    this.buckets = buckets;
+  }
+
+  observe(labels: Labels, value: number): void {
+    const key = formatLabels(labels);
+    let series = this.series.get(key);
+
+    if (!series) {
+      series = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+
+    const index = this.buckets.findIndex(bound => value <= bound);
+    if (index >= 0) {
+      series.counts[index]++;
+    }
+    series.sum += value;
+    series.count++;
+  }
+
+  /**
+   * Time an async call, labelling it with its outcome
+   */
+  async time<T>(labels: Labels, fn: () => Promise<T>): Promise<T> {
+    const start = process.hrtime.bigint();
+    let outcome = 'success';
+
+    try {
+      return await fn();
+    } catch (error) {
+      outcome = 'error';
+      throw error;
+    } finally {
+      this.observe({ ...labels, outcome }, Number(process.hrtime.bigint() - start) / 1e9);
+    }
+  }
+
+  render(): string {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+
+    for (const series of this.series.values()) {
+      let cumulative = 0;
+
+      this.buckets.forEach((bound, index) => {
+        cumulative += series.counts[index];
+        lines.push(`${this.name}_bucket${formatLabels({ ...series.labels, le: bound })} ${cumulative}`);
+      });
+
+      lines.push(`${this.name}_bucket${formatLabels({ ...series.labels, le: '+Inf' })} ${series.count}`);
+      lines.push(`${this.name}_sum${formatLabels(series.labels)} ${formatValue(series.sum)}`);
+      lines.push(`${this.name}_count${formatLabels(series.labels)} ${series.count}`);
+    }
+
+    return lines.join('\n');
+  }
+}
+
+// Agent task run time on the worker, by task type and outcome
+export const taskDurationSeconds = new Histogram(
+  'mentis_task_duration_seconds',
+  'Time spent running agent tasks on this replica',
+  [0.5, 1, 2.5, 5, 10, 30, 60, 120, 300, 600]
+);
+
+// One model call inside an agent run, by provider, model and outcome
+export const llmCallDurationSeconds = new Histogram(
+  'mentis_llm_call_duration_seconds',
+  'Latency of LLM calls made by agents on this replica',
+  [0.25, 0.5, 1, 2, 4, 8, 15, 30, 60]
+);
+
+export interface ParsedSample {
+  name: string;
+  labels: Record<string, string>;
+  value: number;
+}
+
+const SAMPLE_LINE = /^([a-zA-Z_:][a-zA-Z0-9_:]*)(?:\{(.*)\})?\s+(\S+)(?:\s+-?\d+)?$/;
+const LABEL_PAIR = /([a-zA-Z_][a-zA-Z0-9_]*)\s*=\s*"((?:[^"\\]|\\.)*)"/g;
+
+function parseValue(value: string): number {
+  if (value === '+Inf' || value === 'Inf') {
+    return Infinity;
+  }
+  if (value === '-Inf') {
+    return -Infinity;
+  }
+  return Number(value);
+}
+
+/**
+ * Samples of a text exposition, e.g. a node_exporter scrape. Comments,
+ * timestamps and lines that do not parse are skipped.
+ */
+export function parseExposition(text: string): ParsedSample[] {
+  const samples: ParsedSample[] = [];
+
+  for (const line of text.split('\n')) {
+    const match = line.trim().match(SAMPLE_LINE);
+    if (!match) {
+      continue;
+    }
+
+    const labels: Record<string, string> = {};
+    for (const [, name, value] of (match[2] || '').matchAll(LABEL_PAIR)) {
+      labels[name] = value.replace(/\\(.)/g, (_, char) => (char === 'n' ? '\n' : char));
+    }
+
+    samples.push({ name: match[1], labels, value: parseValue(match[3]) });
+  }
+
+  return samples;
+}
@@ -0,0 +1,62 @@
+import axios from 'axios';
+
+export const DEFAULT_RPC_TIMEOUT_MS = parseInt(process.env.RPC_TIMEOUT_MS || '5000');
+
+export interface TimedResult<T> {
+  result: T;
+  latency: number; // round-trip time in milliseconds
+}
+
+export class RpcError extends Error {
+  public code?: number;
+  public data?: any;
+
+  constructor(message: string, code?: number, data?: any) {
+    super(message);
+    this.name = 'RpcError';
+    this.code = code;
+    this.data = data;
+  }
+}
+
+/**
+ * Perform a JSON-RPC 2.0 call and measure its round-trip latency
+ */
+export async function jsonRpcRequest<T = any>(
+  url: string,
+  method: string,
+  params: any[] = [],
+  timeoutMs: number = DEFAULT_RPC_TIMEOUT_MS
+): Promise<TimedResult<T>> {
+  const start = Date.now();
+  const response = await axios.post(
+    url,
+    { jsonrpc: '2.0', method, params, id: 1 },
+    {
+      headers: { 'Content-Type': 'application/json' },
+      timeout: timeoutMs,
+    }
+  );
+  const latency = Date.now() - start;
+
+  if (response.data?.error) {
+    const { message, code, data } = response.data.error;
+    throw new RpcError(message || `${method} failed`, code, data);
+  }
+
+  return { result: response.data?.result as T, latency };
+}
+
+/**
+ * Perform a plain HTTP GET returning JSON and measure its round-trip latency
+ */
+export async function httpGetJson<T = any>(
+  url: string,
+  timeoutMs: number = DEFAULT_RPC_TIMEOUT_MS
+): Promise<TimedResult<T>> {
+  const start = Date.now();
+  const response = await axios.get(url, { timeout: timeoutMs });
+  const latency = Date.now() - start;
+
+  return { result: response.data as T, latency };
+}